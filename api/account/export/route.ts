@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+
+// Everything the app stores about the caller, as one JSON download
+export async function GET(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("export_account_data");
+    if (error) throw error;
+
+    const filename = `pocketgrowth-account-${dayjs().format("YYYY-MM-DD")}.json`;
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
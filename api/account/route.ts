@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { createServiceClient } from "@/lib/supabaseServer";
+
+// Permanently deletes the caller's account and every row that belongs to it.
+// The body must repeat the account's email address as confirmation.
+export async function DELETE(request: Request) {
+  try {
+    const { user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const confirmation = typeof body.confirmEmail === "string" ? body.confirmEmail.trim().toLowerCase() : "";
+    if (!user.email || confirmation !== user.email.toLowerCase()) {
+      throw new ApiError("Type your email address to confirm deleting your account", 400);
+    }
+
+    const admin = createServiceClient();
+    const { error } = await admin.rpc("delete_account_data", { p_user_id: user.id });
+    if (error) throw error;
+
+    const avatars = admin.storage.from("avatars");
+    const { data: files } = await avatars.list(user.id);
+    if (files && files.length > 0) {
+      await avatars.remove(files.map((file) => `${user.id}/${file.name}`));
+    }
+
+    const { error: deleteError } = await admin.auth.admin.deleteUser(user.id);
+    if (deleteError) throw deleteError;
+
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
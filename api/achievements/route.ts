@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { errorResponse, readAllRows, requireUser } from "@/lib/apiRoute";
+import {
+  AchievementEntry,
+  Achievements,
+  BADGES,
+  BadgeAwardRow,
+  computeLevel,
+  computeStreak,
+  toBadge,
+} from "@/lib/achievements";
+
+const AWARD_COLUMNS = "badge_id, earned_at, awarded_at, seen_at";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    // Badges not yet on record are worked out and stored by the database;
+    // stored ones stay as they are
+    const { error: awardError } = await supabase.rpc("award_badges");
+    if (awardError) throw awardError;
+
+    const entries = (await readAllRows((from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, type, amount, locked_delta, reverses_id, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    )) as AchievementEntry[];
+
+    const { data: stored, error: storedError } = await supabase
+      .from("badge_awards")
+      .select(AWARD_COLUMNS)
+      .eq("user_id", user.id);
+    if (storedError) throw storedError;
+
+    const badges = ((stored ?? []) as BadgeAwardRow[])
+      .filter((row) => BADGES.some((badge) => badge.id === row.badge_id))
+      .map(toBadge)
+      .sort((a, b) => b.earnedAt.localeCompare(a.earnedAt));
+    const achievements: Achievements = {
+      streak: computeStreak(entries),
+      level: computeLevel(entries),
+      badges,
+      locked: BADGES.filter((badge) => !badges.some((b) => b.id === badge.id)),
+    };
+    return NextResponse.json(achievements);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
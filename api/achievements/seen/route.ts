@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+
+// Clears the "new" marker on every badge the user has been shown.
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("badge_awards")
+      .update({ seen_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .is("seen_at", null)
+      .select("badge_id");
+    if (error) throw error;
+
+    return NextResponse.json({ seen: (data ?? []).length });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
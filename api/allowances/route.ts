@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseAmount, parseClientId, readJson, requireUser } from "@/lib/apiRoute";
+import { toJarShares } from "@/lib/jars";
+import { AllowanceResult, toBalances } from "@/lib/ledger";
+import { toSavingsParts } from "@/lib/savingsRules";
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+    const amount = parseAmount(body.amount);
+    if (body.sourceId !== undefined && body.sourceId !== null && typeof body.sourceId !== "string") {
+      throw new ApiError("Unknown income source", 400);
+    }
+
+    const { data, error } = await supabase.rpc("record_allowance", {
+      p_amount: amount,
+      p_source_id: body.sourceId || null,
+      p_client_id: parseClientId(body.clientId),
+    });
+    if (error) throw error;
+
+    const result: AllowanceResult = {
+      ...toBalances(data),
+      savedAmount: Number(data.saved_amount),
+      savingsPercent: Number(data.savings_percent),
+      breakdown: toSavingsParts(data.breakdown),
+      jars: toJarShares(data.jars),
+      duplicate: data.duplicate === true,
+    };
+    return NextResponse.json(result);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { toBalances } from "@/lib/ledger";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("ledger_balances", { p_user_id: user.id });
+    if (error) throw error;
+
+    return NextResponse.json(toBalances(data));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, requireUser } from "@/lib/apiRoute";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// Past spends keep their amounts; they just become uncategorized.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("spend_categories")
+      .delete()
+      .eq("id", id)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Category not found", 404);
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
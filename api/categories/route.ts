@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("spend_categories")
+      .select("id, name, icon")
+      .order("name", { ascending: true });
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+    const name = parseOptionalText(body.name, "name", 40);
+    if (!name) {
+      throw new ApiError("Category name is required", 400);
+    }
+    const icon = parseOptionalText(body.icon, "icon", 8) ?? "🛒";
+
+    const { data, error } = await supabase
+      .from("spend_categories")
+      .insert({ user_id: user.id, name, icon })
+      .select("id, name, icon")
+      .single();
+    if (error) {
+      if (error.code === "23505") {
+        throw new ApiError(`You already have a "${name}" category`, 409);
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
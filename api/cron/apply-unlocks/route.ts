@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireCronSecret } from "@/lib/apiRoute";
+import { createServiceClient } from "@/lib/supabaseServer";
+
+// Called by the scheduler (see vercel.json) with CRON_SECRET as a bearer
+// token. Applies every unlock request whose cooling-off period has ended.
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("apply_matured_unlocks");
+    if (error) throw error;
+
+    return NextResponse.json({ applied: data });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
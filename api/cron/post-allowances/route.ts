@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireCronSecret } from "@/lib/apiRoute";
+import { createServiceClient } from "@/lib/supabaseServer";
+
+// Called by the scheduler (see vercel.json) with CRON_SECRET as a bearer
+// token. Safe to call repeatedly: already posted periods are skipped.
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("post_due_allowances");
+    if (error) throw error;
+
+    return NextResponse.json({ posted: data });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
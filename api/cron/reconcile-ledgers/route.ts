@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireCronSecret } from "@/lib/apiRoute";
+import { createServiceClient } from "@/lib/supabaseServer";
+
+// Called by the scheduler (see vercel.json) with CRON_SECRET as a bearer
+// token. Records a check for every user; repairs are left to each user.
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("reconcile_all_ledgers");
+    if (error) throw error;
+
+    return NextResponse.json({ outOfBalance: data });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
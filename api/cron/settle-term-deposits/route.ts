@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireCronSecret } from "@/lib/apiRoute";
+import { createServiceClient } from "@/lib/supabaseServer";
+
+// Called by the scheduler (see vercel.json) with CRON_SECRET as a bearer
+// token. Returns every matured term deposit to locked savings.
+export async function GET(request: Request) {
+  try {
+    requireCronSecret(request);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("settle_term_deposits");
+    if (error) throw error;
+
+    return NextResponse.json({ settled: data });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// Unlinks a child. Only the guardian side may do this.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { error } = await supabase.rpc("remove_guardian_link", { p_other_id: id });
+    if (error) throw error;
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
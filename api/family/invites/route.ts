@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("create_guardian_invite");
+    if (error) throw error;
+
+    return NextResponse.json({ code: data }, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+
+    const code = typeof body.code === "string" ? body.code.trim() : "";
+    if (!code) {
+      throw new ApiError("Please enter an invite code", 400);
+    }
+
+    const { data, error } = await supabase.rpc("redeem_guardian_invite", { p_code: code });
+    if (error) throw error;
+
+    return NextResponse.json({ guardianId: data });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { ChildSummary, FamilyOverview, GuardianLinkRow, toGuardianLink } from "@/lib/family";
+import { toBalances } from "@/lib/ledger";
+import { REQUEST_COLUMNS, toUnlockRequest, UnlockRequestRow } from "@/lib/unlockRequests";
+
+type ChildRequestRow = UnlockRequestRow & { user_id: string };
+
+// Both sides of the caller's family: the guardians they are linked to and,
+// for guardians, each child's balances and the requests awaiting a decision.
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data: links, error } = await supabase
+      .from("guardian_links")
+      .select("guardian_id, child_id, guardian_email, child_email, created_at")
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    const all = (links as GuardianLinkRow[]).map(toGuardianLink);
+    const guardians = all.filter((link) => link.childId === user.id);
+    const childLinks = all.filter((link) => link.guardianId === user.id);
+
+    let requests: ChildRequestRow[] = [];
+    if (childLinks.length > 0) {
+      const { data, error: requestsError } = await supabase
+        .from("unlock_requests")
+        .select(`user_id, ${REQUEST_COLUMNS}`)
+        .in("user_id", childLinks.map((link) => link.childId))
+        .eq("status", "awaiting_approval")
+        .order("created_at", { ascending: true });
+      if (requestsError) throw requestsError;
+      requests = data as ChildRequestRow[];
+    }
+
+    const children: ChildSummary[] = await Promise.all(
+      childLinks.map(async (link) => {
+        const { data, error: balancesError } = await supabase.rpc("ledger_balances", { p_user_id: link.childId });
+        if (balancesError) throw balancesError;
+
+        return {
+          id: link.childId,
+          email: link.childEmail,
+          ...toBalances(data),
+          requests: requests.filter((row) => row.user_id === link.childId).map(toUnlockRequest),
+        };
+      })
+    );
+
+    const { data: invites, error: invitesError } = await supabase
+      .from("guardian_invites")
+      .select("code, expires_at")
+      .eq("guardian_id", user.id)
+      .is("redeemed_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+    if (invitesError) throw invitesError;
+
+    const overview: FamilyOverview = {
+      guardians,
+      children,
+      invites: invites.map((row) => ({ code: row.code, expiresAt: row.expires_at })),
+    };
+    return NextResponse.json(overview);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
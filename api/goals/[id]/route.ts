@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { GoalRow, PROJECTION_WINDOW_DAYS, toGoal } from "@/lib/goals";
+import { checkAllocationTotal, parseGoalInput } from "../validation";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser(request);
+    const input = parseGoalInput(await readJson(request), false);
+    if (input.allocation_percent !== undefined) {
+      await checkAllocationTotal(supabase, user.id, input.allocation_percent, id);
+    }
+
+    const { data, error } = await supabase
+      .from("savings_goals")
+      .update(input)
+      .eq("id", id)
+      .select("id, name, target_amount, deadline, icon, allocation_percent, allocated_amount, created_at")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Goal not found", 404);
+
+    // The projection needs the recent allocations, the same as in the list
+    const { data: allocations, error: allocationError } = await supabase
+      .from("goal_allocations")
+      .select("goal_id, amount, created_at")
+      .eq("goal_id", id)
+      .gte("created_at", dayjs().subtract(PROJECTION_WINDOW_DAYS, "day").toISOString());
+    if (allocationError) throw allocationError;
+
+    return NextResponse.json(toGoal(data as GoalRow, allocations ?? []));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Deleting a goal releases its allocation back into unallocated locked
+// savings; the locked balance itself does not change.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("savings_goals")
+      .delete()
+      .eq("id", id)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Goal not found", 404);
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
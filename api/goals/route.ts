@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { GoalRow, PROJECTION_WINDOW_DAYS, toGoal } from "@/lib/goals";
+import { parseGoalInput, checkAllocationTotal } from "./validation";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data: goals, error } = await supabase
+      .from("savings_goals")
+      .select("id, name, target_amount, deadline, icon, allocation_percent, allocated_amount, created_at")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    const { data: allocations, error: allocationError } = await supabase
+      .from("goal_allocations")
+      .select("goal_id, amount, created_at")
+      .eq("user_id", user.id)
+      .gte("created_at", dayjs().subtract(PROJECTION_WINDOW_DAYS, "day").toISOString());
+    if (allocationError) throw allocationError;
+
+    return NextResponse.json(
+      (goals as GoalRow[]).map((goal) =>
+        toGoal(goal, (allocations ?? []).filter((a) => a.goal_id === goal.id))
+      )
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const input = parseGoalInput(await readJson(request), true);
+    await checkAllocationTotal(supabase, user.id, input.allocation_percent ?? 0);
+
+    const { data, error } = await supabase
+      .from("savings_goals")
+      .insert({ ...input, user_id: user.id })
+      .select("id, name, target_amount, deadline, icon, allocation_percent, allocated_amount, created_at")
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(toGoal(data as GoalRow, []), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
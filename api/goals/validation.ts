@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import dayjs from "dayjs";
+import { ApiError, parseAmount } from "@/lib/apiRoute";
+import { GOAL_ICONS } from "@/lib/goals";
+
+export interface GoalInput {
+  name?: string;
+  target_amount?: number;
+  deadline?: string | null;
+  icon?: string;
+  allocation_percent?: number;
+}
+
+// Validates a goal body. With `requireAll` every field needed to create a
+// goal must be present; otherwise only the fields given are checked.
+export function parseGoalInput(body: Record<string, unknown>, requireAll: boolean): GoalInput {
+  const input: GoalInput = {};
+
+  if (body.name !== undefined || requireAll) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 80) {
+      throw new ApiError("Goal name must be between 1 and 80 characters", 400);
+    }
+    input.name = name;
+  }
+
+  if (body.targetAmount !== undefined || requireAll) {
+    input.target_amount = parseAmount(body.targetAmount);
+  }
+
+  if (body.deadline !== undefined) {
+    if (body.deadline === null || body.deadline === "") {
+      input.deadline = null;
+    } else if (typeof body.deadline !== "string" || !dayjs(body.deadline, "YYYY-MM-DD").isValid()) {
+      throw new ApiError("Deadline must be a date", 400);
+    } else {
+      input.deadline = dayjs(body.deadline).format("YYYY-MM-DD");
+    }
+  }
+
+  if (body.icon !== undefined) {
+    if (typeof body.icon !== "string" || !GOAL_ICONS.includes(body.icon)) {
+      throw new ApiError("Unknown goal icon", 400);
+    }
+    input.icon = body.icon;
+  }
+
+  if (body.allocationPercent !== undefined) {
+    const percent = Number(body.allocationPercent);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw new ApiError("Allocation must be between 0% and 100%", 400);
+    }
+    input.allocation_percent = percent;
+  }
+
+  return input;
+}
+
+// Goals share the saved part of each allowance, so their allocations may not
+// add up to more than 100%.
+export async function checkAllocationTotal(
+  supabase: SupabaseClient,
+  userId: string,
+  percent: number,
+  excludeGoalId?: string
+) {
+  let query = supabase.from("savings_goals").select("allocation_percent").eq("user_id", userId);
+  if (excludeGoalId) {
+    query = query.neq("id", excludeGoalId);
+  }
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const others = (data ?? []).reduce((sum, g) => sum + Number(g.allocation_percent), 0);
+  if (others + percent > 100) {
+    throw new ApiError(`Goal allocations can add up to at most 100% (${100 - others}% left)`, 400);
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { MAX_SOURCE_NAME_LENGTH } from "@/lib/incomeSources";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+    const name = parseOptionalText(body.name, "name", MAX_SOURCE_NAME_LENGTH);
+    if (!name) {
+      throw new ApiError("Source name is required", 400);
+    }
+
+    const { data, error } = await supabase
+      .from("income_sources")
+      .update({ name })
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select("id, name")
+      .maybeSingle();
+    if (error) {
+      if (error.code === "23505") {
+        throw new ApiError(`You already have a "${name}" source`, 409);
+      }
+      throw error;
+    }
+    if (!data) throw new ApiError("Income source not found", 404);
+
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Past deposits keep their amounts but lose the source; rules for the source
+// are removed with it.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase, user } = await requireUser(request);
+
+    const { count, error: countError } = await supabase
+      .from("income_sources")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id);
+    if (countError) throw countError;
+    if ((count ?? 0) <= 1) {
+      throw new ApiError("Keep at least one income source", 409);
+    }
+
+    const { data, error } = await supabase
+      .from("income_sources")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Income source not found", 404);
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
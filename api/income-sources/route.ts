@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { MAX_SOURCE_NAME_LENGTH } from "@/lib/incomeSources";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    // First visit: create the default sources
+    const { error: ensureError } = await supabase.rpc("ensure_income_sources", { p_user_id: user.id });
+    if (ensureError) throw ensureError;
+
+    const { data, error } = await supabase
+      .from("income_sources")
+      .select("id, name")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    return NextResponse.json(data);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+    const name = parseOptionalText(body.name, "name", MAX_SOURCE_NAME_LENGTH);
+    if (!name) {
+      throw new ApiError("Source name is required", 400);
+    }
+
+    const { data, error } = await supabase
+      .from("income_sources")
+      .insert({ user_id: user.id, name })
+      .select("id, name")
+      .single();
+    if (error) {
+      if (error.code === "23505") {
+        throw new ApiError(`You already have a "${name}" source`, 409);
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
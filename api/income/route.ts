@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, requireUser } from "@/lib/apiRoute";
+import { IncomeBreakdown, IncomeBySourceRow, toIncomeBySource } from "@/lib/incomeSources";
+
+function parseDay(value: string | null, field: string, fallback: dayjs.Dayjs): dayjs.Dayjs {
+  if (!value) return fallback;
+  const date = dayjs(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !date.isValid()) {
+    throw new ApiError(`${field} must be a date (YYYY-MM-DD)`, 400);
+  }
+  return date;
+}
+
+// Income per source between two days, inclusive. Reversed deposits net out.
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const params = new URL(request.url).searchParams;
+
+    const to = parseDay(params.get("to"), "to", dayjs());
+    const from = parseDay(params.get("from"), "from", to.startOf("month"));
+    if (from.isAfter(to)) {
+      throw new ApiError("The start date must be on or before the end date", 400);
+    }
+
+    const { error: ensureError } = await supabase.rpc("ensure_income_sources", { p_user_id: user.id });
+    if (ensureError) throw ensureError;
+
+    const { data, error } = await supabase.rpc("income_by_source", {
+      p_from: from.startOf("day").toISOString(),
+      p_to: to.add(1, "day").startOf("day").toISOString(),
+    });
+    if (error) throw error;
+
+    const sources = ((data ?? []) as IncomeBySourceRow[]).map(toIncomeBySource);
+    const breakdown: IncomeBreakdown = {
+      from: from.format("YYYY-MM-DD"),
+      to: to.format("YYYY-MM-DD"),
+      total: sources.reduce((sum, source) => sum + source.total, 0),
+      sources,
+    };
+    return NextResponse.json(breakdown);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { Compounding, COMPOUNDINGS, InterestSettings, MAX_ANNUAL_RATE, MAX_SELF_SET_RATE } from "@/lib/interest";
+
+// Guardians pass ?userId= to read a linked child's terms; RLS limits who can
+// be read.
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const userId = new URL(request.url).searchParams.get("userId") ?? user.id;
+
+    const { data, error } = await supabase
+      .from("interest_settings")
+      .select("annual_rate, compounding, paid_by")
+      .eq("user_id", userId)
+      .maybeSingle();
+    if (error) throw error;
+
+    let paidByEmail: string | null = null;
+    if (data?.paid_by) {
+      const { data: link, error: linkError } = await supabase
+        .from("guardian_links")
+        .select("guardian_email")
+        .eq("guardian_id", data.paid_by)
+        .eq("child_id", userId)
+        .maybeSingle();
+      if (linkError) throw linkError;
+      paidByEmail = link?.guardian_email ?? null;
+    }
+
+    const settings: InterestSettings = {
+      annualRate: Number(data?.annual_rate ?? 0),
+      compounding: (data?.compounding ?? "monthly") as Compounding,
+      guardianPaid: Boolean(data?.paid_by),
+      paidByEmail,
+    };
+    return NextResponse.json(settings);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const annualRate = Number(body.annualRate);
+    if (!Number.isFinite(annualRate) || annualRate < 0 || annualRate > MAX_ANNUAL_RATE) {
+      throw new ApiError(`The annual rate must be between 0 and ${MAX_ANNUAL_RATE}`, 400);
+    }
+    if (body.guardianPaid !== true && annualRate > MAX_SELF_SET_RATE) {
+      throw new ApiError(`Unless a guardian pays it, the annual rate can be at most ${MAX_SELF_SET_RATE}%`, 400);
+    }
+    if (!COMPOUNDINGS.some((c) => c.id === body.compounding)) {
+      throw new ApiError("Please choose how often interest compounds", 400);
+    }
+    const userId = typeof body.userId === "string" && body.userId ? body.userId : user.id;
+
+    const { error } = await supabase.rpc("set_interest_settings", {
+      p_user_id: userId,
+      p_annual_rate: Math.round(annualRate * 100) / 100,
+      p_compounding: body.compounding,
+      p_guardian_paid: body.guardianPaid === true,
+    });
+    if (error) throw error;
+
+    return NextResponse.json({ userId });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { JarRow, toJar } from "@/lib/jars";
+import { parseJars } from "./validation";
+
+async function listJars(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc("jar_balances");
+  if (error) throw error;
+
+  return ((data ?? []) as JarRow[]).map(toJar);
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    return NextResponse.json(await listJars(supabase));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Jars are edited as a list in settings and saved together, since their
+// percentages have to add up to 100. An empty list turns jars off.
+export async function PUT(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const jars = parseJars((await readJson(request)).jars);
+
+    const { error } = await supabase.rpc("set_jars", { p_jars: jars });
+    if (error) throw error;
+
+    return NextResponse.json(await listJars(supabase));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
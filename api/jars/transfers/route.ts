@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, isUuid, parseAmount, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { JarRow, toJar } from "@/lib/jars";
+import { toBalances } from "@/lib/ledger";
+
+// Moves money from one jar to another. Returns the new balances and jars.
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+    if (!isUuid(body.fromJarId) || !isUuid(body.toJarId)) {
+      throw new ApiError("Choose the jars to move money between", 400);
+    }
+
+    const { data, error } = await supabase.rpc("transfer_between_jars", {
+      p_from_jar_id: body.fromJarId,
+      p_to_jar_id: body.toJarId,
+      p_amount: parseAmount(body.amount),
+      p_notes: parseOptionalText(body.notes, "notes"),
+    });
+    if (error) throw error;
+
+    const { data: jars, error: jarsError } = await supabase.rpc("jar_balances");
+    if (jarsError) throw jarsError;
+
+    return NextResponse.json({ ...toBalances(data), jars: ((jars ?? []) as JarRow[]).map(toJar) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,57 @@
+import { ApiError, isUuid, parseAmount } from "@/lib/apiRoute";
+import { Jar, MAX_JAR_NAME_LENGTH, MAX_JARS } from "@/lib/jars";
+
+// Jar rows as stored by set_jars()
+export interface JarInput {
+  id: string | null;
+  name: string;
+  percent: number;
+  locked: boolean;
+  goal_amount: number | null;
+}
+
+function parseJar(value: unknown, position: number): JarInput {
+  const jar = (typeof value === "object" && value !== null ? value : {}) as Partial<Jar>;
+
+  const name = typeof jar.name === "string" ? jar.name.trim() : "";
+  if (!name || name.length > MAX_JAR_NAME_LENGTH) {
+    throw new ApiError(`Jar ${position}: name must be between 1 and ${MAX_JAR_NAME_LENGTH} characters`, 400);
+  }
+
+  const percent = Number(jar.percent);
+  if (jar.percent === null || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new ApiError(`Jar ${position}: percent must be between 0 and 100`, 400);
+  }
+
+  if (jar.locked !== undefined && typeof jar.locked !== "boolean") {
+    throw new ApiError(`Jar ${position}: locked must be true or false`, 400);
+  }
+
+  return {
+    // Ownership is checked by set_jars(); other ids start a new jar
+    id: isUuid(jar.id) ? jar.id : null,
+    name,
+    percent: Math.round(percent * 100) / 100,
+    locked: jar.locked === true,
+    goal_amount: jar.goalAmount === undefined || jar.goalAmount === null ? null : parseAmount(jar.goalAmount),
+  };
+}
+
+export function parseJars(value: unknown): JarInput[] {
+  if (!Array.isArray(value)) {
+    throw new ApiError("Jars must be a list", 400);
+  }
+  if (value.length > MAX_JARS) {
+    throw new ApiError(`You can have at most ${MAX_JARS} jars`, 400);
+  }
+
+  const jars = value.map((jar, index) => parseJar(jar, index + 1));
+  const names = new Set(jars.map((jar) => jar.name.toLowerCase()));
+  if (names.size < jars.length) {
+    throw new ApiError("Each jar needs a different name", 400);
+  }
+  if (jars.length > 0 && Math.round(jars.reduce((sum, jar) => sum + jar.percent, 0) * 100) !== 10000) {
+    throw new ApiError("Jar percentages must add up to 100", 400);
+  }
+  return jars;
+}
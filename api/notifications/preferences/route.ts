@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { NotificationPreferences, isNotificationKind, resolvePreferences } from "@/lib/notifications";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("user_settings")
+      .select("notification_preferences")
+      .eq("id", user.id)
+      .maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json({ preferences: resolvePreferences(data?.notification_preferences ?? null) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const input = body.preferences;
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      throw new ApiError("preferences must be an object of notification types", 400);
+    }
+    const preferences: NotificationPreferences = {};
+    for (const [kind, enabled] of Object.entries(input)) {
+      if (!isNotificationKind(kind) || typeof enabled !== "boolean") {
+        throw new ApiError(`Invalid notification preference: ${kind}`, 400);
+      }
+      // Only opt-outs are stored; everything else notifies
+      if (!enabled) preferences[kind] = false;
+    }
+
+    const { error } = await supabase.from("user_settings").upsert(
+      { id: user.id, notification_preferences: preferences, updated_at: new Date().toISOString() },
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+
+    return NextResponse.json({ preferences: resolvePreferences(preferences) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
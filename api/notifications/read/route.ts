@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+
+// Marks the given notifications read, or all of them when no ids are sent.
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const ids = body.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === "string"))) {
+      throw new ApiError("ids must be a list of notification ids", 400);
+    }
+
+    let query = supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+    if (ids !== undefined) query = query.in("id", ids as string[]);
+
+    const { data, error } = await query.select("id");
+    if (error) throw error;
+
+    return NextResponse.json({ read: (data ?? []).length });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { NOTIFICATION_COLUMNS, NotificationFeed, NotificationRow, toNotification } from "@/lib/notifications";
+
+const FEED_LIMIT = 50;
+
+// The latest notifications, newest first, with the total still unread.
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("notifications")
+      .select(NOTIFICATION_COLUMNS)
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(FEED_LIMIT);
+    if (error) throw error;
+
+    const { count, error: countError } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .is("read_at", null);
+    if (countError) throw countError;
+
+    const feed: NotificationFeed = {
+      notifications: ((data ?? []) as NotificationRow[]).map(toNotification),
+      unreadCount: count ?? 0,
+    };
+    return NextResponse.json(feed);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { MAX_DISPLAY_NAME_LENGTH, PROFILE_COLUMNS, ProfileRow, isCurrency, isLocale, toProfile } from "@/lib/profile";
+
+// Avatars are uploaded from the browser into the user's own folder of the
+// public avatars bucket; only URLs pointing there are accepted.
+function parseAvatarUrl(value: unknown, userId: string): string | null {
+  const url = parseOptionalText(value, "avatarUrl", 1000);
+  const prefix = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/avatars/${userId}/`;
+  if (url !== null && !url.startsWith(prefix)) {
+    throw new ApiError("avatarUrl must point to an uploaded avatar", 400);
+  }
+  return url;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase.from("profiles").select(PROFILE_COLUMNS).eq("id", user.id).maybeSingle();
+    if (error) throw error;
+
+    return NextResponse.json(toProfile(data as ProfileRow | null));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Updates only the fields present in the body
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const changes: Partial<ProfileRow> = {};
+    if ("displayName" in body) {
+      changes.display_name = parseOptionalText(body.displayName, "displayName", MAX_DISPLAY_NAME_LENGTH);
+    }
+    if ("avatarUrl" in body) {
+      changes.avatar_url = parseAvatarUrl(body.avatarUrl, user.id);
+    }
+    if ("currency" in body) {
+      if (!isCurrency(body.currency)) throw new ApiError("Unsupported currency", 400);
+      changes.currency = body.currency;
+    }
+    if ("locale" in body) {
+      if (!isLocale(body.locale)) throw new ApiError("Unsupported language and region", 400);
+      changes.locale = body.locale;
+    }
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .upsert({ id: user.id, ...changes, updated_at: new Date().toISOString() }, { onConflict: "id" })
+      .select(PROFILE_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(toProfile(data as ProfileRow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { ReconciliationRow, toReconciliation } from "@/lib/reconciliation";
+
+// Resets the stored locked savings to the ledger's total and records an
+// adjustment entry. Returns the check made after the repair.
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("repair_ledger");
+    if (error) throw error;
+
+    return NextResponse.json(toReconciliation(data as ReconciliationRow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { RECONCILIATION_COLUMNS, ReconciliationRow, toReconciliation } from "@/lib/reconciliation";
+
+// The caller's most recent checks, newest first
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("ledger_reconciliations")
+      .select(RECONCILIATION_COLUMNS)
+      .eq("user_id", user.id)
+      .order("checked_at", { ascending: false })
+      .limit(10);
+    if (error) throw error;
+
+    return NextResponse.json(((data ?? []) as ReconciliationRow[]).map(toReconciliation));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Compares the stored balances with the ledger now
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("reconcile_ledger");
+    if (error) throw error;
+
+    return NextResponse.json(toReconciliation(data as ReconciliationRow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
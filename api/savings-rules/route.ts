@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { SavingsRuleRow, toSavingsRule } from "@/lib/savingsRules";
+import { parseRules } from "./validation";
+
+async function listRules(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase
+    .from("savings_rules")
+    .select("id, kind, source_id, percent, threshold, amount, tiers, income_sources(name)")
+    .eq("user_id", userId)
+    .order("position", { ascending: true });
+  if (error) throw error;
+
+  return (data as unknown as SavingsRuleRow[]).map(toSavingsRule);
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    return NextResponse.json(await listRules(supabase, user.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Rules are edited as a list in settings and saved together, which keeps
+// their order simple to maintain.
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const rules = parseRules((await readJson(request)).rules);
+
+    const { error } = await supabase.rpc("replace_savings_rules", { p_rules: rules });
+    if (error) throw error;
+
+    return NextResponse.json(await listRules(supabase, user.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,81 @@
+import { ApiError, parseAmount } from "@/lib/apiRoute";
+import { MAX_RULES, RULE_KINDS, SavingsRule } from "@/lib/savingsRules";
+
+// Rule rows as stored by replace_savings_rules()
+export interface RuleInput {
+  kind: string;
+  source_id: string | null;
+  percent: number | null;
+  threshold: number | null;
+  amount: number | null;
+  tiers: { up_to: number | null; percent: number }[] | null;
+}
+
+function parsePercent(value: unknown, position: number): number {
+  const percent = Number(value);
+  if (value === null || value === "" || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+    throw new ApiError(`Rule ${position}: percent must be between 0 and 100`, 400);
+  }
+  return Math.round(percent * 100) / 100;
+}
+
+function parseRule(value: unknown, position: number): RuleInput {
+  const rule = (typeof value === "object" && value !== null ? value : {}) as Partial<SavingsRule>;
+  if (!RULE_KINDS.some((k) => k.id === rule.kind)) {
+    throw new ApiError(`Rule ${position}: unknown rule type`, 400);
+  }
+
+  const input: RuleInput = { kind: rule.kind!, source_id: null, percent: null, threshold: null, amount: null, tiers: null };
+  switch (rule.kind) {
+    case "source_percent":
+      // Ownership is checked by replace_savings_rules()
+      if (typeof rule.sourceId !== "string" || !rule.sourceId) {
+        throw new ApiError(`Rule ${position}: choose an income source`, 400);
+      }
+      input.source_id = rule.sourceId;
+      input.percent = parsePercent(rule.percent, position);
+      break;
+    case "windfall": {
+      const threshold = Number(rule.threshold);
+      if (!Number.isFinite(threshold) || threshold < 0) {
+        throw new ApiError(`Rule ${position}: the windfall amount must be zero or more`, 400);
+      }
+      input.threshold = Math.round(threshold * 100) / 100;
+      input.percent = parsePercent(rule.percent, position);
+      break;
+    }
+    case "minimum":
+      input.amount = parseAmount(rule.amount);
+      break;
+    case "tiered": {
+      const tiers = Array.isArray(rule.tiers) ? rule.tiers : [];
+      if (tiers.length === 0 || tiers.length > 5) {
+        throw new ApiError(`Rule ${position}: add between 1 and 5 tiers`, 400);
+      }
+      let previous = 0;
+      input.tiers = tiers.map((tier, i) => {
+        const last = i === tiers.length - 1;
+        if (last !== (tier.upTo === null || tier.upTo === undefined)) {
+          throw new ApiError(`Rule ${position}: only the last tier covers "the rest"`, 400);
+        }
+        if (!last && !(Number(tier.upTo) > previous)) {
+          throw new ApiError(`Rule ${position}: tier limits must go up`, 400);
+        }
+        previous = Number(tier.upTo);
+        return { up_to: last ? null : Math.round(Number(tier.upTo) * 100) / 100, percent: parsePercent(tier.percent, position) };
+      });
+      break;
+    }
+  }
+  return input;
+}
+
+export function parseRules(value: unknown): RuleInput[] {
+  if (!Array.isArray(value)) {
+    throw new ApiError("Rules must be a list", 400);
+  }
+  if (value.length > MAX_RULES) {
+    throw new ApiError(`You can have at most ${MAX_RULES} rules`, 400);
+  }
+  return value.map((rule, index) => parseRule(rule, index + 1));
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, readAllRows, requireUser } from "@/lib/apiRoute";
+import {
+  bucketStarts,
+  buildSeries,
+  ChartInterval,
+  CHART_INTERVALS,
+  JarLedgerEntry,
+  LedgerEntry,
+  MAX_BUCKETS,
+  previousRange,
+  SavingsSeries,
+  SeriesJar,
+} from "@/lib/savingsSeries";
+
+function parseDay(value: string | null, field: string, fallback: dayjs.Dayjs): dayjs.Dayjs {
+  if (!value) return fallback;
+  const date = dayjs(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !date.isValid()) {
+    throw new ApiError(`${field} must be a date (YYYY-MM-DD)`, 400);
+  }
+  return date;
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const params = new URL(request.url).searchParams;
+
+    const interval = (params.get("interval") ?? "monthly") as ChartInterval;
+    if (!CHART_INTERVALS.includes(interval)) {
+      throw new ApiError("Interval must be daily, weekly, monthly or yearly", 400);
+    }
+    const to = parseDay(params.get("to"), "to", dayjs());
+    const from = parseDay(params.get("from"), "from", to.subtract(6, "month"));
+    if (from.isAfter(to)) {
+      throw new ApiError("The start date must be on or before the end date", 400);
+    }
+    if (bucketStarts(from, to, interval).length > MAX_BUCKETS) {
+      throw new ApiError("That range has too many points. Choose a shorter range or a longer interval.", 400);
+    }
+
+    // Balances at any date depend on everything before it, so read the
+    // ledger from the beginning up to the end of the range.
+    const entries = (await readAllRows((start, end) =>
+      supabase
+        .from("transactions")
+        .select("id, type, amount, locked_delta, reason, notes, reverses_id, income_source_id, created_at")
+        .eq("user_id", user.id)
+        .lte("created_at", to.endOf("day").toISOString())
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(start, end)
+    )) as LedgerEntry[];
+
+    const { data: jars, error: jarsError } = await supabase
+      .from("jars")
+      .select("id, name, locked")
+      .eq("user_id", user.id)
+      .order("position", { ascending: true });
+    if (jarsError) throw jarsError;
+
+    const jarEntries =
+      jars && jars.length > 0
+        ? ((await readAllRows((start, end) =>
+            supabase
+              .from("jar_entries")
+              .select("jar_id, amount, created_at")
+              .eq("user_id", user.id)
+              .lte("created_at", to.endOf("day").toISOString())
+              .order("created_at", { ascending: true })
+              .order("id", { ascending: true })
+              .range(start, end)
+          )) as JarLedgerEntry[])
+        : [];
+
+    const sourceId = params.get("source") || null;
+    const previous = previousRange(from, to);
+    const series: SavingsSeries = {
+      from: from.format("YYYY-MM-DD"),
+      to: to.format("YYYY-MM-DD"),
+      interval,
+      sourceId,
+      jars: (jars ?? []) as SeriesJar[],
+      points: buildSeries(entries, from, to, interval, sourceId, jarEntries),
+      previous:
+        params.get("compare") === "1"
+          ? buildSeries(entries, previous.from, previous.to, interval, sourceId, jarEntries)
+          : null,
+    };
+    return NextResponse.json(series);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { ScheduleRow, toSchedule } from "@/lib/schedules";
+import { parseScheduleInput } from "../validation";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+    const input = parseScheduleInput(await readJson(request), false);
+
+    const { data, error } = await supabase
+      .from("allowance_schedules")
+      .update(input)
+      .eq("id", id)
+      .select("id, amount, cadence, interval_days, start_date, end_date, source_label, income_source_id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Schedule not found", 404);
+
+    return NextResponse.json(toSchedule(data as ScheduleRow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+// Allowances already posted by the schedule stay in the ledger.
+export async function DELETE(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("allowance_schedules")
+      .delete()
+      .eq("id", id)
+      .select("id")
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new ApiError("Schedule not found", 404);
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
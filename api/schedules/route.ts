@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { ScheduleRow, toSchedule } from "@/lib/schedules";
+import { parseScheduleInput } from "./validation";
+
+const SCHEDULE_COLUMNS = "id, amount, cadence, interval_days, start_date, end_date, source_label, income_source_id";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase
+      .from("allowance_schedules")
+      .select(SCHEDULE_COLUMNS)
+      .order("created_at", { ascending: true });
+    if (error) throw error;
+
+    return NextResponse.json((data as ScheduleRow[]).map(toSchedule));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const input = parseScheduleInput(await readJson(request), true);
+
+    const { data, error } = await supabase
+      .from("allowance_schedules")
+      .insert({ ...input, user_id: user.id })
+      .select(SCHEDULE_COLUMNS)
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(toSchedule(data as ScheduleRow), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
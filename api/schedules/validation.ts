@@ -0,0 +1,75 @@
+import dayjs from "dayjs";
+import { ApiError, parseAmount, parseOptionalText } from "@/lib/apiRoute";
+import { CADENCES } from "@/lib/schedules";
+
+export interface ScheduleInput {
+  amount?: number;
+  cadence?: string;
+  interval_days?: number | null;
+  start_date?: string;
+  end_date?: string | null;
+  source_label?: string;
+  income_source_id?: string | null;
+}
+
+function parseDate(value: unknown, field: string): string {
+  if (typeof value !== "string" || !dayjs(value).isValid()) {
+    throw new ApiError(`${field} must be a date`, 400);
+  }
+  return dayjs(value).format("YYYY-MM-DD");
+}
+
+// Cadence and start date are fixed once a schedule exists: changing them
+// would move due dates that may already have been posted.
+export function parseScheduleInput(body: Record<string, unknown>, creating: boolean): ScheduleInput {
+  const input: ScheduleInput = {};
+
+  if (body.amount !== undefined || creating) {
+    input.amount = parseAmount(body.amount);
+  }
+
+  if (creating) {
+    if (!CADENCES.some((c) => c.id === body.cadence)) {
+      throw new ApiError("Unknown cadence", 400);
+    }
+    input.cadence = body.cadence as string;
+
+    if (body.cadence === "custom") {
+      const days = Number(body.intervalDays);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        throw new ApiError("Custom schedules repeat every 1 to 365 days", 400);
+      }
+      input.interval_days = days;
+    }
+
+    input.start_date = parseDate(body.startDate, "Start date");
+    // Every due date from the start is posted, so a schedule cannot be
+    // backdated. Same day of slack as check_schedule_start() in SQL.
+    if (dayjs(input.start_date).isBefore(dayjs().subtract(1, "day"), "day")) {
+      throw new ApiError("A schedule cannot start in the past", 400);
+    }
+  } else if (body.cadence !== undefined || body.startDate !== undefined || body.intervalDays !== undefined) {
+    throw new ApiError("Cadence and start date cannot be changed; create a new schedule instead", 400);
+  }
+
+  if (body.endDate !== undefined) {
+    input.end_date = body.endDate === null || body.endDate === "" ? null : parseDate(body.endDate, "End date");
+  }
+
+  if (body.sourceLabel !== undefined || creating) {
+    input.source_label = parseOptionalText(body.sourceLabel, "Source label", 60) ?? "Allowance";
+  }
+
+  if (body.incomeSourceId !== undefined) {
+    if (body.incomeSourceId !== null && (typeof body.incomeSourceId !== "string" || !body.incomeSourceId)) {
+      throw new ApiError("Unknown income source", 400);
+    }
+    input.income_source_id = body.incomeSourceId;
+  }
+
+  if (input.start_date && input.end_date && input.end_date < input.start_date) {
+    throw new ApiError("End date must be after the start date", 400);
+  }
+
+  return input;
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { errorResponse, parseAmount, parseOptionalId, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { toBalances } from "@/lib/ledger";
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+    const amount = parseAmount(body.amount);
+    const categoryId = parseOptionalId(body.categoryId, "categoryId");
+    const merchant = parseOptionalText(body.merchant, "merchant", 80);
+    const notes = parseOptionalText(body.notes, "notes");
+
+    const { data, error } = await supabase.rpc("record_spend", {
+      p_amount: amount,
+      p_category_id: categoryId,
+      p_merchant: merchant,
+      p_notes: notes,
+    });
+    if (error) throw error;
+
+    return NextResponse.json(toBalances(data));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { TermDepositRow, toTermDeposit } from "@/lib/termDeposits";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// Closes a deposit before it matures, if its terms allow it. The money,
+// less any penalty, goes back to locked savings.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { data, error } = await supabase.rpc("withdraw_term_deposit", { p_deposit_id: id });
+    if (error) throw error;
+
+    return NextResponse.json(toTermDeposit(data as TermDepositRow));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { TERM_DEPOSIT_COLUMNS, TermDepositRow, toTermDeposit } from "@/lib/termDeposits";
+import { parseTermDepositInput } from "./validation";
+
+// How long closed deposits keep showing on the dashboard.
+const RECENT_DAYS = 7;
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    // Pay out anything that matured since the last scheduled run
+    const { error: settleError } = await supabase.rpc("settle_term_deposits");
+    if (settleError) throw settleError;
+
+    const { data, error } = await supabase
+      .from("term_deposits")
+      .select(TERM_DEPOSIT_COLUMNS)
+      .eq("user_id", user.id)
+      .or(`status.eq.active,closed_at.gte.${dayjs().subtract(RECENT_DAYS, "day").toISOString()}`)
+      .order("matures_on", { ascending: true });
+    if (error) throw error;
+
+    return NextResponse.json((data as TermDepositRow[]).map(toTermDeposit));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const input = parseTermDepositInput(await readJson(request));
+
+    const { data, error } = await supabase.rpc("open_term_deposit", input);
+    if (error) throw error;
+
+    return NextResponse.json(toTermDeposit(data as TermDepositRow), { status: 201 });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
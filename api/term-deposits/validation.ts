@@ -0,0 +1,53 @@
+import dayjs from "dayjs";
+import { ApiError, parseAmount } from "@/lib/apiRoute";
+import {
+  EARLY_WITHDRAWAL_OPTIONS,
+  EarlyWithdrawal,
+  MAX_PENALTY_PERCENT,
+  TermDepositSource,
+} from "@/lib/termDeposits";
+
+export interface TermDepositInput {
+  p_amount: number;
+  p_source: TermDepositSource;
+  p_matures_on: string;
+  p_early_withdrawal: EarlyWithdrawal;
+  p_penalty_percent: number;
+}
+
+function parsePercent(value: unknown, label: string, max: number): number {
+  const percent = value === undefined || value === null || value === "" ? 0 : Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > max) {
+    throw new ApiError(`${label} must be between 0% and ${max}%`, 400);
+  }
+  return Math.round(percent * 100) / 100;
+}
+
+// Validates the body for opening a term deposit, as arguments for open_term_deposit()
+export function parseTermDepositInput(body: Record<string, unknown>): TermDepositInput {
+  if (body.source !== "available" && body.source !== "locked") {
+    throw new ApiError("Choose where the money comes from", 400);
+  }
+
+  if (typeof body.maturesOn !== "string" || !dayjs(body.maturesOn, "YYYY-MM-DD").isValid()) {
+    throw new ApiError("Maturity date must be a date", 400);
+  }
+  const maturesOn = dayjs(body.maturesOn).startOf("day");
+  if (!maturesOn.isAfter(dayjs().startOf("day"))) {
+    throw new ApiError("The maturity date must be in the future", 400);
+  }
+
+  const earlyWithdrawal = EARLY_WITHDRAWAL_OPTIONS.find((o) => o.id === body.earlyWithdrawal)?.id;
+  if (!earlyWithdrawal) {
+    throw new ApiError("Choose whether early withdrawal is allowed", 400);
+  }
+
+  return {
+    p_amount: parseAmount(body.amount),
+    p_source: body.source,
+    p_matures_on: maturesOn.format("YYYY-MM-DD"),
+    p_early_withdrawal: earlyWithdrawal,
+    p_penalty_percent:
+      earlyWithdrawal === "penalty" ? parsePercent(body.penaltyPercent, "Penalty", MAX_PENALTY_PERCENT) : 0,
+  };
+}
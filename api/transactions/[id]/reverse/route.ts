@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { errorResponse, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { toBalances } from "@/lib/ledger";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+    const notes = parseOptionalText(body.notes, "notes");
+
+    const { data, error } = await supabase.rpc("reverse_transaction", {
+      p_transaction_id: id,
+      p_notes: notes,
+    });
+    if (error) throw error;
+
+    return NextResponse.json({ ...toBalances(data), reversalId: data.reversal_id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, readAllRows, requireUser } from "@/lib/apiRoute";
+import { toCsv } from "@/lib/csv";
+import { LEDGER_COLUMNS, LedgerExportRow } from "@/lib/ledgerImport";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const format = new URL(request.url).searchParams.get("format") ?? "csv";
+    if (format !== "csv" && format !== "json") {
+      throw new ApiError("Format must be csv or json", 400);
+    }
+
+    const transactions = await readAllRows((from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, type, amount, reason, notes, locked_delta, savings_percent, saved_amount, created_at, income_sources(name)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    );
+
+    let lockedAfter = 0;
+    const rows: LedgerExportRow[] = transactions.map((t) => {
+      lockedAfter += Number(t.locked_delta);
+      return {
+        type: t.type,
+        amount: Number(t.amount),
+        reason: t.reason,
+        notes: t.notes,
+        created_at: t.created_at,
+        source: (t.income_sources as unknown as { name: string } | null)?.name ?? null,
+        savings_percent: t.savings_percent === null ? null : Number(t.savings_percent),
+        saved_amount: t.saved_amount === null ? null : Number(t.saved_amount),
+        locked_after: Number(lockedAfter.toFixed(2)),
+      };
+    });
+
+    const filename = `pocketgrowth-transactions-${dayjs().format("YYYY-MM-DD")}.${format}`;
+    const body = format === "json"
+      ? JSON.stringify(rows, null, 2)
+      : toCsv([[...LEDGER_COLUMNS], ...rows.map((row) => LEDGER_COLUMNS.map((column) => row[column]))]);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "json" ? "application/json" : "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, readAllRows, readJson, requireUser } from "@/lib/apiRoute";
+import { toBalances } from "@/lib/ledger";
+import {
+  duplicateKey,
+  ImportCandidate,
+  ImportPreviewRow,
+  MAX_IMPORT_ROWS,
+  validateCandidate,
+} from "@/lib/ledgerImport";
+
+function parseCandidates(value: unknown): ImportCandidate[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ApiError("No rows to import", 400);
+  }
+  if (value.length > MAX_IMPORT_ROWS) {
+    throw new ApiError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`, 400);
+  }
+  return value.map((row, index) => ({
+    line: Number(row?.line) || index + 2,
+    type: String(row?.type ?? ""),
+    amount: String(row?.amount ?? ""),
+    reason: String(row?.reason ?? ""),
+    notes: String(row?.notes ?? ""),
+    createdAt: String(row?.createdAt ?? ""),
+  }));
+}
+
+// With `dryRun` the rows are only validated and checked for duplicates, for
+// the preview. Otherwise every row must be valid and new, and all of them are
+// applied in a single database transaction.
+export async function POST(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+    const candidates = parseCandidates(body.rows);
+
+    const preview: ImportPreviewRow[] = candidates.map((candidate) => ({
+      ...candidate,
+      errors: validateCandidate(candidate),
+      duplicate: false,
+    }));
+
+    // Compare against every existing entry in the file's date range
+    const dates = preview.filter((row) => row.errors.length === 0).map((row) => dayjs(row.createdAt));
+    const existing = new Set<string>();
+    if (dates.length > 0) {
+      const first = dates.reduce((a, b) => (a.isBefore(b) ? a : b)).startOf("second").toISOString();
+      const last = dates.reduce((a, b) => (a.isAfter(b) ? a : b)).endOf("second").toISOString();
+      const rows = await readAllRows((from, to) =>
+        supabase
+          .from("transactions")
+          .select("id, type, amount, created_at")
+          .eq("user_id", user.id)
+          .gte("created_at", first)
+          .lte("created_at", last)
+          .order("created_at", { ascending: true })
+          .order("id", { ascending: true })
+          .range(from, to)
+      );
+      rows.forEach((t) => existing.add(duplicateKey(t.type, t.amount, t.created_at)));
+    }
+
+    const seen = new Set<string>();
+    for (const row of preview) {
+      if (row.errors.length > 0) continue;
+      const key = duplicateKey(row.type, row.amount, row.createdAt);
+      row.duplicate = existing.has(key) || seen.has(key);
+      seen.add(key);
+    }
+
+    if (body.dryRun) {
+      return NextResponse.json({ rows: preview });
+    }
+
+    const rejected = preview.filter((row) => row.errors.length > 0 || row.duplicate);
+    if (rejected.length > 0) {
+      throw new ApiError(`Line ${rejected[0].line} is invalid or a duplicate; remove it before importing`, 400);
+    }
+
+    const { data, error } = await supabase.rpc("import_transactions", {
+      p_rows: preview.map((row) => ({
+        line: row.line,
+        type: row.type,
+        amount: Number(row.amount),
+        reason: row.type === "unlock" ? row.reason : null,
+        notes: row.notes || null,
+        created_at: dayjs(row.createdAt).toISOString(),
+      })),
+    });
+    if (error) throw error;
+
+    return NextResponse.json({ ...toBalances(data), imported: Number(data.imported) });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
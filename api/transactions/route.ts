@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { ApiError, errorResponse, parseOptionalId, requireUser } from "@/lib/apiRoute";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  Transaction,
+  TransactionFilters,
+  TransactionPage,
+  TRANSACTION_TYPES,
+} from "@/lib/transactions";
+
+interface TransactionRow {
+  id: string;
+  type: Transaction["type"];
+  amount: number | string;
+  reason: string | null;
+  notes: string | null;
+  merchant: string | null;
+  locked_delta: number | string;
+  savings_percent: number | string | null;
+  saved_amount: number | string | null;
+  reverses_id: string | null;
+  created_at: string;
+  income_source_id: string | null;
+  spend_categories: { name: string } | null;
+  income_sources: { name: string } | null;
+}
+
+function parseNumber(value: string | null, field: string): number | undefined {
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new ApiError(`${field} must be a number`, 400);
+  }
+  return number;
+}
+
+function parseDate(value: string | null, field: string): string | undefined {
+  if (!value) return undefined;
+  if (!dayjs(value).isValid()) {
+    throw new ApiError(`${field} must be a date`, 400);
+  }
+  return value;
+}
+
+function parseFilters(params: URLSearchParams): TransactionFilters {
+  const type = params.get("type") || undefined;
+  if (type && !TRANSACTION_TYPES.some((t) => t.id === type)) {
+    throw new ApiError("Unknown transaction type", 400);
+  }
+
+  const sort = params.get("sort") ?? "created_at";
+  if (sort !== "created_at" && sort !== "amount") {
+    throw new ApiError("Can only sort by created_at or amount", 400);
+  }
+
+  const page = Math.max(1, Math.floor(parseNumber(params.get("page"), "page") ?? 1));
+  const pageSize = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, Math.floor(parseNumber(params.get("pageSize"), "pageSize") ?? DEFAULT_PAGE_SIZE))
+  );
+
+  return {
+    type: type as TransactionFilters["type"],
+    reason: params.get("reason") || undefined,
+    sourceId: parseOptionalId(params.get("source"), "source") ?? undefined,
+    from: parseDate(params.get("from"), "from"),
+    to: parseDate(params.get("to"), "to"),
+    minAmount: parseNumber(params.get("min"), "min"),
+    maxAmount: parseNumber(params.get("max"), "max"),
+    search: params.get("q")?.trim() || undefined,
+    sort,
+    ascending: params.get("order") === "asc",
+    page,
+    pageSize,
+  };
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const filters = parseFilters(new URL(request.url).searchParams);
+
+    let query = supabase
+      .from("transactions")
+      .select(
+        "id, type, amount, reason, notes, merchant, locked_delta, savings_percent, saved_amount, reverses_id, income_source_id, created_at, spend_categories(name), income_sources(name)",
+        { count: "exact" }
+      )
+      .eq("user_id", user.id);
+
+    if (filters.type) query = query.eq("type", filters.type);
+    if (filters.reason) query = query.eq("reason", filters.reason);
+    if (filters.sourceId) query = query.eq("income_source_id", filters.sourceId);
+    if (filters.from) query = query.gte("created_at", dayjs(filters.from).startOf("day").toISOString());
+    if (filters.to) query = query.lte("created_at", dayjs(filters.to).endOf("day").toISOString());
+    if (filters.minAmount !== undefined) query = query.gte("amount", filters.minAmount);
+    if (filters.maxAmount !== undefined) query = query.lte("amount", filters.maxAmount);
+    if (filters.search) {
+      // Treat the search text literally rather than as a LIKE pattern
+      const escaped = filters.search.replace(/[\\%_]/g, (c) => `\\${c}`);
+      query = query.ilike("notes", `%${escaped}%`);
+    }
+
+    const start = (filters.page - 1) * filters.pageSize;
+    const { data, count, error } = await query
+      .order(filters.sort, { ascending: filters.ascending })
+      .order("id", { ascending: filters.ascending })
+      .range(start, start + filters.pageSize - 1);
+    if (error) throw error;
+
+    const rows = (data ?? []) as unknown as TransactionRow[];
+
+    // Find which of these rows have already been reversed
+    const reversedBy = new Map<string, string>();
+    if (rows.length > 0) {
+      const { data: reversals, error: reversalError } = await supabase
+        .from("transactions")
+        .select("id, reverses_id")
+        .eq("user_id", user.id)
+        .in("reverses_id", rows.map((row) => row.id));
+      if (reversalError) throw reversalError;
+      (reversals ?? []).forEach((r) => reversedBy.set(r.reverses_id, r.id));
+    }
+
+    const result: TransactionPage = {
+      rows: rows.map((row) => ({
+        id: row.id,
+        type: row.type,
+        amount: Number(row.amount),
+        reason: row.reason,
+        notes: row.notes,
+        merchant: row.merchant,
+        categoryName: row.spend_categories?.name ?? null,
+        incomeSourceId: row.income_source_id,
+        incomeSourceName: row.income_sources?.name ?? null,
+        lockedDelta: Number(row.locked_delta),
+        savingsPercent: row.savings_percent === null ? null : Number(row.savings_percent),
+        savedAmount: row.saved_amount === null ? null : Number(row.saved_amount),
+        reversesId: row.reverses_id,
+        reversedBy: reversedBy.get(row.id) ?? null,
+        createdAt: row.created_at,
+      })),
+      total: count ?? 0,
+      page: filters.page,
+      pageSize: filters.pageSize,
+    };
+    return NextResponse.json(result);
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
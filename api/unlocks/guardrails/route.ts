@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ApiError, errorResponse, readJson, requireUser } from "@/lib/apiRoute";
+import { GUARDRAIL_COLUMNS, GuardrailRow, GuardrailStatus, toGuardrails } from "@/lib/unlockGuardrails";
+import { isUnlockReason } from "@/lib/unlockReasons";
+
+async function loadStatus(supabase: SupabaseClient, userId: string): Promise<GuardrailStatus> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select(GUARDRAIL_COLUMNS)
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const { data: month, error: monthError } = await supabase.rpc("unlocked_this_month", { p_user_id: userId });
+  if (monthError) throw monthError;
+
+  const { data: pending, error: pendingError } = await supabase
+    .from("unlock_requests")
+    .select("amount")
+    .eq("user_id", userId)
+    .in("status", ["pending", "awaiting_approval"]);
+  if (pendingError) throw pendingError;
+
+  return {
+    guardrails: toGuardrails(data as GuardrailRow | null),
+    unlockedThisMonth: Number(month ?? 0),
+    pendingAmount: (pending ?? []).reduce((sum, request) => sum + Number(request.amount), 0),
+  };
+}
+
+function parseLimit(value: unknown, field: string): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit <= 0) {
+    throw new ApiError(`${field} must be greater than zero`, 400);
+  }
+  return Math.round(limit * 100) / 100;
+}
+
+function parseReasons(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isUnlockReason)) {
+    throw new ApiError(`${field} must be a list of unlock reasons`, 400);
+  }
+  return [...new Set(value)];
+}
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    return NextResponse.json(await loadStatus(supabase, user.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const body = await readJson(request);
+
+    const minLocked = body.minLockedBalance === undefined || body.minLockedBalance === "" ? 0 : Number(body.minLockedBalance);
+    if (!Number.isFinite(minLocked) || minLocked < 0) {
+      throw new ApiError("Minimum locked balance must be zero or more", 400);
+    }
+    const blocked = parseReasons(body.blockedReasons, "Blocked reasons");
+    const alwaysAllowed = parseReasons(body.alwaysAllowedReasons, "Always allowed reasons");
+    if (blocked.some((reason) => alwaysAllowed.includes(reason))) {
+      throw new ApiError("A reason cannot be both blocked and always allowed", 400);
+    }
+
+    const { error } = await supabase.from("user_settings").upsert(
+      {
+        id: user.id,
+        max_unlock_per_transaction: parseLimit(body.maxPerTransaction, "Maximum per unlock"),
+        max_unlock_per_month: parseLimit(body.maxPerMonth, "Maximum per month"),
+        min_locked_balance: Math.round(minLocked * 100) / 100,
+        blocked_unlock_reasons: blocked,
+        always_allowed_unlock_reasons: alwaysAllowed,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+
+    return NextResponse.json(await loadStatus(supabase, user.id));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, readAllRows, requireUser } from "@/lib/apiRoute";
+import { buildUnlockInsights, INSIGHT_MONTH_OPTIONS, UnlockEntry } from "@/lib/unlockInsights";
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+    const months = Number(new URL(request.url).searchParams.get("months") ?? 6);
+    if (!INSIGHT_MONTH_OPTIONS.includes(months)) {
+      throw new ApiError(`Months must be one of ${INSIGHT_MONTH_OPTIONS.join(", ")}`, 400);
+    }
+
+    // Averages use every unlock, so read them all rather than just the range
+    const entries = (await readAllRows((from, to) =>
+      supabase
+        .from("transactions")
+        .select("id, amount, reason, notes, reverses_id, created_at")
+        .eq("user_id", user.id)
+        .eq("type", "unlock")
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, to)
+    )) as UnlockEntry[];
+
+    return NextResponse.json(buildUnlockInsights(entries, months));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
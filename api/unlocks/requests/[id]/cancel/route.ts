@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+
+    const { error } = await supabase.rpc("cancel_unlock_request", { p_request_id: id });
+    if (error) throw error;
+
+    return NextResponse.json({ id });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseAmount, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { toUnlockRequest } from "@/lib/unlockRequests";
+
+interface Context {
+  params: Promise<{ id: string }>;
+}
+
+// A guardian approves (optionally for less) or rejects a child's request.
+export async function POST(request: Request, { params }: Context) {
+  try {
+    const { id } = await params;
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+
+    if (typeof body.approve !== "boolean") {
+      throw new ApiError("Please choose to approve or reject the request", 400);
+    }
+    const amount = body.approve && body.amount !== undefined && body.amount !== null ? parseAmount(body.amount) : null;
+    const comment = parseOptionalText(body.comment, "comment");
+
+    const { data, error } = await supabase.rpc("decide_unlock_request", {
+      p_request_id: id,
+      p_approve: body.approve,
+      p_amount: amount,
+      p_comment: comment,
+    });
+    if (error) throw error;
+
+    return NextResponse.json(toUnlockRequest(data));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import dayjs from "dayjs";
+import { errorResponse, requireUser } from "@/lib/apiRoute";
+import { REQUEST_COLUMNS, toUnlockRequest, UnlockRequestRow } from "@/lib/unlockRequests";
+
+// How long resolved requests keep showing on the dashboard.
+const RECENT_DAYS = 7;
+
+export async function GET(request: Request) {
+  try {
+    const { supabase, user } = await requireUser(request);
+
+    // Apply anything that matured since the last scheduled run
+    const { error: applyError } = await supabase.rpc("apply_matured_unlocks");
+    if (applyError) throw applyError;
+
+    const { data, error } = await supabase
+      .from("unlock_requests")
+      .select(REQUEST_COLUMNS)
+      .eq("user_id", user.id)
+      .or(`status.in.(pending,awaiting_approval),resolved_at.gte.${dayjs().subtract(RECENT_DAYS, "day").toISOString()}`)
+      .order("created_at", { ascending: false });
+    if (error) throw error;
+
+    return NextResponse.json((data as UnlockRequestRow[]).map(toUnlockRequest));
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
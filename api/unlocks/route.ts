@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { ApiError, errorResponse, parseAmount, parseClientId, parseOptionalText, readJson, requireUser } from "@/lib/apiRoute";
+import { toBalances } from "@/lib/ledger";
+import { isUnlockReason } from "@/lib/unlockReasons";
+import { toUnlockRequest } from "@/lib/unlockRequests";
+
+export async function POST(request: Request) {
+  try {
+    const { supabase } = await requireUser(request);
+    const body = await readJson(request);
+    const amount = parseAmount(body.amount);
+
+    if (!isUnlockReason(body.reason)) {
+      throw new ApiError("Please select a reason for unlocking your savings", 400);
+    }
+    const notes = parseOptionalText(body.notes, "notes");
+    if (body.reason === "other" && !notes) {
+      throw new ApiError("Please provide details for your reason", 400);
+    }
+    const goalId = body.goalId === undefined || body.goalId === null ? null : String(body.goalId);
+    if (body.reason === "goal" && !goalId) {
+      throw new ApiError("Please choose the goal you are unlocking for", 400);
+    }
+
+    const { data, error } = await supabase.rpc("record_unlock", {
+      p_amount: amount,
+      p_reason: body.reason,
+      p_notes: notes,
+      p_goal_id: goalId,
+      p_client_id: parseClientId(body.clientId),
+    });
+    if (error) throw error;
+
+    // With a cooling-off period the unlock is filed as a pending request
+    return NextResponse.json({
+      ...toBalances(data),
+      request: data.request ? toUnlockRequest(data.request) : null,
+      duplicate: data.duplicate === true,
+    });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
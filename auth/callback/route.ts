@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { createServerSupabase } from "@/lib/supabaseServer";
+import { AUTH_LANDING, RECOVERY_COOKIE, RECOVERY_COOKIE_OPTIONS, safeNextPath, toAuthLinkError } from "@/lib/auth";
+
+// Emailed links (sign-up confirmation, magic link, password recovery) land
+// here. The default templates send a PKCE `code`; custom templates can send
+// `token_hash` and `type` instead. Either way the session ends up in cookies
+// before the redirect, and a bad link goes back to the login page with a
+// reason it can explain.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const params = url.searchParams;
+  const failed = (reason: string) => NextResponse.redirect(new URL(`/login?error=${reason}`, url.origin));
+
+  // GoTrue reports expired or already-used links on the redirect itself
+  if (params.get("error") || params.get("error_code")) {
+    return failed(toAuthLinkError(params.get("error_code") ?? params.get("error"), params.get("error_description") ?? ""));
+  }
+
+  const supabase = await createServerSupabase();
+  const code = params.get("code");
+  const tokenHash = params.get("token_hash");
+  const type = params.get("type") as EmailOtpType | null;
+
+  if (code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) return failed(toAuthLinkError(error.code ?? null, error.message));
+  } else if (tokenHash && type) {
+    const { error } = await supabase.auth.verifyOtp({ type, token_hash: tokenHash });
+    if (error) return failed(toAuthLinkError(error.code ?? null, error.message));
+  } else {
+    return failed("invalid");
+  }
+
+  const next = safeNextPath(params.get("next"), url.origin, (type && AUTH_LANDING[type]) || "/dashboard");
+  const response = NextResponse.redirect(new URL(next, url.origin));
+
+  // PKCE links carry no type, only where they lead. Any emailed link proves
+  // the user reads the account's inbox, which is what a reset relies on.
+  if (new URL(next, url.origin).pathname === AUTH_LANDING.recovery) {
+    response.cookies.set(RECOVERY_COOKIE, "1", { ...RECOVERY_COOKIE_OPTIONS, secure: url.protocol === "https:" });
+  }
+  return response;
+}
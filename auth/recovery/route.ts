@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { RECOVERY_COOKIE, RECOVERY_COOKIE_OPTIONS } from "@/lib/auth";
+
+// Called once the new password is saved, so the recovery link cannot be used
+// to change it again.
+export async function DELETE() {
+  const response = NextResponse.json({ cleared: true });
+  response.cookies.set(RECOVERY_COOKIE, "", { ...RECOVERY_COOKIE_OPTIONS, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { browserSupabase } from "@/lib/supabaseClient";
+import { AUTH_LINK_ERRORS } from "@/lib/auth";
+import { checkPasswordStrength } from "@/lib/passwordStrength";
+import PasswordStrengthMeter from "@/login/PasswordStrengthMeter";
+
+// /auth/callback signs the user in from the recovery link and sends them
+// here; without that session the link was expired, used or never valid.
+export default function ResetPasswordForm() {
+  const [email, setEmail] = useState<string | null>(null);
+  const [checking, setChecking] = useState<boolean>(true);
+  const [password, setPassword] = useState<string>("");
+  const [confirmPassword, setConfirmPassword] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const router = useRouter();
+
+  useEffect(() => {
+    const fetchSession = async () => {
+      try {
+        const { data: { session } } = await browserSupabase().auth.getSession();
+        setEmail(session?.user.email ?? null);
+      } catch (err) {
+        console.error("Error loading session:", err);
+      } finally {
+        setChecking(false);
+      }
+    };
+
+    fetchSession();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage("");
+
+    const strength = checkPasswordStrength(password, email ?? "");
+    if (!strength.acceptable) {
+      setMessage(`Choose a stronger password: ${strength.problems.join(". ")}.`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setMessage("The passwords don't match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await browserSupabase().auth.updateUser({ password });
+      if (error) {
+        setMessage(error.code === "same_password" ? "Choose a password you haven't used here before" : error.message);
+      } else {
+        setMessage("✅ Password updated! Redirecting...");
+        await fetch("/auth/recovery", { method: "DELETE" });
+        router.replace("/dashboard");
+        router.refresh();
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "An error occurred updating your password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center p-6">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+          <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">Choose a New Password</h2>
+
+          {checking ? (
+            <div className="flex justify-center py-6">
+              <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : !email ? (
+            <div className="space-y-4">
+              <div className="p-3 rounded-lg text-sm bg-red-100 text-red-700 border border-red-200">{AUTH_LINK_ERRORS.expired}</div>
+              <Link href="/login" className="block text-center text-blue-600 hover:text-blue-700 font-medium">
+                Back to sign in
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <p className="text-sm text-gray-600 text-center">
+                Signed in as <span className="font-medium text-gray-800">{email}</span>
+              </p>
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800 placeholder-gray-400"
+                  autoComplete="new-password"
+                  required
+                />
+                <PasswordStrengthMeter password={password} email={email} />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800 placeholder-gray-400"
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              {message && (
+                <div className={`p-3 rounded-lg text-sm ${
+                  message.includes("✅")
+                    ? "bg-green-100 text-green-700 border border-green-200"
+                    : "bg-red-100 text-red-700 border border-red-200"
+                }`}>
+                  {message}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-md hover:shadow-lg"
+              >
+                {loading ? "Saving..." : "Save New Password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { RECOVERY_COOKIE } from "@/lib/auth";
+import ResetPasswordForm from "./ResetPasswordForm";
+
+// Only reachable from a recovery link. Anyone else changes their password in
+// settings, where the current one is asked for.
+export default async function Page() {
+  const cookieStore = await cookies();
+  if (!cookieStore.has(RECOVERY_COOKIE)) redirect("/dashboard/settings");
+
+  return <ResetPasswordForm />;
+}
@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import dayjs from "dayjs";
+import { repository, RepositoryError } from "@/lib/repository";
+import type { SavingsPercentChange } from "@/lib/settings";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+import { COOLING_OFF_OPTIONS } from "@/lib/unlockRequests";
 
 interface Props {
   userId: string;
@@ -10,33 +14,28 @@ interface Props {
 
 export default function AccountSettingsForm({ userId, onUpdate }: Props) {
   const [savingsPercent, setSavingsPercent] = useState<number>(20);
+  const [coolingOffHours, setCoolingOffHours] = useState<number>(0);
+  const [coolingOffOverrides, setCoolingOffOverrides] = useState<Record<string, number>>({});
+  const [percentHistory, setPercentHistory] = useState<SavingsPercentChange[]>([]);
   const [message, setMessage] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(true);
 
+  const fetchPercentHistory = async () => {
+    try {
+      setPercentHistory(await repository.getSavingsPercentHistory(10));
+    } catch (err) {
+      console.error("Error fetching savings percent history:", err);
+    }
+  };
+
   const fetchSavingsPercent = async () => {
     try {
       setIsLoading(true);
-      const { data, error } = await supabase
-        .from("user_settings")
-        .select("savings_percent")
-        .eq("id", userId)
-        .single();
-
-      if (error) {
-        if (error.code === "PGRST116") {
-          // No record found, use default
-          console.log("No settings found, using default 20%");
-          return;
-        }
-        console.error("Fetch error:", error);
-        throw error;
-      }
-
-      if (data?.savings_percent) {
-        console.log("Loaded savings percent:", data.savings_percent);
-        setSavingsPercent(data.savings_percent);
-      }
-    } catch (err: any) {
+      const settings = await repository.getSettings();
+      setSavingsPercent(settings.savingsPercent);
+      setCoolingOffHours(settings.coolingOffHours);
+      setCoolingOffOverrides(settings.coolingOffOverrides);
+    } catch (err) {
       console.error("Error fetching savings percent:", err);
       setMessage("Failed to load savings settings.");
     } finally {
@@ -47,6 +46,7 @@ export default function AccountSettingsForm({ userId, onUpdate }: Props) {
   useEffect(() => {
     if (userId) {
       fetchSavingsPercent();
+      fetchPercentHistory();
     }
   }, [userId]);
 
@@ -55,38 +55,21 @@ export default function AccountSettingsForm({ userId, onUpdate }: Props) {
       setMessage("");
       setIsLoading(true);
 
-      // Use upsert to handle both insert and update
-      const { error } = await supabase
-        .from("user_settings")
-        .upsert(
-          { 
-            id: userId, 
-            savings_percent: savingsPercent,
-            updated_at: new Date().toISOString()
-          },
-          {
-            onConflict: 'id',
-            ignoreDuplicates: false
-          }
-        );
-
-      if (error) {
-        console.error("Upsert error:", error);
-        throw error;
-      }
+      await repository.saveSettings({ savingsPercent, coolingOffHours, coolingOffOverrides });
 
-      setMessage(`✅ Savings preference updated to ${savingsPercent}%`);
+      setMessage(`✅ Settings saved. Savings preference is ${savingsPercent}%`);
+      fetchPercentHistory();
       onUpdate();
       
       setTimeout(() => setMessage(""), 3000);
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error updating savings percent:", err);
       
       let errorMessage = "Failed to update savings preference.";
       
-      if (err.code === "42501") {
+      if (err instanceof RepositoryError && err.code === "42501") {
         errorMessage = "Permission denied. Please check RLS policies in Supabase.";
-      } else if (err.message) {
+      } else if (err instanceof Error) {
         errorMessage = `Error: ${err.message}`;
       }
       
@@ -96,6 +79,16 @@ export default function AccountSettingsForm({ userId, onUpdate }: Props) {
     }
   };
 
+  const handleOverrideChange = (reasonId: string, value: string) => {
+    const next = { ...coolingOffOverrides };
+    if (value === "") {
+      delete next[reasonId];
+    } else {
+      next[reasonId] = parseInt(value);
+    }
+    setCoolingOffOverrides(next);
+  };
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -138,6 +131,65 @@ export default function AccountSettingsForm({ userId, onUpdate }: Props) {
         <p className="text-sm text-gray-600 mt-2">
           {savingsPercent}% of your allowance will be automatically saved.
         </p>
+
+        {percentHistory.length > 1 && (
+          <details className="mt-3">
+            <summary className="text-sm text-green-700 cursor-pointer">Change history</summary>
+            <ul className="mt-2 space-y-1">
+              {percentHistory.map((change) => (
+                <li key={change.effectiveAt} className="flex justify-between text-sm text-gray-700">
+                  <span>{dayjs(change.effectiveAt).format("MMM D, YYYY h:mm A")}</span>
+                  <span className="font-medium">{change.savingsPercent}%</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-500 mt-2">
+              Each allowance keeps the percent that applied when it was recorded.
+            </p>
+          </details>
+        )}
+      </div>
+
+      {/* Cooling-off Period */}
+      <div className="mb-6">
+        <label className="block text-sm font-medium text-gray-700 mb-2">
+          Cooling-off period for unlocks
+        </label>
+        <select
+          value={coolingOffHours}
+          onChange={(e) => setCoolingOffHours(parseInt(e.target.value))}
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+        >
+          {COOLING_OFF_OPTIONS.map((option) => (
+            <option key={option.hours} value={option.hours}>{option.label}</option>
+          ))}
+        </select>
+        <p className="text-sm text-gray-600 mt-2">
+          {coolingOffHours === 0
+            ? "Unlocks are applied as soon as you submit them."
+            : "Unlocks wait this long before the money is released, and you can cancel them in the meantime."}
+        </p>
+
+        <details className="mt-3">
+          <summary className="text-sm text-green-700 cursor-pointer">Different wait for specific reasons</summary>
+          <div className="mt-2 space-y-2">
+            {UNLOCK_REASONS.map((reason) => (
+              <div key={reason.id} className="flex justify-between items-center">
+                <span className="text-sm text-gray-700">{reason.label}</span>
+                <select
+                  value={coolingOffOverrides[reason.id] ?? ""}
+                  onChange={(e) => handleOverrideChange(reason.id, e.target.value)}
+                  className="border border-gray-300 rounded-lg px-2 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Use default</option>
+                  {COOLING_OFF_OPTIONS.map((option) => (
+                    <option key={option.hours} value={option.hours}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </details>
       </div>
 
       <button
@@ -154,7 +206,7 @@ export default function AccountSettingsForm({ userId, onUpdate }: Props) {
             Updating...
           </>
         ) : (
-          "Save Preference"
+          "Save Settings"
         )}
       </button>
       
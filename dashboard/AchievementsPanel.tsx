@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import type { Achievements } from "@/lib/achievements";
+
+interface Props {
+  // Changes whenever the ledger does, so new badges show up right away
+  lockedAmount: number;
+}
+
+export default function AchievementsPanel({ lockedAmount }: Props) {
+  const [achievements, setAchievements] = useState<Achievements | null>(null);
+  const [showAll, setShowAll] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchAchievements = async () => {
+      try {
+        setAchievements(await repository.getAchievements());
+      } catch (err) {
+        console.error("Error fetching achievements:", err);
+      }
+    };
+
+    fetchAchievements();
+  }, [lockedAmount]);
+
+  const handleDismiss = async () => {
+    if (!achievements) return;
+
+    try {
+      await repository.markBadgesSeen();
+      setAchievements({ ...achievements, badges: achievements.badges.map((badge) => ({ ...badge, isNew: false })) });
+    } catch (err) {
+      console.error("Error marking badges seen:", err);
+    }
+  };
+
+  if (!achievements) return null;
+
+  const { streak, level, badges } = achievements;
+  const newBadges = badges.filter((badge) => badge.isNew);
+  const progress = level.nextAt === null ? 100 : ((level.totalSaved - level.currentAt) / (level.nextAt - level.currentAt)) * 100;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4">Achievements</h3>
+
+      {newBadges.length > 0 && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex justify-between items-start">
+            <div>
+              <p className="font-semibold text-yellow-900">🎉 New badge{newBadges.length > 1 ? "s" : ""} earned!</p>
+              <ul className="mt-1 text-sm text-yellow-800">
+                {newBadges.map((badge) => (
+                  <li key={badge.id}>
+                    {badge.icon} <span className="font-medium">{badge.label}</span> – {badge.description}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <button onClick={handleDismiss} className="text-sm text-yellow-700 hover:text-yellow-900">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="bg-orange-50 rounded-lg p-4">
+          <p className="text-sm text-orange-700">Current streak</p>
+          <p className="text-2xl font-bold text-orange-800">
+            🔥 {streak.current} week{streak.current === 1 ? "" : "s"}
+          </p>
+          <p className="text-xs text-orange-700 mt-1">
+            {streak.unlockedThisWeek
+              ? "An unlock this week reset your streak"
+              : streak.savedThisWeek
+                ? "This week counts. Keep it going!"
+                : "Save something this week to keep your streak"}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Longest streak</p>
+          <p className="text-2xl font-bold text-gray-800">
+            {streak.longest} week{streak.longest === 1 ? "" : "s"}
+          </p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-4">
+          <p className="text-sm text-blue-700">Level {level.level}</p>
+          <p className="text-2xl font-bold text-blue-800">${level.totalSaved.toFixed(2)} saved</p>
+          <div className="w-full bg-blue-100 rounded-full h-2 mt-2">
+            <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${Math.min(progress, 100)}%` }}></div>
+          </div>
+          <p className="text-xs text-blue-700 mt-1">
+            {level.nextAt === null ? "Top level reached" : `$${(level.nextAt - level.totalSaved).toFixed(2)} to level ${level.level + 1}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {badges.map((badge) => (
+          <span
+            key={badge.id}
+            title={`${badge.description} · ${dayjs(badge.earnedAt).format("MMM D, YYYY")}`}
+            className="px-3 py-1 rounded-full bg-green-100 text-green-800 text-sm"
+          >
+            {badge.icon} {badge.label}
+          </span>
+        ))}
+        {showAll &&
+          achievements.locked.map((badge) => (
+            <span key={badge.id} title={badge.description} className="px-3 py-1 rounded-full bg-gray-100 text-gray-400 text-sm">
+              🔒 {badge.label}
+            </span>
+          ))}
+        {achievements.locked.length > 0 && (
+          <button onClick={() => setShowAll(!showAll)} className="text-sm text-blue-600 hover:text-blue-700">
+            {showAll ? "Hide badges to earn" : `${achievements.locked.length} more to earn`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import type { IncomeSource } from "@/lib/incomeSources";
+import { Jar, JarShare, splitAcrossJars } from "@/lib/jars";
+import type { AllowanceResult } from "@/lib/ledger";
+import { submitOrQueue } from "@/lib/offlineQueue";
+import { repository } from "@/lib/repository";
+import { evaluateRules, SavingsPart, SavingsRule } from "@/lib/savingsRules";
 
 interface Props {
   userId: string;
@@ -13,81 +18,48 @@ export default function AddAllowanceForm({ userId, onUpdate }: Props) {
   const [message, setMessage] = useState<string>("");
   const [savingsPercent, setSavingsPercent] = useState<number>(20);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [rules, setRules] = useState<SavingsRule[]>([]);
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [sourceId, setSourceId] = useState<string>("");
+  const [jars, setJars] = useState<Jar[]>([]);
+  const [lastSplit, setLastSplit] = useState<{ amount: number; parts: SavingsPart[]; jars: JarShare[] } | null>(null);
 
   // Fetch user's preferred savings percent
   const fetchSavingsPercent = async () => {
     try {
-      const { data, error } = await supabase
-        .from("user_settings")
-        .select("savings_percent")
-        .eq("id", userId)
-        .single();
-
-      if (error) {
-        if (error.code === "PGRST116") {
-          // No settings found, use default
-          console.log("No custom savings settings, using default 20%");
-          return;
-        }
-        console.error("Error fetching savings percent:", error);
-        return;
-      }
-
-      if (data?.savings_percent) {
-        console.log("Using savings percent:", data.savings_percent);
-        setSavingsPercent(data.savings_percent);
-      }
+      const settings = await repository.getSettings();
+      setSavingsPercent(settings.savingsPercent);
     } catch (err) {
       console.error("Error in fetchSavingsPercent:", err);
     }
+
+    try {
+      setRules(await repository.listSavingsRules());
+    } catch (err) {
+      console.error("Error fetching savings rules:", err);
+    }
+
+    try {
+      setJars(await repository.listJars());
+    } catch (err) {
+      console.error("Error fetching jars:", err);
+    }
+
+    try {
+      const incomeSources = await repository.listIncomeSources();
+      setSources(incomeSources);
+      setSourceId((current) => current || incomeSources[0]?.id || "");
+    } catch (err) {
+      console.error("Error fetching income sources:", err);
+    }
   };
 
   useEffect(() => {
     if (userId) {
       fetchSavingsPercent();
 
-      // Set up real-time subscription
-      const channel = supabase
-        .channel('user_settings_changes')
-        .on(
-          'postgres_changes',
-          {
-            event: 'UPDATE',
-            schema: 'public',
-            table: 'user_settings',
-            filter: `id=eq.${userId}`
-          },
-          (payload) => {
-            console.log('Settings updated:', payload);
-            if (payload.new && 'savings_percent' in payload.new) {
-              const newPercent = payload.new.savings_percent as number;
-              console.log('Updating to new percent:', newPercent);
-              setSavingsPercent(newPercent);
-            }
-          }
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'user_settings',
-            filter: `id=eq.${userId}`
-          },
-          (payload) => {
-            console.log('Settings inserted:', payload);
-            if (payload.new && 'savings_percent' in payload.new) {
-              const newPercent = payload.new.savings_percent as number;
-              console.log('Setting new percent:', newPercent);
-              setSavingsPercent(newPercent);
-            }
-          }
-        )
-        .subscribe();
-
-      return () => {
-        supabase.removeChannel(channel);
-      };
+      // Pick up savings percent changes made in settings or on another device
+      return repository.subscribeSettings((settings) => setSavingsPercent(settings.savingsPercent));
     }
   }, [userId]);
 
@@ -115,56 +87,33 @@ export default function AddAllowanceForm({ userId, onUpdate }: Props) {
     setMessage("");
 
     try {
-      // Insert transaction
-      const { error: txnError } = await supabase.from("transactions").insert({
-        user_id: userId,
+      const result = await submitOrQueue<AllowanceResult>(userId, "allowance", {
         amount: numericAmount,
-        type: "allowance",
+        sourceId: sourceId || null,
       });
 
-      if (txnError) throw txnError;
-
-      // Calculate savings amount
-      const savingsAmount = numericAmount * (savingsPercent / 100);
-
-      // Update or create savings record
-      const { data: existingSavings, error: savingsError } = await supabase
-        .from("savings")
-        .select("locked_amount")
-        .eq("user_id", userId)
-        .single();
-
-      if (savingsError && savingsError.code !== "PGRST116") throw savingsError;
-
-      const currentLocked = existingSavings ? Number(existingSavings.locked_amount) : 0;
-      const newLocked = currentLocked + savingsAmount;
-
-      if (existingSavings) {
-        const { error: updateError } = await supabase
-          .from("savings")
-          .update({ locked_amount: newLocked })
-          .eq("user_id", userId);
-        if (updateError) throw updateError;
-      } else {
-        const { error: insertError } = await supabase
-          .from("savings")
-          .insert({ user_id: userId, locked_amount: newLocked });
-        if (insertError) throw insertError;
+      const sourceName = sources.find((source) => source.id === sourceId)?.name;
+      if (!result) {
+        setMessage(`✅ You're offline. $${numericAmount.toFixed(2)} was saved on this device and will be added when you reconnect.`);
+        setAmount("");
+        return;
       }
-
-      setMessage(`✅ $${numericAmount.toFixed(2)} added! $${savingsAmount.toFixed(2)} (${savingsPercent}%) saved automatically.`);
+      setMessage(`✅ $${numericAmount.toFixed(2)}${sourceName ? ` from ${sourceName.toLowerCase()}` : ""} added! $${result.savedAmount.toFixed(2)} (${result.savingsPercent}%) saved automatically.`);
+      setLastSplit({ amount: numericAmount, parts: result.breakdown, jars: result.jars });
       setAmount("");
       onUpdate();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error adding allowance:", err);
-      setMessage("Error adding allowance. Please try again.");
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error adding allowance. Please try again.");
     } finally {
       setIsLoading(false);
     }
   };
 
   const numericAmount = getNumericAmount();
-  const calculatedSavings = numericAmount > 0 ? (numericAmount * (savingsPercent / 100)).toFixed(2) : "0.00";
+  const preview = evaluateRules(rules, numericAmount, sourceId || null, savingsPercent);
+  // With jars their percentages decide the split instead of the rules
+  const jarPreview = splitAcrossJars(jars, numericAmount);
   const displayAmount = amount === "" ? "0" : numericAmount.toFixed(2);
 
   return (
@@ -180,17 +129,58 @@ export default function AddAllowanceForm({ userId, onUpdate }: Props) {
         placeholder="Enter amount"
       />
 
-      <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
-        <p className="text-sm text-blue-800 font-medium">
-          Savings Rate: <span className="text-green-600">{savingsPercent}%</span>
-        </p>
-        <p className="text-sm text-blue-800 mt-1">
-          Amount to save: <span className="font-bold">${calculatedSavings}</span>
-        </p>
-        <p className="text-xs text-blue-600 mt-2">
-          Change savings percentage in Account Settings
-        </p>
-      </div>
+      <select
+        value={sourceId}
+        onChange={(e) => setSourceId(e.target.value)}
+        className="w-full border border-gray-300 rounded-lg px-4 py-2 mb-4 text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Income source"
+      >
+        {sources.map((source) => (
+          <option key={source.id} value={source.id}>{source.name}</option>
+        ))}
+      </select>
+
+      {jars.length > 0 ? (
+        <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
+          <p className="text-sm text-blue-800 font-medium mb-1">Split across your jars</p>
+          <ul className="text-sm text-blue-800 space-y-0.5">
+            {jarPreview.map((share) => (
+              <li key={share.jarId} className="flex justify-between">
+                <span>
+                  {share.locked ? "🔒 " : ""}
+                  {share.name} ({jars.find((jar) => jar.id === share.jarId)?.percent}%)
+                </span>
+                <span className="font-medium">${share.amount.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-blue-600 mt-2">
+            Change jars and their percentages in Account Settings
+          </p>
+        </div>
+      ) : (
+        <div className="mb-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
+          <p className="text-sm text-blue-800 font-medium">
+            Savings Rate: <span className="text-green-600">{numericAmount > 0 ? preview.savingsPercent : savingsPercent}%</span>
+          </p>
+          <p className="text-sm text-blue-800 mt-1">
+            Amount to save: <span className="font-bold">${preview.savedAmount.toFixed(2)}</span>
+          </p>
+          {numericAmount > 0 && preview.parts.length > 1 && (
+            <ul className="mt-1 text-xs text-blue-700 space-y-0.5">
+              {preview.parts.map((part, i) => (
+                <li key={i} className="flex justify-between">
+                  <span>{part.label}</span>
+                  <span>${part.amount.toFixed(2)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-blue-600 mt-2">
+            Change savings percentage and rules in Account Settings
+          </p>
+        </div>
+      )}
 
       <button
         onClick={handleAddAllowance}
@@ -207,6 +197,32 @@ export default function AddAllowanceForm({ userId, onUpdate }: Props) {
           {message}
         </p>
       )}
+
+      {lastSplit && lastSplit.jars.length > 0 ? (
+        <div className="mt-3 text-xs text-gray-600">
+          <p className="font-medium text-gray-700 mb-1">How ${lastSplit.amount.toFixed(2)} was split</p>
+          <ul className="space-y-0.5">
+            {lastSplit.jars.map((share) => (
+              <li key={share.jarId} className="flex justify-between">
+                <span>{share.locked ? "🔒 " : ""}{share.name}</span>
+                <span className={share.locked ? "text-green-700" : "text-gray-700"}>${share.amount.toFixed(2)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : lastSplit && lastSplit.parts.length > 0 && (
+        <div className="mt-3 text-xs text-gray-600">
+          <p className="font-medium text-gray-700 mb-1">How ${lastSplit.amount.toFixed(2)} was split</p>
+          <ul className="space-y-0.5">
+            {lastSplit.parts.map((part, i) => (
+              <li key={i} className="flex justify-between">
+                <span>{part.label}</span>
+                <span className="text-green-700">${part.amount.toFixed(2)} saved</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </div>
   );
 }
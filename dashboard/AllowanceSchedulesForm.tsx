@@ -0,0 +1,221 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import type { IncomeSource } from "@/lib/incomeSources";
+import { AllowanceSchedule, Cadence, CADENCES } from "@/lib/schedules";
+
+interface Props {
+  onUpdate: () => void;
+}
+
+export default function AllowanceSchedulesForm({ onUpdate }: Props) {
+  const [schedules, setSchedules] = useState<AllowanceSchedule[]>([]);
+  const [amount, setAmount] = useState<string>("");
+  const [cadence, setCadence] = useState<Cadence>("weekly");
+  const [intervalDays, setIntervalDays] = useState<string>("10");
+  const [startDate, setStartDate] = useState<string>(dayjs().format("YYYY-MM-DD"));
+  const [endDate, setEndDate] = useState<string>("");
+  const [sourceLabel, setSourceLabel] = useState<string>("Allowance");
+  const [incomeSourceId, setIncomeSourceId] = useState<string>("");
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const fetchSchedules = async () => {
+    try {
+      setSchedules(await repository.listSchedules());
+      setSources(await repository.listIncomeSources());
+    } catch (err) {
+      console.error("Error fetching schedules:", err);
+      setMessage("Failed to load allowance schedules.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const handleCreate = async () => {
+    const numericAmount = parseFloat(amount) || 0;
+    if (numericAmount <= 0) {
+      setMessage("Please enter a valid amount.");
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      await repository.createSchedule({
+        amount: numericAmount,
+        cadence,
+        intervalDays: cadence === "custom" ? parseInt(intervalDays) : undefined,
+        startDate,
+        endDate: endDate || null,
+        sourceLabel: sourceLabel.trim() || undefined,
+        incomeSourceId: incomeSourceId || null,
+      });
+      setMessage(`✅ $${numericAmount.toFixed(2)} ${CADENCES.find((c) => c.id === cadence)?.label.toLowerCase()} scheduled`);
+      setAmount("");
+      setEndDate("");
+      fetchSchedules();
+      onUpdate();
+    } catch (err) {
+      console.error("Error creating schedule:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to create schedule.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (schedule: AllowanceSchedule) => {
+    if (!confirm(`Stop the ${schedule.sourceLabel} schedule? Allowances already posted are kept.`)) {
+      return;
+    }
+
+    try {
+      await repository.deleteSchedule(schedule.id);
+      fetchSchedules();
+      onUpdate();
+    } catch (err) {
+      console.error("Error deleting schedule:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to delete schedule.");
+    }
+  };
+
+  const describeCadence = (schedule: AllowanceSchedule) =>
+    schedule.cadence === "custom"
+      ? `Every ${schedule.intervalDays} days`
+      : CADENCES.find((c) => c.id === schedule.cadence)?.label;
+
+  const inputClass = "w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Recurring Allowances</h3>
+
+      {isLoading ? (
+        <div className="animate-pulse mb-6">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      ) : schedules.length === 0 ? (
+        <p className="text-sm text-gray-600 mb-6">No recurring allowances yet. Add one below and it will be posted automatically.</p>
+      ) : (
+        <ul className="mb-6 divide-y divide-gray-100">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="py-3 flex justify-between items-center">
+              <div>
+                <p className="font-medium text-gray-800">
+                  ${schedule.amount.toFixed(2)} · {schedule.sourceLabel}
+                  {schedule.incomeSourceId && (
+                    <span className="text-sm font-normal text-gray-500">
+                      {" "}({sources.find((source) => source.id === schedule.incomeSourceId)?.name})
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {describeCadence(schedule)} from {dayjs(schedule.startDate).format("MMM D, YYYY")}
+                  {schedule.endDate && ` until ${dayjs(schedule.endDate).format("MMM D, YYYY")}`}
+                  {" · "}
+                  {schedule.nextPayout ? `next on ${dayjs(schedule.nextPayout).format("MMM D")}` : "ended"}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(schedule)}
+                className="text-xs text-red-600 hover:text-red-700"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={handleAmountChange}
+            className={inputClass}
+            placeholder="Amount"
+          />
+          <input
+            type="text"
+            value={sourceLabel}
+            onChange={(e) => setSourceLabel(e.target.value)}
+            maxLength={60}
+            className={inputClass}
+            placeholder="Label (e.g. Weekly allowance)"
+          />
+          <select
+            value={incomeSourceId}
+            onChange={(e) => setIncomeSourceId(e.target.value)}
+            className={`${inputClass} md:col-span-2`}
+          >
+            <option value="">Default income source</option>
+            {sources.map((source) => (
+              <option key={source.id} value={source.id}>{source.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select value={cadence} onChange={(e) => setCadence(e.target.value as Cadence)} className={inputClass}>
+            {CADENCES.map((c) => (
+              <option key={c.id} value={c.id}>{c.label}</option>
+            ))}
+          </select>
+          {cadence === "custom" && (
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={intervalDays}
+              onChange={(e) => setIntervalDays(e.target.value)}
+              className={inputClass}
+              placeholder="Days between payouts"
+            />
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            Starts
+            <input type="date" value={startDate} min={dayjs().format("YYYY-MM-DD")} onChange={(e) => setStartDate(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className="text-sm text-gray-700">
+            Ends (optional)
+            <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={isSaving}
+          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+        >
+          {isSaving ? "Saving..." : "Add Recurring Allowance"}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { authClient } from "@/lib/authClient";
+import type { FamilyOverview } from "@/lib/family";
+import type { Goal } from "@/lib/goals";
+import type { Jar } from "@/lib/jars";
+import type { Balances } from "@/lib/ledger";
+import { clearCachedPages, loadBalances, saveBalances } from "@/lib/offlineCache";
+import { DEFAULT_PROFILE, displayNameOf, formatMoney } from "@/lib/profile";
+import type { Profile } from "@/lib/profile";
+import { isNetworkError } from "@/lib/offlineQueue";
+import { repository } from "@/lib/repository";
+import type { AllowanceSchedule } from "@/lib/schedules";
+import type { TermDeposit } from "@/lib/termDeposits";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+import dayjs from "dayjs";
+import AddAllowanceForm from "./AddAllowanceForm";
+import UnlockForm from "./UnlockForm";
+import SpendForm from "./SpendForm";
+import MonthlySavingsGraph from "./MonthlySavingsGraph";
+import GoalsPanel from "./GoalsPanel";
+import JarsPanel from "./JarsPanel";
+import TermDepositsPanel from "./TermDepositsPanel";
+import PendingUnlocks from "./PendingUnlocks";
+import GuardianPanel from "./GuardianPanel";
+import ProjectionPanel from "./ProjectionPanel";
+import IncomeBreakdown from "./IncomeBreakdown";
+import UnlockInsights from "./UnlockInsights";
+import AchievementsPanel from "./AchievementsPanel";
+import NotificationBell from "./NotificationBell";
+import OfflineQueuePanel from "./OfflineQueuePanel";
+
+interface Props {
+  // The signed-in user, resolved on the server from the session cookies
+  user: { id: string; email: string };
+  // Loaded on the server so the first paint shows real balances; null if that
+  // failed or the data only exists in the browser (the local backend)
+  initialBalances: Balances | null;
+  initialProfile: Profile | null;
+}
+
+export default function DashboardPage({ user, initialBalances, initialProfile }: Props) {
+  const router = useRouter();
+  const [profile, setProfile] = useState<Profile>(initialProfile ?? DEFAULT_PROFILE);
+  const [lockedAmount, setLockedAmount] = useState<number>(initialBalances?.lockedAmount ?? 0);
+  const [availableAmount, setAvailableAmount] = useState<number>(initialBalances?.availableAmount ?? 0);
+  const [jars, setJars] = useState<Jar[]>([]);
+  const [termDeposits, setTermDeposits] = useState<TermDeposit[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [schedules, setSchedules] = useState<AllowanceSchedule[]>([]);
+  const [unlockRequests, setUnlockRequests] = useState<UnlockRequest[]>([]);
+  const [family, setFamily] = useState<FamilyOverview>({ guardians: [], children: [], invites: [] });
+  const [loading, setLoading] = useState<boolean>(initialBalances === null);
+  // When the balances shown are the cached ones from an earlier visit
+  const [balancesAsOf, setBalancesAsOf] = useState<string | null>(null);
+
+  const fetchAmounts = async () => {
+    try {
+      // Fetch unlock requests first: this applies any that have matured
+      setUnlockRequests(await repository.listUnlockRequests());
+
+      // Likewise for term deposits: this returns any that have matured
+      setTermDeposits(await repository.listTermDeposits());
+
+      // Fetch balances, computed from the ledger on the server
+      const balances = await repository.getBalances();
+      setLockedAmount(balances.lockedAmount);
+      setAvailableAmount(balances.availableAmount);
+      setBalancesAsOf(null);
+      saveBalances(user.id, balances);
+
+      // Fetch jars with what each holds
+      setJars(await repository.listJars());
+
+      // Fetch goals with their projected completion dates
+      setGoals(await repository.listGoals());
+
+      // Fetch recurring allowances to show the next payout
+      setSchedules(await repository.listSchedules());
+
+      // Fetch guardian links and, for guardians, children awaiting a decision
+      setFamily(await repository.getFamily());
+    } catch (err) {
+      console.error("Error fetching dashboard data:", err);
+
+      // Offline: fall back to the balances from the last successful load
+      const cached = isNetworkError(err) ? loadBalances(user.id) : null;
+      if (cached) {
+        setLockedAmount(cached.lockedAmount);
+        setAvailableAmount(cached.availableAmount);
+        setBalancesAsOf(cached.savedAt);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAmounts();
+  }, [user.id]);
+
+  useEffect(() => {
+    if (initialProfile) return;
+    repository
+      .getProfile()
+      .then(setProfile)
+      .catch((err) => console.error("Error loading profile:", err));
+  }, [initialProfile]);
+
+  const handleSignOut = async () => {
+    await authClient.signOut();
+    await clearCachedPages();
+    router.replace("/login");
+    router.refresh();
+  };
+
+  const nextPayout = schedules
+    .filter((s) => s.nextPayout)
+    .sort((a, b) => a.nextPayout!.localeCompare(b.nextPayout!))[0];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 p-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">PocketGrowth</h1>
+            <p className="text-gray-600">Welcome back, {displayNameOf(profile, user.email)}! 👋</p>
+          </div>
+          <div className="flex space-x-3">
+            <NotificationBell userId={user.id} onLedgerChange={fetchAmounts} />
+            <a
+              href="/dashboard/transactions"
+              className="bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+            >
+              Transactions
+            </a>
+            <a
+              href="/dashboard/settings"
+              className="bg-white text-green-600 border border-green-200 hover:bg-green-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+            >
+              Settings
+            </a>
+            <button
+              onClick={handleSignOut}
+              className="bg-white text-red-600 border border-red-200 hover:bg-red-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+            >
+              Sign Out
+            </button>
+          </div>
+        </div>
+
+        <OfflineQueuePanel userId={user.id} balancesAsOf={balancesAsOf} onSynced={fetchAmounts} />
+
+        {loading ? (
+          <div className="bg-white rounded-2xl shadow-lg p-8 text-center">
+            <div className="animate-pulse">
+              <div className="w-12 h-12 bg-blue-200 rounded-full mx-auto mb-4"></div>
+              <div className="h-6 bg-gray-200 rounded w-1/3 mx-auto mb-2"></div>
+              <div className="h-4 bg-gray-200 rounded w-1/2 mx-auto"></div>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+              <div className="bg-white rounded-2xl shadow-lg p-6 border-l-4 border-blue-500 hover:shadow-xl transition-shadow duration-300">
+                <div className="flex items-center mb-4">
+                  <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center mr-3">
+                    <svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-gray-500 font-medium">Available to Spend</h3>
+                </div>
+                <p className="text-3xl font-bold text-gray-800">{formatMoney(availableAmount, profile)}</p>
+                <p className="text-sm text-gray-500 mt-2">ready for your expenses</p>
+              </div>
+              <div className="bg-white rounded-2xl shadow-lg p-6 border-l-4 border-green-500 hover:shadow-xl transition-shadow duration-300">
+                <div className="flex items-center mb-4">
+                  <div className="w-10 h-10 bg-green-100 rounded-full flex items-center justify-center mr-3">
+                    <svg className="w-5 h-5 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                    </svg>
+                  </div>
+                  <h3 className="text-gray-500 font-medium">Locked Savings</h3>
+                </div>
+                <p className="text-3xl font-bold text-gray-800">{formatMoney(lockedAmount, profile)}</p>
+                <p className="text-sm text-gray-500 mt-2">secured for your future</p>
+              </div>
+            </div>
+
+            {/* Jars */}
+            <JarsPanel jars={jars} profile={profile} onUpdate={fetchAmounts} />
+
+            {/* Term Deposits */}
+            <TermDepositsPanel
+              deposits={termDeposits}
+              profile={profile}
+              availableAmount={availableAmount}
+              lockedAmount={lockedAmount}
+              onUpdate={fetchAmounts}
+            />
+
+            {/* Next Payout */}
+            {nextPayout && (
+              <div className="bg-white rounded-2xl shadow-lg p-4 mb-8 flex items-center">
+                <span className="text-2xl mr-3">📅</span>
+                <p className="text-gray-700">
+                  Next allowance: <span className="font-bold text-gray-800">{formatMoney(nextPayout.amount, profile)}</span>{" "}
+                  {dayjs(nextPayout.nextPayout).isSame(dayjs(), "day") ? "today" : `on ${dayjs(nextPayout.nextPayout).format("dddd, MMM D")}`}
+                  <span className="text-gray-500"> · {nextPayout.sourceLabel}</span>
+                </p>
+              </div>
+            )}
+
+            {/* Forms */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <AddAllowanceForm userId={user.id} onUpdate={fetchAmounts} />
+            <SpendForm availableAmount={availableAmount} onUpdate={fetchAmounts} />
+            <UnlockForm userId={user.id} currentLocked={lockedAmount} goals={goals} onUpdate={fetchAmounts} />
+            </div>
+
+            {/* Streaks and badges */}
+            <AchievementsPanel lockedAmount={lockedAmount} />
+
+            {/* Unlock Requests */}
+            <PendingUnlocks requests={unlockRequests} onUpdate={fetchAmounts} />
+
+            {/* Children's accounts, for guardians */}
+            <GuardianPanel linkedChildren={family.children} onUpdate={fetchAmounts} />
+
+            {/* Goals */}
+            <GoalsPanel goals={goals} onUpdate={fetchAmounts} />
+
+            {/* Income */}
+            <IncomeBreakdown />
+
+            {/* Why savings were unlocked */}
+            <UnlockInsights />
+
+            {/* Graph and projection */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+                <MonthlySavingsGraph />
+              </div>
+              <ProjectionPanel userId={user.id} lockedAmount={lockedAmount} schedules={schedules} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
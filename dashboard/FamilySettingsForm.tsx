@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import type { FamilyOverview } from "@/lib/family";
+
+interface Props {
+  family: FamilyOverview;
+  onUpdate: () => void;
+}
+
+export default function FamilySettingsForm({ family, onUpdate }: Props) {
+  const [code, setCode] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const handleCreateInvite = async () => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      const code = await repository.createInvite();
+      setMessage(`✅ Invite code ${code} created. Share it with your child; it works once within 7 days.`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error creating invite:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to create invite code.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!code.trim()) {
+      setMessage("Please enter an invite code.");
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      await repository.redeemInvite(code.trim());
+      setMessage("✅ Linked! Your guardian will now approve your unlocks.");
+      setCode("");
+      onUpdate();
+    } catch (err) {
+      console.error("Error redeeming invite:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to redeem invite code.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (childId: string, email: string | null) => {
+    if (!confirm(`Unlink ${email ?? "this account"}? Their unlocks will no longer need your approval.`)) {
+      return;
+    }
+
+    try {
+      await repository.unlinkChild(childId);
+      onUpdate();
+    } catch (err) {
+      console.error("Error removing link:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to remove link.");
+    }
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded-lg px-4 py-2 text-black uppercase tracking-widest focus:outline-none focus:ring-2 focus:ring-green-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Family</h3>
+
+      {family.guardians.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm font-medium text-gray-700 mb-2">Your guardians</p>
+          <ul className="divide-y divide-gray-100">
+            {family.guardians.map((link) => (
+              <li key={link.guardianId} className="py-2 text-sm text-gray-800">
+                {link.guardianEmail ?? "Guardian"}
+                <span className="text-gray-500"> · since {dayjs(link.createdAt).format("MMM D, YYYY")}</span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-gray-500 mt-1">Unlocks you request wait for a guardian&apos;s approval.</p>
+        </div>
+      )}
+
+      {family.children.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm font-medium text-gray-700 mb-2">Linked children</p>
+          <ul className="divide-y divide-gray-100">
+            {family.children.map((child) => (
+              <li key={child.id} className="py-2 flex justify-between items-center text-sm text-gray-800">
+                {child.email ?? "Linked account"}
+                <button
+                  onClick={() => handleRemove(child.id, child.email)}
+                  className="text-xs text-red-600 hover:text-red-700"
+                >
+                  Unlink
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">I&apos;m a guardian</p>
+          <button
+            onClick={handleCreateInvite}
+            disabled={isSaving}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50"
+          >
+            Create Invite Code
+          </button>
+          {family.invites.length > 0 && (
+            <ul className="mt-3 space-y-1">
+              {family.invites.map((invite) => (
+                <li key={invite.code} className="text-sm text-gray-700">
+                  <span className="font-mono font-semibold tracking-widest">{invite.code}</span>
+                  <span className="text-gray-500"> · expires {dayjs(invite.expiresAt).format("MMM D")}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">I have a code from my guardian</p>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClass}
+              placeholder="Invite code"
+              maxLength={8}
+            />
+            <button
+              onClick={handleRedeem}
+              disabled={isSaving}
+              className="bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              Link
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`mt-4 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
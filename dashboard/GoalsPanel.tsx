@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { Goal, GOAL_ICONS } from "@/lib/goals";
+
+interface Props {
+  goals: Goal[];
+  onUpdate: () => void;
+}
+
+export default function GoalsPanel({ goals, onUpdate }: Props) {
+  const [showForm, setShowForm] = useState<boolean>(false);
+  const [name, setName] = useState<string>("");
+  const [targetAmount, setTargetAmount] = useState<string>("");
+  const [deadline, setDeadline] = useState<string>("");
+  const [icon, setIcon] = useState<string>(GOAL_ICONS[0]);
+  const [allocationPercent, setAllocationPercent] = useState<number>(0);
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const allocatedElsewhere = goals.reduce((sum, g) => sum + g.allocationPercent, 0);
+  const maxAllocation = Math.max(0, 100 - allocatedElsewhere);
+
+  const handleTargetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setTargetAmount(value);
+    }
+  };
+
+  const resetForm = () => {
+    setName("");
+    setTargetAmount("");
+    setDeadline("");
+    setIcon(GOAL_ICONS[0]);
+    setAllocationPercent(0);
+    setShowForm(false);
+  };
+
+  const handleCreate = async () => {
+    const numericTarget = parseFloat(targetAmount) || 0;
+    if (!name.trim() || numericTarget <= 0) {
+      setMessage("Give your goal a name and a target amount.");
+      return;
+    }
+
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      await repository.createGoal({
+        name: name.trim(),
+        targetAmount: numericTarget,
+        deadline: deadline || null,
+        icon,
+        allocationPercent,
+      });
+      setMessage(`✅ Goal "${name.trim()}" created`);
+      resetForm();
+      onUpdate();
+    } catch (err) {
+      console.error("Error creating goal:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error creating goal. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (goal: Goal) => {
+    if (!confirm(`Delete "${goal.name}"? Its $${goal.allocatedAmount.toFixed(2)} stays in your locked savings.`)) {
+      return;
+    }
+
+    try {
+      await repository.deleteGoal(goal.id);
+      onUpdate();
+    } catch (err) {
+      console.error("Error deleting goal:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error deleting goal. Please try again.");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-black">Savings Goals</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          {showForm ? "Cancel" : "New Goal"}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="mb-6 p-4 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={80}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="What are you saving for?"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={targetAmount}
+              onChange={handleTargetChange}
+              className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Target amount"
+            />
+            <input
+              type="date"
+              value={deadline}
+              min={dayjs().format("YYYY-MM-DD")}
+              onChange={(e) => setDeadline(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {GOAL_ICONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setIcon(option)}
+                className={`w-10 h-10 rounded-lg text-xl ${icon === option ? "bg-blue-600" : "bg-white border border-gray-200"}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Share of each allowance&apos;s savings: <span className="font-bold text-green-600">{allocationPercent}%</span>
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={maxAllocation}
+              value={Math.min(allocationPercent, maxAllocation)}
+              onChange={(e) => setAllocationPercent(parseInt(e.target.value))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+            <p className="text-xs text-gray-500 mt-1">{maxAllocation}% of your savings is not assigned to a goal yet</p>
+          </div>
+          <button
+            onClick={handleCreate}
+            disabled={isSaving}
+            className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+          >
+            {isSaving ? "Saving..." : "Create Goal"}
+          </button>
+        </div>
+      )}
+
+      {goals.length === 0 ? (
+        <p className="text-gray-600">No goals yet. Create one to start saving toward something specific.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {goals.map((goal) => {
+            const progress = Math.min(100, (goal.allocatedAmount / goal.targetAmount) * 100);
+            const isComplete = goal.allocatedAmount >= goal.targetAmount;
+            const isLate = !isComplete && !!goal.deadline && (
+              !goal.projectedCompletion || dayjs(goal.projectedCompletion).isAfter(goal.deadline)
+            );
+
+            return (
+              <div key={goal.id} className="border border-gray-200 rounded-xl p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex items-center">
+                    <span className="text-2xl mr-2">{goal.icon}</span>
+                    <div>
+                      <p className="font-medium text-gray-800">{goal.name}</p>
+                      <p className="text-xs text-gray-500">{goal.allocationPercent}% of savings</p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(goal)}
+                    className="text-xs text-red-600 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+                  <div
+                    className={`h-2 rounded-full ${isComplete ? "bg-green-500" : "bg-blue-500"}`}
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+                <p className="text-sm text-gray-700">
+                  ${goal.allocatedAmount.toFixed(2)} of ${goal.targetAmount.toFixed(2)}
+                </p>
+                {goal.deadline && (
+                  <p className="text-xs text-gray-500 mt-1">Deadline: {dayjs(goal.deadline).format("MMM D, YYYY")}</p>
+                )}
+                <p className={`text-xs mt-1 ${isLate ? "text-red-600" : "text-green-600"}`}>
+                  {isComplete
+                    ? "Goal reached! 🎉"
+                    : goal.projectedCompletion
+                      ? `Projected: ${dayjs(goal.projectedCompletion).format("MMM D, YYYY")}`
+                      : "No recent savings toward this goal"}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import type { ChildSummary } from "@/lib/family";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+
+interface Props {
+  linkedChildren: ChildSummary[];
+  onUpdate: () => void;
+}
+
+export default function GuardianPanel({ linkedChildren, onUpdate }: Props) {
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string>("");
+
+  const handleAmountChange = (id: string, value: string) => {
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAmounts((prev) => ({ ...prev, [id]: value }));
+    }
+  };
+
+  const handleDecision = async (request: UnlockRequest, approve: boolean) => {
+    const approvedAmount = amounts[request.id] ? parseFloat(amounts[request.id]) : request.amount;
+    if (approve && (!(approvedAmount > 0) || approvedAmount > request.amount)) {
+      setMessage(`Error: Approve an amount between $0.01 and $${request.amount.toFixed(2)}.`);
+      return;
+    }
+
+    setBusyId(request.id);
+    setMessage("");
+
+    try {
+      await repository.decideUnlockRequest(request.id, {
+        approve,
+        amount: approve ? approvedAmount : undefined,
+        comment: comments[request.id]?.trim() || undefined,
+      });
+      setMessage(approve ? `✅ Approved $${approvedAmount.toFixed(2)}` : "✅ Request declined");
+      onUpdate();
+    } catch (err) {
+      console.error("Error deciding unlock request:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error saving your decision. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (linkedChildren.length === 0) return null;
+
+  const inputClass = "border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <h3 className="text-lg font-semibold mb-4 text-black">Family</h3>
+      <div className="space-y-6">
+        {linkedChildren.map((child) => (
+          <div key={child.id}>
+            <div className="flex justify-between items-baseline mb-2">
+              <p className="font-medium text-gray-800">{child.email ?? "Linked account"}</p>
+              <p className="text-sm text-gray-600">
+                ${child.availableAmount.toFixed(2)} available · ${child.lockedAmount.toFixed(2)} locked
+              </p>
+            </div>
+            {child.requests.length === 0 ? (
+              <p className="text-sm text-gray-500">No unlock requests waiting for you.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {child.requests.map((request) => (
+                  <li key={request.id} className="py-3 space-y-2">
+                    <div>
+                      <p className="font-medium text-gray-800">
+                        ${request.amount.toFixed(2)} · {UNLOCK_REASONS.find((r) => r.id === request.reason)?.label ?? request.reason}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Asked {dayjs(request.createdAt).format("MMM D, h:mm A")}
+                        {request.notes && ` · ${request.notes}`}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2 items-center">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={amounts[request.id] ?? ""}
+                        onChange={(e) => handleAmountChange(request.id, e.target.value)}
+                        className={`${inputClass} w-28`}
+                        placeholder={request.amount.toFixed(2)}
+                      />
+                      <input
+                        type="text"
+                        value={comments[request.id] ?? ""}
+                        onChange={(e) => setComments((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                        className={`${inputClass} flex-1 min-w-[10rem]`}
+                        placeholder="Comment (optional)"
+                        maxLength={500}
+                      />
+                      <button
+                        onClick={() => handleDecision(request, true)}
+                        disabled={busyId === request.id}
+                        className="text-sm bg-green-600 hover:bg-green-700 text-white font-medium py-1 px-3 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleDecision(request, false)}
+                        disabled={busyId === request.id}
+                        className="text-sm text-red-600 border border-red-200 hover:bg-red-50 font-medium py-1 px-3 rounded-lg transition-colors duration-200 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import type { IncomeBreakdown as Breakdown } from "@/lib/incomeSources";
+
+type Period = "this_month" | "last_month" | "this_year" | "custom";
+
+const PERIODS: { id: Period; label: string }[] = [
+  { id: "this_month", label: "This month" },
+  { id: "last_month", label: "Last month" },
+  { id: "this_year", label: "This year" },
+  { id: "custom", label: "Custom" },
+];
+
+const COLORS = ["#3B82F6", "#10B981", "#F59E0B", "#8B5CF6", "#EC4899", "#14B8A6", "#6B7280"];
+
+function periodRange(period: Period): { from: string; to: string } | null {
+  const today = dayjs();
+  switch (period) {
+    case "this_month":
+      return { from: today.startOf("month").format("YYYY-MM-DD"), to: today.format("YYYY-MM-DD") };
+    case "last_month": {
+      const last = today.subtract(1, "month");
+      return { from: last.startOf("month").format("YYYY-MM-DD"), to: last.endOf("month").format("YYYY-MM-DD") };
+    }
+    case "this_year":
+      return { from: today.startOf("year").format("YYYY-MM-DD"), to: today.format("YYYY-MM-DD") };
+    case "custom":
+      return null;
+  }
+}
+
+export default function IncomeBreakdown() {
+  const [period, setPeriod] = useState<Period>("this_month");
+  const [from, setFrom] = useState<string>(dayjs().startOf("month").format("YYYY-MM-DD"));
+  const [to, setTo] = useState<string>(dayjs().format("YYYY-MM-DD"));
+  const [breakdown, setBreakdown] = useState<Breakdown | null>(null);
+  const [error, setError] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const fetchBreakdown = async () => {
+      setLoading(true);
+      setError("");
+
+      try {
+        setBreakdown(await repository.getIncomeBreakdown(from, to));
+      } catch (err) {
+        console.error("Error fetching income breakdown:", err);
+        setBreakdown(null);
+        setError(err instanceof Error ? err.message : "Failed to load income.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBreakdown();
+  }, [from, to]);
+
+  const choosePeriod = (next: Period) => {
+    setPeriod(next);
+    const range = periodRange(next);
+    if (range) {
+      setFrom(range.from);
+      setTo(range.to);
+    }
+  };
+
+  const inputClass = "border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const sources = breakdown?.sources ?? [];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8 hover:shadow-xl transition-shadow duration-300">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Income by Source</h3>
+        <div className="flex flex-wrap gap-2">
+          {PERIODS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => choosePeriod(p.id)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                period === p.id ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {period === "custom" && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            From
+            <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-2">
+            To
+            <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+      )}
+
+      {loading && !breakdown ? (
+        <div className="animate-pulse space-y-2">
+          <div className="h-4 bg-gray-200 rounded w-full"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !breakdown || breakdown.total === 0 ? (
+        <p className="text-sm text-gray-600">No income between {dayjs(from).format("MMM D")} and {dayjs(to).format("MMM D, YYYY")}</p>
+      ) : (
+        <div className={loading ? "opacity-50" : ""}>
+          <p className="text-2xl font-bold text-gray-800 mb-3">${breakdown.total.toFixed(2)}</p>
+
+          {/* Share of the total per source */}
+          <div className="flex h-3 rounded-full overflow-hidden mb-4 bg-gray-100">
+            {sources
+              .filter((source) => source.total > 0)
+              .map((source, i) => (
+                <div
+                  key={source.sourceId ?? "none"}
+                  style={{ width: `${(source.total / breakdown.total) * 100}%`, backgroundColor: COLORS[i % COLORS.length] }}
+                  title={source.name}
+                />
+              ))}
+          </div>
+
+          <ul className="space-y-2 text-sm">
+            {sources.map((source, i) => (
+              <li key={source.sourceId ?? "none"} className="flex justify-between items-center">
+                <span className="flex items-center gap-2 text-gray-700">
+                  <span className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }}></span>
+                  {source.name}
+                  <span className="text-xs text-gray-400">
+                    {source.deposits} deposit{source.deposits === 1 ? "" : "s"}
+                  </span>
+                </span>
+                <span className="font-medium text-gray-800">
+                  ${source.total.toFixed(2)}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {breakdown.total > 0 ? Math.round((source.total / breakdown.total) * 100) : 0}%
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
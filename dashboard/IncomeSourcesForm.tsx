@@ -0,0 +1,167 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import { IncomeSource, MAX_SOURCE_NAME_LENGTH } from "@/lib/incomeSources";
+
+interface Props {
+  onUpdate: () => void;
+}
+
+export default function IncomeSourcesForm({ onUpdate }: Props) {
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [newName, setNewName] = useState<string>("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  const fetchSources = async () => {
+    try {
+      setSources(await repository.listIncomeSources());
+    } catch (err) {
+      console.error("Error fetching income sources:", err);
+      setMessage("Failed to load income sources.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSources();
+  }, []);
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    setMessage("");
+
+    try {
+      const source = await repository.createIncomeSource(newName.trim());
+      setSources([...sources, source]);
+      setNewName("");
+      setMessage(`✅ "${source.name}" added`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error adding income source:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to add income source.");
+    }
+  };
+
+  const handleRename = async (source: IncomeSource) => {
+    if (!editingName.trim() || editingName.trim() === source.name) {
+      setEditingId(null);
+      return;
+    }
+    setMessage("");
+
+    try {
+      const updated = await repository.renameIncomeSource(source.id, editingName.trim());
+      setSources(sources.map((s) => (s.id === updated.id ? updated : s)));
+      setEditingId(null);
+      setMessage(`✅ Renamed to "${updated.name}"`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error renaming income source:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to rename income source.");
+    }
+  };
+
+  const handleDelete = async (source: IncomeSource) => {
+    if (!confirm(`Delete "${source.name}"? Past deposits are kept without a source, and savings rules for it are removed.`)) {
+      return;
+    }
+    setMessage("");
+
+    try {
+      await repository.deleteIncomeSource(source.id);
+      setSources(sources.filter((s) => s.id !== source.id));
+      setMessage(`✅ "${source.name}" deleted`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error deleting income source:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to delete income source.");
+    }
+  };
+
+  const inputClass = "border border-gray-300 rounded-lg px-3 py-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Income Sources</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Pick a source whenever you add money so the dashboard can show where it comes from.
+      </p>
+
+      {isLoading ? (
+        <div className="animate-pulse mb-4">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      ) : (
+        <ul className="mb-4 divide-y divide-gray-100">
+          {sources.map((source) => (
+            <li key={source.id} className="py-2 flex justify-between items-center gap-2">
+              {editingId === source.id ? (
+                <input
+                  type="text"
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={() => handleRename(source)}
+                  onKeyDown={(e) => e.key === "Enter" && handleRename(source)}
+                  maxLength={MAX_SOURCE_NAME_LENGTH}
+                  className={`${inputClass} flex-1`}
+                  autoFocus
+                />
+              ) : (
+                <span className="text-gray-800">{source.name}</span>
+              )}
+              <div className="flex space-x-3 text-xs">
+                <button
+                  onClick={() => {
+                    setEditingId(source.id);
+                    setEditingName(source.name);
+                  }}
+                  className="text-blue-600 hover:text-blue-700"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(source)}
+                  disabled={sources.length <= 1}
+                  className="text-red-600 hover:text-red-700 disabled:opacity-30"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          maxLength={MAX_SOURCE_NAME_LENGTH}
+          className={`${inputClass} flex-1`}
+          placeholder="New source (e.g. Pet sitting)"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white text-sm font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Add
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
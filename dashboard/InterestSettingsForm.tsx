@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import type { FamilyOverview } from "@/lib/family";
+import { Compounding, COMPOUNDINGS, MAX_SELF_SET_RATE } from "@/lib/interest";
+
+interface Props {
+  userId: string;
+  family: FamilyOverview;
+  onUpdate: () => void;
+}
+
+export default function InterestSettingsForm({ userId, family, onUpdate }: Props) {
+  // Guardians can also set the terms for each linked child
+  const [targetId, setTargetId] = useState<string>(userId);
+  const [annualRate, setAnnualRate] = useState<string>("0");
+  const [compounding, setCompounding] = useState<Compounding>("monthly");
+  const [guardianPaid, setGuardianPaid] = useState<boolean>(false);
+  const [paidByEmail, setPaidByEmail] = useState<string | null>(null);
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const isSelf = targetId === userId;
+  const lockedByGuardian = isSelf && guardianPaid;
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      setIsLoading(true);
+      setMessage("");
+      try {
+        const settings = await repository.getInterestSettings(isSelf ? undefined : targetId);
+        setAnnualRate(String(settings.annualRate));
+        setCompounding(settings.compounding);
+        setGuardianPaid(settings.guardianPaid);
+        setPaidByEmail(settings.paidByEmail);
+      } catch (err) {
+        console.error("Error fetching interest settings:", err);
+        setMessage("Failed to load interest settings.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (targetId) fetchSettings();
+  }, [targetId, isSelf]);
+
+  const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAnnualRate(value);
+    }
+  };
+
+  const handleSave = async () => {
+    const rate = parseFloat(annualRate) || 0;
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      await repository.saveInterestSettings({
+        userId: targetId,
+        annualRate: rate,
+        compounding,
+        guardianPaid: !isSelf && guardianPaid,
+      });
+      setMessage(rate > 0 ? `✅ Interest set to ${rate}% a year, compounded ${compounding}` : "✅ Interest turned off");
+      onUpdate();
+    } catch (err) {
+      console.error("Error saving interest settings:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save interest settings.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Interest</h3>
+
+      {family.children.length > 0 && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Savings of</label>
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass}>
+            <option value={userId}>Me</option>
+            {family.children.map((child) => (
+              <option key={child.id} value={child.id}>{child.email ?? "Linked account"}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-10 bg-gray-200 rounded w-full"></div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {lockedByGuardian && (
+            <p className="text-sm text-purple-700 bg-purple-50 rounded-lg p-3">
+              {paidByEmail ?? "Your guardian"} pays interest on your locked savings and sets the rate.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Annual rate (%)</label>
+              <input
+                type="text"
+                inputMode="decimal"
+                value={annualRate}
+                onChange={handleRateChange}
+                disabled={lockedByGuardian}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Compounding</label>
+              <select
+                value={compounding}
+                onChange={(e) => setCompounding(e.target.value as Compounding)}
+                disabled={lockedByGuardian}
+                className={inputClass}
+              >
+                {COMPOUNDINGS.map((c) => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {!isSelf && (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={guardianPaid}
+                onChange={(e) => setGuardianPaid(e.target.checked)}
+                className="mr-2"
+              />
+              I pay this interest (my child cannot change the rate)
+            </label>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Interest is added to locked savings at the end of each period. Changing the rate starts a new period.
+            {!guardianPaid && ` Unless a guardian pays it, the rate can be at most ${MAX_SELF_SET_RATE}% a year.`}
+          </p>
+
+          {!lockedByGuardian && (
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Interest"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
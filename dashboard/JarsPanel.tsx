@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { repository } from "@/lib/repository";
+import type { Jar } from "@/lib/jars";
+import { formatMoney } from "@/lib/profile";
+import type { Profile } from "@/lib/profile";
+
+interface Props {
+  jars: Jar[];
+  profile: Profile;
+  onUpdate: () => void;
+}
+
+// A balance card per jar, and a form for moving money between them. Money
+// can go into a locked jar but only leaves one through an unlock.
+export default function JarsPanel({ jars, profile, onUpdate }: Props) {
+  const [fromJarId, setFromJarId] = useState<string>("");
+  const [toJarId, setToJarId] = useState<string>("");
+  const [amount, setAmount] = useState<string>("");
+  const [notes, setNotes] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isMoving, setIsMoving] = useState<boolean>(false);
+
+  if (jars.length === 0) return null;
+
+  const money = (value: number) => formatMoney(value, profile);
+  const from = jars.find((jar) => jar.id === fromJarId);
+  const to = jars.find((jar) => jar.id === toJarId);
+  // Money already locked can only go to another locked jar
+  const destinations = jars.filter((jar) => jar.id !== fromJarId && (!from?.locked || jar.locked));
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const handleMove = async () => {
+    const numericAmount = parseFloat(amount) || 0;
+    if (!from || !to || numericAmount <= 0) {
+      setMessage("Choose two jars and an amount to move.");
+      return;
+    }
+
+    setIsMoving(true);
+    setMessage("");
+
+    try {
+      await repository.transferBetweenJars({
+        fromJarId,
+        toJarId,
+        amount: numericAmount,
+        notes: notes.trim() || undefined,
+      });
+      setMessage(`✅ Moved ${money(numericAmount)} from ${from.name} to ${to.name}`);
+      setAmount("");
+      setNotes("");
+      onUpdate();
+    } catch (err) {
+      console.error("Error moving money between jars:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error moving money. Please try again.");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <h3 className="text-lg font-semibold mb-4 text-black">Jars</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        {jars.map((jar) => {
+          const progress = jar.goalAmount ? Math.min(100, Math.max(0, (jar.balance / jar.goalAmount) * 100)) : 0;
+          return (
+            <div
+              key={jar.id}
+              className={`rounded-xl p-4 border-l-4 bg-gray-50 ${jar.locked ? "border-green-500" : "border-blue-500"}`}
+            >
+              <div className="flex justify-between items-center mb-1">
+                <p className="font-medium text-gray-800">
+                  {jar.locked ? "🔒 " : ""}
+                  {jar.name}
+                </p>
+                <span className="text-xs text-gray-500">{jar.percent}% of allowance</span>
+              </div>
+              <p className="text-2xl font-bold text-gray-800">{money(jar.balance)}</p>
+              {jar.goalAmount !== null && (
+                <>
+                  <div className="w-full bg-gray-200 rounded-full h-2 mt-2 mb-1">
+                    <div
+                      className={`h-2 rounded-full ${progress >= 100 ? "bg-green-500" : "bg-blue-500"}`}
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {progress >= 100 ? "🎉 Goal reached" : `${money(jar.goalAmount - jar.balance)} to go`} · goal{" "}
+                    {money(jar.goalAmount)}
+                  </p>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {jars.length > 1 && (
+        <div className="p-4 bg-blue-50 rounded-lg border border-blue-200 space-y-3">
+          <h4 className="font-medium text-gray-800">Move Money</h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <select
+              value={fromJarId}
+              onChange={(e) => {
+                setFromJarId(e.target.value);
+                setToJarId("");
+              }}
+              className={inputClass}
+              aria-label="From jar"
+            >
+              <option value="">From...</option>
+              {jars.map((jar) => (
+                <option key={jar.id} value={jar.id}>
+                  {jar.name} ({money(jar.balance)})
+                </option>
+              ))}
+            </select>
+            <select
+              value={toJarId}
+              onChange={(e) => setToJarId(e.target.value)}
+              className={inputClass}
+              aria-label="To jar"
+            >
+              <option value="">To...</option>
+              {destinations.map((jar) => (
+                <option key={jar.id} value={jar.id}>
+                  {jar.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={handleAmountChange}
+              className={inputClass}
+              placeholder="Amount"
+            />
+          </div>
+          <input
+            type="text"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            maxLength={500}
+            className={inputClass}
+            placeholder="Note (optional)"
+          />
+          {from?.locked && (
+            <p className="text-xs text-gray-600">
+              Money in {from.name} can only move to another locked jar. Use an unlock to spend it.
+            </p>
+          )}
+          {from && !from.locked && to?.locked && (
+            <p className="text-xs text-gray-600">This money becomes locked savings.</p>
+          )}
+          <button
+            onClick={handleMove}
+            disabled={isMoving || !fromJarId || !toJarId || !(parseFloat(amount) > 0)}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+          >
+            {isMoving ? "Moving..." : "Move Money"}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>{message}</p>
+      )}
+    </div>
+  );
+}
@@ -1,110 +1,65 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { supabase } from "@/lib/supabaseClient";
 import {
-  LineChart,
+  ComposedChart,
+  Bar,
   Line,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
+  ReferenceDot,
   ResponsiveContainer,
 } from "recharts";
 import dayjs from "dayjs";
-import isoWeek from "dayjs/plugin/isoWeek";
+import { repository } from "@/lib/repository";
+import type { IncomeSource } from "@/lib/incomeSources";
+import { ChartInterval, CHART_INTERVALS, SavingsSeries, SeriesPoint } from "@/lib/savingsSeries";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
 
-dayjs.extend(isoWeek);
+interface ChartPoint extends SeriesPoint {
+  previous: SeriesPoint | null;
+}
 
-type Interval = "daily" | "weekly" | "monthly" | "yearly";
+const SERIES = [
+  { key: "allowance", label: "Allowance received", color: "#10B981" },
+  { key: "unlocked", label: "Unlocked", color: "#F59E0B" },
+  { key: "locked", label: "Locked savings", color: "#1D4ED8" },
+  { key: "available", label: "Available", color: "#6B7280" },
+] as const;
 
-interface SavingsData {
-  x: string;
-  y: number;
-}
+// One line per jar, in jar order
+const JAR_COLORS = ["#7C3AED", "#DB2777", "#0891B2", "#65A30D", "#EA580C", "#4F46E5"];
 
-interface MonthlySavingsGraphProps {
-  userId: string;
-}
+const reasonLabel = (reason: string | null) =>
+  UNLOCK_REASONS.find((r) => r.id === reason)?.label ?? reason ?? "Unlock";
 
-export default function MonthlySavingsGraph({ userId }: MonthlySavingsGraphProps) {
-  const [interval, setInterval] = useState<Interval>("monthly");
-  const [data, setData] = useState<SavingsData[]>([]);
+const total = (points: SeriesPoint[], key: "allowance" | "unlocked") =>
+  points.reduce((sum, point) => sum + point[key], 0);
+
+export default function MonthlySavingsGraph() {
+  const [interval, setInterval] = useState<ChartInterval>("monthly");
+  const [from, setFrom] = useState<string>(dayjs().subtract(6, "month").format("YYYY-MM-DD"));
+  const [to, setTo] = useState<string>(dayjs().format("YYYY-MM-DD"));
+  const [compare, setCompare] = useState<boolean>(false);
+  const [sourceId, setSourceId] = useState<string>("");
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [series, setSeries] = useState<SavingsSeries | null>(null);
+  const [error, setError] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(true);
 
   const fetchData = async () => {
-    if (!userId) return;
     setLoading(true);
+    setError("");
 
     try {
-      // Fetch all transactions to calculate cumulative savings
-      const { data: transactions, error } = await supabase
-        .from("transactions")
-        .select("amount, type, created_at")
-        .eq("user_id", userId)
-        .order("created_at", { ascending: true });
-
-      if (error) throw error;
-
-      if (!transactions || transactions.length === 0) {
-        setData([]);
-        return;
-      }
-
-      // Calculate cumulative savings over time
-      let cumulativeSavings = 0;
-      const savingsByDate: { [key: string]: number } = {};
-
-      transactions.forEach((transaction: any) => {
-        const date = dayjs(transaction.created_at);
-        let dateKey = "";
-
-        switch (interval) {
-          case "daily":
-            dateKey = date.format("YYYY-MM-DD");
-            break;
-          case "weekly":
-            dateKey = `Week ${date.isoWeek()}`;
-            break;
-          case "monthly":
-            dateKey = date.format("YYYY-MM");
-            break;
-          case "yearly":
-            dateKey = date.format("YYYY");
-            break;
-        }
-
-        if (transaction.type === "allowance") {
-          const savingsFromTransaction = Number(transaction.amount) * 0.2;
-          cumulativeSavings += savingsFromTransaction;
-        } else if (transaction.type === "unlock") {
-          cumulativeSavings -= Number(transaction.amount);
-        }
-
-        // Store the cumulative savings for this date period
-        savingsByDate[dateKey] = cumulativeSavings;
-      });
-
-      // Format the data for the chart
-      const formattedData: SavingsData[] = Object.entries(savingsByDate).map(([date, amount]) => {
-        let xLabel = date;
-        
-        // Format the x-axis label nicely
-        if (interval === "weekly") {
-          const weekNumber = date.replace("Week ", "");
-          xLabel = `Week ${weekNumber}`;
-        } else if (interval === "monthly") {
-          const [year, month] = date.split("-");
-          xLabel = dayjs(`${year}-${month}-01`).format("MMMM YYYY");
-        }
-
-        return { x: xLabel, y: Number(amount.toFixed(2)) };
-      });
-
-      setData(formattedData);
+      setSeries(await repository.getSavingsSeries({ interval, from, to, compare, sourceId: sourceId || null }));
     } catch (err) {
       console.error("Error fetching graph data:", err);
-      setData([]);
+      setSeries(null);
+      setError(err instanceof Error ? err.message : "Failed to load the chart.");
     } finally {
       setLoading(false);
     }
@@ -112,14 +67,38 @@ export default function MonthlySavingsGraph({ userId }: MonthlySavingsGraphProps
 
   useEffect(() => {
     fetchData();
-  }, [userId, interval]);
+  }, [interval, from, to, compare, sourceId]);
+
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        setSources(await repository.listIncomeSources());
+      } catch (err) {
+        console.error("Error fetching income sources:", err);
+      }
+    };
+
+    fetchSources();
+  }, []);
+
+  const sourceName = sources.find((source) => source.id === sourceId)?.name;
+  const seriesLabel = (key: (typeof SERIES)[number]["key"]) =>
+    key === "allowance" && sourceName ? `${sourceName} received` : SERIES.find((s) => s.key === key)?.label;
+
+  const data: ChartPoint[] = (series?.points ?? []).map((point, index) => ({
+    ...point,
+    previous: series?.previous?.[index] ?? null,
+  }));
+  const hasActivity = data.some((point) => point.allowance !== 0 || point.unlocked !== 0 || point.locked !== 0);
+
+  const inputClass = "border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
 
   return (
     <div className="bg-white p-6 rounded-2xl shadow-lg hover:shadow-xl transition-shadow duration-300">
-      <div className="flex justify-between items-center mb-4">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
         <h3 className="text-lg font-semibold text-gray-800">Savings Growth Over Time</h3>
         <div className="flex space-x-2">
-          {(["daily", "weekly", "monthly", "yearly"] as Interval[]).map((intv) => (
+          {CHART_INTERVALS.map((intv) => (
             <button
               key={intv}
               onClick={() => setInterval(intv)}
@@ -135,33 +114,150 @@ export default function MonthlySavingsGraph({ userId }: MonthlySavingsGraphProps
         </div>
       </div>
 
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          From
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          To
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={compare} onChange={(e) => setCompare(e.target.checked)} />
+          Compare with previous period
+        </label>
+        <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className={inputClass}>
+          <option value="">All income sources</option>
+          {sources.map((source) => (
+            <option key={source.id} value={source.id}>{source.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {series?.previous && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4 text-sm">
+          {(["allowance", "unlocked"] as const).map((key) => {
+            const current = total(series.points, key);
+            const previous = total(series.previous!, key);
+            return (
+              <div key={key} className="bg-gray-50 rounded-lg p-3">
+                <p className="text-gray-500">{seriesLabel(key)}</p>
+                <p className="font-semibold text-gray-800">
+                  ${current.toFixed(2)}{" "}
+                  <span className="font-normal text-gray-500">vs ${previous.toFixed(2)} in the previous period</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {loading ? (
         <div className="h-64 flex items-center justify-center">
           <div className="animate-pulse w-full bg-gray-200 h-full rounded"></div>
         </div>
-      ) : data.length === 0 ? (
+      ) : error ? (
+        <div className="h-64 flex items-center justify-center">
+          <p className="text-red-600">{error}</p>
+        </div>
+      ) : !hasActivity ? (
         <div className="h-64 flex items-center justify-center">
-          <p className="text-gray-600">No savings data available yet</p>
+          <p className="text-gray-600">No savings data available for this range</p>
         </div>
       ) : (
-        <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+        <ResponsiveContainer width="100%" height={340}>
+          <ComposedChart data={data} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="x" />
+            <XAxis dataKey="label" />
             <YAxis />
-            <Tooltip 
-              formatter={(value: number) => [`$${value.toFixed(2)}`, "Savings"]}
-              labelFormatter={(label) => `Period: ${label}`}
+            <Tooltip
+              content={({ active, payload }) => {
+                if (!active || !payload?.length) return null;
+                const point = payload[0].payload as ChartPoint;
+                return (
+                  <div className="bg-white border border-gray-200 rounded-lg shadow p-3 text-sm text-gray-800 max-w-xs">
+                    <p className="font-semibold mb-1">{point.label}</p>
+                    {SERIES.map((s) => (
+                      <p key={s.key} style={{ color: s.color }}>
+                        {seriesLabel(s.key)}: ${point[s.key].toFixed(2)}
+                        {point.previous && (
+                          <span className="text-gray-500"> (was ${point.previous[s.key].toFixed(2)})</span>
+                        )}
+                      </p>
+                    ))}
+                    {series?.jars.map((jar, i) => (
+                      <p key={jar.id} style={{ color: JAR_COLORS[i % JAR_COLORS.length] }}>
+                        {jar.locked ? "🔒 " : ""}{jar.name}: ${(point.jars[jar.id] ?? 0).toFixed(2)}
+                      </p>
+                    ))}
+                    {point.unlocks.map((unlock) => (
+                      <div key={unlock.id} className="mt-2 pt-2 border-t border-gray-100">
+                        <p className="font-medium text-red-600">
+                          🔓 ${unlock.amount.toFixed(2)} · {reasonLabel(unlock.reason)}
+                        </p>
+                        <p className="text-xs text-gray-500">{dayjs(unlock.createdAt).format("MMM D, YYYY")}</p>
+                        {unlock.notes && <p className="text-xs text-gray-600 italic">{unlock.notes}</p>}
+                      </div>
+                    ))}
+                  </div>
+                );
+              }}
             />
-            <Line 
-              type="monotone" 
-              dataKey="y" 
-              stroke="#1D4ED8" 
-              strokeWidth={3} 
-              dot={{ r: 4 }} 
+            <Legend />
+            <Bar dataKey="allowance" name={seriesLabel("allowance")} fill="#10B981" />
+            <Bar dataKey="unlocked" name="Unlocked" fill="#F59E0B" />
+            <Line
+              type="monotone"
+              dataKey="locked"
+              name="Locked savings"
+              stroke="#1D4ED8"
+              strokeWidth={3}
+              dot={{ r: 3 }}
               activeDot={{ r: 6, fill: "#1D4ED8" }}
             />
-          </LineChart>
+            <Line type="monotone" dataKey="available" name="Available" stroke="#6B7280" strokeWidth={2} dot={false} />
+            {series?.jars.map((jar, i) => (
+              <Line
+                key={jar.id}
+                type="monotone"
+                dataKey={(point: ChartPoint) => point.jars[jar.id] ?? 0}
+                name={jar.name}
+                stroke={JAR_COLORS[i % JAR_COLORS.length]}
+                strokeWidth={2}
+                strokeDasharray={jar.locked ? undefined : "3 3"}
+                dot={false}
+              />
+            ))}
+            {series?.previous && (
+              <Line
+                type="monotone"
+                dataKey="previous.locked"
+                name="Locked savings (previous period)"
+                stroke="#1D4ED8"
+                strokeOpacity={0.4}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            )}
+            {series?.previous && (
+              <Line
+                type="monotone"
+                dataKey="previous.available"
+                name="Available (previous period)"
+                stroke="#6B7280"
+                strokeOpacity={0.4}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            )}
+            {/* Unlock markers; hover the period for reasons and notes */}
+            {data
+              .filter((point) => point.unlocks.length > 0)
+              .map((point) => (
+                <ReferenceDot key={point.key} x={point.label} y={point.locked} r={6} fill="#DC2626" stroke="#fff" />
+              ))}
+          </ComposedChart>
         </ResponsiveContainer>
       )}
     </div>
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import dayjs from "dayjs";
+import { describeNotification } from "@/lib/notifications";
+import type { Notification } from "@/lib/notifications";
+import { repository } from "@/lib/repository";
+
+interface Props {
+  userId: string;
+  // Called when a notification about the ledger arrives, so balances refresh
+  onLedgerChange: () => void;
+}
+
+export default function NotificationBell({ userId, onLedgerChange }: Props) {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  // The subscription lives as long as the user; read the latest callback
+  const onLedgerChangeRef = useRef(onLedgerChange);
+  onLedgerChangeRef.current = onLedgerChange;
+
+  useEffect(() => {
+    const fetchNotifications = async () => {
+      try {
+        const feed = await repository.listNotifications();
+        setNotifications(feed.notifications);
+        setUnreadCount(feed.unreadCount);
+      } catch (err) {
+        console.error("Error fetching notifications:", err);
+      }
+    };
+
+    fetchNotifications();
+
+    return repository.subscribeNotifications((notification) => {
+      setNotifications((current) => [notification, ...current.filter((n) => n.id !== notification.id)]);
+      setUnreadCount((count) => count + 1);
+      if (notification.transactionId) onLedgerChangeRef.current();
+    });
+  }, [userId]);
+
+  const markRead = async (ids?: string[]) => {
+    try {
+      await repository.markNotificationsRead(ids);
+      setNotifications((current) => current.map((n) => (!ids || ids.includes(n.id) ? { ...n, read: true } : n)));
+      setUnreadCount((count) => (ids ? Math.max(count - ids.length, 0) : 0));
+    } catch (err) {
+      console.error("Error marking notifications read:", err);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ""}`}
+        className="relative bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 font-medium py-2 px-3 rounded-lg transition-colors duration-200 shadow-sm"
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-5 h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-100 z-10">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100">
+            <span className="font-semibold text-gray-800">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-sm text-blue-600 hover:text-blue-700">
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map((notification) => {
+                const { icon, text } = describeNotification(notification);
+                return (
+                  <li
+                    key={notification.id}
+                    onClick={() => !notification.read && markRead([notification.id])}
+                    className={`flex gap-3 px-4 py-3 text-sm ${notification.read ? "text-gray-500" : "bg-blue-50 text-gray-800 cursor-pointer"}`}
+                  >
+                    <span>{icon}</span>
+                    <div className="flex-1">
+                      <p>{text}</p>
+                      <p className="text-xs text-gray-400 mt-1">{dayjs(notification.createdAt).format("MMM D, h:mm A")}</p>
+                    </div>
+                    {!notification.read && <span className="w-2 h-2 mt-1 rounded-full bg-blue-600"></span>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import { NOTIFICATION_KINDS } from "@/lib/notifications";
+import type { NotificationKind } from "@/lib/notifications";
+
+type Preferences = Record<NotificationKind, boolean>;
+
+export default function NotificationPreferencesForm() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        setPreferences(await repository.getNotificationPreferences());
+      } catch (err) {
+        console.error("Error fetching notification preferences:", err);
+        setMessage("Failed to load notification preferences.");
+      }
+    };
+
+    fetchPreferences();
+  }, []);
+
+  const handleSave = async () => {
+    if (!preferences) return;
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      setPreferences(await repository.saveNotificationPreferences(preferences));
+      setMessage("✅ Notification preferences saved");
+    } catch (err) {
+      console.error("Error saving notification preferences:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save notification preferences.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Notifications</h3>
+      <p className="text-sm text-gray-600 mb-4">Choose which events show up in your notification bell.</p>
+
+      {preferences && (
+        <div className="space-y-3 mb-6">
+          {NOTIFICATION_KINDS.map((kind) => (
+            <label key={kind.id} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences[kind.id]}
+                onChange={(e) => setPreferences({ ...preferences, [kind.id]: e.target.checked })}
+                className="mt-1 h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-800">{kind.label}</span>
+                <span className="block text-xs text-gray-500">{kind.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving || !preferences}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Saving..." : "Save Notification Preferences"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
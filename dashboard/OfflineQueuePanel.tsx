@@ -0,0 +1,207 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import dayjs from "dayjs";
+import { discardQueued, listQueue, QUEUE_CHANGED_EVENT, QueuedEntry, replayQueue, updateQueued } from "@/lib/offlineQueue";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+
+interface Props {
+  userId: string;
+  // Set when the balances on screen come from the offline cache
+  balancesAsOf: string | null;
+  onSynced: () => void;
+}
+
+const describeEntry = (entry: QueuedEntry) => {
+  const amount = `$${Number(entry.body.amount).toFixed(2)}`;
+  if (entry.kind === "allowance") return `Add ${amount} allowance`;
+  const { body } = entry;
+  const reason = "reason" in body ? UNLOCK_REASONS.find((r) => r.id === body.reason)?.label : undefined;
+  return `Unlock ${amount}${reason ? ` for ${reason}` : ""}`;
+};
+
+export default function OfflineQueuePanel({ userId, balancesAsOf, onSynced }: Props) {
+  const [entries, setEntries] = useState<QueuedEntry[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(true);
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const [message, setMessage] = useState<string>("");
+  const [editing, setEditing] = useState<{ seq: number; amount: string } | null>(null);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = async () => {
+    setIsSyncing(true);
+    setMessage("");
+
+    try {
+      const result = await replayQueue(userId);
+      if (result.synced > 0) onSyncedRef.current();
+      if (result.conflict) {
+        setMessage("An entry below was not recorded. Retry, change or discard it so the rest can sync.");
+      } else if (result.synced > 0) {
+        setMessage(`✅ Synced ${result.synced} offline entr${result.synced === 1 ? "y" : "ies"}`);
+      }
+    } catch (err) {
+      console.error("Error syncing offline entries:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to sync offline entries.");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Kept in a ref so the listeners below always run the latest sync
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        setEntries(await listQueue(userId));
+      } catch (err) {
+        console.error("Error reading offline queue:", err);
+      }
+    };
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    fetchQueue();
+    if (navigator.onLine) syncRef.current();
+
+    window.addEventListener(QUEUE_CHANGED_EVENT, fetchQueue);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener(QUEUE_CHANGED_EVENT, fetchQueue);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [userId]);
+
+  const handleRetry = async (entry: QueuedEntry) => {
+    await updateQueued({ ...entry, conflict: null });
+    await sync();
+  };
+
+  const handleSaveAmount = async (entry: QueuedEntry) => {
+    const amount = parseFloat(editing?.amount ?? "");
+    if (!(amount > 0)) {
+      setMessage("Please enter a valid amount.");
+      return;
+    }
+    setEditing(null);
+    await updateQueued({ ...entry, body: { ...entry.body, amount: Math.round(amount * 100) / 100 }, conflict: null });
+    if (navigator.onLine) await sync();
+  };
+
+  const handleDiscard = async (entry: QueuedEntry) => {
+    if (!confirm(`Discard "${describeEntry(entry)}"? It will not be recorded.`)) return;
+    await discardQueued(entry.seq!);
+    if (navigator.onLine) await sync();
+  };
+
+  if (isOnline && entries.length === 0 && !balancesAsOf && !message) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      {!isOnline && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          📴 You&apos;re offline. New allowances and unlocks are saved on this device and sent when you reconnect.
+        </div>
+      )}
+      {balancesAsOf && (
+        <p className="text-sm text-gray-600 mb-4">
+          Showing balances from {dayjs(balancesAsOf).format("MMM D [at] h:mm A")}. They will update once you are back online.
+        </p>
+      )}
+
+      {entries.length > 0 && (
+        <>
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-semibold text-gray-800">Waiting to Sync ({entries.length})</h3>
+            {isOnline && (
+              <button
+                onClick={sync}
+                disabled={isSyncing}
+                className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+              >
+                {isSyncing ? "Syncing..." : "Sync now"}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {entries.map((entry) => (
+              <li
+                key={entry.seq}
+                className={`p-3 rounded-lg border ${entry.conflict ? "border-red-200 bg-red-50" : "border-gray-200 bg-gray-50"}`}
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="text-sm font-medium text-gray-800">{describeEntry(entry)}</p>
+                    <p className="text-xs text-gray-500">Saved {dayjs(entry.queuedAt).format("MMM D [at] h:mm A")}</p>
+                  </div>
+                  <button onClick={() => handleDiscard(entry)} className="text-xs text-red-600 hover:text-red-700">
+                    Discard
+                  </button>
+                </div>
+
+                {entry.conflict && (
+                  <div className="mt-2">
+                    <p className="text-sm text-red-700 mb-2">Not recorded: {entry.conflict}</p>
+                    {editing && editing.seq === entry.seq ? (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          inputMode="decimal"
+                          value={editing.amount}
+                          onChange={(e) => {
+                            if (e.target.value === "" || /^\d*\.?\d*$/.test(e.target.value)) {
+                              setEditing({ seq: entry.seq!, amount: e.target.value });
+                            }
+                          }}
+                          className="flex-1 border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="New amount"
+                        />
+                        <button
+                          onClick={() => handleSaveAmount(entry)}
+                          className="bg-blue-600 hover:bg-blue-700 text-white text-sm py-1 px-3 rounded-lg"
+                        >
+                          Save
+                        </button>
+                        <button onClick={() => setEditing(null)} className="text-sm text-gray-600 hover:text-gray-800">
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-3 text-sm">
+                        <button onClick={() => handleRetry(entry)} className="text-blue-600 hover:text-blue-700">
+                          Retry
+                        </button>
+                        <button
+                          onClick={() => setEditing({ seq: entry.seq!, amount: String(entry.body.amount) })}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          Change amount
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
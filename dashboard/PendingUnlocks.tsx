@@ -0,0 +1,98 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+
+interface Props {
+  requests: UnlockRequest[];
+  onUpdate: () => void;
+}
+
+function formatRemaining(maturesAt: string, now: dayjs.Dayjs): string {
+  const minutes = Math.max(dayjs(maturesAt).diff(now, "minute"), 0);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  return `${minutes}m`;
+}
+
+export default function PendingUnlocks({ requests, onUpdate }: Props) {
+  const [now, setNow] = useState(dayjs());
+  const [message, setMessage] = useState<string>("");
+
+  // Keep the countdowns moving; refresh balances once a request matures
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const current = dayjs();
+      setNow(current);
+      if (requests.some((r) => r.status === "pending" && !dayjs(r.maturesAt).isAfter(current))) {
+        onUpdate();
+      }
+    }, 60 * 1000);
+    return () => clearInterval(timer);
+  }, [requests, onUpdate]);
+
+  const handleCancel = async (request: UnlockRequest) => {
+    setMessage("");
+    try {
+      await repository.cancelUnlockRequest(request.id);
+      setMessage(`Cancelled. $${request.amount.toFixed(2)} stays locked.`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error cancelling unlock request:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error cancelling request. Please try again.");
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <h3 className="text-lg font-semibold mb-4 text-black">Unlock Requests</h3>
+      <ul className="divide-y divide-gray-100">
+        {requests.map((request) => (
+          <li key={request.id} className="py-3 flex justify-between items-center">
+            <div>
+              <p className="font-medium text-gray-800">
+                ${request.amount.toFixed(2)} · {UNLOCK_REASONS.find((r) => r.id === request.reason)?.label ?? request.reason}
+              </p>
+              <p className="text-xs text-gray-500">
+                {request.status === "awaiting_approval" && "Waiting for your guardian's approval"}
+                {request.status === "pending" && `Releases in ${formatRemaining(request.maturesAt, now)}`}
+                {request.status === "applied" && `Released ${dayjs(request.resolvedAt).format("MMM D, h:mm A")}`}
+                {request.status === "cancelled" && "Cancelled"}
+                {request.status === "failed" && `Could not be released: ${request.failureReason}`}
+                {request.status === "rejected" && "Declined by your guardian"}
+              </p>
+              {request.decidedAt && request.amount < request.requestedAmount && (
+                <p className="text-xs text-amber-600">
+                  Approved ${request.amount.toFixed(2)} of the ${request.requestedAmount.toFixed(2)} you asked for
+                </p>
+              )}
+              {request.guardianComment && (
+                <p className="text-xs text-gray-600 italic">&ldquo;{request.guardianComment}&rdquo;</p>
+              )}
+            </div>
+            {(request.status === "pending" || request.status === "awaiting_approval") && (
+              <button
+                onClick={() => handleCancel(request)}
+                className="text-sm text-red-600 border border-red-200 hover:bg-red-50 font-medium py-1 px-3 rounded-lg transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("Error") ? "text-red-600" : "text-green-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
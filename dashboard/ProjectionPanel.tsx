@@ -0,0 +1,122 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { repository } from "@/lib/repository";
+import { Compounding, projectLockedSavings } from "@/lib/interest";
+import type { AllowanceSchedule } from "@/lib/schedules";
+
+interface Props {
+  userId: string;
+  lockedAmount: number;
+  schedules: AllowanceSchedule[];
+}
+
+interface Scenario {
+  savingsPercent: number;
+  annualRate: number;
+  allowancePercent: number;
+  months: number;
+}
+
+export default function ProjectionPanel({ userId, lockedAmount, schedules }: Props) {
+  const [actual, setActual] = useState<Scenario>({ savingsPercent: 20, annualRate: 0, allowancePercent: 100, months: 12 });
+  const [scenario, setScenario] = useState<Scenario>(actual);
+  const [compounding, setCompounding] = useState<Compounding>("monthly");
+
+  // Start the sliders from the user's real settings
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const settings = await repository.getSettings();
+        const interest = await repository.getInterestSettings();
+
+        const loaded = {
+          savingsPercent: settings.savingsPercent,
+          annualRate: interest.annualRate,
+          allowancePercent: 100,
+          months: 12,
+        };
+        setActual(loaded);
+        setScenario(loaded);
+        setCompounding(interest.compounding);
+      } catch (err) {
+        console.error("Error fetching projection settings:", err);
+      }
+    };
+
+    if (userId) fetchSettings();
+  }, [userId]);
+
+  const projection = projectLockedSavings({
+    lockedAmount,
+    schedules: schedules.filter((s) => s.nextPayout),
+    savingsPercent: scenario.savingsPercent,
+    annualRate: scenario.annualRate,
+    compounding,
+    months: scenario.months,
+    allowanceFactor: scenario.allowancePercent / 100,
+  });
+  const end = projection[projection.length - 1];
+  const isWhatIf = JSON.stringify(scenario) !== JSON.stringify(actual);
+
+  const sliders: { key: keyof Scenario; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+    { key: "savingsPercent", label: "Savings percentage", min: 0, max: 100, step: 1, format: (v) => `${v}%` },
+    { key: "annualRate", label: "Interest rate", min: 0, max: Math.max(20, actual.annualRate), step: 0.5, format: (v) => `${v}% a year` },
+    { key: "allowancePercent", label: "Allowance", min: 0, max: 300, step: 10, format: (v) => `${v}% of today's` },
+    { key: "months", label: "Look ahead", min: 3, max: 60, step: 1, format: (v) => `${v} months` },
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Growth Projection</h3>
+        {isWhatIf && (
+          <button onClick={() => setScenario(actual)} className="text-sm text-blue-600 hover:text-blue-700">
+            Reset to my settings
+          </button>
+        )}
+      </div>
+
+      <p className="text-gray-700 mb-4">
+        In {scenario.months} months: <span className="text-2xl font-bold text-gray-800">${end.locked.toFixed(2)}</span>
+        <span className="block text-sm text-gray-500">
+          ${end.contributed.toFixed(2)} from allowances · ${end.interest.toFixed(2)} interest
+          {schedules.every((s) => !s.nextPayout) && " · add a recurring allowance to project new savings"}
+        </span>
+      </p>
+
+      <ResponsiveContainer width="100%" height={220}>
+        <LineChart data={projection} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" />
+          <YAxis />
+          <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+          <Legend />
+          <Line type="monotone" dataKey="locked" name="Locked savings" stroke="#1D4ED8" strokeWidth={3} dot={false} />
+          <Line type="monotone" dataKey="interest" name="Interest earned" stroke="#7C3AED" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 space-y-3">
+        {sliders.map((slider) => (
+          <div key={slider.key}>
+            <label className="flex justify-between text-sm text-gray-700 mb-1">
+              <span>{slider.label}</span>
+              <span className="font-medium">{slider.format(scenario[slider.key])}</span>
+            </label>
+            <input
+              type="range"
+              min={slider.min}
+              max={slider.max}
+              step={slider.step}
+              value={scenario[slider.key]}
+              onChange={(e) => setScenario({ ...scenario, [slider.key]: Number(e.target.value) })}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
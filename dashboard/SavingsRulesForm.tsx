@@ -0,0 +1,294 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import type { IncomeSource } from "@/lib/incomeSources";
+import { evaluateRules, MAX_RULES, RULE_KINDS, SavingsRule, SavingsRuleKind } from "@/lib/savingsRules";
+
+interface Props {
+  userId: string;
+  onUpdate: () => void;
+}
+
+function newRule(kind: SavingsRuleKind, source: IncomeSource | undefined): SavingsRule {
+  const none = { sourceId: null, sourceName: null };
+  switch (kind) {
+    case "source_percent":
+      return {
+        kind,
+        sourceId: source?.id ?? null,
+        sourceName: source?.name ?? null,
+        percent: 20,
+        threshold: null,
+        amount: null,
+        tiers: [],
+      };
+    case "tiered":
+      return {
+        kind,
+        ...none,
+        percent: null,
+        threshold: null,
+        amount: null,
+        tiers: [
+          { upTo: 20, percent: 10 },
+          { upTo: null, percent: 30 },
+        ],
+      };
+    case "windfall":
+      return { kind, ...none, percent: 50, threshold: 50, amount: null, tiers: [] };
+    case "minimum":
+      return { kind, ...none, percent: null, threshold: null, amount: 1, tiers: [] };
+    case "round_up":
+      return { kind, ...none, percent: null, threshold: null, amount: null, tiers: [] };
+  }
+}
+
+export default function SavingsRulesForm({ userId, onUpdate }: Props) {
+  const [rules, setRules] = useState<SavingsRule[]>([]);
+  const [fallbackPercent, setFallbackPercent] = useState<number>(20);
+  const [newKind, setNewKind] = useState<SavingsRuleKind>("source_percent");
+  const [previewAmount, setPreviewAmount] = useState<string>("25");
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+  const [previewSource, setPreviewSource] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchRules = async () => {
+      try {
+        setRules(await repository.listSavingsRules());
+
+        const incomeSources = await repository.listIncomeSources();
+        setSources(incomeSources);
+        setPreviewSource(incomeSources[0]?.id ?? "");
+
+        setFallbackPercent((await repository.getSettings()).savingsPercent);
+      } catch (err) {
+        console.error("Error fetching savings rules:", err);
+        setMessage("Failed to load savings rules.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (userId) fetchRules();
+  }, [userId]);
+
+  const updateRule = (index: number, changes: Partial<SavingsRule>) => {
+    setRules(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    setRules(next);
+  };
+
+  const handleNumber = (value: string): number | null => (value === "" ? null : Number(value));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      setRules(await repository.saveSavingsRules(rules));
+      setMessage(`✅ ${rules.length === 0 ? "Rules cleared" : `${rules.length} rule${rules.length > 1 ? "s" : ""} saved`}`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error saving savings rules:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save savings rules.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const amount = parseFloat(previewAmount) || 0;
+  const preview = evaluateRules(rules, amount, previewSource || null, fallbackPercent);
+
+  const inputClass = "border border-gray-300 rounded-lg px-2 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-green-500";
+  const numberInput = (value: number | null, onChange: (value: number | null) => void, width = "w-20") => (
+    <input
+      type="number"
+      min={0}
+      step="any"
+      value={value ?? ""}
+      onChange={(e) => onChange(handleNumber(e.target.value))}
+      className={`${inputClass} ${width}`}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4 text-black">Savings Rules</h3>
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Savings Rules</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Rules run from top to bottom. The first matching percent rule sets how much is saved; minimum and round-up
+        rules then add to it. Deposits no percent rule matches save your {fallbackPercent}% savings percentage.
+      </p>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No rules yet.</p>
+      ) : (
+        <ol className="mb-4 space-y-2">
+          {rules.map((rule, index) => (
+            <li key={rule.id ?? `new-${index}`} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-medium text-gray-800">
+                  {index + 1}. {RULE_KINDS.find((k) => k.id === rule.kind)?.label}
+                </span>
+                <div className="flex space-x-2 text-xs">
+                  <button onClick={() => moveRule(index, -1)} disabled={index === 0} className="text-gray-600 disabled:opacity-30">
+                    ↑
+                  </button>
+                  <button onClick={() => moveRule(index, 1)} disabled={index === rules.length - 1} className="text-gray-600 disabled:opacity-30">
+                    ↓
+                  </button>
+                  <button onClick={() => setRules(rules.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-700">
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                {rule.kind === "source_percent" && (
+                  <>
+                    Save {numberInput(rule.percent, (percent) => updateRule(index, { percent }))} % of
+                    <select
+                      value={rule.sourceId ?? ""}
+                      onChange={(e) =>
+                        updateRule(index, {
+                          sourceId: e.target.value,
+                          sourceName: sources.find((source) => source.id === e.target.value)?.name ?? null,
+                        })
+                      }
+                      className={inputClass}
+                    >
+                      {sources.map((source) => (
+                        <option key={source.id} value={source.id}>{source.name}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                {rule.kind === "windfall" && (
+                  <>
+                    Save {numberInput(rule.percent, (percent) => updateRule(index, { percent }))} % of deposits over $
+                    {numberInput(rule.threshold, (threshold) => updateRule(index, { threshold }))}
+                  </>
+                )}
+                {rule.kind === "minimum" && (
+                  <>Save at least ${numberInput(rule.amount, (value) => updateRule(index, { amount: value }))} of each deposit</>
+                )}
+                {rule.kind === "round_up" && <>Round the saved amount up to the next whole dollar</>}
+                {rule.kind === "tiered" && (
+                  <div className="space-y-1 w-full">
+                    {rule.tiers.map((tier, t) => (
+                      <div key={t} className="flex items-center gap-2">
+                        {numberInput(tier.percent, (percent) =>
+                          updateRule(index, { tiers: rule.tiers.map((x, i) => (i === t ? { ...x, percent: percent ?? 0 } : x)) })
+                        )}
+                        % {t === rule.tiers.length - 1 ? "of the rest" : "up to $"}
+                        {t < rule.tiers.length - 1 &&
+                          numberInput(tier.upTo, (upTo) =>
+                            updateRule(index, { tiers: rule.tiers.map((x, i) => (i === t ? { ...x, upTo } : x)) })
+                          )}
+                      </div>
+                    ))}
+                    <button
+                      onClick={() =>
+                        updateRule(index, {
+                          tiers: [
+                            ...rule.tiers.slice(0, -1),
+                            { upTo: (rule.tiers[rule.tiers.length - 2]?.upTo ?? 0) + 20, percent: rule.tiers[rule.tiers.length - 1].percent },
+                            rule.tiers[rule.tiers.length - 1],
+                          ],
+                        })
+                      }
+                      disabled={rule.tiers.length >= 5}
+                      className="text-xs text-green-700 disabled:opacity-30"
+                    >
+                      + Add tier
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex space-x-2 mb-6">
+        <select value={newKind} onChange={(e) => setNewKind(e.target.value as SavingsRuleKind)} className={`${inputClass} flex-1`}>
+          {RULE_KINDS.map((kind) => (
+            <option key={kind.id} value={kind.id}>{kind.label} – {kind.description}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setRules([...rules, newRule(newKind, sources[0])])}
+          disabled={rules.length >= MAX_RULES}
+          className="text-sm text-green-700 border border-green-200 hover:bg-green-50 font-medium py-1 px-3 rounded-lg disabled:opacity-50"
+        >
+          Add Rule
+        </button>
+      </div>
+
+      {/* Live preview */}
+      <div className="p-3 bg-green-50 rounded-lg border border-green-200 mb-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm text-green-900 mb-2">
+          Preview a deposit of $
+          <input
+            type="text"
+            inputMode="decimal"
+            value={previewAmount}
+            onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setPreviewAmount(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+          from
+          <select value={previewSource} onChange={(e) => setPreviewSource(e.target.value)} className={inputClass}>
+            {sources.map((source) => (
+              <option key={source.id} value={source.id}>{source.name}</option>
+            ))}
+          </select>
+        </div>
+        <ul className="text-sm text-green-800 space-y-0.5">
+          {preview.parts.map((part, i) => (
+            <li key={i} className="flex justify-between">
+              <span>{part.label}</span>
+              <span>${part.amount.toFixed(2)}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-sm font-semibold text-green-900 mt-1">
+          Saved ${preview.savedAmount.toFixed(2)} ({preview.savingsPercent}%) · ${(amount - preview.savedAmount).toFixed(2)} to spend
+        </p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full bg-green-600 hover:bg-green-700 text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200 disabled:opacity-50"
+      >
+        {isSaving ? "Saving..." : "Save Rules"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import { SpendCategory, SUGGESTED_CATEGORIES } from "@/lib/spending";
+
+interface Props {
+  availableAmount: number;
+  onUpdate: () => void;
+}
+
+export default function SpendForm({ availableAmount, onUpdate }: Props) {
+  const [amount, setAmount] = useState<string>("");
+  const [categories, setCategories] = useState<SpendCategory[]>([]);
+  const [categoryId, setCategoryId] = useState<string>("");
+  const [merchant, setMerchant] = useState<string>("");
+  const [notes, setNotes] = useState<string>("");
+  const [newCategory, setNewCategory] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await repository.listCategories());
+    } catch (err) {
+      console.error("Error fetching categories:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const getNumericAmount = (): number => {
+    if (amount === "" || amount === ".") return 0;
+    return parseFloat(amount) || 0;
+  };
+
+  const handleAddCategory = async (name: string, icon?: string) => {
+    if (!name.trim()) return;
+
+    try {
+      const category = await repository.createCategory(name.trim(), icon);
+      setCategories([...categories, category].sort((a, b) => a.name.localeCompare(b.name)));
+      setCategoryId(category.id);
+      setNewCategory("");
+    } catch (err) {
+      console.error("Error adding category:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error adding category. Please try again.");
+    }
+  };
+
+  const handleSpend = async () => {
+    const numericAmount = getNumericAmount();
+    if (numericAmount <= 0 || numericAmount > availableAmount) {
+      setMessage(`Enter a valid amount up to $${availableAmount.toFixed(2)}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setMessage("");
+
+    try {
+      await repository.recordSpend({
+        amount: numericAmount,
+        categoryId: categoryId || undefined,
+        merchant: merchant.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+
+      const category = categories.find((c) => c.id === categoryId);
+      setMessage(`✅ $${numericAmount.toFixed(2)} spent${category ? ` on ${category.name}` : ""}`);
+      setAmount("");
+      setMerchant("");
+      setNotes("");
+      onUpdate();
+    } catch (err) {
+      console.error("Error recording spend:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error recording spend. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const numericAmount = getNumericAmount();
+  const isAmountValid = numericAmount > 0 && numericAmount <= availableAmount;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <h3 className="text-lg font-semibold mb-4 text-black">Log Spending</h3>
+
+      <input
+        type="text"
+        inputMode="decimal"
+        value={amount}
+        onChange={handleAmountChange}
+        className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-orange-500"
+        placeholder={`Max: $${availableAmount.toFixed(2)}`}
+      />
+      {amount && !isAmountValid && (
+        <p className="text-sm text-red-600 mt-1">
+          You only have ${availableAmount.toFixed(2)} available to spend
+        </p>
+      )}
+
+      {/* Category Selection */}
+      <div className="mt-4 mb-4">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+        <div className="flex flex-wrap gap-2 mb-2">
+          {categories.map((category) => (
+            <button
+              key={category.id}
+              onClick={() => setCategoryId(categoryId === category.id ? "" : category.id)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors duration-200 ${
+                categoryId === category.id
+                  ? "bg-orange-500 text-white"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {category.icon} {category.name}
+            </button>
+          ))}
+          {categories.length === 0 && SUGGESTED_CATEGORIES.map((suggestion) => (
+            <button
+              key={suggestion.name}
+              onClick={() => handleAddCategory(suggestion.name, suggestion.icon)}
+              className="px-3 py-1 rounded-full text-sm border border-dashed border-gray-300 text-gray-500 hover:bg-gray-50"
+            >
+              + {suggestion.icon} {suggestion.name}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            maxLength={40}
+            className="flex-1 border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-orange-500"
+            placeholder="New category"
+          />
+          <button
+            onClick={() => handleAddCategory(newCategory)}
+            disabled={!newCategory.trim()}
+            className="px-3 py-1 rounded-lg text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        value={merchant}
+        onChange={(e) => setMerchant(e.target.value)}
+        maxLength={80}
+        className="w-full border border-gray-300 rounded-lg px-4 py-2 mb-3 text-black focus:outline-none focus:ring-2 focus:ring-orange-500"
+        placeholder="Where? (optional)"
+      />
+      <input
+        type="text"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        className="w-full border border-gray-300 rounded-lg px-4 py-2 mb-4 text-black focus:outline-none focus:ring-2 focus:ring-orange-500"
+        placeholder="Note (optional)"
+      />
+
+      <button
+        onClick={handleSpend}
+        disabled={isSubmitting || !isAmountValid}
+        className="w-full bg-orange-500 hover:bg-orange-600 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSubmitting ? "Processing..." : `Spend $${numericAmount > 0 ? numericAmount.toFixed(2) : "0"}`}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { formatMoney } from "@/lib/profile";
+import type { Profile } from "@/lib/profile";
+import {
+  daysUntilMaturity,
+  EARLY_WITHDRAWAL_OPTIONS,
+  EarlyWithdrawal,
+  earlyWithdrawalAmount,
+  MAX_PENALTY_PERCENT,
+  TERM_OPTIONS,
+  TermDeposit,
+  termDepositBonus,
+  TermDepositSource,
+} from "@/lib/termDeposits";
+
+interface Props {
+  deposits: TermDeposit[];
+  profile: Profile;
+  availableAmount: number;
+  lockedAmount: number;
+  onUpdate: () => void;
+}
+
+function formatCountdown(days: number): string {
+  if (days === 0) return "Matures today";
+  if (days === 1) return "1 day to go";
+  return `${days} days to go`;
+}
+
+// Open deposits with a countdown to their maturity date, recently closed
+// ones, and a form for opening a new one.
+export default function TermDepositsPanel({ deposits, profile, availableAmount, lockedAmount, onUpdate }: Props) {
+  const [amount, setAmount] = useState<string>("");
+  const [source, setSource] = useState<TermDepositSource>("locked");
+  const [maturesOn, setMaturesOn] = useState<string>(dayjs().add(TERM_OPTIONS[0], "month").format("YYYY-MM-DD"));
+  const [earlyWithdrawal, setEarlyWithdrawal] = useState<EarlyWithdrawal>("disallowed");
+  const [penaltyPercent, setPenaltyPercent] = useState<string>("10");
+  const [message, setMessage] = useState<string>("");
+  const [isOpening, setIsOpening] = useState<boolean>(false);
+  const [showForm, setShowForm] = useState<boolean>(false);
+  // Deposits only earn a bonus at the rate a guardian pays on savings
+  const [bonusRate, setBonusRate] = useState<number>(0);
+  const [paidByEmail, setPaidByEmail] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchBonusTerms = async () => {
+      try {
+        const interest = await repository.getInterestSettings();
+        setBonusRate(interest.guardianPaid ? interest.annualRate : 0);
+        setPaidByEmail(interest.guardianPaid ? interest.paidByEmail : null);
+      } catch (err) {
+        console.error("Error fetching interest settings:", err);
+      }
+    };
+
+    fetchBonusTerms();
+  }, []);
+
+  const money = (value: number) => formatMoney(value, profile);
+  const today = dayjs().format("YYYY-MM-DD");
+  const numericAmount = parseFloat(amount) || 0;
+  const sourceBalance = source === "locked" ? lockedAmount : availableAmount;
+  const expectedBonus =
+    numericAmount > 0 && maturesOn > today ? termDepositBonus(numericAmount, bonusRate, today, maturesOn) : 0;
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setAmount(value);
+    }
+  };
+
+  const handleOpen = async () => {
+    if (numericAmount <= 0) {
+      setMessage("Please enter a valid amount.");
+      return;
+    }
+    if (numericAmount > sourceBalance) {
+      setMessage(`Only ${money(sourceBalance)} is ${source === "locked" ? "locked" : "available"}.`);
+      return;
+    }
+    if (!(maturesOn > today)) {
+      setMessage("The maturity date must be in the future.");
+      return;
+    }
+
+    setIsOpening(true);
+    setMessage("");
+
+    try {
+      await repository.openTermDeposit({
+        amount: numericAmount,
+        source,
+        maturesOn,
+        earlyWithdrawal,
+        penaltyPercent: earlyWithdrawal === "penalty" ? parseFloat(penaltyPercent) || 0 : 0,
+      });
+      setMessage(`✅ ${money(numericAmount)} is deposited until ${dayjs(maturesOn).format("MMM D, YYYY")}`);
+      setAmount("");
+      setShowForm(false);
+      onUpdate();
+    } catch (err) {
+      console.error("Error opening term deposit:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error opening deposit. Please try again.");
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleWithdraw = async (deposit: TermDeposit) => {
+    const returned = earlyWithdrawalAmount(deposit);
+    const prompt =
+      deposit.penaltyPercent > 0
+        ? `Withdraw early? The ${deposit.penaltyPercent}% penalty leaves ${money(returned)} of ${money(deposit.amount)}, and no bonus is paid.`
+        : `Withdraw early? ${money(returned)} goes back to locked savings and no bonus is paid.`;
+    if (!window.confirm(prompt)) return;
+
+    setMessage("");
+    try {
+      const closed = await repository.withdrawTermDeposit(deposit.id);
+      setMessage(`✅ ${money(closed.returnedAmount ?? returned)} is back in locked savings`);
+      onUpdate();
+    } catch (err) {
+      console.error("Error withdrawing term deposit:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error withdrawing deposit. Please try again.");
+    }
+  };
+
+  const inputClass =
+    "w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-teal-500";
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-black">Term Deposits</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="text-sm text-teal-600 hover:text-teal-700 font-medium"
+        >
+          {showForm ? "Cancel" : "+ New Deposit"}
+        </button>
+      </div>
+
+      {deposits.length === 0 && !showForm && (
+        <p className="text-sm text-gray-500">
+          Lock money away until a date you choose. It comes back to your locked savings when it matures, with any bonus.
+        </p>
+      )}
+
+      {deposits.length > 0 && (
+        <ul className="divide-y divide-gray-100">
+          {deposits.map((deposit) => {
+            const totalDays = Math.max(dayjs(deposit.maturesOn).diff(dayjs(deposit.startsOn), "day"), 1);
+            const daysLeft = daysUntilMaturity(deposit);
+            const progress = Math.min(100, ((totalDays - daysLeft) / totalDays) * 100);
+            return (
+              <li key={deposit.id} className="py-3">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="font-medium text-gray-800">
+                      {money(deposit.amount)}
+                      {deposit.bonusRate > 0 && (
+                        <span className="text-sm text-gray-500"> · {deposit.bonusRate}% bonus rate</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {deposit.status === "active" &&
+                        `${formatCountdown(daysLeft)} · matures ${dayjs(deposit.maturesOn).format("MMM D, YYYY")} · returns ${money(deposit.amount + deposit.bonusAmount)}`}
+                      {deposit.status === "matured" &&
+                        `Matured ${dayjs(deposit.maturesOn).format("MMM D")}: ${money(deposit.returnedAmount ?? 0)} returned to locked savings`}
+                      {deposit.status === "withdrawn" &&
+                        `Withdrawn early ${dayjs(deposit.closedAt).format("MMM D")}: ${money(deposit.returnedAmount ?? 0)} returned to locked savings`}
+                    </p>
+                  </div>
+                  {deposit.status === "active" &&
+                    (deposit.earlyWithdrawal === "penalty" ? (
+                      <button
+                        onClick={() => handleWithdraw(deposit)}
+                        className="text-sm text-red-600 border border-red-200 hover:bg-red-50 font-medium py-1 px-3 rounded-lg transition-colors duration-200"
+                      >
+                        Withdraw
+                      </button>
+                    ) : (
+                      <span className="text-xs text-gray-400">🔒 No early withdrawal</span>
+                    ))}
+                </div>
+                {deposit.status === "active" && (
+                  <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                    <div className="h-2 rounded-full bg-teal-500" style={{ width: `${progress}%` }} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {showForm && (
+        <div className="mt-4 p-4 bg-teal-50 rounded-lg border border-teal-200 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              type="text"
+              inputMode="decimal"
+              value={amount}
+              onChange={handleAmountChange}
+              className={inputClass}
+              placeholder="Amount"
+            />
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as TermDepositSource)}
+              className={inputClass}
+              aria-label="Take the money from"
+            >
+              <option value="locked">From locked savings ({money(lockedAmount)})</option>
+              <option value="available">From available ({money(availableAmount)})</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Matures on</label>
+            <div className="flex flex-wrap gap-2 mb-2">
+              {TERM_OPTIONS.map((months) => {
+                const date = dayjs().add(months, "month").format("YYYY-MM-DD");
+                return (
+                  <button
+                    key={months}
+                    onClick={() => setMaturesOn(date)}
+                    className={`text-xs px-3 py-1 rounded-full border ${
+                      maturesOn === date ? "bg-teal-600 text-white border-teal-600" : "bg-white text-gray-700 border-gray-300"
+                    }`}
+                  >
+                    {months === 12 ? "1 year" : `${months} month${months === 1 ? "" : "s"}`}
+                  </button>
+                );
+              })}
+            </div>
+            <input
+              type="date"
+              value={maturesOn}
+              min={dayjs().add(1, "day").format("YYYY-MM-DD")}
+              onChange={(e) => setMaturesOn(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+
+          <label className="block text-sm text-gray-700">
+            Early withdrawal
+            <select
+              value={earlyWithdrawal}
+              onChange={(e) => setEarlyWithdrawal(e.target.value as EarlyWithdrawal)}
+              className={`${inputClass} mt-1`}
+            >
+              {EARLY_WITHDRAWAL_OPTIONS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <p className="text-xs text-gray-500">
+            {bonusRate > 0
+              ? `Earns a ${bonusRate}% a year bonus at maturity, paid by ${paidByEmail ?? "your guardian"}.`
+              : "Deposits earn a bonus when a guardian pays interest on your savings."}
+          </p>
+
+          {earlyWithdrawal === "penalty" && (
+            <label className="block text-sm text-gray-700">
+              Penalty (% of the amount)
+              <input
+                type="number"
+                min={0}
+                max={MAX_PENALTY_PERCENT}
+                step="any"
+                value={penaltyPercent}
+                onChange={(e) => setPenaltyPercent(e.target.value)}
+                className={`${inputClass} mt-1`}
+              />
+            </label>
+          )}
+
+          {numericAmount > 0 && maturesOn > today && (
+            <p className="text-sm text-gray-700">
+              Returns <span className="font-semibold">{money(numericAmount + expectedBonus)}</span> to locked savings on{" "}
+              {dayjs(maturesOn).format("MMM D, YYYY")}
+              {expectedBonus > 0 && ` (${money(expectedBonus)} bonus)`}.
+            </p>
+          )}
+
+          <button
+            onClick={handleOpen}
+            disabled={isOpening || numericAmount <= 0}
+            className="w-full bg-teal-600 hover:bg-teal-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+          >
+            {isOpening ? "Opening..." : "Open Deposit"}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>{message}</p>
+      )}
+    </div>
+  );
+}
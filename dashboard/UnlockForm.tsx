@@ -1,31 +1,42 @@
 "use client";
 
-import { useState } from "react";
-import { supabase } from "@/lib/supabaseClient";
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import { checkGuardrails, GuardrailStatus } from "@/lib/unlockGuardrails";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+import type { Goal } from "@/lib/goals";
+import { submitOrQueue } from "@/lib/offlineQueue";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+import dayjs from "dayjs";
 
 interface Props {
   userId: string;
   currentLocked: number;
+  goals: Goal[];
   onUpdate: () => void;
 }
 
-const UNLOCK_REASONS = [
-  { id: "emergency", label: "Emergency expense", description: "Unexpected medical bill, car repair, etc." },
-  { id: "education", label: "Education", description: "Books, courses, school fees" },
-  { id: "investment", label: "Investment opportunity", description: "Stocks, business, real estate" },
-  { id: "travel", label: "Travel", description: "Vacation or necessary travel" },
-  { id: "family", label: "Family needs", description: "Supporting family members" },
-  { id: "health", label: "Health & Wellness", description: "Gym membership, therapy, medical needs" },
-  { id: "goal", label: "Specific goal purchase", description: "Down payment, vehicle, equipment" },
-  { id: "other", label: "Other reason", description: "Please specify in notes" }
-];
-
-export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
+export default function UnlockForm({ userId, currentLocked, goals, onUpdate }: Props) {
   const [amount, setAmount] = useState<string>("");
   const [selectedReason, setSelectedReason] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
+  const [goalId, setGoalId] = useState<string>("");
   const [message, setMessage] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [guardrails, setGuardrails] = useState<GuardrailStatus | null>(null);
+
+  // Reload after each unlock: the monthly total and open requests change
+  useEffect(() => {
+    const fetchGuardrails = async () => {
+      try {
+        setGuardrails(await repository.getUnlockGuardrails());
+      } catch (err) {
+        console.error("Error fetching unlock guardrails:", err);
+      }
+    };
+
+    fetchGuardrails();
+  }, [currentLocked]);
 
   const getNumericAmount = (): number => {
     if (amount === "" || amount === ".") return 0;
@@ -40,11 +51,20 @@ export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
     }
   };
 
+  // Unlocking for a goal can only draw from what was saved for that goal
+  const selectedGoal = selectedReason === "goal" ? goals.find((g) => g.id === goalId) : undefined;
+  const maxUnlock = selectedGoal ? Math.min(currentLocked, selectedGoal.allocatedAmount) : currentLocked;
+
+  const violation = (value: number) =>
+    guardrails && selectedReason && value > 0
+      ? checkGuardrails(guardrails, value, selectedReason, currentLocked - guardrails.pendingAmount)
+      : null;
+
   const handleUnlock = async () => {
     const numericAmount = getNumericAmount();
     
-    if (numericAmount <= 0 || numericAmount > currentLocked) {
-      setMessage(`Enter a valid amount up to $${currentLocked.toFixed(2)}`);
+    if (numericAmount <= 0 || numericAmount > maxUnlock) {
+      setMessage(`Enter a valid amount up to $${maxUnlock.toFixed(2)}`);
       return;
     }
 
@@ -58,111 +78,52 @@ export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
       return;
     }
 
+    if (selectedReason === "goal" && !selectedGoal) {
+      setMessage("Please choose the goal you are unlocking for");
+      return;
+    }
+
+    const blocked = violation(numericAmount);
+    if (blocked) {
+      setMessage(`Error: ${blocked.message}`);
+      return;
+    }
+
     setIsSubmitting(true);
     setMessage("");
 
     try {
-      // Prepare transaction data (handle case where notes column might not exist)
-      const transactionData: any = {
-        user_id: userId,
+      const result = await submitOrQueue<{ request: UnlockRequest | null }>(userId, "unlock", {
         amount: numericAmount,
-        type: "unlock",
-        reason: selectedReason
-      };
-
-      // Only add notes if it's not empty
-      if (notes.trim()) {
-        transactionData.notes = notes.trim();
-      }
-
-      // Insert unlock transaction
-      const { error: txnError } = await supabase
-        .from("transactions")
-        .insert(transactionData);
-
-      if (txnError) {
-        console.error("Transaction error:", txnError);
-        
-        // If notes column doesn't exist, try without notes
-        if (txnError.message.includes("notes") || txnError.message.includes("column")) {
-          console.log("Retrying without notes column...");
-          const { error: retryError } = await supabase
-            .from("transactions")
-            .insert({
-              user_id: userId,
-              amount: numericAmount,
-              type: "unlock",
-              reason: selectedReason
-            });
-
-          if (retryError) {
-            console.error("Retry error:", retryError);
-            throw retryError;
-          }
-        } else {
-          throw txnError;
-        }
-      }
-
-      const newLocked = currentLocked - numericAmount;
-
-      // Update savings
-      const { data: existingSavings, error: savingsError } = await supabase
-        .from("savings")
-        .select("locked_amount")
-        .eq("user_id", userId)
-        .single();
-
-      if (savingsError && savingsError.code !== "PGRST116") {
-        console.error("Savings fetch error:", savingsError);
-        throw savingsError;
-      }
-
-      if (existingSavings) {
-        const { error: updateError } = await supabase
-          .from("savings")
-          .update({ locked_amount: newLocked })
-          .eq("user_id", userId);
-
-        if (updateError) {
-          console.error("Update error:", updateError);
-          throw updateError;
-        }
-      } else {
-        const { error: insertError } = await supabase
-          .from("savings")
-          .insert({ user_id: userId, locked_amount: newLocked });
-
-        if (insertError) {
-          console.error("Insert error:", insertError);
-          throw insertError;
-        }
-      }
-
-      setMessage(`Successfully unlocked $${numericAmount.toFixed(2)} for ${UNLOCK_REASONS.find(r => r.id === selectedReason)?.label}`);
+        reason: selectedReason,
+        notes: notes.trim() || undefined,
+        goalId: selectedGoal?.id,
+      });
+
+      const reasonLabel = UNLOCK_REASONS.find(r => r.id === selectedReason)?.label;
+      setMessage(!result
+        ? `You're offline. The unlock of $${numericAmount.toFixed(2)} for ${reasonLabel} was saved on this device and will be sent when you reconnect.`
+        : result.request?.status === "awaiting_approval"
+        ? `Unlock of $${numericAmount.toFixed(2)} for ${reasonLabel} requested. It is waiting for your guardian's approval.`
+        : result.request
+        ? `Unlock of $${numericAmount.toFixed(2)} for ${reasonLabel} requested. It will be released ${dayjs(result.request.maturesAt).format("MMM D [at] h:mm A")} unless you cancel it.`
+        : `Successfully unlocked $${numericAmount.toFixed(2)} for ${reasonLabel}`);
       setAmount("");
       setSelectedReason("");
       setNotes("");
+      setGoalId("");
       onUpdate();
-    } catch (err: any) {
+    } catch (err) {
       console.error("Error unlocking:", err);
-      
-      let errorMessage = "Error unlocking. Please try again.";
-      
-      if (err.code === "42501") {
-        errorMessage = "Permission denied. Please check database permissions.";
-      } else if (err.message) {
-        errorMessage = `Error: ${err.message}`;
-      }
-      
-      setMessage(errorMessage);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error unlocking. Please try again.");
     } finally {
       setIsSubmitting(false);
     }
   };
 
   const numericAmount = getNumericAmount();
-  const isAmountValid = numericAmount > 0 && numericAmount <= currentLocked;
+  const isAmountValid = numericAmount > 0 && numericAmount <= maxUnlock;
+  const guardrailViolation = violation(numericAmount);
 
   return (
     <div className="bg-white rounded-2xl shadow-lg p-6">
@@ -179,11 +140,11 @@ export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
           value={amount}
           onChange={handleAmountChange}
           className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
-          placeholder={`Max: $${currentLocked.toFixed(2)}`}
+          placeholder={`Max: $${maxUnlock.toFixed(2)}`}
         />
         {amount && !isAmountValid && (
           <p className="text-sm text-red-600 mt-1">
-            Amount must be between $0.01 and ${currentLocked.toFixed(2)}
+            Amount must be between $0.01 and ${maxUnlock.toFixed(2)}
           </p>
         )}
       </div>
@@ -213,6 +174,31 @@ export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
         </div>
       </div>
 
+      {/* Goal Selection */}
+      {selectedReason === "goal" && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Which goal is this for?
+          </label>
+          {goals.length === 0 ? (
+            <p className="text-sm text-gray-500">You have no savings goals yet.</p>
+          ) : (
+            <select
+              value={goalId}
+              onChange={(e) => setGoalId(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">Select a goal</option>
+              {goals.map((goal) => (
+                <option key={goal.id} value={goal.id}>
+                  {goal.icon} {goal.name} (${goal.allocatedAmount.toFixed(2)} saved)
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
       {/* Notes for Other Reason */}
       {selectedReason === "other" && (
         <div className="mb-4">
@@ -229,10 +215,16 @@ export default function UnlockForm({ userId, currentLocked, onUpdate }: Props) {
         </div>
       )}
 
+      {guardrailViolation && (
+        <p className="mb-4 p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          🛡️ {guardrailViolation.message}
+        </p>
+      )}
+
       {/* Submit Button */}
       <button
         onClick={handleUnlock}
-        disabled={isSubmitting || !isAmountValid || !selectedReason || (selectedReason === "other" && !notes.trim())}
+        disabled={isSubmitting || !isAmountValid || !selectedReason || guardrailViolation !== null || (selectedReason === "other" && !notes.trim()) || (selectedReason === "goal" && !selectedGoal)}
         className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
       >
         {isSubmitting ? "Processing..." : `Unlock $${numericAmount > 0 ? numericAmount.toFixed(2) : "0"}`}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import type { GuardrailStatus, UnlockGuardrails } from "@/lib/unlockGuardrails";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+
+interface Props {
+  onUpdate: () => void;
+}
+
+type ReasonSetting = "limited" | "blocked" | "always";
+
+const toInput = (value: number | null) => (value === null || value === 0 ? "" : String(value));
+
+export default function UnlockGuardrailsForm({ onUpdate }: Props) {
+  const [maxPerTransaction, setMaxPerTransaction] = useState<string>("");
+  const [maxPerMonth, setMaxPerMonth] = useState<string>("");
+  const [minLocked, setMinLocked] = useState<string>("");
+  const [reasons, setReasons] = useState<Record<string, ReasonSetting>>({});
+  const [unlockedThisMonth, setUnlockedThisMonth] = useState<number>(0);
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const applyStatus = (status: GuardrailStatus) => {
+    const { guardrails } = status;
+    setMaxPerTransaction(toInput(guardrails.maxPerTransaction));
+    setMaxPerMonth(toInput(guardrails.maxPerMonth));
+    setMinLocked(toInput(guardrails.minLockedBalance));
+    setReasons(
+      Object.fromEntries(
+        UNLOCK_REASONS.map((r) => [
+          r.id,
+          guardrails.blockedReasons.includes(r.id) ? "blocked" : guardrails.alwaysAllowedReasons.includes(r.id) ? "always" : "limited",
+        ])
+      )
+    );
+    setUnlockedThisMonth(status.unlockedThisMonth);
+  };
+
+  useEffect(() => {
+    const fetchGuardrails = async () => {
+      try {
+        applyStatus(await repository.getUnlockGuardrails());
+      } catch (err) {
+        console.error("Error fetching unlock guardrails:", err);
+        setMessage("Failed to load unlock limits.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchGuardrails();
+  }, []);
+
+  const handleAmountChange = (setter: (value: string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Allow only numbers and decimal point
+    if (value === "" || /^\d*\.?\d*$/.test(value)) {
+      setter(value);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage("");
+
+    const body: UnlockGuardrails = {
+      maxPerTransaction: parseFloat(maxPerTransaction) || null,
+      maxPerMonth: parseFloat(maxPerMonth) || null,
+      minLockedBalance: parseFloat(minLocked) || 0,
+      blockedReasons: UNLOCK_REASONS.filter((r) => reasons[r.id] === "blocked").map((r) => r.id),
+      alwaysAllowedReasons: UNLOCK_REASONS.filter((r) => reasons[r.id] === "always").map((r) => r.id),
+    };
+
+    try {
+      applyStatus(await repository.saveUnlockGuardrails(body));
+      setMessage("✅ Unlock limits saved");
+      onUpdate();
+    } catch (err) {
+      console.error("Error saving unlock guardrails:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save unlock limits.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500";
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4 text-black">Unlock Limits</h3>
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Unlock Limits</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Guardrails that stop your locked savings from disappearing in one go. Leave a limit empty for no limit.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+        <label className="text-sm text-gray-700">
+          Maximum per unlock ($)
+          <input
+            type="text"
+            inputMode="decimal"
+            value={maxPerTransaction}
+            onChange={handleAmountChange(setMaxPerTransaction)}
+            className={`${inputClass} mt-1`}
+            placeholder="No limit"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Maximum per month ($)
+          <input
+            type="text"
+            inputMode="decimal"
+            value={maxPerMonth}
+            onChange={handleAmountChange(setMaxPerMonth)}
+            className={`${inputClass} mt-1`}
+            placeholder="No limit"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Always keep locked ($)
+          <input
+            type="text"
+            inputMode="decimal"
+            value={minLocked}
+            onChange={handleAmountChange(setMinLocked)}
+            className={`${inputClass} mt-1`}
+            placeholder="$0.00"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        ${unlockedThisMonth.toFixed(2)} unlocked or requested so far this month.
+      </p>
+
+      <div className="mb-6">
+        <p className="text-sm font-medium text-gray-700 mb-2">Reasons</p>
+        <div className="space-y-2">
+          {UNLOCK_REASONS.map((reason) => (
+            <div key={reason.id} className="flex justify-between items-center">
+              <span className="text-sm text-gray-700">{reason.label}</span>
+              <select
+                value={reasons[reason.id] ?? "limited"}
+                onChange={(e) => setReasons({ ...reasons, [reason.id]: e.target.value as ReasonSetting })}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="limited">Use the limits</option>
+                <option value="always">Always allowed</option>
+                <option value="blocked">Blocked</option>
+              </select>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Always-allowed reasons skip the limits above, for example so an emergency is never held back.
+        </p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Saving..." : "Save Limits"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
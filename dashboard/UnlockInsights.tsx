@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { INSIGHT_MONTH_OPTIONS, InsightFlagKind, UnlockInsights as Insights } from "@/lib/unlockInsights";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+
+const REASON_COLORS: Record<string, string> = {
+  emergency: "#DC2626",
+  education: "#2563EB",
+  investment: "#059669",
+  travel: "#0891B2",
+  family: "#D97706",
+  health: "#DB2777",
+  goal: "#7C3AED",
+  other: "#6B7280",
+};
+
+const FLAG_ICONS: Record<InsightFlagKind, string> = {
+  above_average: "📈",
+  other_cluster: "❓",
+  monthly_spike: "⚠️",
+};
+
+function change(current: number, previous: number): string {
+  if (previous === 0) return current > 0 ? "new" : "–";
+  const percent = Math.round(((current - previous) / previous) * 100);
+  return `${percent > 0 ? "+" : ""}${percent}%`;
+}
+
+export default function UnlockInsights() {
+  const [months, setMonths] = useState<number>(6);
+  const [view, setView] = useState<"pie" | "bar">("pie");
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [error, setError] = useState<string>("");
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const fetchInsights = async () => {
+      setLoading(true);
+      setError("");
+
+      try {
+        setInsights(await repository.getUnlockInsights(months));
+      } catch (err) {
+        console.error("Error fetching unlock insights:", err);
+        setInsights(null);
+        setError(err instanceof Error ? err.message : "Failed to load insights.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInsights();
+  }, [months]);
+
+  const reasonsUsed = UNLOCK_REASONS.filter((r) => insights?.byReason.some((t) => t.reason === r.id));
+  const monthData = (insights?.months ?? []).map((month) => ({ label: month.label, ...month.byReason }));
+  const comparison = insights?.comparison;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8 hover:shadow-xl transition-shadow duration-300">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800">Unlock Insights</h3>
+          <p className="text-sm text-gray-600">Where your locked savings went, by the reasons you gave</p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="border border-gray-300 rounded-lg px-3 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {INSIGHT_MONTH_OPTIONS.map((m) => (
+              <option key={m} value={m}>Last {m} months</option>
+            ))}
+          </select>
+          {(["pie", "bar"] as const).map((v) => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                view === v ? "bg-blue-600 text-white" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {v === "pie" ? "By reason" : "By month"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && !insights ? (
+        <div className="h-64 animate-pulse bg-gray-200 rounded"></div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !insights || insights.count === 0 ? (
+        <p className="text-sm text-gray-600">No unlocks in the last {months} months. Your savings are staying put! 🎉</p>
+      ) : (
+        <div className={loading ? "opacity-50" : ""}>
+          <div className="grid grid-cols-3 gap-3 mb-4 text-sm">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-500">Unlocked</p>
+              <p className="text-xl font-bold text-gray-800">${insights.total.toFixed(2)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-500">Unlocks</p>
+              <p className="text-xl font-bold text-gray-800">{insights.count}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <p className="text-gray-500">Average</p>
+              <p className="text-xl font-bold text-gray-800">${insights.average.toFixed(2)}</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              {view === "pie" ? (
+                <ResponsiveContainer width="100%" height={260}>
+                  <PieChart>
+                    <Pie data={insights.byReason} dataKey="total" nameKey="label" outerRadius={90} label>
+                      {insights.byReason.map((r) => (
+                        <Cell key={r.reason} fill={REASON_COLORS[r.reason] ?? "#6B7280"} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value) => `$${Number(value).toFixed(2)}`} />
+                  </PieChart>
+                </ResponsiveContainer>
+              ) : (
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={monthData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" />
+                    <YAxis />
+                    <Tooltip formatter={(value) => `$${Number(value).toFixed(2)}`} />
+                    <Legend />
+                    {reasonsUsed.map((r) => (
+                      <Bar key={r.id} dataKey={r.id} name={r.label} stackId="reasons" fill={REASON_COLORS[r.id]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
+
+              <ul className="mt-2 space-y-1 text-sm">
+                {insights.byReason.map((r) => (
+                  <li key={r.reason} className="flex justify-between text-gray-700">
+                    <span className="flex items-center gap-2">
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: REASON_COLORS[r.reason] ?? "#6B7280" }}></span>
+                      {r.label}
+                    </span>
+                    <span>
+                      ${r.total.toFixed(2)} <span className="text-gray-400">· {r.count}×</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              {comparison && (
+                <>
+                  <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                    {comparison.current.label} vs {comparison.previous.label}
+                  </h4>
+                  <table className="w-full text-sm mb-4">
+                    <tbody>
+                      {comparison.reasons.map((r) => (
+                        <tr key={r.reason} className="border-b border-gray-100 text-gray-700">
+                          <td className="py-1">{r.label}</td>
+                          <td className="py-1 text-right">${r.current.toFixed(2)}</td>
+                          <td className="py-1 text-right text-gray-400">${r.previous.toFixed(2)}</td>
+                          <td className={`py-1 text-right ${r.current > r.previous ? "text-red-600" : "text-green-600"}`}>
+                            {change(r.current, r.previous)}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="font-semibold text-gray-800">
+                        <td className="py-1">Total</td>
+                        <td className="py-1 text-right">${comparison.current.total.toFixed(2)}</td>
+                        <td className="py-1 text-right text-gray-400">${comparison.previous.total.toFixed(2)}</td>
+                        <td className={`py-1 text-right ${comparison.current.total > comparison.previous.total ? "text-red-600" : "text-green-600"}`}>
+                          {change(comparison.current.total, comparison.previous.total)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </>
+              )}
+
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Worth a look</h4>
+              {insights.flags.length === 0 ? (
+                <p className="text-sm text-gray-500">Nothing unusual in this period.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {insights.flags.map((flag, i) => (
+                    <li key={i} className="p-2 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-900">
+                      {FLAG_ICONS[flag.kind]} {flag.message}
+                      <span className="block text-xs text-yellow-700">{dayjs(flag.date).format("MMM D, YYYY")}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { authClient } from "@/lib/authClient";
+
+interface Props {
+  email: string;
+}
+
+export default function ChangeEmailForm({ email }: Props) {
+  const [newEmail, setNewEmail] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const router = useRouter();
+
+  const handleSave = async () => {
+    const address = newEmail.trim();
+    setMessage("");
+    if (address.toLowerCase() === email.toLowerCase()) {
+      setMessage("That is already your email address");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const confirming = await authClient.changeEmail(address);
+
+      setNewEmail("");
+      if (confirming) {
+        setMessage(`✅ Check ${address} for a link to confirm the change`);
+      } else {
+        setMessage(`✅ You now sign in as ${address}`);
+        router.refresh();
+      }
+    } catch (err) {
+      console.error("Error changing email:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to change email.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Change Email</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        You sign in as <span className="font-medium text-gray-800">{email}</span>.
+      </p>
+
+      <div className="mb-6">
+        <label htmlFor="newEmail" className="block text-sm font-medium text-gray-700 mb-2">
+          New Email Address
+        </label>
+        <input
+          id="newEmail"
+          type="email"
+          value={newEmail}
+          onChange={(e) => setNewEmail(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+          autoComplete="email"
+        />
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving || !newEmail.trim()}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Sending..." : "Change Email"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
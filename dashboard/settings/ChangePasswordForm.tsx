@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { AuthError, authClient } from "@/lib/authClient";
+import { checkPasswordStrength } from "@/lib/passwordStrength";
+import PasswordStrengthMeter from "@/login/PasswordStrengthMeter";
+
+interface Props {
+  email: string;
+}
+
+export default function ChangePasswordForm({ email }: Props) {
+  const [currentPassword, setCurrentPassword] = useState<string>("");
+  const [newPassword, setNewPassword] = useState<string>("");
+  const [confirmPassword, setConfirmPassword] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const handleSave = async () => {
+    setMessage("");
+
+    const strength = checkPasswordStrength(newPassword, email);
+    if (!strength.acceptable) {
+      setMessage(`Choose a stronger password: ${strength.problems.join(". ")}.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setMessage("The new passwords don't match");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await authClient.changePassword(email, currentPassword, newPassword);
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setMessage("✅ Password changed");
+    } catch (err) {
+      if (err instanceof AuthError && err.code === "invalid_credentials") {
+        setMessage(err.message);
+      } else {
+        console.error("Error changing password:", err);
+        setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to change password.");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Change Password</h3>
+
+      <div className="space-y-4 mb-6">
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-2">
+            Current Password
+          </label>
+          <input
+            id="currentPassword"
+            type="password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+            autoComplete="current-password"
+          />
+        </div>
+        <div>
+          <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+            New Password
+          </label>
+          <input
+            id="newPassword"
+            type="password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+            autoComplete="new-password"
+          />
+          <PasswordStrengthMeter password={newPassword} email={email} />
+        </div>
+        <div>
+          <label htmlFor="confirmNewPassword" className="block text-sm font-medium text-gray-700 mb-2">
+            Confirm New Password
+          </label>
+          <input
+            id="confirmNewPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+            autoComplete="new-password"
+          />
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving || !currentPassword || !newPassword}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Saving..." : "Change Password"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
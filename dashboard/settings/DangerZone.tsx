@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { authClient } from "@/lib/authClient";
+import { clearCachedPages } from "@/lib/offlineCache";
+import { repository } from "@/lib/repository";
+
+interface Props {
+  email: string;
+}
+
+export default function DangerZone({ email }: Props) {
+  const router = useRouter();
+  const [confirmEmail, setConfirmEmail] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [isDeleting, setIsDeleting] = useState<boolean>(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage("");
+    try {
+      await repository.exportAccount();
+    } catch (err) {
+      console.error("Error exporting account data:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to export your data.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm("Delete your account and all of its data? This cannot be undone.")) return;
+
+    setIsDeleting(true);
+    setMessage("");
+    try {
+      // Hand over a copy of everything before it is gone
+      await repository.exportAccount();
+      await repository.deleteAccount(confirmEmail);
+
+      await authClient.signOut();
+      await clearCachedPages();
+      router.replace("/login");
+      router.refresh();
+    } catch (err) {
+      console.error("Error deleting account:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to delete your account.");
+      setIsDeleting(false);
+    }
+  };
+
+  const confirmed = confirmEmail.trim().toLowerCase() === email.toLowerCase();
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 border-2 border-red-200">
+      <h3 className="text-lg font-semibold mb-4 text-red-700">Danger Zone</h3>
+
+      <div className="mb-6">
+        <h4 className="font-medium text-gray-800 mb-1">Export your data</h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Download everything PocketGrowth stores about you — ledger, goals, settings and more — as a JSON file.
+        </p>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || isDeleting}
+          className="bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm disabled:opacity-50"
+        >
+          {isExporting ? "Preparing..." : "Export My Data"}
+        </button>
+      </div>
+
+      <div className="pt-6 border-t border-red-100">
+        <h4 className="font-medium text-gray-800 mb-1">Delete your account</h4>
+        <p className="text-sm text-gray-600 mb-3">
+          Your data is exported first, then your account and every record that belongs to it are permanently deleted.
+          Guardians and children you are linked with lose access to each other through this account.
+        </p>
+        <label htmlFor="confirmDeleteEmail" className="block text-sm font-medium text-gray-700 mb-2">
+          Type <span className="font-semibold">{email}</span> to confirm
+        </label>
+        <input
+          id="confirmDeleteEmail"
+          type="email"
+          value={confirmEmail}
+          onChange={(e) => setConfirmEmail(e.target.value)}
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-red-500 mb-4"
+          autoComplete="off"
+        />
+        <button
+          onClick={handleDelete}
+          disabled={!confirmed || isDeleting}
+          className="w-full bg-red-600 hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+        >
+          {isDeleting ? "Deleting..." : "Export Data and Delete Account"}
+        </button>
+      </div>
+
+      {message && <p className="mt-3 text-sm text-red-600">{message}</p>}
+    </div>
+  );
+}
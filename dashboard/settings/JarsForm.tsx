@@ -0,0 +1,224 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { repository } from "@/lib/repository";
+import { DEFAULT_JARS, Jar, MAX_JAR_NAME_LENGTH, MAX_JARS } from "@/lib/jars";
+import { formatMoney } from "@/lib/profile";
+import type { Profile } from "@/lib/profile";
+
+interface Props {
+  profile: Profile;
+  onUpdate: () => void;
+}
+
+export default function JarsForm({ profile, onUpdate }: Props) {
+  const [jars, setJars] = useState<Jar[]>([]);
+  const [savedJars, setSavedJars] = useState<Jar[]>([]);
+  const [message, setMessage] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchJars = async () => {
+      try {
+        const current = await repository.listJars();
+        setJars(current);
+        setSavedJars(current);
+      } catch (err) {
+        console.error("Error fetching jars:", err);
+        setMessage("Failed to load jars.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchJars();
+  }, []);
+
+  const updateJar = (index: number, changes: Partial<Jar>) => {
+    setJars(jars.map((jar, i) => (i === index ? { ...jar, ...changes } : jar)));
+  };
+
+  const moveJar = (index: number, offset: number) => {
+    const next = [...jars];
+    const [jar] = next.splice(index, 1);
+    next.splice(index + offset, 0, jar);
+    setJars(next);
+  };
+
+  const save = async (next: Jar[]) => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      const saved = await repository.saveJars(next);
+      setJars(saved);
+      setSavedJars(saved);
+      setMessage(saved.length === 0 ? "✅ Jars turned off" : "✅ Jars saved");
+      onUpdate();
+    } catch (err) {
+      console.error("Error saving jars:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save jars.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTurnOff = () => {
+    if (!window.confirm("Turn jars off? Your money goes back to a single locked and available balance.")) return;
+    save([]);
+  };
+
+  const total = jars.reduce((sum, jar) => sum + (jar.percent || 0), 0);
+  const inputClass = "border border-gray-300 rounded-lg px-2 py-1 text-sm text-black focus:outline-none focus:ring-2 focus:ring-green-500";
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h3 className="text-lg font-semibold mb-4 text-black">Jars</h3>
+        <div className="animate-pulse">
+          <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Jars</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Split every allowance into jars, like Spend, Save and Give. Each jar gets its percentage of each deposit; money
+        in a locked jar counts as locked savings. While you have jars, they decide how deposits are split instead of
+        your savings percentage and rules.
+      </p>
+
+      {jars.length === 0 ? (
+        <>
+          <p className="text-sm text-gray-500 mb-4">You keep one locked and one available balance.</p>
+          <button
+            onClick={() => setJars(DEFAULT_JARS)}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+          >
+            Set Up Jars
+          </button>
+          {savedJars.length > 0 && (
+            <p className="mt-3 text-sm text-gray-600">Save to turn jars off.</p>
+          )}
+        </>
+      ) : (
+        <ol className="mb-4 space-y-2">
+          {jars.map((jar, index) => (
+            <li key={jar.id ?? `new-${index}`} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="text"
+                  value={jar.name}
+                  maxLength={MAX_JAR_NAME_LENGTH}
+                  onChange={(e) => updateJar(index, { name: e.target.value })}
+                  className={`${inputClass} w-32`}
+                  aria-label="Jar name"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="any"
+                  value={jar.percent}
+                  onChange={(e) => updateJar(index, { percent: e.target.value === "" ? 0 : Number(e.target.value) })}
+                  className={`${inputClass} w-20`}
+                  aria-label="Percent of each allowance"
+                />
+                %
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={jar.locked}
+                    onChange={(e) => updateJar(index, { locked: e.target.checked })}
+                  />
+                  Locked
+                </label>
+                <label className="flex items-center gap-1">
+                  Goal
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={jar.goalAmount ?? ""}
+                    onChange={(e) => updateJar(index, { goalAmount: e.target.value === "" ? null : Number(e.target.value) })}
+                    className={`${inputClass} w-24`}
+                    placeholder="None"
+                  />
+                </label>
+                <span className="ml-auto text-gray-500">{formatMoney(jar.balance, profile)}</span>
+              </div>
+              <div className="flex gap-3 mt-2 text-xs">
+                <button onClick={() => moveJar(index, -1)} disabled={index === 0} className="text-gray-600 disabled:text-gray-300">
+                  ↑ Up
+                </button>
+                <button
+                  onClick={() => moveJar(index, 1)}
+                  disabled={index === jars.length - 1}
+                  className="text-gray-600 disabled:text-gray-300"
+                >
+                  ↓ Down
+                </button>
+                <button
+                  onClick={() => setJars(jars.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {jars.length > 0 && (
+        <>
+          <div className="flex justify-between items-center mb-4 text-sm">
+            <button
+              onClick={() => setJars([...jars, { name: "", percent: 0, locked: false, goalAmount: null, balance: 0 }])}
+              disabled={jars.length >= MAX_JARS}
+              className="text-blue-600 hover:text-blue-700 disabled:text-gray-300"
+            >
+              + Add Jar
+            </button>
+            <span className={total === 100 ? "text-green-600" : "text-red-600"}>{total}% of each allowance</span>
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            A jar must be empty before it is removed or switched between locked and unlocked. Unlocks come out of
+            the locked jars, and spending out of the unlocked jars from the top.
+          </p>
+        </>
+      )}
+
+      {(jars.length > 0 || savedJars.length > 0) && (
+        <button
+          onClick={() => save(jars)}
+          disabled={isSaving}
+          className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+        >
+          {isSaving ? "Saving..." : "Save Jars"}
+        </button>
+      )}
+
+      {savedJars.length > 0 && jars.length > 0 && (
+        <button
+          onClick={handleTurnOff}
+          disabled={isSaving}
+          className="w-full mt-3 bg-white text-red-600 border border-red-200 hover:bg-red-50 disabled:opacity-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200"
+        >
+          Turn Off Jars
+        </button>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
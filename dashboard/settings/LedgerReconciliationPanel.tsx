@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { formatMoney } from "@/lib/profile";
+import type { Profile } from "@/lib/profile";
+import { RECONCILIATION_SOURCES, Reconciliation, SUSPECT_CAUSES } from "@/lib/reconciliation";
+import { TRANSACTION_TYPES } from "@/lib/transactions";
+
+interface Props {
+  profile: Profile;
+}
+
+export default function LedgerReconciliationPanel({ profile }: Props) {
+  const [checks, setChecks] = useState<Reconciliation[]>([]);
+  const [message, setMessage] = useState<string>("");
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [isRepairing, setIsRepairing] = useState<boolean>(false);
+
+  const fetchChecks = useCallback(async () => {
+    try {
+      setChecks(await repository.listReconciliations());
+    } catch (err) {
+      console.error("Error fetching reconciliations:", err);
+      setMessage("Failed to load earlier checks.");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChecks();
+  }, [fetchChecks]);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setMessage("");
+    try {
+      const check = await repository.checkLedger();
+      setMessage(check.difference === 0 ? "✅ Your balances match the ledger" : "");
+      await fetchChecks();
+    } catch (err) {
+      console.error("Error checking ledger:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to check your balances.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepair = async (check: Reconciliation) => {
+    const confirmed = window.confirm(
+      `Set locked savings to ${formatMoney(check.expectedLocked, profile)} to match the ledger? An adjustment entry will be added to your transactions.`
+    );
+    if (!confirmed) return;
+
+    setIsRepairing(true);
+    setMessage("");
+    try {
+      const result = await repository.repairLedger();
+      setMessage(
+        result.adjustmentId
+          ? "✅ Balances repaired and an adjustment entry recorded"
+          : "✅ Your balances already match the ledger; nothing to repair"
+      );
+      await fetchChecks();
+    } catch (err) {
+      console.error("Error repairing ledger:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to repair your balances.");
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const latest = checks[0];
+  const money = (amount: number) => formatMoney(amount, profile);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-2 text-black">Balance Check</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Rebuilds your balances from every ledger entry and compares them with the stored totals. This also runs every night.
+      </p>
+
+      {latest && (
+        <div className="mb-4">
+          <p className="text-sm text-gray-700 mb-3">
+            {latest.difference === 0 ? "✅ In balance" : "⚠️ Out of balance"} · {RECONCILIATION_SOURCES[latest.source]}{" "}
+            {dayjs(latest.checkedAt).format("MMM D, YYYY h:mm A")}
+          </p>
+
+          {latest.difference !== 0 && (
+            <>
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4"></th>
+                    <th className="py-2 pr-4 text-right">Stored</th>
+                    <th className="py-2 pr-4 text-right">From ledger</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-800">
+                  <tr className="border-b border-gray-100">
+                    <td className="py-2 pr-4">Locked savings</td>
+                    <td className="py-2 pr-4 text-right">{money(latest.storedLocked)}</td>
+                    <td className="py-2 pr-4 text-right font-medium">{money(latest.expectedLocked)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4">Available to spend</td>
+                    <td className="py-2 pr-4 text-right">{money(latest.storedAvailable)}</td>
+                    <td className="py-2 pr-4 text-right font-medium">{money(latest.expectedAvailable)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <h4 className="text-sm font-medium text-gray-800 mb-2">Entries that may have caused it</h4>
+              {latest.suspects.length === 0 ? (
+                <p className="text-sm text-gray-600 mb-4">
+                  No ledger entry explains it, so the stored total was most likely changed outside the ledger.
+                </p>
+              ) : (
+                <ul className="space-y-2 mb-4">
+                  {latest.suspects.map((suspect) => (
+                    <li key={suspect.id} className="text-sm border border-gray-100 rounded-lg p-3">
+                      <div className="flex justify-between text-gray-800">
+                        <span>
+                          {TRANSACTION_TYPES.find((t) => t.id === suspect.type)?.label ?? suspect.type} of {money(suspect.amount)}
+                        </span>
+                        <span className="text-gray-500">{dayjs(suspect.createdAt).format("MMM D, YYYY h:mm A")}</span>
+                      </div>
+                      <p className="text-gray-600 mt-1">
+                        {SUSPECT_CAUSES[suspect.cause]}
+                        {suspect.cause === "locked_delta_mismatch" && suspect.expectedLockedDelta !== null && (
+                          <>
+                            {" "}(moved {money(suspect.lockedDelta)}, expected {money(suspect.expectedLockedDelta)})
+                          </>
+                        )}
+                      </p>
+                      {suspect.notes && <p className="text-gray-500 mt-1">{suspect.notes}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {latest.estimatedEntries > 0 ? (
+                <p className="text-sm text-gray-600 mb-4">
+                  {latest.estimatedEntries === 1 ? "An older allowance only has" : `${latest.estimatedEntries} older allowances only have`}{" "}
+                  an estimate of how much they saved, so the ledger cannot be trusted to set your locked savings. Reverse
+                  them and record them again with the right amounts before repairing.
+                </p>
+              ) : (
+                <button
+                  onClick={() => handleRepair(latest)}
+                  disabled={isRepairing}
+                  className="w-full mb-3 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+                >
+                  {isRepairing ? "Repairing..." : `Repair: Set Locked Savings to ${money(latest.expectedLocked)}`}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handleCheck}
+        disabled={isChecking || isRepairing}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isChecking ? "Checking..." : "Check Balances Now"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
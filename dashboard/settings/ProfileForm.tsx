@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { MAX_DISPLAY_NAME_LENGTH, Profile, displayNameOf } from "@/lib/profile";
+import { repository } from "@/lib/repository";
+
+interface Props {
+  email: string;
+  profile: Profile;
+  onSaved: (profile: Profile) => void;
+}
+
+const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+
+export default function ProfileForm({ email, profile, onSaved }: Props) {
+  const [displayName, setDisplayName] = useState<string>(profile.displayName ?? "");
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+
+  const showSaved = (next: Profile, success: string) => {
+    onSaved(next);
+    setMessage(success);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      showSaved(await repository.saveProfile({ displayName: displayName.trim() || null }), "✅ Profile saved");
+    } catch (err) {
+      console.error("Error saving profile:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save profile.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      setMessage("Please choose an image file.");
+      return;
+    }
+    if (file.size > MAX_AVATAR_BYTES) {
+      setMessage("Please choose an image smaller than 2 MB.");
+      return;
+    }
+
+    setIsUploading(true);
+    setMessage("");
+    try {
+      showSaved(await repository.uploadAvatar(file), "✅ Photo updated");
+    } catch (err) {
+      console.error("Error uploading avatar:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to upload photo.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemoveAvatar = async () => {
+    setIsUploading(true);
+    setMessage("");
+    try {
+      showSaved(await repository.removeAvatar(), "✅ Photo removed");
+    } catch (err) {
+      console.error("Error removing avatar:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to remove photo.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const name = displayNameOf(profile, email);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Profile</h3>
+
+      <div className="flex items-center gap-4 mb-6">
+        {profile.avatarUrl ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={profile.avatarUrl} alt={name} className="w-16 h-16 rounded-full object-cover" />
+        ) : (
+          <div className="w-16 h-16 rounded-full bg-gradient-to-r from-blue-600 to-green-600 flex items-center justify-center text-white text-2xl font-bold">
+            {name.charAt(0).toUpperCase()}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <label className="cursor-pointer bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 text-sm">
+            {isUploading ? "Uploading..." : "Upload Photo"}
+            <input type="file" accept="image/*" onChange={handleAvatarChange} disabled={isUploading} className="hidden" />
+          </label>
+          {profile.avatarUrl && (
+            <button
+              onClick={handleRemoveAvatar}
+              disabled={isUploading}
+              className="text-red-600 hover:text-red-700 font-medium py-2 px-4 text-sm disabled:opacity-50"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <label htmlFor="displayName" className="block text-sm font-medium text-gray-700 mb-2">
+          Display Name
+        </label>
+        <input
+          id="displayName"
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          maxLength={MAX_DISPLAY_NAME_LENGTH}
+          placeholder={email.split("@")[0]}
+          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <p className="text-sm text-gray-600 mt-2">Shown on your dashboard instead of your email address.</p>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Saving..." : "Save Profile"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState } from "react";
+import { repository } from "@/lib/repository";
+import { CURRENCIES, LOCALES, Profile, formatMoney } from "@/lib/profile";
+
+interface Props {
+  profile: Profile;
+  onSaved: (profile: Profile) => void;
+}
+
+export default function RegionalSettingsForm({ profile, onSaved }: Props) {
+  const [currency, setCurrency] = useState<string>(profile.currency);
+  const [locale, setLocale] = useState<string>(profile.locale);
+  const [message, setMessage] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      onSaved(await repository.saveProfile({ currency, locale }));
+      setMessage("✅ Currency and language saved");
+    } catch (err) {
+      console.error("Error saving currency and language:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Failed to save currency and language.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+      <h3 className="text-lg font-semibold mb-4 text-black">Currency and Language</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-2">
+            Currency
+          </label>
+          <select
+            id="currency"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {CURRENCIES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.label} ({option.code})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="locale" className="block text-sm font-medium text-gray-700 mb-2">
+            Number and Date Format
+          </label>
+          <select
+            id="locale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-4 py-2 text-black focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            {LOCALES.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-6">
+        Amounts will look like <span className="font-medium text-gray-800">{formatMoney(1234.5, { currency, locale })}</span>.
+        Changing the currency only changes how amounts are shown; nothing is converted.
+      </p>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+      >
+        {isSaving ? "Saving..." : "Save Currency and Language"}
+      </button>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { repository } from "@/lib/repository";
+import type { FamilyOverview } from "@/lib/family";
+import { DEFAULT_PROFILE, Profile } from "@/lib/profile";
+import AccountSettingsForm from "../AccountSettingsForm";
+import AllowanceSchedulesForm from "../AllowanceSchedulesForm";
+import FamilySettingsForm from "../FamilySettingsForm";
+import IncomeSourcesForm from "../IncomeSourcesForm";
+import InterestSettingsForm from "../InterestSettingsForm";
+import NotificationPreferencesForm from "../NotificationPreferencesForm";
+import SavingsRulesForm from "../SavingsRulesForm";
+import UnlockGuardrailsForm from "../UnlockGuardrailsForm";
+import ChangeEmailForm from "./ChangeEmailForm";
+import ChangePasswordForm from "./ChangePasswordForm";
+import DangerZone from "./DangerZone";
+import JarsForm from "./JarsForm";
+import LedgerReconciliationPanel from "./LedgerReconciliationPanel";
+import ProfileForm from "./ProfileForm";
+import RegionalSettingsForm from "./RegionalSettingsForm";
+
+interface Props {
+  user: { id: string; email: string };
+  // Null if the server could not load it or the data only exists in the
+  // browser (the local backend)
+  initialProfile: Profile | null;
+}
+
+const SECTIONS = [
+  { id: "profile", label: "Profile" },
+  { id: "savings", label: "Savings" },
+  { id: "region", label: "Currency & Language" },
+  { id: "notifications", label: "Notifications" },
+  { id: "family", label: "Family" },
+  { id: "security", label: "Security" },
+  { id: "danger", label: "Danger Zone" },
+];
+
+export default function SettingsPage({ user, initialProfile }: Props) {
+  const [profile, setProfile] = useState<Profile>(initialProfile ?? DEFAULT_PROFILE);
+  const [family, setFamily] = useState<FamilyOverview>({ guardians: [], children: [], invites: [] });
+
+  // The savings and family forms call this after saving; family links and
+  // interest settings are the only data shown here that they can change
+  const fetchFamily = useCallback(async () => {
+    try {
+      setFamily(await repository.getFamily());
+    } catch (err) {
+      console.error("Error fetching family:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchFamily();
+  }, [fetchFamily]);
+
+  useEffect(() => {
+    if (initialProfile) return;
+    repository
+      .getProfile()
+      .then(setProfile)
+      .catch((err) => console.error("Error loading profile:", err));
+  }, [initialProfile]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 p-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Settings</h1>
+            <p className="text-gray-600">Your profile, savings preferences and account</p>
+          </div>
+          <a
+            href="/dashboard"
+            className="bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+          >
+            Back to Dashboard
+          </a>
+        </div>
+
+        {/* Section links */}
+        <nav className="flex flex-wrap gap-2 mb-6">
+          {SECTIONS.map((section) => (
+            <a
+              key={section.id}
+              href={`#${section.id}`}
+              className={`py-2 px-4 rounded-lg font-medium text-sm ${
+                section.id === "danger" ? "bg-red-50 text-red-700 hover:bg-red-100" : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {section.label}
+            </a>
+          ))}
+        </nav>
+
+        <div className="space-y-10">
+          <section id="profile" className="scroll-mt-6">
+            <ProfileForm email={user.email} profile={profile} onSaved={setProfile} />
+          </section>
+
+          <section id="savings" className="scroll-mt-6 space-y-6">
+            <h2 className="text-xl font-bold text-gray-800">Savings</h2>
+            <AccountSettingsForm userId={user.id} onUpdate={fetchFamily} />
+            <SavingsRulesForm userId={user.id} onUpdate={fetchFamily} />
+            <JarsForm profile={profile} onUpdate={fetchFamily} />
+            <IncomeSourcesForm onUpdate={fetchFamily} />
+            <AllowanceSchedulesForm onUpdate={fetchFamily} />
+            <InterestSettingsForm userId={user.id} family={family} onUpdate={fetchFamily} />
+            <UnlockGuardrailsForm onUpdate={fetchFamily} />
+            <LedgerReconciliationPanel profile={profile} />
+          </section>
+
+          <section id="region" className="scroll-mt-6">
+            <RegionalSettingsForm profile={profile} onSaved={setProfile} />
+          </section>
+
+          <section id="notifications" className="scroll-mt-6">
+            <NotificationPreferencesForm />
+          </section>
+
+          <section id="family" className="scroll-mt-6">
+            <FamilySettingsForm family={family} onUpdate={fetchFamily} />
+          </section>
+
+          <section id="security" className="scroll-mt-6 space-y-6">
+            <h2 className="text-xl font-bold text-gray-800">Security</h2>
+            <ChangeEmailForm email={user.email} />
+            <ChangePasswordForm email={user.email} />
+          </section>
+
+          <section id="danger" className="scroll-mt-6">
+            <DangerZone email={user.email} />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation";
+import { createServerRepository } from "@/lib/serverRepository";
+import { getSessionUser } from "@/lib/serverSession";
+import SettingsPage from "./SettingsPage";
+
+export default async function Page() {
+  const user = await getSessionUser();
+  if (!user) redirect("/login");
+
+  const server = await createServerRepository(user);
+  const initialProfile = server
+    ? await server.getProfile().catch((err) => {
+        console.error("Error loading profile:", err);
+        return null;
+      })
+    : null;
+
+  return <SettingsPage user={user} initialProfile={initialProfile} />;
+}
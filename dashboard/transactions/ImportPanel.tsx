@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import dayjs from "dayjs";
+import { repository } from "@/lib/repository";
+import { candidatesFromCsv, ImportPreviewRow, LEDGER_COLUMNS } from "@/lib/ledgerImport";
+
+interface Props {
+  onImported: () => void;
+}
+
+export default function ImportPanel({ onImported }: Props) {
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [message, setMessage] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const accepted = preview.filter((row) => row.errors.length === 0 && !row.duplicate);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setMessage("");
+    setPreview([]);
+
+    const { candidates, error } = candidatesFromCsv(await file.text());
+    if (error) {
+      setMessage(`Error: ${error}`);
+      return;
+    }
+    if (candidates.length === 0) {
+      setMessage("Error: The file has no rows to import.");
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setPreview(await repository.previewImport(candidates));
+    } catch (err) {
+      console.error("Error previewing import:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error reading the file. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setMessage("");
+
+    try {
+      const imported = await repository.importTransactions(accepted);
+      setMessage(`✅ Imported ${imported} transaction${imported === 1 ? "" : "s"}`);
+      setPreview([]);
+      onImported();
+    } catch (err) {
+      console.error("Error importing transactions:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error importing transactions. Please try again.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-2 text-black">Import from CSV</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Use the same columns as the export: {LEDGER_COLUMNS.join(", ")}. Allowances are split using your current savings percentage.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFile}
+        disabled={isWorking}
+        className="block text-sm text-gray-700 mb-4"
+      />
+
+      {preview.length > 0 && (
+        <>
+          <div className="max-h-80 overflow-y-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4">Line</th>
+                  <th className="py-2 pr-4">Date</th>
+                  <th className="py-2 pr-4">Type</th>
+                  <th className="py-2 pr-4 text-right">Amount</th>
+                  <th className="py-2 pr-4">Reason / Notes</th>
+                  <th className="py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row) => (
+                  <tr key={row.line} className="border-b border-gray-100 text-gray-800">
+                    <td className="py-2 pr-4">{row.line}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {dayjs(row.createdAt).isValid() ? dayjs(row.createdAt).format("MMM D, YYYY") : row.createdAt}
+                    </td>
+                    <td className="py-2 pr-4">{row.type}</td>
+                    <td className="py-2 pr-4 text-right">{row.amount}</td>
+                    <td className="py-2 pr-4 text-gray-600">{[row.reason, row.notes].filter(Boolean).join(" · ")}</td>
+                    <td className="py-2">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-600">{row.errors.join("; ")}</span>
+                      ) : row.duplicate ? (
+                        <span className="text-yellow-600">Duplicate, will be skipped</span>
+                      ) : (
+                        <span className="text-green-600">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleImport}
+              disabled={isWorking || accepted.length === 0}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+            >
+              {isWorking ? "Importing..." : `Import ${accepted.length} of ${preview.length} rows`}
+            </button>
+            <button
+              onClick={() => setPreview([])}
+              disabled={isWorking}
+              className="bg-gray-200 text-gray-700 hover:bg-gray-300 font-medium py-3 px-4 rounded-lg transition-colors duration-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
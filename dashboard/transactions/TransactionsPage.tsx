@@ -0,0 +1,358 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import dayjs from "dayjs";
+import type { IncomeSource } from "@/lib/incomeSources";
+import { repository } from "@/lib/repository";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+import {
+  DEFAULT_PAGE_SIZE,
+  IRREVERSIBLE_TYPES,
+  Transaction,
+  TransactionFilters,
+  TransactionPage,
+  TransactionSort,
+  TransactionType,
+  TRANSACTION_TYPES,
+} from "@/lib/transactions";
+import ImportPanel from "./ImportPanel";
+
+const TYPE_STYLES: Record<TransactionType, string> = {
+  allowance: "bg-blue-100 text-blue-700",
+  unlock: "bg-green-100 text-green-700",
+  spend: "bg-orange-100 text-orange-700",
+  interest: "bg-purple-100 text-purple-700",
+  adjustment: "bg-gray-100 text-gray-700",
+  transfer: "bg-indigo-100 text-indigo-700",
+  term_deposit: "bg-teal-100 text-teal-700",
+  term_deposit_return: "bg-teal-100 text-teal-700",
+};
+
+interface Props {
+  // Loaded on the server by page.tsx, which sends signed-out visitors to /login
+  user: { id: string; email: string };
+}
+
+export default function TransactionsPage({ user }: Props) {
+  const [filters, setFilters] = useState<TransactionFilters>({
+    sort: "created_at",
+    ascending: false,
+    page: 1,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+  const [search, setSearch] = useState<string>("");
+  const [result, setResult] = useState<TransactionPage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [message, setMessage] = useState<string>("");
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [sources, setSources] = useState<IncomeSource[]>([]);
+
+  const fetchTransactions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setResult(await repository.listTransactions(filters));
+    } catch (err) {
+      console.error("Error fetching transactions:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error loading transactions.");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [user.id, fetchTransactions]);
+
+  useEffect(() => {
+    const fetchSources = async () => {
+      try {
+        setSources(await repository.listIncomeSources());
+      } catch (err) {
+        console.error("Error fetching income sources:", err);
+      }
+    };
+
+    fetchSources();
+  }, [user.id]);
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((current) =>
+        (current.search ?? "") === search.trim() ? current : { ...current, search: search.trim() || undefined, page: 1 }
+      );
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const updateFilter = (changes: Partial<TransactionFilters>) => {
+    setFilters({ ...filters, ...changes, page: 1 });
+  };
+
+  const toggleSort = (sort: TransactionSort) => {
+    setFilters({
+      ...filters,
+      sort,
+      ascending: filters.sort === sort ? !filters.ascending : false,
+      page: 1,
+    });
+  };
+
+  const parseAmountFilter = (value: string): number | undefined => {
+    if (value === "") return undefined;
+    const number = parseFloat(value);
+    return Number.isFinite(number) ? number : undefined;
+  };
+
+  const handleReverse = async (transaction: Transaction) => {
+    const notes = window.prompt(
+      `Reverse this ${transaction.type} of $${transaction.amount.toFixed(2)}? Add a note explaining the correction (optional).`
+    );
+    if (notes === null) return;
+
+    setMessage("");
+    try {
+      await repository.reverseTransaction(transaction.id, notes.trim() || undefined);
+      setMessage(`✅ ${transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1)} of $${transaction.amount.toFixed(2)} reversed`);
+      fetchTransactions();
+    } catch (err) {
+      console.error("Error reversing transaction:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error reversing transaction. Please try again.");
+    }
+  };
+
+  const handleExport = async (format: "csv" | "json") => {
+    setMessage("");
+    try {
+      await repository.exportTransactions(format);
+    } catch (err) {
+      console.error("Error exporting transactions:", err);
+      setMessage(err instanceof Error ? `Error: ${err.message}` : "Error exporting transactions. Please try again.");
+    }
+  };
+
+  const describe = (transaction: Transaction): string => {
+    if (transaction.type === "unlock") {
+      return UNLOCK_REASONS.find((r) => r.id === transaction.reason)?.label ?? transaction.reason ?? "";
+    }
+    if (transaction.type === "spend") {
+      return [transaction.categoryName, transaction.merchant].filter(Boolean).join(" · ");
+    }
+    const details = [transaction.incomeSourceName];
+    if (transaction.savedAmount !== null && transaction.savingsPercent !== null) {
+      details.push(`Saved $${Math.abs(transaction.savedAmount).toFixed(2)} (${transaction.savingsPercent}%)`);
+    }
+    return details.filter(Boolean).join(" · ");
+  };
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const sortIndicator = (sort: TransactionSort) => (filters.sort === sort ? (filters.ascending ? " ▲" : " ▼") : "");
+  const inputClass = "border border-gray-300 rounded-lg px-3 py-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50 p-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-800">Transactions</h1>
+            <p className="text-gray-600">Every allowance, unlock and spend you have recorded</p>
+          </div>
+          <a
+            href="/dashboard"
+            className="bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+          >
+            Back to Dashboard
+          </a>
+        </div>
+
+        {/* Export / Import */}
+        <div className="flex flex-wrap gap-3 mb-6">
+          <button
+            onClick={() => handleExport("csv")}
+            className="bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => handleExport("json")}
+            className="bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 font-medium py-2 px-4 rounded-lg transition-colors duration-200 shadow-sm"
+          >
+            {showImport ? "Close Import" : "Import CSV"}
+          </button>
+        </div>
+
+        {showImport && <ImportPanel onImported={fetchTransactions} />}
+
+        {/* Filters */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={inputClass}
+              placeholder="Search notes..."
+            />
+            <select
+              value={filters.type ?? ""}
+              onChange={(e) => updateFilter({ type: (e.target.value || undefined) as TransactionType | undefined })}
+              className={inputClass}
+            >
+              <option value="">All types</option>
+              {TRANSACTION_TYPES.map((type) => (
+                <option key={type.id} value={type.id}>{type.label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.reason ?? ""}
+              onChange={(e) => updateFilter({ reason: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Any unlock reason</option>
+              {UNLOCK_REASONS.map((reason) => (
+                <option key={reason.id} value={reason.id}>{reason.label}</option>
+              ))}
+            </select>
+            <select
+              value={filters.sourceId ?? ""}
+              onChange={(e) => updateFilter({ sourceId: e.target.value || undefined })}
+              className={inputClass}
+            >
+              <option value="">Any income source</option>
+              {sources.map((source) => (
+                <option key={source.id} value={source.id}>{source.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.from ?? ""}
+              onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+              className={inputClass}
+              aria-label="From date"
+            />
+            <input
+              type="date"
+              value={filters.to ?? ""}
+              onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+              className={inputClass}
+              aria-label="To date"
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              onChange={(e) => updateFilter({ minAmount: parseAmountFilter(e.target.value) })}
+              className={inputClass}
+              placeholder="Min amount"
+            />
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              onChange={(e) => updateFilter({ maxAmount: parseAmountFilter(e.target.value) })}
+              className={inputClass}
+              placeholder="Max amount"
+            />
+          </div>
+        </div>
+
+        {message && (
+          <p className={`mb-4 text-sm ${message.includes("✅") ? "text-green-600" : "text-red-600"}`}>
+            {message}
+          </p>
+        )}
+
+        {/* Table */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 overflow-x-auto">
+          {loading && !result ? (
+            <div className="animate-pulse space-y-3">
+              <div className="h-6 bg-gray-200 rounded w-full"></div>
+              <div className="h-6 bg-gray-200 rounded w-full"></div>
+              <div className="h-6 bg-gray-200 rounded w-full"></div>
+            </div>
+          ) : !result || result.rows.length === 0 ? (
+            <p className="text-gray-600 text-center py-8">No transactions match these filters</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-4 cursor-pointer select-none" onClick={() => toggleSort("created_at")}>
+                    Date{sortIndicator("created_at")}
+                  </th>
+                  <th className="py-2 pr-4">Type</th>
+                  <th className="py-2 pr-4">Details</th>
+                  <th className="py-2 pr-4">Notes</th>
+                  <th className="py-2 pr-4 text-right cursor-pointer select-none" onClick={() => toggleSort("amount")}>
+                    Amount{sortIndicator("amount")}
+                  </th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody className={loading ? "opacity-50" : ""}>
+                {result.rows.map((transaction) => (
+                  <tr key={transaction.id} className="border-b border-gray-100 text-gray-800">
+                    <td className="py-2 pr-4 whitespace-nowrap">{dayjs(transaction.createdAt).format("MMM D, YYYY h:mm A")}</td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${TYPE_STYLES[transaction.type]}`}>
+                        {transaction.reversesId ? "Reversal" : TRANSACTION_TYPES.find((t) => t.id === transaction.type)?.label}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4">{describe(transaction)}</td>
+                    <td className="py-2 pr-4 text-gray-600">{transaction.notes}</td>
+                    <td className={`py-2 pr-4 text-right font-medium ${transaction.amount < 0 ? "text-red-600" : ""}`}>
+                      {transaction.amount < 0 ? "-" : ""}${Math.abs(transaction.amount).toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {transaction.reversedBy ? (
+                        <span className="text-xs text-gray-400">Reversed</span>
+                      ) : !transaction.reversesId && !IRREVERSIBLE_TYPES.includes(transaction.type) && (
+                        <button
+                          onClick={() => handleReverse(transaction)}
+                          className="text-xs text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Reverse
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Pagination */}
+          {result && result.total > 0 && (
+            <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+              <span>
+                {result.total} transaction{result.total === 1 ? "" : "s"} · page {result.page} of {totalPages}
+              </span>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setFilters({ ...filters, page: filters.page - 1 })}
+                  disabled={filters.page <= 1}
+                  className="px-3 py-1 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setFilters({ ...filters, page: filters.page + 1 })}
+                  disabled={filters.page >= totalPages}
+                  className="px-3 py-1 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
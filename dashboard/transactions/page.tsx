@@ -0,0 +1,10 @@
+import { redirect } from "next/navigation";
+import { getSessionUser } from "@/lib/serverSession";
+import TransactionsPage from "./TransactionsPage";
+
+export default async function Page() {
+  const user = await getSessionUser();
+  if (!user) redirect("/login");
+
+  return <TransactionsPage user={user} />;
+}
@@ -0,0 +1,34 @@
+import { ImageResponse } from "next/og";
+
+// The sizes the web app manifest asks for
+const SIZES = [192, 512];
+
+interface Context {
+  params: Promise<{ size: string }>;
+}
+
+export async function GET(_request: Request, context: Context) {
+  const size = Number((await context.params).size);
+  if (!SIZES.includes(size)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: "linear-gradient(135deg, #2563eb, #16a34a)",
+          fontSize: size * 0.6,
+        }}
+      >
+        🌱
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
@@ -0,0 +1,224 @@
+import dayjs, { Dayjs } from "dayjs";
+import isoWeek from "dayjs/plugin/isoWeek";
+import type { TransactionType } from "@/lib/transactions";
+
+dayjs.extend(isoWeek);
+
+export type BadgeId =
+  | "first_save"
+  | "locked_100"
+  | "locked_500"
+  | "locked_1000"
+  | "streak_4"
+  | "streak_12"
+  | "streak_26"
+  | "no_unlock_6_months"
+  | "first_interest";
+
+export interface BadgeDefinition {
+  id: BadgeId;
+  label: string;
+  description: string;
+  icon: string;
+}
+
+export const BADGES: BadgeDefinition[] = [
+  { id: "first_save", label: "First Save", description: "Lock away money for the first time", icon: "🌱" },
+  { id: "locked_100", label: "$100 Club", description: "Have $100 locked at once", icon: "💯" },
+  { id: "locked_500", label: "$500 Club", description: "Have $500 locked at once", icon: "💰" },
+  { id: "locked_1000", label: "Four Figures", description: "Have $1,000 locked at once", icon: "🏦" },
+  { id: "streak_4", label: "Month of Saving", description: "Save 4 weeks in a row without unlocking", icon: "🔥" },
+  { id: "streak_12", label: "Quarter Streak", description: "Save 12 weeks in a row without unlocking", icon: "⚡" },
+  { id: "streak_26", label: "Half-Year Streak", description: "Save 26 weeks in a row without unlocking", icon: "🏆" },
+  { id: "no_unlock_6_months", label: "Hands Off", description: "Go 6 months without unlocking", icon: "🧊" },
+  { id: "first_interest", label: "Money Makes Money", description: "Earn interest on your savings", icon: "📈" },
+];
+
+// Total saved needed to reach each level; level 1 starts at $0
+export const LEVEL_THRESHOLDS = [0, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface Streak {
+  // Weeks in a row, up to last week, with money saved and no unlock. The
+  // current week extends it once it has a deposit.
+  current: number;
+  longest: number;
+  savedThisWeek: boolean;
+  unlockedThisWeek: boolean;
+}
+
+export interface Level {
+  level: number;
+  totalSaved: number;
+  currentAt: number;
+  // null at the top level
+  nextAt: number | null;
+}
+
+export interface EarnedBadge {
+  id: BadgeId;
+  // When the ledger first met the badge's condition
+  earnedAt: string;
+}
+
+export interface Badge extends BadgeDefinition {
+  earnedAt: string;
+  awardedAt: string;
+  isNew: boolean;
+}
+
+export interface Achievements {
+  streak: Streak;
+  level: Level;
+  badges: Badge[];
+  // Badges still to earn
+  locked: BadgeDefinition[];
+}
+
+export interface AchievementEntry {
+  id: string;
+  type: TransactionType;
+  amount: number | string;
+  locked_delta: number | string;
+  reverses_id: string | null;
+  created_at: string;
+}
+
+export interface BadgeAwardRow {
+  badge_id: BadgeId;
+  earned_at: string;
+  awarded_at: string;
+  seen_at: string | null;
+}
+
+interface Entry {
+  type: TransactionType;
+  lockedDelta: number;
+  date: Dayjs;
+}
+
+const weekKey = (date: Dayjs) => `${date.isoWeekYear()}-W${String(date.isoWeek()).padStart(2, "0")}`;
+
+// Reversals and the entries they undo are left out: a corrected mistake
+// neither saves nor unlocks anything.
+function effectiveEntries(entries: AchievementEntry[]): Entry[] {
+  const reversed = new Set(entries.filter((e) => e.reverses_id).map((e) => e.reverses_id));
+  return entries
+    .filter((e) => !e.reverses_id && !reversed.has(e.id))
+    .map((e) => ({ type: e.type, lockedDelta: Number(e.locked_delta), date: dayjs(e.created_at) }))
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+}
+
+interface WeekActivity {
+  saved: boolean;
+  unlocked: boolean;
+}
+
+function weeklyActivity(entries: Entry[]): Map<string, WeekActivity> {
+  const weeks = new Map<string, WeekActivity>();
+  for (const entry of entries) {
+    const key = weekKey(entry.date);
+    const week = weeks.get(key) ?? { saved: false, unlocked: false };
+    if (entry.type === "allowance" && entry.lockedDelta > 0) week.saved = true;
+    if (entry.type === "unlock") week.unlocked = true;
+    weeks.set(key, week);
+  }
+  return weeks;
+}
+
+const counts = (week: WeekActivity | undefined) => !!week && week.saved && !week.unlocked;
+
+export function computeStreak(entries: AchievementEntry[], today: Dayjs = dayjs()): Streak {
+  const effective = effectiveEntries(entries);
+  const weeks = weeklyActivity(effective);
+  const thisWeek = weeks.get(weekKey(today));
+
+  let current = 0;
+  for (let week = today.startOf("isoWeek").subtract(1, "week"); counts(weeks.get(weekKey(week))); week = week.subtract(1, "week")) {
+    current++;
+  }
+  if (thisWeek?.unlocked) current = 0;
+  else if (counts(thisWeek)) current++;
+
+  let longest = 0;
+  if (effective.length > 0) {
+    let run = 0;
+    for (let week = effective[0].date.startOf("isoWeek"); !week.isAfter(today); week = week.add(1, "week")) {
+      run = counts(weeks.get(weekKey(week))) ? run + 1 : 0;
+      longest = Math.max(longest, run);
+    }
+  }
+
+  return {
+    current,
+    longest,
+    savedThisWeek: !!thisWeek?.saved,
+    unlockedThisWeek: !!thisWeek?.unlocked,
+  };
+}
+
+export function computeLevel(entries: AchievementEntry[]): Level {
+  const totalSaved = effectiveEntries(entries)
+    .filter((e) => (e.type === "allowance" || e.type === "interest") && e.lockedDelta > 0)
+    .reduce((sum, e) => sum + e.lockedDelta, 0);
+  const index = LEVEL_THRESHOLDS.filter((threshold) => totalSaved >= threshold).length - 1;
+
+  return {
+    level: index + 1,
+    totalSaved: Math.round(totalSaved * 100) / 100,
+    currentAt: LEVEL_THRESHOLDS[index],
+    nextAt: LEVEL_THRESHOLDS[index + 1] ?? null,
+  };
+}
+
+// Every badge the ledger qualifies for, with the date it first qualified.
+// award_badges() in SQL applies the same rules for the Supabase backend.
+export function earnedBadges(entries: AchievementEntry[], today: Dayjs = dayjs()): EarnedBadge[] {
+  const effective = effectiveEntries(entries);
+  const earned = new Map<BadgeId, string>();
+  const award = (id: BadgeId, date: Dayjs) => {
+    if (!earned.has(id)) earned.set(id, date.toISOString());
+  };
+
+  let locked = 0;
+  for (const entry of effective) {
+    locked += entry.lockedDelta;
+    if (entry.type === "allowance" && entry.lockedDelta > 0) award("first_save", entry.date);
+    if (entry.type === "interest") award("first_interest", entry.date);
+    if (locked >= 100) award("locked_100", entry.date);
+    if (locked >= 500) award("locked_500", entry.date);
+    if (locked >= 1000) award("locked_1000", entry.date);
+  }
+
+  // Six months measured from the first ledger entry or from an unlock to the
+  // next unlock (or today)
+  if (effective.length > 0) {
+    let since = effective[0].date;
+    for (const entry of [...effective.filter((e) => e.type === "unlock"), null]) {
+      const until = entry ? entry.date : today;
+      if (!since.add(6, "month").isAfter(until)) {
+        award("no_unlock_6_months", since.add(6, "month"));
+        break;
+      }
+      if (entry) since = entry.date;
+    }
+  }
+
+  const weeks = weeklyActivity(effective);
+  if (effective.length > 0) {
+    let run = 0;
+    for (let week = effective[0].date.startOf("isoWeek"); !week.isAfter(today); week = week.add(1, "week")) {
+      run = counts(weeks.get(weekKey(week))) ? run + 1 : 0;
+      const weekEnd = week.endOf("isoWeek").isAfter(today) ? today : week.endOf("isoWeek");
+      if (run >= 4) award("streak_4", weekEnd);
+      if (run >= 12) award("streak_12", weekEnd);
+      if (run >= 26) award("streak_26", weekEnd);
+    }
+  }
+
+  return BADGES.filter((badge) => earned.has(badge.id)).map((badge) => ({ id: badge.id, earnedAt: earned.get(badge.id)! }));
+}
+
+export function toBadge(row: BadgeAwardRow): Badge {
+  const definition = BADGES.find((badge) => badge.id === row.badge_id)!;
+  return { ...definition, earnedAt: row.earned_at, awardedAt: row.awarded_at, isNew: row.seen_at === null };
+}
@@ -0,0 +1,53 @@
+import { browserSupabase } from "@/lib/supabaseClient";
+
+// Calls one of the app's route handlers as the signed-in user. Non-2xx
+// responses are thrown as errors carrying the server's message.
+export async function apiFetch<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+  const { data: { session } } = await browserSupabase().auth.getSession();
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (session?.access_token) {
+    headers.Authorization = `Bearer ${session.access_token}`;
+  }
+
+  const response = await fetch(path, {
+    method: options.method ?? (options.body === undefined ? "GET" : "POST"),
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(payload.error || `Request failed with status ${response.status}`);
+  }
+  return payload as T;
+}
+
+// Fetches a file from a route handler and hands it to the browser as a
+// download, using the filename the server suggests.
+export async function apiDownload(path: string, fallbackName: string): Promise<void> {
+  const { data: { session } } = await browserSupabase().auth.getSession();
+
+  const response = await fetch(path, {
+    headers: session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {},
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error || `Request failed with status ${response.status}`);
+  }
+
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  saveFile(await response.blob(), filename);
+}
+
+// Hands a file built in the browser to the user as a download.
+export function saveFile(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+import { createRouteClient } from "@/lib/supabaseServer";
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// Postgres error codes raised by the ledger functions, mapped to HTTP statuses.
+const PG_STATUS: Record<string, number> = {
+  "42501": 403, // insufficient_privilege / not authenticated
+  "22023": 400, // invalid_parameter_value
+  "P0001": 409, // raise_exception: a balance rule was violated
+};
+
+export async function requireUser(request: Request): Promise<{ supabase: SupabaseClient; user: User }> {
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!token) {
+    throw new ApiError("Not authenticated", 401);
+  }
+
+  const supabase = createRouteClient(token);
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    throw new ApiError("Not authenticated", 401);
+  }
+
+  return { supabase, user: data.user };
+}
+
+// Scheduled jobs authenticate with CRON_SECRET as a bearer token.
+export function requireCronSecret(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    throw new ApiError("Not authorized", 401);
+  }
+}
+
+export async function readJson(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === "object" && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ApiError("Request body must be a JSON object", 400);
+}
+
+export function parseAmount(value: unknown): number {
+  const amount = typeof value === "string" ? Number(value) : value;
+  if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+    throw new ApiError("Please enter a valid amount.", 400);
+  }
+  if (Math.round(amount * 100) !== amount * 100) {
+    throw new ApiError("Amounts can have at most two decimal places.", 400);
+  }
+  return amount;
+}
+
+export function parseOptionalText(value: unknown, field: string, maxLength = 500): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") {
+    throw new ApiError(`${field} must be a string`, 400);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ApiError(`${field} must be at most ${maxLength} characters`, 400);
+  }
+  return trimmed || null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isUuid(value: unknown): value is string {
+  return typeof value === "string" && UUID_PATTERN.test(value);
+}
+
+// An optional reference to another row. Checked here because a malformed id
+// would otherwise reach Postgres and fail as a 500.
+export function parseOptionalId(value: unknown, field: string): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (!isUuid(value)) {
+    throw new ApiError(`${field} must be a UUID`, 400);
+  }
+  return value;
+}
+
+// The id an offline client gave an entry so replays are not recorded twice.
+export function parseClientId(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (!isUuid(value)) {
+    throw new ApiError("clientId must be a UUID", 400);
+  }
+  return value.toLowerCase();
+}
+
+// PostgREST caps how many rows one request returns, so reads that need every
+// row go in batches. `page` runs the query for rows from..to inclusive; order
+// it by a unique key so batches neither overlap nor skip rows.
+const BATCH_SIZE = 1000;
+
+export async function readAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let start = 0; ; start += BATCH_SIZE) {
+    const { data, error } = await page(start, start + BATCH_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < BATCH_SIZE) break;
+  }
+  return rows;
+}
+
+export function errorResponse(err: unknown): NextResponse {
+  if (err instanceof ApiError) {
+    return NextResponse.json({ error: err.message }, { status: err.status });
+  }
+
+  const pgError = err as { code?: string; message?: string } | null;
+  if (pgError?.code && PG_STATUS[pgError.code]) {
+    return NextResponse.json({ error: pgError.message }, { status: PG_STATUS[pgError.code] });
+  }
+
+  console.error("Unhandled API error:", err);
+  return NextResponse.json({ error: "Something went wrong. Please try again." }, { status: 500 });
+}
@@ -0,0 +1,58 @@
+// Where each kind of emailed link sends the user once /auth/callback has
+// signed them in
+export const AUTH_LANDING: Record<string, string> = {
+  signup: "/dashboard",
+  email: "/dashboard",
+  magiclink: "/dashboard",
+  recovery: "/auth/reset-password",
+  email_change: "/dashboard",
+  invite: "/auth/reset-password",
+};
+
+// Set by /auth/callback when a recovery link signs the user in. The reset
+// page only lets a password be chosen without the current one while it is
+// there, so an unattended signed-in browser cannot be used to take over the
+// account. Scoped to /auth, where the page and the route that clears it live.
+export const RECOVERY_COOKIE = "pg_recovery";
+export const RECOVERY_COOKIE_OPTIONS = { httpOnly: true, sameSite: "lax", path: "/auth", maxAge: 15 * 60 } as const;
+
+export type AuthLinkError = "expired" | "invalid" | "other_browser" | "denied";
+
+export const AUTH_LINK_ERRORS: Record<AuthLinkError, string> = {
+  expired: "That link has expired. Request a new one below.",
+  invalid: "That link is invalid or has already been used. Request a new one below.",
+  other_browser: "Open the link in the same browser you requested it from, or request a new one here.",
+  denied: "We couldn't sign you in with that link. Please try again.",
+};
+
+// Maps what GoTrue reports (error_code on the redirect, or the error from
+// exchanging the code) to the message the login page shows.
+export function toAuthLinkError(code: string | null, description = ""): AuthLinkError {
+  const text = `${code ?? ""} ${description}`.toLowerCase();
+  if (text.includes("expired")) return "expired";
+  if (text.includes("code verifier") || text.includes("flow state") || text.includes("code_verifier")) return "other_browser";
+  if (text.includes("invalid") || text.includes("not found") || text.includes("already")) return "invalid";
+  return "denied";
+}
+
+export function isAuthLinkError(value: string | null): value is AuthLinkError {
+  return value !== null && value in AUTH_LINK_ERRORS;
+}
+
+// Only same-site paths, so a crafted link cannot bounce users elsewhere.
+// Browsers read a backslash as a slash and drop tabs and newlines, so
+// "/\evil.com" would leave the site; those are refused outright, and what
+// is left must still resolve to the given origin.
+export function safeNextPath(next: string | null, origin: string, fallback = "/dashboard"): string {
+  if (!next || !next.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(next)) return fallback;
+  const url = new URL(next, origin);
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : fallback;
+}
+
+// The URL emailed links return to. Uses the page's own origin, so local
+// Supabase (with its test inbox) works the same as production.
+export function authCallbackUrl(next?: string): string {
+  const url = new URL("/auth/callback", window.location.origin);
+  if (next) url.searchParams.set("next", next);
+  return url.toString();
+}
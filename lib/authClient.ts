@@ -0,0 +1,37 @@
+import { createLocalAuth } from "@/lib/localAuth";
+import { isLocalBackend } from "@/lib/session";
+import { createSupabaseAuth } from "@/lib/supabaseAuth";
+
+// Signing in, out and changing credentials. The pages use this rather than
+// Supabase Auth directly, so the local backend has accounts of its own.
+export interface AuthClient {
+  // Whether sign-in links, confirmations and password resets can be emailed
+  sendsEmail: boolean;
+  signIn(email: string, password: string): Promise<void>;
+  // Resolves to true when the new account is signed in straight away, false
+  // when it must be confirmed from an email first. A guardian invite code is
+  // redeemed for the new account; a bad one does not block the sign-up.
+  signUp(email: string, password: string, inviteCode?: string): Promise<boolean>;
+  resendConfirmation(email: string): Promise<void>;
+  sendSignInLink(email: string): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  // Checks the current password first
+  changePassword(email: string, currentPassword: string, newPassword: string): Promise<void>;
+  // Resolves to true when the change waits for a link sent to the new address
+  changeEmail(newEmail: string): Promise<boolean>;
+  signOut(): Promise<void>;
+}
+
+// A refused auth operation. `code` carries Supabase Auth's error code, such as
+// "email_not_confirmed" or "same_password", when there is one.
+export class AuthError extends Error {
+  code: string | null;
+
+  constructor(message: string, code: string | null = null) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+  }
+}
+
+export const authClient: AuthClient = isLocalBackend ? createLocalAuth() : createSupabaseAuth();
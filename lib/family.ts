@@ -0,0 +1,46 @@
+import type { Balances } from "@/lib/ledger";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+
+export interface GuardianLink {
+  guardianId: string;
+  childId: string;
+  guardianEmail: string | null;
+  childEmail: string | null;
+  createdAt: string;
+}
+
+export interface GuardianLinkRow {
+  guardian_id: string;
+  child_id: string;
+  guardian_email: string | null;
+  child_email: string | null;
+  created_at: string;
+}
+
+export interface GuardianInvite {
+  code: string;
+  expiresAt: string;
+}
+
+export interface ChildSummary extends Balances {
+  id: string;
+  email: string | null;
+  // Unlock requests waiting for this guardian's decision, oldest first
+  requests: UnlockRequest[];
+}
+
+export interface FamilyOverview {
+  guardians: GuardianLink[];
+  children: ChildSummary[];
+  invites: GuardianInvite[];
+}
+
+export function toGuardianLink(row: GuardianLinkRow): GuardianLink {
+  return {
+    guardianId: row.guardian_id,
+    childId: row.child_id,
+    guardianEmail: row.guardian_email,
+    childEmail: row.child_email,
+    createdAt: row.created_at,
+  };
+}
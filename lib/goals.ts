@@ -0,0 +1,67 @@
+import dayjs from "dayjs";
+
+export interface Goal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  deadline: string | null;
+  icon: string;
+  allocationPercent: number;
+  allocatedAmount: number;
+  createdAt: string;
+  projectedCompletion: string | null;
+}
+
+export const GOAL_ICONS = ["🎯", "🚲", "🎮", "📱", "💻", "🎸", "✈️", "🚗", "🏠", "🎓", "👟", "🎁"];
+
+// How far back allocations are averaged when projecting a completion date.
+export const PROJECTION_WINDOW_DAYS = 90;
+
+export interface GoalRow {
+  id: string;
+  name: string;
+  target_amount: number | string;
+  deadline: string | null;
+  icon: string;
+  allocation_percent: number | string;
+  allocated_amount: number | string;
+  created_at: string;
+}
+
+// Projects when a goal will be fully funded by extrapolating the average
+// daily allocation over the projection window. Returns null when the goal has
+// no recent allocations to extrapolate from.
+export function projectCompletion(
+  goal: { targetAmount: number; allocatedAmount: number; createdAt: string },
+  allocations: { amount: number; created_at: string }[],
+  now = dayjs()
+): string | null {
+  const remaining = goal.targetAmount - goal.allocatedAmount;
+  if (remaining <= 0) return now.format("YYYY-MM-DD");
+
+  const windowStart = now.subtract(PROJECTION_WINDOW_DAYS, "day");
+  const since = dayjs(goal.createdAt).isAfter(windowStart) ? dayjs(goal.createdAt) : windowStart;
+  const recentTotal = allocations
+    .filter((a) => !dayjs(a.created_at).isBefore(since))
+    .reduce((sum, a) => sum + Number(a.amount), 0);
+
+  const days = Math.max(now.diff(since, "day"), 1);
+  const perDay = recentTotal / days;
+  if (perDay <= 0) return null;
+
+  return now.add(Math.ceil(remaining / perDay), "day").format("YYYY-MM-DD");
+}
+
+export function toGoal(row: GoalRow, allocations: { amount: number; created_at: string }[]): Goal {
+  const goal = {
+    id: row.id,
+    name: row.name,
+    targetAmount: Number(row.target_amount),
+    deadline: row.deadline,
+    icon: row.icon,
+    allocationPercent: Number(row.allocation_percent),
+    allocatedAmount: Number(row.allocated_amount),
+    createdAt: row.created_at,
+  };
+  return { ...goal, projectedCompletion: projectCompletion(goal, allocations) };
+}
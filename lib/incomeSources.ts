@@ -0,0 +1,40 @@
+export interface IncomeSource {
+  id: string;
+  name: string;
+}
+
+// Everyone starts with these; ensure_income_sources() creates them.
+export const DEFAULT_INCOME_SOURCES = ["Allowance", "Chores", "Gifts", "Job"];
+
+export const MAX_SOURCE_NAME_LENGTH = 40;
+
+export interface IncomeBySource {
+  // null for deposits whose source was deleted
+  sourceId: string | null;
+  name: string;
+  total: number;
+  deposits: number;
+}
+
+export interface IncomeBreakdown {
+  from: string;
+  to: string;
+  total: number;
+  sources: IncomeBySource[];
+}
+
+export interface IncomeBySourceRow {
+  source_id: string | null;
+  name: string | null;
+  total: number | string;
+  deposits: number | string;
+}
+
+export function toIncomeBySource(row: IncomeBySourceRow): IncomeBySource {
+  return {
+    sourceId: row.source_id,
+    name: row.name ?? "No source",
+    total: Number(row.total),
+    deposits: Number(row.deposits),
+  };
+}
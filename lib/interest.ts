@@ -0,0 +1,91 @@
+import dayjs from "dayjs";
+import { AllowanceSchedule, payoutsBetween } from "@/lib/schedules";
+
+export type Compounding = "daily" | "weekly" | "monthly";
+
+export const COMPOUNDINGS: { id: Compounding; label: string; periodsPerYear: number }[] = [
+  { id: "daily", label: "Daily", periodsPerYear: 365 },
+  { id: "weekly", label: "Weekly", periodsPerYear: 52 },
+  { id: "monthly", label: "Monthly", periodsPerYear: 12 },
+];
+
+export const MAX_ANNUAL_RATE = 100;
+// Interest nobody pays for is capped; set_interest_settings() enforces the same
+export const MAX_SELF_SET_RATE = 5;
+
+export interface InterestSettings {
+  annualRate: number;
+  compounding: Compounding;
+  // Set when a guardian pays the interest; the child cannot change the terms
+  paidByEmail: string | null;
+  guardianPaid: boolean;
+}
+
+// Same as next_interest_date() in SQL: the day the period starting on `from`
+// ends. Monthly periods are counted from `startedOn`, so a period clamped to
+// the end of a short month does not shift the ones after it.
+export function nextInterestDate(startedOn: string, from: string, compounding: Compounding): string {
+  const day = dayjs(from);
+  if (compounding === "daily") return day.add(1, "day").format("YYYY-MM-DD");
+  if (compounding === "weekly") return day.add(7, "day").format("YYYY-MM-DD");
+
+  const start = dayjs(startedOn);
+  let months = (day.year() - start.year()) * 12 + day.month() - start.month();
+  if (!start.add(months, "month").isAfter(day)) months += 1;
+  return start.add(months, "month").format("YYYY-MM-DD");
+}
+
+export interface ProjectionInput {
+  lockedAmount: number;
+  schedules: AllowanceSchedule[];
+  savingsPercent: number;
+  annualRate: number;
+  compounding: Compounding;
+  months: number;
+  // Multiplies every scheduled allowance, for what-if scenarios
+  allowanceFactor?: number;
+}
+
+export interface ProjectionPoint {
+  month: string;
+  locked: number;
+  contributed: number;
+  interest: number;
+}
+
+// Month-by-month locked savings if nothing is unlocked: the saved share of
+// each scheduled allowance goes in, and interest compounds on the balance at
+// the start of the month.
+export function projectLockedSavings(input: ProjectionInput): ProjectionPoint[] {
+  const periods = COMPOUNDINGS.find((c) => c.id === input.compounding)?.periodsPerYear ?? 12;
+  const monthlyGrowth = Math.pow(1 + input.annualRate / 100 / periods, periods / 12) - 1;
+  const factor = input.allowanceFactor ?? 1;
+
+  let locked = input.lockedAmount;
+  let contributed = 0;
+  let interest = 0;
+  const points: ProjectionPoint[] = [{ month: dayjs().format("MMM YYYY"), locked, contributed, interest }];
+
+  for (let i = 1; i <= input.months; i++) {
+    const start = dayjs().add(i - 1, "month").add(1, "day");
+    const end = dayjs().add(i, "month");
+
+    const earned = locked * monthlyGrowth;
+    const saved = input.schedules.reduce(
+      (sum, schedule) => sum + schedule.amount * factor * payoutsBetween(schedule, start, end),
+      0
+    ) * input.savingsPercent / 100;
+
+    locked += earned + saved;
+    interest += earned;
+    contributed += saved;
+    points.push({
+      month: end.format("MMM YYYY"),
+      locked: Number(locked.toFixed(2)),
+      contributed: Number(contributed.toFixed(2)),
+      interest: Number(interest.toFixed(2)),
+    });
+  }
+
+  return points;
+}
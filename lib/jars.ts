@@ -0,0 +1,80 @@
+export interface Jar {
+  // Unset for jars added in settings and not yet saved
+  id?: string;
+  name: string;
+  // Share of each allowance; the percentages of all jars add up to 100
+  percent: number;
+  // Money in a locked jar counts as locked savings and leaves only through an unlock
+  locked: boolean;
+  goalAmount: number | null;
+  balance: number;
+}
+
+export interface JarRow {
+  id: string;
+  name: string;
+  percent: number | string;
+  locked: boolean;
+  goal_amount: number | string | null;
+  balance: number | string;
+}
+
+// What one jar received from a deposit
+export interface JarShare {
+  jarId: string;
+  name: string;
+  locked: boolean;
+  amount: number;
+}
+
+export const MAX_JARS = 6;
+
+export const MAX_JAR_NAME_LENGTH = 30;
+
+// Offered when a user sets up jars for the first time
+export const DEFAULT_JARS: Jar[] = [
+  { name: "Spend", percent: 70, locked: false, goalAmount: null, balance: 0 },
+  { name: "Save", percent: 20, locked: true, goalAmount: null, balance: 0 },
+  { name: "Give", percent: 10, locked: false, goalAmount: null, balance: 0 },
+];
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// Same split as evaluate_jar_split() in SQL: each jar gets its percentage and
+// the first unlocked jar the rounding remainder.
+export function splitAcrossJars(jars: Jar[], amount: number): JarShare[] {
+  const shares = jars.map((jar) => ({
+    jarId: jar.id ?? "",
+    name: jar.name,
+    locked: jar.locked,
+    amount: cents((amount * jar.percent) / 100),
+  }));
+  const remainderIndex = Math.max(jars.findIndex((jar) => !jar.locked), 0);
+  if (shares.length > 0) {
+    const total = shares.reduce((sum, share) => sum + share.amount, 0);
+    shares[remainderIndex].amount = cents(shares[remainderIndex].amount + amount - total);
+  }
+  return shares;
+}
+
+export function toJar(row: JarRow): Jar {
+  return {
+    id: row.id,
+    name: row.name,
+    percent: Number(row.percent),
+    locked: row.locked,
+    goalAmount: row.goal_amount === null ? null : Number(row.goal_amount),
+    balance: Number(row.balance),
+  };
+}
+
+// Reads the `jars` list returned with a recorded allowance.
+export function toJarShares(value: unknown): JarShare[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((share) => ({
+    jarId: String(share.jar_id),
+    name: String(share.name),
+    locked: share.locked === true,
+    amount: Number(share.amount),
+  }));
+}
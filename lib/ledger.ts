@@ -0,0 +1,26 @@
+import type { JarShare } from "@/lib/jars";
+import type { SavingsPart } from "@/lib/savingsRules";
+
+export interface Balances {
+  lockedAmount: number;
+  availableAmount: number;
+}
+
+export interface AllowanceResult extends Balances {
+  savedAmount: number;
+  savingsPercent: number;
+  // Which rule saved which part of the deposit
+  breakdown: SavingsPart[];
+  // What each jar received; empty without jars
+  jars: JarShare[];
+  // The entry's client id had already been recorded; nothing new was added
+  duplicate: boolean;
+}
+
+// Converts the jsonb returned by the ledger functions into API field names.
+export function toBalances(row: Record<string, unknown>): Balances {
+  return {
+    lockedAmount: Number(row.locked_amount ?? 0),
+    availableAmount: Number(row.available_amount ?? 0),
+  };
+}
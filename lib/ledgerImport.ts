@@ -0,0 +1,119 @@
+import dayjs from "dayjs";
+import { parseCsv } from "@/lib/csv";
+import { isUnlockReason } from "@/lib/unlockReasons";
+import type { TransactionType } from "@/lib/transactions";
+
+// Column order of the ledger export. Imports accept the same header;
+// source, savings_percent, saved_amount and locked_after are informational
+// and ignored on the way back in.
+export const LEDGER_COLUMNS = [
+  "type",
+  "amount",
+  "reason",
+  "notes",
+  "created_at",
+  "source",
+  "savings_percent",
+  "saved_amount",
+  "locked_after",
+] as const;
+
+export const IMPORT_TYPES: TransactionType[] = ["allowance", "unlock", "spend"];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportCandidate {
+  line: number;
+  type: string;
+  amount: string;
+  reason: string;
+  notes: string;
+  createdAt: string;
+}
+
+export interface ImportPreviewRow extends ImportCandidate {
+  errors: string[];
+  duplicate: boolean;
+}
+
+export interface LedgerExportRow {
+  type: string;
+  amount: number;
+  reason: string | null;
+  notes: string | null;
+  created_at: string;
+  source: string | null;
+  savings_percent: number | null;
+  saved_amount: number | null;
+  locked_after: number;
+}
+
+// Reads a CSV export back into import candidates, keyed by header name so
+// columns can come in any order.
+export function candidatesFromCsv(text: string): { candidates: ImportCandidate[]; error?: string } {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { candidates: [], error: "The file is empty." };
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = ["type", "amount", "created_at"].filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return { candidates: [], error: `Missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}` };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { candidates: [], error: `Files can have at most ${MAX_IMPORT_ROWS} rows.` };
+  }
+
+  const value = (row: string[], name: string) => (row[columns.indexOf(name)] ?? "").trim();
+  return {
+    candidates: rows.map((row, index) => ({
+      line: index + 2,
+      type: value(row, "type").toLowerCase(),
+      amount: value(row, "amount"),
+      reason: value(row, "reason"),
+      notes: value(row, "notes"),
+      createdAt: value(row, "created_at"),
+    })),
+  };
+}
+
+export function validateCandidate(candidate: ImportCandidate): string[] {
+  const errors: string[] = [];
+
+  if (!IMPORT_TYPES.includes(candidate.type as TransactionType)) {
+    errors.push(`Type must be one of ${IMPORT_TYPES.join(", ")}`);
+  }
+
+  const amount = Number(candidate.amount);
+  if (!candidate.amount || !Number.isFinite(amount) || amount <= 0) {
+    errors.push("Amount must be a positive number");
+  } else if (Math.round(amount * 100) !== amount * 100) {
+    errors.push("Amount can have at most two decimal places");
+  }
+
+  if (candidate.type === "unlock") {
+    if (!isUnlockReason(candidate.reason)) {
+      errors.push("Unlocks need a known reason");
+    } else if (candidate.reason === "goal") {
+      errors.push("Goal unlocks cannot be imported");
+    } else if (candidate.reason === "other" && !candidate.notes) {
+      errors.push("Unlocks for \"other\" need notes");
+    }
+  }
+
+  const createdAt = dayjs(candidate.createdAt);
+  if (!candidate.createdAt || !createdAt.isValid()) {
+    errors.push("created_at must be a date");
+  } else if (createdAt.isAfter(dayjs())) {
+    errors.push("created_at cannot be in the future");
+  }
+
+  return errors;
+}
+
+// Two entries are the same if they have the same type, amount and timestamp
+// (to the second).
+export function duplicateKey(type: string, amount: number | string, createdAt: string): string {
+  return `${type}|${Number(amount).toFixed(2)}|${dayjs(createdAt).startOf("second").valueOf()}`;
+}
@@ -0,0 +1,36 @@
+import { LOCAL_SESSION_COOKIE, parseLocalSession, SessionUser } from "@/lib/session";
+
+export interface LocalAccount extends SessionUser {
+  passwordHash: string;
+  salt: string;
+  createdAt: string;
+}
+
+const ACCOUNTS_KEY = "pocketgrowth:local-accounts";
+
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60;
+
+export const browserStorage = () => (typeof localStorage === "undefined" ? null : localStorage);
+
+// Every account created in this browser
+export function loadLocalAccounts(storage: Storage | null = browserStorage()): LocalAccount[] {
+  const raw = storage?.getItem(ACCOUNTS_KEY);
+  return raw ? (JSON.parse(raw) as LocalAccount[]) : [];
+}
+
+export function saveLocalAccounts(accounts: LocalAccount[], storage: Storage | null = browserStorage()) {
+  storage?.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+}
+
+// The account signed in in this browser, from the session cookie
+export function currentLocalUser(): SessionUser | null {
+  if (typeof document === "undefined") return null;
+  const cookie = document.cookie.split("; ").find((c) => c.startsWith(`${LOCAL_SESSION_COOKIE}=`));
+  return parseLocalSession(cookie?.slice(LOCAL_SESSION_COOKIE.length + 1));
+}
+
+export function setLocalSession(user: SessionUser | null) {
+  document.cookie = user
+    ? `${LOCAL_SESSION_COOKIE}=${encodeURIComponent(JSON.stringify({ id: user.id, email: user.email }))}; path=/; max-age=${SESSION_MAX_AGE}; samesite=lax`
+    : `${LOCAL_SESSION_COOKIE}=; path=/; max-age=0; samesite=lax`;
+}
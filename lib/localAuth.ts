@@ -0,0 +1,123 @@
+import { AuthClient, AuthError } from "@/lib/authClient";
+import {
+  browserStorage,
+  currentLocalUser,
+  LocalAccount,
+  loadLocalAccounts,
+  saveLocalAccounts,
+  setLocalSession,
+} from "@/lib/localAccounts";
+import { createLocalRepository } from "@/lib/localRepository";
+
+// Anyone with the browser can read the data anyway; hashing only keeps the
+// password itself out of localStorage.
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${password}`));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function normalizeEmail(email: string): string {
+  const address = email.trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+    throw new AuthError("Unable to validate email address: invalid format", "validation_failed");
+  }
+  return address;
+}
+
+const needsEmail = () => new AuthError("Emailed links need the Supabase backend", "email_provider_disabled");
+
+// Accounts kept in the browser alongside the local backend's data. There is
+// no email, so sign-up signs in straight away and email changes apply at once.
+export function createLocalAuth(storage: Storage | null = browserStorage()): AuthClient {
+  const findAccount = (email: string) => loadLocalAccounts(storage).find((a) => a.email === email.trim().toLowerCase());
+
+  return {
+    sendsEmail: false,
+
+    async signIn(email: string, password: string) {
+      const account = findAccount(email);
+      if (!account || account.passwordHash !== (await hashPassword(password, account.salt))) {
+        throw new AuthError("Invalid login credentials", "invalid_credentials");
+      }
+      setLocalSession(account);
+    },
+
+    async signUp(email: string, password: string, inviteCode?: string) {
+      const address = normalizeEmail(email);
+      const accounts = loadLocalAccounts(storage);
+      if (accounts.some((a) => a.email === address)) {
+        throw new AuthError("User already registered", "user_already_exists");
+      }
+
+      const salt = crypto.randomUUID();
+      const account: LocalAccount = {
+        id: crypto.randomUUID(),
+        email: address,
+        passwordHash: await hashPassword(password, salt),
+        salt,
+        createdAt: new Date().toISOString(),
+      };
+      saveLocalAccounts([...accounts, account], storage);
+      setLocalSession(account);
+
+      if (inviteCode) {
+        await createLocalRepository(storage).redeemInvite(inviteCode).catch((err) => {
+          console.error("Error redeeming invite code:", err);
+        });
+      }
+      return true;
+    },
+
+    async resendConfirmation() {
+      throw needsEmail();
+    },
+
+    async sendSignInLink() {
+      throw needsEmail();
+    },
+
+    async sendPasswordReset() {
+      throw needsEmail();
+    },
+
+    async changePassword(email: string, currentPassword: string, newPassword: string) {
+      const accounts = loadLocalAccounts(storage);
+      const account = accounts.find((a) => a.email === email.trim().toLowerCase());
+      if (!account || account.passwordHash !== (await hashPassword(currentPassword, account.salt))) {
+        throw new AuthError("Your current password is incorrect", "invalid_credentials");
+      }
+      if (currentPassword === newPassword) {
+        throw new AuthError("New password should be different from the old password.", "same_password");
+      }
+
+      account.salt = crypto.randomUUID();
+      account.passwordHash = await hashPassword(newPassword, account.salt);
+      saveLocalAccounts(accounts, storage);
+    },
+
+    async changeEmail(newEmail: string) {
+      const user = currentLocalUser();
+      if (!user) {
+        throw new AuthError("Not signed in", "session_not_found");
+      }
+      const address = normalizeEmail(newEmail);
+      const accounts = loadLocalAccounts(storage);
+      if (accounts.some((a) => a.email === address)) {
+        throw new AuthError("A user with this email address has already been registered", "email_exists");
+      }
+
+      const account = accounts.find((a) => a.id === user.id);
+      if (!account) {
+        throw new AuthError("Not signed in", "session_not_found");
+      }
+      account.email = address;
+      saveLocalAccounts(accounts, storage);
+      setLocalSession(account);
+      return false;
+    },
+
+    async signOut() {
+      setLocalSession(null);
+    },
+  };
+}
@@ -0,0 +1,1896 @@
+import dayjs from "dayjs";
+import { saveFile } from "@/lib/apiClient";
+import {
+  AchievementEntry,
+  Achievements,
+  BADGES,
+  BadgeAwardRow,
+  computeLevel,
+  computeStreak,
+  earnedBadges,
+  toBadge,
+} from "@/lib/achievements";
+import { toCsv } from "@/lib/csv";
+import type { ChildSummary, FamilyOverview, GuardianLink } from "@/lib/family";
+import { Goal, projectCompletion } from "@/lib/goals";
+import {
+  DEFAULT_INCOME_SOURCES,
+  IncomeBreakdown,
+  IncomeBySource,
+  IncomeSource,
+  MAX_SOURCE_NAME_LENGTH,
+} from "@/lib/incomeSources";
+import {
+  Compounding,
+  COMPOUNDINGS,
+  InterestSettings,
+  MAX_ANNUAL_RATE,
+  MAX_SELF_SET_RATE,
+  nextInterestDate,
+} from "@/lib/interest";
+import { Jar, JarShare, MAX_JAR_NAME_LENGTH, MAX_JARS, splitAcrossJars } from "@/lib/jars";
+import type { AllowanceResult, Balances } from "@/lib/ledger";
+import {
+  duplicateKey,
+  ImportCandidate,
+  ImportPreviewRow,
+  LEDGER_COLUMNS,
+  LedgerExportRow,
+  MAX_IMPORT_ROWS,
+  validateCandidate,
+} from "@/lib/ledgerImport";
+import {
+  Notification,
+  NotificationFeed,
+  NotificationKind,
+  NotificationPreferences,
+  resolvePreferences,
+} from "@/lib/notifications";
+import { browserStorage, currentLocalUser, loadLocalAccounts, saveLocalAccounts } from "@/lib/localAccounts";
+import { DEFAULT_PROFILE, Profile } from "@/lib/profile";
+import type { Reconciliation, ReconciliationSource } from "@/lib/reconciliation";
+import type {
+  AllowanceInput,
+  ExportFormat,
+  GoalInput,
+  InterestSettingsInput,
+  JarTransferInput,
+  Repository,
+  ScheduleInput,
+  SeriesQuery,
+  SpendInput,
+  TermDepositInput,
+  UnlockDecision,
+  UnlockInput,
+  UnlockResult,
+} from "@/lib/repository";
+import { RepositoryError } from "@/lib/repository";
+import { evaluateRules, SavingsRule, SavingsSplit } from "@/lib/savingsRules";
+import { bucketStarts, buildSeries, CHART_INTERVALS, LedgerEntry, MAX_BUCKETS, previousRange } from "@/lib/savingsSeries";
+import { AllowanceSchedule, nextPayout } from "@/lib/schedules";
+import { DEFAULT_SETTINGS, SavingsPercentChange, UserSettings } from "@/lib/settings";
+import type { SpendCategory } from "@/lib/spending";
+import { MAX_PENALTY_PERCENT, TermDeposit, termDepositBonus } from "@/lib/termDeposits";
+import { IRREVERSIBLE_TYPES, Transaction, TransactionFilters, TransactionPage } from "@/lib/transactions";
+import { checkGuardrails, GuardrailStatus, NO_GUARDRAILS, UnlockGuardrails } from "@/lib/unlockGuardrails";
+import { buildUnlockInsights, INSIGHT_MONTH_OPTIONS } from "@/lib/unlockInsights";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+
+type StoredGoal = Omit<Goal, "projectedCompletion">;
+
+// With the last due date already posted, like schedule_postings in SQL
+type StoredSchedule = Omit<AllowanceSchedule, "nextPayout"> & { lastPostedOn?: string };
+
+type StoredJar = Omit<Jar, "balance"> & { id: string };
+
+// How a ledger entry moved money in or out of a jar, like jar_entries in SQL
+interface JarEntry {
+  jarId: string;
+  // Null for opening balances and moves between jars of the same kind
+  transactionId: string | null;
+  amount: number;
+  notes: string | null;
+  createdAt: string;
+}
+
+// With the goal it unlocks from, which is only needed once it is applied
+type StoredUnlockRequest = UnlockRequest & { goalId: string | null };
+
+// Like interest_settings in SQL
+interface InterestTerms {
+  annualRate: number;
+  compounding: Compounding;
+  // The guardian paying the interest; null when nobody does
+  paidBy: string | null;
+  lastPostedOn: string;
+  startedOn: string;
+}
+
+interface GuardianInviteRecord {
+  code: string;
+  guardianId: string;
+  expiresAt: string;
+  redeemedBy: string | null;
+  redeemedAt: string | null;
+  createdAt: string;
+}
+
+// Guardian links and invites join two accounts, so they are kept apart from
+// either account's data and shared by every account in this browser
+interface LocalFamily {
+  links: GuardianLink[];
+  invites: GuardianInviteRecord[];
+}
+
+interface GoalAllocation {
+  goalId: string;
+  transactionId: string;
+  amount: number;
+  createdAt: string;
+}
+
+interface LocalData {
+  settings: UserSettings;
+  percentHistory: SavingsPercentChange[];
+  transactions: Transaction[];
+  // Client id → transaction id, so a replayed entry is recorded once
+  submissions: Record<string, string>;
+  incomeSources: IncomeSource[];
+  categories: SpendCategory[];
+  goals: StoredGoal[];
+  goalAllocations: GoalAllocation[];
+  schedules: StoredSchedule[];
+  savingsRules: SavingsRule[];
+  guardrails: UnlockGuardrails;
+  badgeAwards: BadgeAwardRow[];
+  notificationPreferences: NotificationPreferences;
+  profile: Profile;
+  // Newest first
+  reconciliations: Reconciliation[];
+  // In order
+  jars: StoredJar[];
+  jarEntries: JarEntry[];
+  termDeposits: TermDeposit[];
+  unlockRequests: StoredUnlockRequest[];
+  interest: InterestTerms | null;
+  // Newest first
+  notifications: Notification[];
+}
+
+// Followed by the account's id; each local account has its own data
+const STORAGE_KEY = "pocketgrowth:local-data";
+
+const dataKey = (userId: string) => `${STORAGE_KEY}:${userId}`;
+
+const FAMILY_KEY = "pocketgrowth:local-family";
+
+const emptyData = (): LocalData => ({
+  settings: DEFAULT_SETTINGS,
+  percentHistory: [],
+  transactions: [],
+  submissions: {},
+  incomeSources: [],
+  categories: [],
+  goals: [],
+  goalAllocations: [],
+  schedules: [],
+  savingsRules: [],
+  guardrails: NO_GUARDRAILS,
+  badgeAwards: [],
+  notificationPreferences: {},
+  profile: DEFAULT_PROFILE,
+  reconciliations: [],
+  jars: [],
+  jarEntries: [],
+  termDeposits: [],
+  unlockRequests: [],
+  interest: null,
+  notifications: [],
+});
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// How long closed term deposits and resolved unlock requests keep being
+// listed, as in the route handlers
+const RECENT_DAYS = 7;
+
+const NOTIFICATION_FEED_LIMIT = 50;
+
+const INVITE_DAYS = 7;
+
+// Unambiguous characters only: no 0/O or 1/I
+const INVITE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const today = () => dayjs().format("YYYY-MM-DD");
+
+// Same arithmetic as ledger_balances() in SQL
+function balancesOf(transactions: Transaction[]): Balances {
+  let locked = 0;
+  let available = 0;
+  for (const t of transactions) {
+    locked += t.lockedDelta;
+    if (t.type === "adjustment" || t.type === "transfer") continue;
+    available +=
+      t.type === "allowance" || t.type === "interest" || t.type === "term_deposit_return" ? t.amount : -t.amount;
+  }
+  return { lockedAmount: cents(locked), availableAmount: cents(available - locked) };
+}
+
+function matches(t: Transaction, filters: TransactionFilters): boolean {
+  const search = filters.search?.toLowerCase();
+  return (
+    (!filters.type || t.type === filters.type) &&
+    (!filters.reason || t.reason === filters.reason) &&
+    (!filters.sourceId || t.incomeSourceId === filters.sourceId) &&
+    (!filters.from || !dayjs(t.createdAt).isBefore(dayjs(filters.from).startOf("day"))) &&
+    (!filters.to || !dayjs(t.createdAt).isAfter(dayjs(filters.to).endOf("day"))) &&
+    (filters.minAmount === undefined || t.amount >= filters.minAmount) &&
+    (filters.maxAmount === undefined || t.amount <= filters.maxAmount) &&
+    (!search || [t.notes, t.merchant, t.reason].some((text) => text?.toLowerCase().includes(search)))
+  );
+}
+
+// Oldest first, as the ledger helpers expect
+const chronological = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+const toLedgerEntry = (t: Transaction): LedgerEntry => ({
+  id: t.id,
+  type: t.type,
+  amount: t.amount,
+  locked_delta: t.lockedDelta,
+  reason: t.reason,
+  notes: t.notes,
+  reverses_id: t.reversesId,
+  income_source_id: t.incomeSourceId,
+  created_at: t.createdAt,
+});
+
+const toAchievementEntry = (t: Transaction): AchievementEntry => ({
+  id: t.id,
+  type: t.type,
+  amount: t.amount,
+  locked_delta: t.lockedDelta,
+  reverses_id: t.reversesId,
+  created_at: t.createdAt,
+});
+
+function parseDay(value: string, field: string): dayjs.Dayjs {
+  const date = dayjs(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || !date.isValid()) {
+    throw new RepositoryError(`${field} must be a date (YYYY-MM-DD)`, "22023");
+  }
+  return date;
+}
+
+function requireName(value: string, label: string, maxLength: number): string {
+  const name = value.trim();
+  if (!name) {
+    throw new RepositoryError(`${label} is required`, "22023");
+  }
+  if (name.length > maxLength) {
+    throw new RepositoryError(`${label} must be at most ${maxLength} characters`, "22023");
+  }
+  return name;
+}
+
+const isOpen = (request: UnlockRequest) => request.status === "pending" || request.status === "awaiting_approval";
+
+// Locked money already promised to open requests
+const pendingAmount = (data: LocalData) =>
+  cents(data.unlockRequests.filter(isOpen).reduce((sum, request) => sum + request.amount, 0));
+
+// Same as cooling_off_hours() in SQL
+const coolingOffHours = (settings: UserSettings, reason: string) =>
+  settings.coolingOffOverrides[reason] ?? settings.coolingOffHours;
+
+// Counts the unlocks and open requests of the month `at` falls in, like
+// unlocked_this_month() in SQL. Backdated imports pass their own date.
+function guardrailStatus(data: LocalData, at: string = new Date().toISOString()): GuardrailStatus {
+  const thisMonth = (createdAt: string) => dayjs(createdAt).isSame(at, "month");
+  return {
+    guardrails: data.guardrails,
+    unlockedThisMonth: cents(
+      data.transactions.filter((t) => t.type === "unlock" && thisMonth(t.createdAt)).reduce((sum, t) => sum + t.amount, 0) +
+        data.unlockRequests.filter((r) => isOpen(r) && thisMonth(r.createdAt)).reduce((sum, r) => sum + r.amount, 0)
+    ),
+    pendingAmount: pendingAmount(data),
+  };
+}
+
+// Same as notify() in SQL: nothing is written for kinds the user turned off
+function notify(data: LocalData, kind: NotificationKind, payload: Record<string, unknown>, transactionId: string | null = null) {
+  if (data.notificationPreferences[kind] === false) return;
+  data.notifications.unshift({
+    id: crypto.randomUUID(),
+    kind,
+    data: payload,
+    transactionId,
+    createdAt: new Date().toISOString(),
+    read: false,
+  });
+}
+
+// Same as notify_transaction() in SQL. Entries dated more than a day back are
+// history being filled in, not news.
+function notifyTransaction(data: LocalData, t: Transaction) {
+  if (dayjs(t.createdAt).isBefore(dayjs().subtract(1, "day"))) return;
+
+  if (t.reversesId) {
+    notify(data, "reversal", { type: t.type, amount: -t.amount }, t.id);
+  } else if (t.type === "allowance") {
+    notify(data, "allowance_posted", { amount: t.amount, saved_amount: t.savedAmount, scheduled: false, source: t.incomeSourceName }, t.id);
+  } else if (t.type === "unlock") {
+    notify(data, "unlock_applied", { amount: t.amount, reason: t.reason }, t.id);
+  } else if (t.type === "spend") {
+    notify(data, "spend_recorded", { amount: t.amount, merchant: t.merchant }, t.id);
+  } else if (t.type === "interest") {
+    notify(data, "interest_posted", { amount: t.amount, guardian_paid: data.interest?.paidBy != null }, t.id);
+  }
+}
+
+// Same as notify_unlock_request() in SQL, for guardian decisions and requests
+// that could not be applied
+function notifyRequest(data: LocalData, request: UnlockRequest) {
+  notify(data, "unlock_request", {
+    status: request.status === "pending" ? "approved" : request.status,
+    amount: request.amount,
+    requested_amount: request.requestedAmount,
+    comment: request.guardianComment,
+    failure_reason: request.failureReason,
+  });
+}
+
+function reconciliationOf(data: LocalData, source: ReconciliationSource): Reconciliation {
+  const balances = balancesOf(data.transactions);
+  return {
+    id: crypto.randomUUID(),
+    source,
+    checkedAt: new Date().toISOString(),
+    storedLocked: balances.lockedAmount,
+    expectedLocked: balances.lockedAmount,
+    storedAvailable: balances.availableAmount,
+    expectedAvailable: balances.availableAmount,
+    difference: 0,
+    suspects: [],
+    estimatedEntries: 0,
+    adjustmentId: null,
+  };
+}
+
+function jarBalance(data: LocalData, jarId: string): number {
+  return cents(data.jarEntries.filter((e) => e.jarId === jarId).reduce((sum, e) => sum + e.amount, 0));
+}
+
+const jarsWithBalances = (data: LocalData): Jar[] => data.jars.map((jar) => ({ ...jar, balance: jarBalance(data, jar.id) }));
+
+function addJarEntry(data: LocalData, jarId: string, transaction: Transaction | null, amount: number, notes: string | null = null) {
+  if (amount === 0) return;
+  data.jarEntries.push({
+    jarId,
+    transactionId: transaction?.id ?? null,
+    amount: cents(amount),
+    notes,
+    createdAt: transaction?.createdAt ?? new Date().toISOString(),
+  });
+}
+
+// Same as spread_jar_amount() over the locked jars in SQL: in proportion to
+// what each holds, evenly when they are all empty, and the fullest jar takes
+// the rounding remainder.
+function spreadOverLockedJars(data: LocalData, transaction: Transaction, amount: number) {
+  const jars = data.jars.filter((jar) => jar.locked);
+  if (amount === 0 || jars.length === 0) return;
+
+  let weights = jars.map((jar) => jarBalance(data, jar.id));
+  let total = weights.reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total === 0) {
+    weights = jars.map(() => 1);
+    total = jars.length;
+  }
+  const largest = weights.reduce((best, weight, i) => (weight > weights[best] ? i : best), 0);
+
+  let left = amount;
+  jars.forEach((jar, i) => {
+    if (i === largest) return;
+    const share = cents((amount * Math.max(weights[i], 0)) / total);
+    left = cents(left - share);
+    addJarEntry(data, jar.id, transaction, share);
+  });
+  addJarEntry(data, jars[largest].id, transaction, left);
+}
+
+// Same as record_jar_entries() in SQL, for the entries that do not write
+// their own: reversals undo the original's, money leaving or entering locked
+// savings comes out of or goes into the locked jars, and the rest comes out
+// of the unlocked jars in order.
+function recordJarEntries(data: LocalData, transaction: Transaction) {
+  if (data.jars.length === 0) return;
+
+  if (transaction.reversesId) {
+    for (const entry of data.jarEntries.filter((e) => e.transactionId === transaction.reversesId)) {
+      addJarEntry(data, entry.jarId, transaction, -entry.amount, entry.notes);
+    }
+    return;
+  }
+
+  if (!["unlock", "spend", "interest", "term_deposit", "term_deposit_return"].includes(transaction.type)) return;
+
+  if (transaction.lockedDelta !== 0) {
+    spreadOverLockedJars(data, transaction, transaction.lockedDelta);
+    return;
+  }
+
+  const unlocked = data.jars.filter((jar) => !jar.locked);
+  let left = transaction.amount;
+  for (const jar of unlocked) {
+    if (left <= 0) break;
+    const take = Math.min(Math.max(jarBalance(data, jar.id), 0), left);
+    if (take > 0) {
+      addJarEntry(data, jar.id, transaction, -take);
+      left = cents(left - take);
+    }
+  }
+  // More than the jars hold; the first jar takes the difference
+  if (left > 0) addJarEntry(data, unlocked[0].id, transaction, -left);
+}
+
+// Same as evaluate_jar_split() in SQL; null without jars
+function jarSplit(data: LocalData, amount: number): (SavingsSplit & { jars: JarShare[] }) | null {
+  if (data.jars.length === 0) return null;
+
+  const jars = splitAcrossJars(jarsWithBalances(data), amount);
+  const saved = cents(jars.filter((share) => share.locked).reduce((sum, share) => sum + share.amount, 0));
+  return {
+    savedAmount: saved,
+    savingsPercent: amount > 0 ? cents((saved / amount) * 100) : 0,
+    parts: data.jars.flatMap((jar, i) =>
+      jar.locked ? [{ ruleId: null, label: `${jar.percent}% to ${jar.name}`, amount: jars[i].amount }] : []
+    ),
+    jars,
+  };
+}
+
+// Keeps each local account's data in the browser, in localStorage when there
+// is one and in memory otherwise, and follows the Supabase backend's rules.
+// Guardian links join accounts kept in the same browser. The work the
+// server's scheduled jobs do (matured unlock requests and term deposits,
+// interest, scheduled allowances) is caught up whenever the data is read.
+export function createLocalRepository(storage: Storage | null = browserStorage()): Repository {
+  const memory = new Map<string, LocalData>();
+  let familyMemory: LocalFamily = { links: [], invites: [] };
+  const listeners = new Set<(settings: UserSettings) => void>();
+  // Told about every save, so notifications reach this page without a reload
+  const changeListeners = new Set<() => void>();
+
+  const currentUserId = () => {
+    const user = currentLocalUser();
+    if (!user) {
+      throw new RepositoryError("Not authenticated", "42501");
+    }
+    return user.id;
+  };
+
+  // Guardians read and write their children's data as well as their own
+  const loadFor = (userId: string): LocalData => {
+    if (!storage) return memory.get(userId) ?? emptyData();
+    const raw = storage.getItem(dataKey(userId));
+    return raw ? { ...emptyData(), ...(JSON.parse(raw) as LocalData) } : emptyData();
+  };
+
+  const saveFor = (userId: string, data: LocalData) => {
+    memory.set(userId, data);
+    storage?.setItem(dataKey(userId), JSON.stringify(data));
+    changeListeners.forEach((listener) => listener());
+  };
+
+  const load = () => loadFor(currentUserId());
+  const save = (data: LocalData) => saveFor(currentUserId(), data);
+
+  const loadFamily = (): LocalFamily => {
+    if (!storage) return familyMemory;
+    const raw = storage.getItem(FAMILY_KEY);
+    return raw ? (JSON.parse(raw) as LocalFamily) : { links: [], invites: [] };
+  };
+
+  const saveFamily = (family: LocalFamily) => {
+    familyMemory = family;
+    storage?.setItem(FAMILY_KEY, JSON.stringify(family));
+  };
+
+  const emailOf = (userId: string) => loadLocalAccounts(storage).find((a) => a.id === userId)?.email ?? null;
+
+  // Same as is_guardian_of() in SQL
+  const isGuardianOf = (guardianId: string, childId: string) =>
+    loadFamily().links.some((link) => link.guardianId === guardianId && link.childId === childId);
+
+  // A linked child's unlocks wait for a guardian's approval
+  const hasGuardian = (userId: string) => loadFamily().links.some((link) => link.childId === userId);
+
+  // Same defaults as ensure_income_sources() in SQL
+  const ensureIncomeSources = (data: LocalData) => {
+    if (data.incomeSources.length === 0) {
+      data.incomeSources = DEFAULT_INCOME_SOURCES.map((name) => ({ id: crypto.randomUUID(), name }));
+      save(data);
+    }
+    return data.incomeSources;
+  };
+
+  const addTransaction = (data: LocalData, fields: Partial<Transaction> & Pick<Transaction, "type" | "amount" | "lockedDelta">) => {
+    const transaction: Transaction = {
+      id: crypto.randomUUID(),
+      reason: null,
+      notes: null,
+      merchant: null,
+      categoryName: null,
+      incomeSourceId: null,
+      incomeSourceName: null,
+      savingsPercent: null,
+      savedAmount: null,
+      reversesId: null,
+      reversedBy: null,
+      createdAt: new Date().toISOString(),
+      ...fields,
+    };
+    data.transactions.push(transaction);
+    recordJarEntries(data, transaction);
+    notifyTransaction(data, transaction);
+    return transaction;
+  };
+
+  // Shares the saved part of a deposit across goals, like allocate_to_goals()
+  const allocateToGoals = (data: LocalData, transaction: Transaction, saved: number) => {
+    for (const goal of data.goals.filter((g) => g.allocationPercent > 0)) {
+      const share = cents((saved * goal.allocationPercent) / 100);
+      if (share <= 0) continue;
+      if (goal.allocatedAmount < goal.targetAmount && goal.allocatedAmount + share >= goal.targetAmount) {
+        notify(data, "goal_reached", { goal_id: goal.id, name: goal.name, icon: goal.icon, target_amount: goal.targetAmount });
+      }
+      goal.allocatedAmount = cents(goal.allocatedAmount + share);
+      data.goalAllocations.push({ goalId: goal.id, transactionId: transaction.id, amount: share, createdAt: transaction.createdAt });
+    }
+  };
+
+  // With jars, their percentages decide the split instead of the savings
+  // percentage and rules
+  const applyAllowance = (data: LocalData, amount: number, sourceId: string | null, createdAt?: string, notes?: string) => {
+    const split = jarSplit(data, amount) ?? {
+      ...evaluateRules(data.savingsRules, amount, sourceId, data.settings.savingsPercent),
+      jars: [],
+    };
+    const transaction = addTransaction(data, {
+      type: "allowance",
+      amount,
+      lockedDelta: split.savedAmount,
+      savingsPercent: split.savingsPercent,
+      savedAmount: split.savedAmount,
+      incomeSourceId: sourceId,
+      incomeSourceName: data.incomeSources.find((s) => s.id === sourceId)?.name ?? null,
+      notes: notes?.trim() || null,
+      ...(createdAt ? { createdAt } : {}),
+    });
+    for (const share of split.jars) addJarEntry(data, share.jarId, transaction, share.amount);
+    allocateToGoals(data, transaction, split.savedAmount);
+    return { transaction, split };
+  };
+
+  // Same as apply_unlock() in SQL: callers check guardrails, cooling-off and
+  // approval first
+  const applyUnlock = (
+    data: LocalData,
+    input: { amount: number; reason: string; notes?: string | null; goalId?: string | null },
+    createdAt?: string
+  ) => {
+    const { lockedAmount } = balancesOf(data.transactions);
+    if (input.amount > lockedAmount) {
+      throw new RepositoryError(`Cannot unlock more than the ${lockedAmount.toFixed(2)} that is locked`, "P0001");
+    }
+
+    if (input.goalId) {
+      const goal = data.goals.find((g) => g.id === input.goalId);
+      if (!goal) {
+        throw new RepositoryError("Goal not found", "22023");
+      }
+      if (input.amount > goal.allocatedAmount) {
+        throw new RepositoryError(`Cannot unlock more than the ${goal.allocatedAmount.toFixed(2)} saved for this goal`, "P0001");
+      }
+      goal.allocatedAmount = cents(goal.allocatedAmount - input.amount);
+    }
+
+    return addTransaction(data, {
+      type: "unlock",
+      amount: input.amount,
+      lockedDelta: -input.amount,
+      reason: input.reason,
+      notes: input.notes?.trim() || null,
+      ...(createdAt ? { createdAt } : {}),
+    });
+  };
+
+  // Same as the apply_matured_unlocks() loop body in SQL: a request that no
+  // longer fits is marked failed instead of raising
+  const applyRequest = (data: LocalData, request: StoredUnlockRequest) => {
+    try {
+      applyUnlock(data, request);
+      request.status = "applied";
+    } catch (err) {
+      request.status = "failed";
+      request.failureReason = err instanceof Error ? err.message : String(err);
+      notifyRequest(data, request);
+    }
+    request.resolvedAt = new Date().toISOString();
+  };
+
+  // Same as check_imported_unlock() in SQL. Imports bypass recordUnlock, so
+  // unlocks that would wait for a guardian or a cooling-off period are
+  // refused.
+  const checkImportedUnlock = (data: LocalData, amount: number, reason: string, createdAt: string) => {
+    if (hasGuardian(currentUserId())) {
+      throw new RepositoryError("unlocks need your guardian's approval, so this unlock cannot be imported", "P0001");
+    }
+    const hours = coolingOffHours(data.settings, reason);
+    if (hours > 0) {
+      throw new RepositoryError(`unlocks for this reason wait ${hours} hours, so this unlock cannot be imported`, "P0001");
+    }
+
+    const available = cents(balancesOf(data.transactions).lockedAmount - pendingAmount(data));
+    if (amount > available) {
+      throw new RepositoryError(`only ${available.toFixed(2)} is locked and not already requested, so this unlock cannot be applied`, "P0001");
+    }
+    const violation = checkGuardrails(guardrailStatus(data, createdAt), amount, reason, available);
+    if (violation) {
+      throw new RepositoryError(violation.message, "P0001");
+    }
+  };
+
+  const applySpend = (data: LocalData, input: SpendInput, createdAt?: string) => {
+    const { availableAmount } = balancesOf(data.transactions);
+    if (input.amount > availableAmount) {
+      throw new RepositoryError(`Cannot spend more than the available balance of ${availableAmount.toFixed(2)}`, "P0001");
+    }
+    const category = input.categoryId ? data.categories.find((c) => c.id === input.categoryId) : undefined;
+    if (input.categoryId && !category) {
+      throw new RepositoryError("Category not found", "22023");
+    }
+
+    return addTransaction(data, {
+      type: "spend",
+      amount: input.amount,
+      lockedDelta: 0,
+      categoryName: category?.name ?? null,
+      merchant: input.merchant?.trim() || null,
+      notes: input.notes?.trim() || null,
+      ...(createdAt ? { createdAt } : {}),
+    });
+  };
+
+  const previewRows = (data: LocalData, rows: ImportCandidate[]): ImportPreviewRow[] => {
+    if (rows.length === 0) {
+      throw new RepositoryError("No rows to import", "22023");
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new RepositoryError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`, "22023");
+    }
+
+    const existing = new Set(data.transactions.map((t) => duplicateKey(t.type, t.amount, t.createdAt)));
+    const seen = new Set<string>();
+    return rows.map((candidate) => {
+      const errors = validateCandidate(candidate);
+      const key = duplicateKey(candidate.type, candidate.amount, candidate.createdAt);
+      const duplicate = errors.length === 0 && (existing.has(key) || seen.has(key));
+      if (errors.length === 0) seen.add(key);
+      return { ...candidate, errors, duplicate };
+    });
+  };
+
+  // Same as close_term_deposit() in SQL: the money goes back to locked
+  // savings, with the bonus at maturity or less the penalty when early
+  const closeTermDeposit = (data: LocalData, deposit: TermDeposit, early: boolean) => {
+    const returned = early
+      ? cents(deposit.amount - cents((deposit.amount * deposit.penaltyPercent) / 100))
+      : cents(deposit.amount + deposit.bonusAmount);
+    const notes = early
+      ? `Term deposit withdrawn early with a ${cents(deposit.amount - returned).toFixed(2)} penalty`
+      : deposit.bonusAmount > 0
+        ? `Term deposit matured with a ${deposit.bonusAmount.toFixed(2)} bonus`
+        : "Term deposit matured";
+
+    if (returned > 0) {
+      addTransaction(data, { type: "term_deposit_return", amount: returned, lockedDelta: returned, notes });
+    }
+    deposit.status = early ? "withdrawn" : "matured";
+    deposit.returnedAmount = returned;
+    deposit.closedAt = new Date().toISOString();
+    return deposit;
+  };
+
+  // Does what the server's scheduled jobs do, for one account: posts due
+  // allowances, applies matured unlock requests, pays out matured term
+  // deposits and posts interest up to today. Returns whether anything changed.
+  const catchUp = (data: LocalData): boolean => {
+    let changed = false;
+
+    // Same as post_due_allowances() in SQL
+    for (const schedule of data.schedules) {
+      const from = schedule.lastPostedOn ? dayjs(schedule.lastPostedOn).add(1, "day") : dayjs(schedule.startDate);
+      for (let due = nextPayout(schedule, from); due && due <= today(); due = nextPayout(schedule, dayjs(due).add(1, "day"))) {
+        const { transaction } = applyAllowance(data, schedule.amount, schedule.incomeSourceId, dayjs(due).toISOString(), schedule.sourceLabel);
+        // notify_transaction() tells scheduled deposits apart by their schedule
+        const notification = data.notifications.find((n) => n.transactionId === transaction.id);
+        if (notification) notification.data.scheduled = true;
+        schedule.lastPostedOn = due;
+        changed = true;
+      }
+    }
+
+    const now = new Date().toISOString();
+    const matured = data.unlockRequests
+      .filter((request) => request.status === "pending" && request.maturesAt <= now)
+      .sort((a, b) => a.maturesAt.localeCompare(b.maturesAt));
+    for (const request of matured) {
+      applyRequest(data, request);
+      changed = true;
+    }
+
+    for (const deposit of data.termDeposits.filter((d) => d.status === "active" && d.maturesOn <= today())) {
+      closeTermDeposit(data, deposit, false);
+      changed = true;
+    }
+
+    // Same as post_interest() in SQL
+    const terms = data.interest;
+    if (terms && terms.annualRate > 0) {
+      const periods = COMPOUNDINGS.find((c) => c.id === terms.compounding)?.periodsPerYear ?? 12;
+      let next = nextInterestDate(terms.startedOn, terms.lastPostedOn, terms.compounding);
+      while (next <= today()) {
+        const interest = cents((balancesOf(data.transactions).lockedAmount * terms.annualRate) / 100 / periods);
+        if (interest > 0) {
+          addTransaction(data, {
+            type: "interest",
+            amount: interest,
+            lockedDelta: interest,
+            notes: `${terms.annualRate}% a year, compounded ${terms.compounding}`,
+            createdAt: dayjs(next).toISOString(),
+          });
+        }
+        terms.lastPostedOn = next;
+        changed = true;
+        next = nextInterestDate(terms.startedOn, next, terms.compounding);
+      }
+    }
+
+    return changed;
+  };
+
+  const saveProfile = async (changes: Partial<Profile>) => {
+    const data = load();
+    data.profile = { ...data.profile, ...changes };
+    save(data);
+    return data.profile;
+  };
+
+  return {
+    async getBalances() {
+      const data = load();
+      if (catchUp(data)) save(data);
+      return balancesOf(data.transactions);
+    },
+
+    async recordAllowance(input: AllowanceInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      const data = load();
+
+      const earlier = input.clientId ? data.transactions.find((t) => t.id === data.submissions[input.clientId!]) : undefined;
+      if (earlier) {
+        const result: AllowanceResult = {
+          ...balancesOf(data.transactions),
+          savedAmount: earlier.savedAmount ?? 0,
+          savingsPercent: earlier.savingsPercent ?? 0,
+          breakdown: [],
+          jars: [],
+          duplicate: true,
+        };
+        return result;
+      }
+
+      ensureIncomeSources(data);
+      const { transaction, split } = applyAllowance(data, input.amount, input.sourceId ?? null);
+      if (input.clientId) data.submissions[input.clientId] = transaction.id;
+      save(data);
+
+      const result: AllowanceResult = {
+        ...balancesOf(data.transactions),
+        savedAmount: split.savedAmount,
+        savingsPercent: split.savingsPercent,
+        breakdown: split.parts,
+        jars: split.jars,
+        duplicate: false,
+      };
+      return result;
+    },
+
+    async recordUnlock(input: UnlockInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      if (input.reason === "goal" && !input.goalId) {
+        throw new RepositoryError("Choose the goal this unlock is for", "22023");
+      }
+      const userId = currentUserId();
+      const data = load();
+
+      const earlier = input.clientId ? data.submissions[input.clientId] : undefined;
+      if (earlier) {
+        // Report the request as it is now, not as it was filed
+        const result: UnlockResult = {
+          ...balancesOf(data.transactions),
+          request: data.unlockRequests.find((r) => r.id === earlier) ?? null,
+          duplicate: true,
+        };
+        return result;
+      }
+
+      // Money already promised to open requests is not available again
+      const available = cents(balancesOf(data.transactions).lockedAmount - pendingAmount(data));
+      const violation = checkGuardrails(guardrailStatus(data), input.amount, input.reason, available);
+      if (violation) {
+        throw new RepositoryError(violation.message, "P0001");
+      }
+      if (input.amount > available) {
+        throw new RepositoryError(`Cannot unlock more than the ${available.toFixed(2)} that is locked and not already requested`, "P0001");
+      }
+
+      const hours = coolingOffHours(data.settings, input.reason);
+      const needsApproval = hasGuardian(userId);
+      if (hours === 0 && !needsApproval) {
+        const transaction = applyUnlock(data, input);
+        if (input.clientId) data.submissions[input.clientId] = transaction.id;
+        save(data);
+
+        const result: UnlockResult = { ...balancesOf(data.transactions), request: null, duplicate: false };
+        return result;
+      }
+
+      const createdAt = dayjs();
+      const request: StoredUnlockRequest = {
+        id: crypto.randomUUID(),
+        amount: input.amount,
+        requestedAmount: input.amount,
+        reason: input.reason,
+        notes: input.notes?.trim() || null,
+        goalId: input.goalId ?? null,
+        status: needsApproval ? "awaiting_approval" : "pending",
+        maturesAt: createdAt.add(hours, "hour").toISOString(),
+        resolvedAt: null,
+        failureReason: null,
+        guardianComment: null,
+        decidedAt: null,
+        createdAt: createdAt.toISOString(),
+      };
+      data.unlockRequests.push(request);
+      if (input.clientId) data.submissions[input.clientId] = request.id;
+      save(data);
+
+      const result: UnlockResult = { ...balancesOf(data.transactions), request, duplicate: false };
+      return result;
+    },
+
+    async recordSpend(input: SpendInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      const data = load();
+      applySpend(data, input);
+      save(data);
+      return balancesOf(data.transactions);
+    },
+
+    // Same checks as reverse_transaction() in SQL
+    async reverseTransaction(id: string, notes?: string) {
+      const data = load();
+      const original = data.transactions.find((t) => t.id === id);
+      if (!original) {
+        throw new RepositoryError("Transaction not found", "22023");
+      }
+      if (original.reversesId) {
+        throw new RepositoryError("A reversal cannot itself be reversed", "P0001");
+      }
+      if (IRREVERSIBLE_TYPES.includes(original.type)) {
+        throw new RepositoryError(`This ${original.type} entry cannot be reversed`, "P0001");
+      }
+      if (original.reversedBy) {
+        throw new RepositoryError("This transaction has already been reversed", "P0001");
+      }
+
+      const { lockedAmount, availableAmount } = balancesOf(data.transactions);
+      if (original.lockedDelta > lockedAmount) {
+        throw new RepositoryError(`Only ${lockedAmount.toFixed(2)} is still locked, so this entry can no longer be reversed`, "P0001");
+      }
+      if (original.type === "allowance" && original.amount - original.lockedDelta > availableAmount) {
+        throw new RepositoryError(`Only ${availableAmount.toFixed(2)} is available, so this allowance can no longer be reversed`, "P0001");
+      }
+
+      const reversal = addTransaction(data, {
+        ...original,
+        id: crypto.randomUUID(),
+        amount: -original.amount,
+        lockedDelta: -original.lockedDelta,
+        notes: notes?.trim() || "Reversal",
+        savingsPercent: null,
+        savedAmount: null,
+        reversesId: original.id,
+        reversedBy: null,
+        createdAt: new Date().toISOString(),
+      });
+      original.reversedBy = reversal.id;
+
+      // Undo what the original did to goal allocations
+      if (original.type === "allowance") {
+        for (const allocation of data.goalAllocations.filter((a) => a.transactionId === original.id)) {
+          const goal = data.goals.find((g) => g.id === allocation.goalId);
+          if (goal) goal.allocatedAmount = cents(Math.max(goal.allocatedAmount - allocation.amount, 0));
+          data.goalAllocations.push({ ...allocation, transactionId: reversal.id, amount: -allocation.amount, createdAt: reversal.createdAt });
+        }
+      }
+
+      save(data);
+      return balancesOf(data.transactions);
+    },
+
+    async getSettings() {
+      return load().settings;
+    },
+
+    async saveSettings(settings: UserSettings) {
+      const data = load();
+      if (settings.savingsPercent !== data.settings.savingsPercent) {
+        data.percentHistory.unshift({ savingsPercent: settings.savingsPercent, effectiveAt: new Date().toISOString() });
+      }
+
+      // Like notify_settings_changed() in SQL, for the settings that change
+      // how money moves
+      const changes: Record<string, unknown> = {};
+      if (settings.savingsPercent !== data.settings.savingsPercent) {
+        changes.savings_percent = [data.settings.savingsPercent, settings.savingsPercent];
+      }
+      if (settings.coolingOffHours !== data.settings.coolingOffHours) {
+        changes.cooling_off_hours = [data.settings.coolingOffHours, settings.coolingOffHours];
+      }
+      if (Object.keys(changes).length > 0) notify(data, "settings_changed", changes);
+
+      data.settings = settings;
+      save(data);
+      listeners.forEach((listener) => listener(settings));
+      return settings;
+    },
+
+    async getSavingsPercentHistory(limit: number) {
+      return load().percentHistory.slice(0, limit);
+    },
+
+    subscribeSettings(onChange: (settings: UserSettings) => void) {
+      // Saves from this page call the listener directly; saves from other
+      // tabs arrive as storage events
+      const handleStorage = (event: StorageEvent) => {
+        const user = currentLocalUser();
+        if (user && event.key === dataKey(user.id)) onChange(load().settings);
+      };
+      listeners.add(onChange);
+      if (typeof window !== "undefined") window.addEventListener("storage", handleStorage);
+
+      return () => {
+        listeners.delete(onChange);
+        if (typeof window !== "undefined") window.removeEventListener("storage", handleStorage);
+      };
+    },
+
+    async listTransactions(filters: TransactionFilters) {
+      const direction = filters.ascending ? 1 : -1;
+      const rows = load()
+        .transactions.filter((t) => matches(t, filters))
+        .sort((a, b) =>
+          filters.sort === "amount" ? (a.amount - b.amount) * direction : a.createdAt.localeCompare(b.createdAt) * direction
+        );
+
+      const start = (filters.page - 1) * filters.pageSize;
+      const page: TransactionPage = {
+        rows: rows.slice(start, start + filters.pageSize),
+        total: rows.length,
+        page: filters.page,
+        pageSize: filters.pageSize,
+      };
+      return page;
+    },
+
+    // Same columns as GET /api/transactions/export
+    async exportTransactions(format: ExportFormat) {
+      let lockedAfter = 0;
+      const rows: LedgerExportRow[] = chronological(load().transactions).map((t) => {
+        lockedAfter += t.lockedDelta;
+        return {
+          type: t.type,
+          amount: t.amount,
+          reason: t.reason,
+          notes: t.notes,
+          created_at: t.createdAt,
+          source: t.incomeSourceName,
+          savings_percent: t.savingsPercent,
+          saved_amount: t.savedAmount,
+          locked_after: cents(lockedAfter),
+        };
+      });
+
+      const body = format === "json"
+        ? JSON.stringify(rows, null, 2)
+        : toCsv([[...LEDGER_COLUMNS], ...rows.map((row) => LEDGER_COLUMNS.map((column) => row[column]))]);
+      const type = format === "json" ? "application/json" : "text/csv;charset=utf-8";
+      saveFile(new Blob([body], { type }), `pocketgrowth-transactions-${dayjs().format("YYYY-MM-DD")}.${format}`);
+    },
+
+    async previewImport(rows: ImportCandidate[]) {
+      return previewRows(load(), rows);
+    },
+
+    // Rows apply in order with the usual checks; the first failure leaves
+    // nothing recorded
+    async importTransactions(rows: ImportCandidate[]) {
+      const data = load();
+      const preview = previewRows(data, rows);
+      const rejected = preview.find((row) => row.errors.length > 0 || row.duplicate);
+      if (rejected) {
+        throw new RepositoryError(`Line ${rejected.line} is invalid or a duplicate; remove it before importing`, "22023");
+      }
+
+      ensureIncomeSources(data);
+      for (const row of preview) {
+        const amount = Number(row.amount);
+        const createdAt = dayjs(row.createdAt).toISOString();
+        try {
+          if (row.type === "allowance") applyAllowance(data, amount, null, createdAt);
+          else if (row.type === "unlock") {
+            checkImportedUnlock(data, amount, row.reason, createdAt);
+            applyUnlock(data, { amount, reason: row.reason, notes: row.notes }, createdAt);
+          }
+          else applySpend(data, { amount, notes: row.notes }, createdAt);
+        } catch (err) {
+          throw new RepositoryError(`Line ${row.line}: ${err instanceof Error ? err.message : String(err)}`, "P0001");
+        }
+      }
+
+      save(data);
+      return preview.length;
+    },
+
+    async getSavingsSeries(query: SeriesQuery) {
+      if (!CHART_INTERVALS.includes(query.interval)) {
+        throw new RepositoryError("Interval must be daily, weekly, monthly or yearly", "22023");
+      }
+      const from = parseDay(query.from, "from");
+      const to = parseDay(query.to, "to");
+      if (from.isAfter(to)) {
+        throw new RepositoryError("The start date must be on or before the end date", "22023");
+      }
+      if (bucketStarts(from, to, query.interval).length > MAX_BUCKETS) {
+        throw new RepositoryError("That range has too many points. Choose a shorter range or a longer interval.", "22023");
+      }
+
+      const entries = chronological(load().transactions).map(toLedgerEntry);
+      const previous = previousRange(from, to);
+      return {
+        from: from.format("YYYY-MM-DD"),
+        to: to.format("YYYY-MM-DD"),
+        interval: query.interval,
+        sourceId: query.sourceId,
+        jars: [],
+        points: buildSeries(entries, from, to, query.interval, query.sourceId),
+        previous: query.compare ? buildSeries(entries, previous.from, previous.to, query.interval, query.sourceId) : null,
+      };
+    },
+
+    // Same grouping as income_by_source() in SQL
+    async getIncomeBreakdown(fromDay: string, toDay: string) {
+      const from = parseDay(fromDay, "from").startOf("day");
+      const to = parseDay(toDay, "to").endOf("day");
+      if (from.isAfter(to)) {
+        throw new RepositoryError("The start date must be on or before the end date", "22023");
+      }
+
+      const data = load();
+      const income = data.transactions.filter(
+        (t) => t.type === "allowance" && !dayjs(t.createdAt).isBefore(from) && !dayjs(t.createdAt).isAfter(to)
+      );
+      const summarize = (sourceId: string | null, name: string, entries: Transaction[]): IncomeBySource => ({
+        sourceId,
+        name,
+        total: cents(entries.reduce((sum, t) => sum + t.amount, 0)),
+        deposits: entries.filter((t) => !t.reversesId).length,
+      });
+
+      const sources = ensureIncomeSources(data).map((source) =>
+        summarize(source.id, source.name, income.filter((t) => t.incomeSourceId === source.id))
+      );
+      const unsourced = income.filter((t) => t.incomeSourceId === null);
+      if (unsourced.length > 0) sources.push(summarize(null, "No source", unsourced));
+      sources.sort((a, b) => b.total - a.total);
+
+      const breakdown: IncomeBreakdown = {
+        from: from.format("YYYY-MM-DD"),
+        to: to.format("YYYY-MM-DD"),
+        total: cents(sources.reduce((sum, source) => sum + source.total, 0)),
+        sources,
+      };
+      return breakdown;
+    },
+
+    async getUnlockInsights(months: number) {
+      if (!INSIGHT_MONTH_OPTIONS.includes(months)) {
+        throw new RepositoryError(`Months must be one of ${INSIGHT_MONTH_OPTIONS.join(", ")}`, "22023");
+      }
+      const unlocks = chronological(load().transactions)
+        .filter((t) => t.type === "unlock")
+        .map((t) => ({ id: t.id, amount: t.amount, reason: t.reason, notes: t.notes, reverses_id: t.reversesId, created_at: t.createdAt }));
+      return buildUnlockInsights(unlocks, months);
+    },
+
+    // Badges are awarded once, as GET /api/achievements does
+    async getAchievements() {
+      const data = load();
+      const entries = chronological(data.transactions).map(toAchievementEntry);
+      const fresh = earnedBadges(entries).filter((badge) => !data.badgeAwards.some((award) => award.badge_id === badge.id));
+      if (fresh.length > 0) {
+        const awardedAt = new Date().toISOString();
+        data.badgeAwards.push(...fresh.map((badge) => ({ badge_id: badge.id, earned_at: badge.earnedAt, awarded_at: awardedAt, seen_at: null })));
+        fresh.forEach((badge) => notify(data, "badge_earned", { badge_id: badge.id }));
+        save(data);
+      }
+
+      const badges = data.badgeAwards.map(toBadge).sort((a, b) => b.earnedAt.localeCompare(a.earnedAt));
+      const achievements: Achievements = {
+        streak: computeStreak(entries),
+        level: computeLevel(entries),
+        badges,
+        locked: BADGES.filter((badge) => !badges.some((b) => b.id === badge.id)),
+      };
+      return achievements;
+    },
+
+    async markBadgesSeen() {
+      const data = load();
+      const seenAt = new Date().toISOString();
+      data.badgeAwards = data.badgeAwards.map((award) => ({ ...award, seen_at: award.seen_at ?? seenAt }));
+      save(data);
+    },
+
+    async listIncomeSources() {
+      return ensureIncomeSources(load());
+    },
+
+    async createIncomeSource(name: string) {
+      const data = load();
+      const sourceName = requireName(name, "Source name", MAX_SOURCE_NAME_LENGTH);
+      if (ensureIncomeSources(data).some((s) => s.name === sourceName)) {
+        throw new RepositoryError(`You already have a "${sourceName}" source`, "23505");
+      }
+      const source: IncomeSource = { id: crypto.randomUUID(), name: sourceName };
+      data.incomeSources.push(source);
+      save(data);
+      return source;
+    },
+
+    async renameIncomeSource(id: string, name: string) {
+      const data = load();
+      const sourceName = requireName(name, "Source name", MAX_SOURCE_NAME_LENGTH);
+      const source = data.incomeSources.find((s) => s.id === id);
+      if (!source) {
+        throw new RepositoryError("Income source not found", "22023");
+      }
+      if (data.incomeSources.some((s) => s.id !== id && s.name === sourceName)) {
+        throw new RepositoryError(`You already have a "${sourceName}" source`, "23505");
+      }
+      source.name = sourceName;
+      data.transactions.filter((t) => t.incomeSourceId === id).forEach((t) => (t.incomeSourceName = sourceName));
+      save(data);
+      return source;
+    },
+
+    // Past deposits keep their amounts but lose the source; rules for the
+    // source are removed with it
+    async deleteIncomeSource(id: string) {
+      const data = load();
+      if (ensureIncomeSources(data).length <= 1) {
+        throw new RepositoryError("Keep at least one income source", "P0001");
+      }
+      if (!data.incomeSources.some((s) => s.id === id)) {
+        throw new RepositoryError("Income source not found", "22023");
+      }
+      data.incomeSources = data.incomeSources.filter((s) => s.id !== id);
+      data.savingsRules = data.savingsRules.filter((rule) => rule.sourceId !== id);
+      data.schedules.filter((s) => s.incomeSourceId === id).forEach((s) => (s.incomeSourceId = null));
+      data.transactions
+        .filter((t) => t.incomeSourceId === id)
+        .forEach((t) => {
+          t.incomeSourceId = null;
+          t.incomeSourceName = null;
+        });
+      save(data);
+    },
+
+    async listCategories() {
+      return [...load().categories].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async createCategory(categoryName: string, icon?: string) {
+      const data = load();
+      const name = requireName(categoryName, "Category name", 40);
+      if (data.categories.some((c) => c.name === name)) {
+        throw new RepositoryError(`You already have a "${name}" category`, "23505");
+      }
+      const created: SpendCategory = { id: crypto.randomUUID(), name, icon: icon || "🛒" };
+      data.categories.push(created);
+      save(data);
+      return created;
+    },
+
+    async listGoals() {
+      const data = load();
+      return data.goals.map((goal) => ({
+        ...goal,
+        projectedCompletion: projectCompletion(
+          goal,
+          data.goalAllocations.filter((a) => a.goalId === goal.id).map((a) => ({ amount: a.amount, created_at: a.createdAt }))
+        ),
+      }));
+    },
+
+    async createGoal(input: GoalInput) {
+      const data = load();
+      const name = requireName(input.name, "Goal name", 80);
+      if (!(input.targetAmount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      const others = data.goals.reduce((sum, g) => sum + g.allocationPercent, 0);
+      if (others + input.allocationPercent > 100) {
+        throw new RepositoryError(`Goal allocations can add up to at most 100% (${100 - others}% left)`, "22023");
+      }
+
+      const goal: StoredGoal = {
+        id: crypto.randomUUID(),
+        name,
+        targetAmount: input.targetAmount,
+        deadline: input.deadline,
+        icon: input.icon,
+        allocationPercent: input.allocationPercent,
+        allocatedAmount: 0,
+        createdAt: new Date().toISOString(),
+      };
+      data.goals.push(goal);
+      save(data);
+      return { ...goal, projectedCompletion: null };
+    },
+
+    async deleteGoal(id: string) {
+      const data = load();
+      data.goals = data.goals.filter((g) => g.id !== id);
+      data.goalAllocations = data.goalAllocations.filter((a) => a.goalId !== id);
+      save(data);
+    },
+
+    async listSchedules() {
+      return load().schedules.map((schedule) => ({ ...schedule, nextPayout: nextPayout(schedule) }));
+    },
+
+    async createSchedule(input: ScheduleInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      if (dayjs(input.startDate).isBefore(dayjs().subtract(1, "day"), "day")) {
+        throw new RepositoryError("A schedule cannot start in the past", "22023");
+      }
+      const data = load();
+      const schedule: StoredSchedule = {
+        id: crypto.randomUUID(),
+        amount: input.amount,
+        cadence: input.cadence,
+        intervalDays: input.cadence === "custom" ? input.intervalDays ?? null : null,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        sourceLabel: input.sourceLabel?.trim() || "Allowance",
+        incomeSourceId: input.incomeSourceId,
+      };
+      data.schedules.push(schedule);
+      save(data);
+      return { ...schedule, nextPayout: nextPayout(schedule) };
+    },
+
+    async deleteSchedule(id: string) {
+      const data = load();
+      data.schedules = data.schedules.filter((s) => s.id !== id);
+      save(data);
+    },
+
+    async listSavingsRules() {
+      return load().savingsRules;
+    },
+
+    async saveSavingsRules(rules: SavingsRule[]) {
+      const data = load();
+      data.savingsRules = rules.map((rule) => ({
+        ...rule,
+        id: rule.id ?? crypto.randomUUID(),
+        sourceName: data.incomeSources.find((s) => s.id === rule.sourceId)?.name ?? null,
+      }));
+      save(data);
+      return data.savingsRules;
+    },
+
+    async listJars() {
+      return jarsWithBalances(load());
+    },
+
+    // Same checks as the route handler and set_jars() in SQL. Jars keep their
+    // money when their id is passed back; the first set of jars takes the
+    // existing balances.
+    async saveJars(jars: Jar[]) {
+      if (jars.length > MAX_JARS) {
+        throw new RepositoryError(`You can have at most ${MAX_JARS} jars`, "22023");
+      }
+      const data = load();
+
+      const next: StoredJar[] = jars.map((jar, index) => {
+        const name = requireName(jar.name, `Jar ${index + 1}: name`, MAX_JAR_NAME_LENGTH);
+        if (!Number.isFinite(jar.percent) || jar.percent < 0 || jar.percent > 100) {
+          throw new RepositoryError(`Jar ${index + 1}: percent must be between 0 and 100`, "22023");
+        }
+        if (jar.goalAmount !== null && !(jar.goalAmount > 0)) {
+          throw new RepositoryError("Please enter a valid amount.", "22023");
+        }
+        const existing = data.jars.find((j) => j.id === jar.id);
+        return {
+          id: existing?.id ?? crypto.randomUUID(),
+          name,
+          percent: cents(jar.percent),
+          locked: jar.locked,
+          goalAmount: jar.goalAmount,
+        };
+      });
+
+      if (new Set(next.map((jar) => jar.name.toLowerCase())).size < next.length) {
+        throw new RepositoryError("Each jar needs a different name", "22023");
+      }
+
+      // Back to a single locked and available balance, which never stopped
+      // being kept
+      if (next.length === 0) {
+        data.jars = [];
+        data.jarEntries = [];
+        save(data);
+        return [];
+      }
+
+      if (Math.round(next.reduce((sum, jar) => sum + jar.percent, 0) * 100) !== 10000) {
+        throw new RepositoryError("Jar percentages must add up to 100", "22023");
+      }
+      if (next.every((jar) => jar.locked)) {
+        throw new RepositoryError("Keep at least one unlocked jar to spend from", "22023");
+      }
+      for (const jar of data.jars) {
+        const kept = next.find((j) => j.id === jar.id);
+        if (jarBalance(data, jar.id) !== 0 && (!kept || kept.locked !== jar.locked)) {
+          throw new RepositoryError(`Move the money out of ${jar.name} first`, "P0001");
+        }
+      }
+
+      const hadJars = data.jars.length > 0;
+      const { lockedAmount, availableAmount } = balancesOf(data.transactions);
+      const firstLocked = next.find((jar) => jar.locked);
+      if (!hadJars && lockedAmount !== 0 && !firstLocked) {
+        throw new RepositoryError(`Add a locked jar to hold your ${lockedAmount.toFixed(2)} of locked savings`, "22023");
+      }
+
+      data.jarEntries = data.jarEntries.filter((e) => next.some((jar) => jar.id === e.jarId));
+      data.jars = next;
+      if (!hadJars) {
+        if (firstLocked) addJarEntry(data, firstLocked.id, null, lockedAmount, "Opening balance");
+        addJarEntry(data, next.find((jar) => !jar.locked)!.id, null, availableAmount, "Opening balance");
+      }
+      save(data);
+      return jarsWithBalances(data);
+    },
+
+    // Same checks as transfer_between_jars() in SQL
+    async transferBetweenJars(input: JarTransferInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      const data = load();
+
+      const from = data.jars.find((jar) => jar.id === input.fromJarId);
+      const to = data.jars.find((jar) => jar.id === input.toJarId);
+      if (!from || !to) {
+        throw new RepositoryError("Jar not found", "22023");
+      }
+      if (from.id === to.id) {
+        throw new RepositoryError("Choose two different jars", "22023");
+      }
+      if (from.locked && !to.locked) {
+        throw new RepositoryError("Money can only leave a locked jar through an unlock", "P0001");
+      }
+      const balance = jarBalance(data, from.id);
+      if (input.amount > balance) {
+        throw new RepositoryError(`Only ${balance.toFixed(2)} is in ${from.name}`, "P0001");
+      }
+
+      const notes = input.notes?.trim() || `${from.name} to ${to.name}`;
+      // Into a locked jar the money becomes locked savings, which the ledger
+      // has to show
+      const transaction =
+        to.locked && !from.locked
+          ? addTransaction(data, { type: "transfer", amount: input.amount, lockedDelta: input.amount, notes })
+          : null;
+      addJarEntry(data, from.id, transaction, -input.amount, notes);
+      addJarEntry(data, to.id, transaction, input.amount, notes);
+      save(data);
+      return balancesOf(data.transactions);
+    },
+
+    // Pays out anything that has matured first, like settle_term_deposits()
+    async listTermDeposits() {
+      const data = load();
+      if (catchUp(data)) save(data);
+
+      const recent = dayjs().subtract(RECENT_DAYS, "day").toISOString();
+      return data.termDeposits
+        .filter((d) => d.status === "active" || (d.closedAt !== null && d.closedAt >= recent))
+        .sort((a, b) => a.maturesOn.localeCompare(b.maturesOn));
+    },
+
+    // Same checks as the route handler and open_term_deposit() in SQL
+    async openTermDeposit(input: TermDepositInput) {
+      if (!(input.amount > 0)) {
+        throw new RepositoryError("Amount must be greater than zero", "22023");
+      }
+      if (input.source !== "available" && input.source !== "locked") {
+        throw new RepositoryError("Choose where the money comes from", "22023");
+      }
+      const maturesOn = parseDay(input.maturesOn, "Maturity date").format("YYYY-MM-DD");
+      if (maturesOn <= today()) {
+        throw new RepositoryError("The maturity date must be in the future", "22023");
+      }
+      const penaltyPercent = input.earlyWithdrawal === "penalty" ? cents(input.penaltyPercent || 0) : 0;
+      if (!Number.isFinite(penaltyPercent) || penaltyPercent < 0 || penaltyPercent > MAX_PENALTY_PERCENT) {
+        throw new RepositoryError(`Penalty must be between 0% and ${MAX_PENALTY_PERCENT}%`, "22023");
+      }
+      const data = load();
+
+      const balances = balancesOf(data.transactions);
+      const balance = input.source === "locked" ? balances.lockedAmount : balances.availableAmount;
+      if (input.amount > balance) {
+        throw new RepositoryError(`Only ${balance.toFixed(2)} is ${input.source}, so this deposit cannot be opened`, "P0001");
+      }
+
+      // Only interest a guardian pays earns a bonus
+      const bonusRate = data.interest?.paidBy ? data.interest.annualRate : 0;
+      const deposit: TermDeposit = {
+        id: crypto.randomUUID(),
+        amount: input.amount,
+        source: input.source,
+        startsOn: today(),
+        maturesOn,
+        bonusRate,
+        bonusAmount: termDepositBonus(input.amount, bonusRate, today(), maturesOn),
+        earlyWithdrawal: input.earlyWithdrawal,
+        penaltyPercent,
+        status: "active",
+        returnedAmount: null,
+        closedAt: null,
+        createdAt: new Date().toISOString(),
+      };
+      data.termDeposits.push(deposit);
+      addTransaction(data, {
+        type: "term_deposit",
+        amount: input.amount,
+        lockedDelta: input.source === "locked" ? -input.amount : 0,
+        notes: `Term deposit until ${dayjs(maturesOn).format("MMM D, YYYY")}`,
+      });
+      save(data);
+      return deposit;
+    },
+
+    // Same checks as withdraw_term_deposit() in SQL
+    async withdrawTermDeposit(id: string) {
+      const data = load();
+      const deposit = data.termDeposits.find((d) => d.id === id);
+      if (!deposit) {
+        throw new RepositoryError("Term deposit not found", "22023");
+      }
+      if (deposit.status !== "active") {
+        throw new RepositoryError("This term deposit has already been closed", "P0001");
+      }
+
+      // Due already: pay out in full rather than charge a penalty
+      const early = deposit.maturesOn > today();
+      if (early && deposit.earlyWithdrawal === "disallowed") {
+        throw new RepositoryError(
+          `This term deposit cannot be withdrawn before ${dayjs(deposit.maturesOn).format("MMM D, YYYY")}`,
+          "P0001"
+        );
+      }
+      closeTermDeposit(data, deposit, early);
+      save(data);
+      return deposit;
+    },
+
+    // Open requests and those resolved lately, newest first, after applying
+    // anything that matured
+    async listUnlockRequests() {
+      const data = load();
+      if (catchUp(data)) save(data);
+
+      const recent = dayjs().subtract(RECENT_DAYS, "day").toISOString();
+      return data.unlockRequests
+        .filter((r) => isOpen(r) || (r.resolvedAt !== null && r.resolvedAt >= recent))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async cancelUnlockRequest(id: string) {
+      const data = load();
+      const request = data.unlockRequests.find((r) => r.id === id && isOpen(r));
+      if (!request) {
+        throw new RepositoryError("Only open requests can be cancelled", "P0001");
+      }
+      request.status = "cancelled";
+      request.resolvedAt = new Date().toISOString();
+      save(data);
+    },
+
+    // Same as decide_unlock_request() in SQL. Approving less releases only
+    // that amount; an approved request that has already matured applies now.
+    async decideUnlockRequest(id: string, decision: UnlockDecision) {
+      const guardianId = currentUserId();
+      const childId = loadFamily()
+        .links.filter((link) => link.guardianId === guardianId)
+        .map((link) => link.childId)
+        .find((child) => loadFor(child).unlockRequests.some((r) => r.id === id));
+      if (!childId) {
+        throw new RepositoryError("Request not found", "22023");
+      }
+      const data = loadFor(childId);
+      const request = data.unlockRequests.find((r) => r.id === id)!;
+      if (request.status !== "awaiting_approval") {
+        throw new RepositoryError("This request has already been decided", "P0001");
+      }
+
+      const now = new Date().toISOString();
+      request.guardianComment = decision.comment?.trim() || null;
+      request.decidedAt = now;
+      if (!decision.approve) {
+        request.status = "rejected";
+        request.resolvedAt = now;
+        notifyRequest(data, request);
+        saveFor(childId, data);
+        return request;
+      }
+
+      const amount = decision.amount ?? request.amount;
+      if (!(amount > 0) || amount > request.amount) {
+        throw new RepositoryError(`Approve an amount between 0.01 and ${request.amount.toFixed(2)}`, "22023");
+      }
+      request.status = "pending";
+      request.amount = amount;
+      notifyRequest(data, request);
+
+      if (request.maturesAt <= now) {
+        applyUnlock(data, request);
+        request.status = "applied";
+        request.resolvedAt = now;
+      }
+      saveFor(childId, data);
+      return request;
+    },
+
+    async getUnlockGuardrails() {
+      return guardrailStatus(load());
+    },
+
+    async saveUnlockGuardrails(guardrails: UnlockGuardrails) {
+      if (guardrails.blockedReasons.some((reason) => guardrails.alwaysAllowedReasons.includes(reason))) {
+        throw new RepositoryError("A reason cannot be both blocked and always allowed", "22023");
+      }
+      const data = load();
+      if (JSON.stringify(guardrails) !== JSON.stringify(data.guardrails)) {
+        notify(data, "settings_changed", { unlock_limits: true });
+      }
+      data.guardrails = guardrails;
+      save(data);
+      return guardrailStatus(data);
+    },
+
+    // Guardians may read a linked child's terms; anyone else's read as none
+    async getInterestSettings(userId?: string) {
+      const me = currentUserId();
+      const target = userId ?? me;
+      const terms = target === me || isGuardianOf(me, target) ? loadFor(target).interest : null;
+      const link = loadFamily().links.find((l) => l.guardianId === terms?.paidBy && l.childId === target);
+
+      const settings: InterestSettings = {
+        annualRate: terms?.annualRate ?? 0,
+        compounding: terms?.compounding ?? "monthly",
+        paidByEmail: link?.guardianEmail ?? null,
+        guardianPaid: Boolean(terms?.paidBy),
+      };
+      return settings;
+    },
+
+    // Same checks as set_interest_settings() in SQL
+    async saveInterestSettings(input: InterestSettingsInput) {
+      const me = currentUserId();
+      const userId = input.userId || me;
+      const isGuardian = isGuardianOf(me, userId);
+      if (userId !== me && !isGuardian) {
+        throw new RepositoryError("You can only set interest for yourself or a linked child", "42501");
+      }
+      const annualRate = cents(input.annualRate);
+      if (!Number.isFinite(annualRate) || annualRate < 0 || annualRate > MAX_ANNUAL_RATE) {
+        throw new RepositoryError(`The annual rate must be between 0 and ${MAX_ANNUAL_RATE}`, "22023");
+      }
+      if (!COMPOUNDINGS.some((c) => c.id === input.compounding)) {
+        throw new RepositoryError("Compounding must be daily, weekly or monthly", "22023");
+      }
+      if (input.guardianPaid && !isGuardian) {
+        throw new RepositoryError("Only a guardian can pay interest", "22023");
+      }
+      if (!input.guardianPaid && annualRate > MAX_SELF_SET_RATE) {
+        throw new RepositoryError(`Unless a guardian pays it, the annual rate can be at most ${MAX_SELF_SET_RATE}%`, "22023");
+      }
+
+      const data = loadFor(userId);
+      const current = data.interest;
+      if (current?.paidBy && !isGuardian) {
+        throw new RepositoryError("Your guardian sets the interest on your savings", "P0001");
+      }
+
+      // A new rate or compounding starts a fresh period, so the old terms are
+      // never applied retroactively at the new rate
+      const unchanged = current?.annualRate === annualRate && current.compounding === input.compounding;
+      data.interest = {
+        annualRate,
+        compounding: input.compounding,
+        paidBy: input.guardianPaid ? me : null,
+        lastPostedOn: unchanged ? current.lastPostedOn : today(),
+        startedOn: unchanged ? current.startedOn : today(),
+      };
+      saveFor(userId, data);
+    },
+
+    async getFamily() {
+      const me = currentUserId();
+      const { links, invites } = loadFamily();
+      const byAge = (a: { createdAt: string }, b: { createdAt: string }) => a.createdAt.localeCompare(b.createdAt);
+
+      const children: ChildSummary[] = links
+        .filter((link) => link.guardianId === me)
+        .sort(byAge)
+        .map((link) => {
+          const data = loadFor(link.childId);
+          if (catchUp(data)) saveFor(link.childId, data);
+          return {
+            id: link.childId,
+            email: link.childEmail,
+            ...balancesOf(data.transactions),
+            requests: data.unlockRequests.filter((r) => r.status === "awaiting_approval").sort(byAge),
+          };
+        });
+
+      const now = new Date().toISOString();
+      const family: FamilyOverview = {
+        guardians: links.filter((link) => link.childId === me).sort(byAge),
+        children,
+        invites: invites
+          .filter((invite) => invite.guardianId === me && invite.redeemedAt === null && invite.expiresAt > now)
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .map((invite) => ({ code: invite.code, expiresAt: invite.expiresAt })),
+      };
+      return family;
+    },
+
+    async createInvite() {
+      const guardianId = currentUserId();
+      const family = loadFamily();
+
+      let code = "";
+      while (!code || family.invites.some((invite) => invite.code === code)) {
+        code = Array.from({ length: 8 }, () => INVITE_ALPHABET[Math.floor(Math.random() * INVITE_ALPHABET.length)]).join("");
+      }
+      const createdAt = dayjs();
+      family.invites.push({
+        code,
+        guardianId,
+        expiresAt: createdAt.add(INVITE_DAYS, "day").toISOString(),
+        redeemedBy: null,
+        redeemedAt: null,
+        createdAt: createdAt.toISOString(),
+      });
+      saveFamily(family);
+      return code;
+    },
+
+    // Same checks as link_guardian() in SQL
+    async redeemInvite(code: string) {
+      const childId = currentUserId();
+      const family = loadFamily();
+      const now = new Date().toISOString();
+
+      const invite = family.invites.find((i) => i.code === code.trim().toUpperCase());
+      if (!invite || invite.redeemedAt !== null || invite.expiresAt < now) {
+        throw new RepositoryError("This invite code is invalid or has expired", "P0001");
+      }
+      if (invite.guardianId === childId) {
+        throw new RepositoryError("You cannot be your own guardian", "P0001");
+      }
+      if (family.links.some((link) => link.guardianId === childId && link.childId === invite.guardianId)) {
+        throw new RepositoryError("Your guardian is already linked as your child", "P0001");
+      }
+
+      if (!isGuardianOf(invite.guardianId, childId)) {
+        family.links.push({
+          guardianId: invite.guardianId,
+          childId,
+          guardianEmail: emailOf(invite.guardianId),
+          childEmail: emailOf(childId),
+          createdAt: now,
+        });
+      }
+      invite.redeemedBy = childId;
+      invite.redeemedAt = now;
+      saveFamily(family);
+    },
+
+    // Children cannot drop their guardian to dodge approval. Ending a link
+    // also ends the interest that guardian paid for, as
+    // remove_guardian_link() does.
+    async unlinkChild(childId: string) {
+      const guardianId = currentUserId();
+      const family = loadFamily();
+      const link = family.links.find((l) => l.guardianId === guardianId && l.childId === childId);
+      if (!link) {
+        throw new RepositoryError("Only a guardian can remove a link", "P0001");
+      }
+      saveFamily({ ...family, links: family.links.filter((l) => l !== link) });
+
+      const data = loadFor(childId);
+      if (data.interest?.paidBy === guardianId) {
+        data.interest = { ...data.interest, annualRate: 0, paidBy: null, lastPostedOn: today(), startedOn: today() };
+        saveFor(childId, data);
+      }
+    },
+
+    async listNotifications() {
+      const { notifications } = load();
+      const feed: NotificationFeed = {
+        notifications: notifications.slice(0, NOTIFICATION_FEED_LIMIT),
+        unreadCount: notifications.filter((n) => !n.read).length,
+      };
+      return feed;
+    },
+
+    async markNotificationsRead(ids?: string[]) {
+      const data = load();
+      data.notifications = data.notifications.map((n) => (!ids || ids.includes(n.id) ? { ...n, read: true } : n));
+      save(data);
+    },
+
+    subscribeNotifications(onNotification: (notification: Notification) => void) {
+      const user = currentLocalUser();
+      if (!user) return () => {};
+      const seen = new Set(loadFor(user.id).notifications.map((n) => n.id));
+
+      // Saves from this page arrive as changes; saves from other tabs, such as
+      // a guardian deciding a request, as storage events
+      const check = () => {
+        const fresh = loadFor(user.id).notifications.filter((n) => !seen.has(n.id));
+        fresh.forEach((n) => seen.add(n.id));
+        fresh.reverse().forEach(onNotification);
+      };
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === dataKey(user.id)) check();
+      };
+      changeListeners.add(check);
+      if (typeof window !== "undefined") window.addEventListener("storage", handleStorage);
+
+      return () => {
+        changeListeners.delete(check);
+        if (typeof window !== "undefined") window.removeEventListener("storage", handleStorage);
+      };
+    },
+
+    async getNotificationPreferences() {
+      return resolvePreferences(load().notificationPreferences);
+    },
+
+    async saveNotificationPreferences(preferences: Record<NotificationKind, boolean>) {
+      const data = load();
+      data.notificationPreferences = preferences;
+      save(data);
+      return resolvePreferences(preferences);
+    },
+
+    async getProfile() {
+      return load().profile;
+    },
+
+    saveProfile,
+
+    // Kept in the profile as a data URL, as there is no file storage here
+    async uploadAvatar(file: File) {
+      const avatarUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+      return saveProfile({ avatarUrl });
+    },
+
+    async removeAvatar() {
+      return saveProfile({ avatarUrl: null });
+    },
+
+    async exportAccount() {
+      const body = JSON.stringify(load(), null, 2);
+      saveFile(new Blob([body], { type: "application/json" }), `pocketgrowth-account-${dayjs().format("YYYY-MM-DD")}.json`);
+    },
+
+    async deleteAccount(confirmEmail: string) {
+      const user = currentLocalUser();
+      if (!user) {
+        throw new RepositoryError("Not authenticated", "42501");
+      }
+      if (confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+        throw new RepositoryError("Type your email address to confirm deleting your account", "22023");
+      }
+
+      // Links and invites go with the account; interest it paid for a child
+      // is left unpaid, as the paid_by foreign key does
+      const family = loadFamily();
+      for (const link of family.links.filter((l) => l.guardianId === user.id)) {
+        const data = loadFor(link.childId);
+        if (data.interest?.paidBy === user.id) {
+          data.interest.paidBy = null;
+          saveFor(link.childId, data);
+        }
+      }
+      saveFamily({
+        links: family.links.filter((l) => l.guardianId !== user.id && l.childId !== user.id),
+        invites: family.invites.filter((i) => i.guardianId !== user.id),
+      });
+
+      memory.delete(user.id);
+      storage?.removeItem(dataKey(user.id));
+      saveLocalAccounts(loadLocalAccounts(storage).filter((a) => a.id !== user.id), storage);
+    },
+
+    async listReconciliations() {
+      return load().reconciliations;
+    },
+
+    // Balances are always computed from the ledger here, so a check can only
+    // find them in balance
+    async checkLedger() {
+      const data = load();
+      const check = reconciliationOf(data, "manual");
+      data.reconciliations.unshift(check);
+      save(data);
+      return check;
+    },
+
+    async repairLedger() {
+      const data = load();
+      const check = reconciliationOf(data, "repair");
+      data.reconciliations.unshift(check);
+      save(data);
+      return check;
+    },
+  };
+}
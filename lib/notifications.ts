@@ -0,0 +1,142 @@
+import { BADGES } from "@/lib/achievements";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+
+export type NotificationKind =
+  | "allowance_posted"
+  | "unlock_applied"
+  | "spend_recorded"
+  | "interest_posted"
+  | "reversal"
+  | "unlock_request"
+  | "goal_reached"
+  | "badge_earned"
+  | "settings_changed";
+
+export const NOTIFICATION_KINDS: { id: NotificationKind; label: string; description: string }[] = [
+  { id: "allowance_posted", label: "Allowance deposits", description: "Money added, including scheduled payouts" },
+  { id: "unlock_applied", label: "Unlocks", description: "Locked savings moved to available" },
+  { id: "spend_recorded", label: "Spending", description: "Purchases recorded against available money" },
+  { id: "interest_posted", label: "Interest", description: "Interest paid on locked savings" },
+  { id: "reversal", label: "Reversals", description: "Ledger entries undone" },
+  { id: "unlock_request", label: "Unlock requests", description: "Approved, rejected or failed requests" },
+  { id: "goal_reached", label: "Goals reached", description: "A savings goal is fully funded" },
+  { id: "badge_earned", label: "Badges", description: "New achievement badges" },
+  { id: "settings_changed", label: "Settings changes", description: "Savings percent, cooling-off or unlock limits changed" },
+];
+
+// Kind → enabled; kinds left out are enabled
+export type NotificationPreferences = Partial<Record<NotificationKind, boolean>>;
+
+export interface Notification {
+  id: string;
+  kind: NotificationKind;
+  data: Record<string, unknown>;
+  transactionId: string | null;
+  createdAt: string;
+  read: boolean;
+}
+
+export interface NotificationFeed {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export interface NotificationRow {
+  id: string;
+  kind: NotificationKind;
+  data: Record<string, unknown> | null;
+  transaction_id: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export const NOTIFICATION_COLUMNS = "id, kind, data, transaction_id, created_at, read_at";
+
+export function isNotificationKind(value: unknown): value is NotificationKind {
+  return typeof value === "string" && NOTIFICATION_KINDS.some((kind) => kind.id === value);
+}
+
+// Every kind with whether it notifies
+export function resolvePreferences(stored: NotificationPreferences | null): Record<NotificationKind, boolean> {
+  return Object.fromEntries(NOTIFICATION_KINDS.map((kind) => [kind.id, stored?.[kind.id] ?? true])) as Record<
+    NotificationKind,
+    boolean
+  >;
+}
+
+export function toNotification(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    kind: row.kind,
+    data: row.data ?? {},
+    transactionId: row.transaction_id,
+    createdAt: row.created_at,
+    read: row.read_at !== null,
+  };
+}
+
+const money = (value: unknown) => `$${Math.abs(Number(value ?? 0)).toFixed(2)}`;
+
+// Notifications store facts, not text, so wording can change without
+// rewriting stored rows.
+export function describeNotification(notification: Notification): { icon: string; text: string } {
+  const { data } = notification;
+
+  switch (notification.kind) {
+    case "allowance_posted": {
+      const source = data.source ? ` from ${data.source}` : "";
+      const saved = Number(data.saved_amount ?? 0) > 0 ? `, ${money(data.saved_amount)} locked away` : "";
+      return {
+        icon: "💵",
+        text: `${data.scheduled ? "Scheduled allowance" : "Allowance"} of ${money(data.amount)}${source} added${saved}`,
+      };
+    }
+    case "unlock_applied": {
+      const reason = UNLOCK_REASONS.find((r) => r.id === data.reason)?.label;
+      return { icon: "🔓", text: `${money(data.amount)} unlocked${reason ? ` for ${reason.toLowerCase()}` : ""}` };
+    }
+    case "spend_recorded":
+      return { icon: "🛒", text: `Spent ${money(data.amount)}${data.merchant ? ` at ${data.merchant}` : ""}` };
+    case "interest_posted":
+      return {
+        icon: "📈",
+        text: `${money(data.amount)} interest ${data.guardian_paid ? "paid by your guardian" : "earned"}`,
+      };
+    case "reversal":
+      return { icon: "↩️", text: `A ${String(data.type ?? "ledger")} entry of ${money(data.amount)} was reversed` };
+    case "unlock_request": {
+      const requested = data.requested_amount ?? data.amount;
+      if (data.status === "approved") {
+        const partly = Number(data.amount) < Number(requested) ? ` (${money(data.amount)} of ${money(requested)})` : "";
+        return { icon: "✅", text: `Your unlock request was approved${partly}` };
+      }
+      if (data.status === "rejected") {
+        return {
+          icon: "🚫",
+          text: `Your unlock request for ${money(requested)} was rejected${data.comment ? `: ${data.comment}` : ""}`,
+        };
+      }
+      return {
+        icon: "⚠️",
+        text: `Your unlock request for ${money(data.amount)} could not be applied${data.failure_reason ? `: ${data.failure_reason}` : ""}`,
+      };
+    }
+    case "goal_reached":
+      return { icon: String(data.icon ?? "🎯"), text: `Goal "${data.name}" reached ${money(data.target_amount)}` };
+    case "badge_earned": {
+      const badge = BADGES.find((b) => b.id === data.badge_id);
+      return { icon: badge?.icon ?? "🏅", text: `New badge earned: ${badge?.label ?? String(data.badge_id)}` };
+    }
+    case "settings_changed": {
+      const changes: string[] = [];
+      if (Array.isArray(data.savings_percent)) {
+        changes.push(`savings percent ${data.savings_percent[0] ?? 0}% → ${data.savings_percent[1]}%`);
+      }
+      if (Array.isArray(data.cooling_off_hours)) {
+        changes.push(`cooling-off ${data.cooling_off_hours[0] ?? 0}h → ${data.cooling_off_hours[1]}h`);
+      }
+      if (data.unlock_limits) changes.push("unlock limits");
+      return { icon: "⚙️", text: `Settings changed: ${changes.join(", ")}` };
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { Balances } from "@/lib/ledger";
+
+export interface CachedBalances extends Balances {
+  savedAt: string;
+}
+
+// Per user, so a shared device never shows one account's balances to another
+const cacheKey = (userId: string) => `pocketgrowth:balances:${userId}`;
+
+export function saveBalances(userId: string, balances: Balances) {
+  try {
+    const cached: CachedBalances = { ...balances, savedAt: new Date().toISOString() };
+    localStorage.setItem(cacheKey(userId), JSON.stringify(cached));
+  } catch (err) {
+    console.error("Error caching balances:", err);
+  }
+}
+
+// The balances from the last successful load, if any
+export function loadBalances(userId: string): CachedBalances | null {
+  try {
+    const raw = localStorage.getItem(cacheKey(userId));
+    return raw ? (JSON.parse(raw) as CachedBalances) : null;
+  } catch {
+    return null;
+  }
+}
+
+// The service worker's copies of pages are rendered on the server for the
+// signed-in user, so they are dropped on sign-out rather than shown to
+// whoever signs in next on the same device
+export async function clearCachedPages() {
+  if (typeof caches === "undefined") return;
+  try {
+    const keys = await caches.keys();
+    await Promise.all(keys.map((key) => caches.delete(key)));
+  } catch (err) {
+    console.error("Error clearing cached pages:", err);
+  }
+}
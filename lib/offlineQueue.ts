@@ -0,0 +1,147 @@
+import { repository } from "@/lib/repository";
+import type { AllowanceInput, UnlockInput } from "@/lib/repository";
+
+export type QueuedKind = "allowance" | "unlock";
+
+export type QueuedInput = AllowanceInput | UnlockInput;
+
+export interface QueuedEntry {
+  // Assigned by IndexedDB in insertion order; replay follows it
+  seq?: number;
+  userId: string;
+  // Sent with the entry so the server records it once however often it is replayed
+  clientId: string;
+  kind: QueuedKind;
+  body: QueuedInput;
+  queuedAt: string;
+  // The server's reason for rejecting the entry. Replay stops here until the
+  // user retries, edits or discards it.
+  conflict: string | null;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflict: QueuedEntry | null;
+  // The connection dropped again before the queue was empty
+  offline: boolean;
+}
+
+// Dispatched on window whenever the queue changes
+export const QUEUE_CHANGED_EVENT = "offline-queue-changed";
+
+function send(kind: QueuedKind, body: QueuedInput, clientId: string): Promise<unknown> {
+  return kind === "allowance"
+    ? repository.recordAllowance({ ...(body as AllowanceInput), clientId })
+    : repository.recordUnlock({ ...(body as UnlockInput), clientId });
+}
+
+const DB_NAME = "pocketgrowth-offline";
+const STORE = "queue";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "seq", autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyChanged = () => window.dispatchEvent(new Event(QUEUE_CHANGED_EVENT));
+
+// fetch rejects with a TypeError when the request never reached the server;
+// anything else is an answer from the backend.
+export function isNetworkError(err: unknown): boolean {
+  return err instanceof TypeError;
+}
+
+export async function listQueue(userId: string): Promise<QueuedEntry[]> {
+  const entries = await withStore<QueuedEntry[]>("readonly", (store) => store.getAll());
+  return entries.filter((entry) => entry.userId === userId);
+}
+
+export async function enqueue(userId: string, kind: QueuedKind, body: QueuedInput, clientId: string): Promise<void> {
+  const entry: QueuedEntry = { userId, clientId, kind, body, queuedAt: new Date().toISOString(), conflict: null };
+  await withStore("readwrite", (store) => store.add(entry));
+  notifyChanged();
+}
+
+export async function updateQueued(entry: QueuedEntry): Promise<void> {
+  await withStore("readwrite", (store) => store.put(entry));
+  notifyChanged();
+}
+
+export async function discardQueued(seq: number): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(seq));
+  notifyChanged();
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+async function replay(userId: string): Promise<ReplayResult> {
+  let synced = 0;
+
+  for (const entry of await listQueue(userId)) {
+    if (entry.conflict) return { synced, conflict: entry, offline: false };
+
+    try {
+      await send(entry.kind, entry.body, entry.clientId);
+    } catch (err) {
+      if (isNetworkError(err)) return { synced, conflict: null, offline: true };
+
+      const conflict = { ...entry, conflict: err instanceof Error ? err.message : "The server rejected this entry" };
+      await updateQueued(conflict);
+      return { synced, conflict, offline: false };
+    }
+
+    await discardQueued(entry.seq!);
+    synced++;
+  }
+
+  return { synced, conflict: null, offline: false };
+}
+
+// Sends queued entries oldest first, stopping at the first the server
+// rejects. Concurrent calls share one run.
+export function replayQueue(userId: string): Promise<ReplayResult> {
+  if (!replaying) {
+    replaying = replay(userId).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+// Sends an entry now, or queues it when offline. Entries also queue while
+// older ones are waiting, so they reach the server in the order they were
+// made. Resolves to null when the entry was queued.
+export async function submitOrQueue<T>(userId: string, kind: QueuedKind, body: QueuedInput): Promise<T | null> {
+  const clientId = crypto.randomUUID();
+
+  if (navigator.onLine && (await listQueue(userId)).length === 0) {
+    try {
+      return (await send(kind, body, clientId)) as T;
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+
+  await enqueue(userId, kind, body, clientId);
+  if (navigator.onLine) replayQueue(userId);
+  return null;
+}
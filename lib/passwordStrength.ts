@@ -0,0 +1,64 @@
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Rejected outright however many character classes they mix
+const COMMON_PASSWORDS = [
+  "password",
+  "password1",
+  "password123",
+  "12345678",
+  "123456789",
+  "qwerty123",
+  "iloveyou",
+  "letmein1",
+  "welcome1",
+  "allowance",
+  "pocketgrowth",
+];
+
+export type StrengthLabel = "Too weak" | "Weak" | "Fair" | "Strong";
+
+export interface PasswordStrength {
+  // 0–4
+  score: number;
+  label: StrengthLabel;
+  // What stops the password from being accepted; empty when it is
+  problems: string[];
+  // Suggestions that would make an accepted password stronger
+  hints: string[];
+  acceptable: boolean;
+}
+
+export function checkPasswordStrength(password: string, email = ""): PasswordStrength {
+  const problems: string[] = [];
+  const hints: string[] = [];
+  const lower = password.toLowerCase();
+  const emailName = email.split("@")[0].toLowerCase();
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    problems.push(`Use at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (COMMON_PASSWORDS.includes(lower)) {
+    problems.push("This password is too common");
+  }
+  if (emailName.length >= 3 && lower.includes(emailName)) {
+    problems.push("Don't include your email address");
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) => pattern.test(password)).length;
+  if (classes < 2) {
+    problems.push("Mix letters with numbers or symbols");
+  } else if (classes < 4) {
+    hints.push("Add upper and lower case letters, numbers and symbols");
+  }
+  if (password.length < 12) {
+    hints.push("Longer passwords are harder to guess");
+  }
+
+  let score = 0;
+  if (problems.length === 0) {
+    score = 1 + (classes >= 3 ? 1 : 0) + (password.length >= 12 ? 1 : 0) + (classes === 4 && password.length >= 14 ? 1 : 0);
+  }
+  const label: StrengthLabel = score === 0 ? "Too weak" : score === 1 ? "Weak" : score === 2 ? "Fair" : "Strong";
+
+  return { score, label, problems, hints, acceptable: problems.length === 0 };
+}
@@ -0,0 +1,75 @@
+export interface Profile {
+  displayName: string | null;
+  avatarUrl: string | null;
+  currency: string;
+  locale: string;
+}
+
+export interface ProfileRow {
+  display_name: string | null;
+  avatar_url: string | null;
+  currency: string | null;
+  locale: string | null;
+}
+
+export const PROFILE_COLUMNS = "display_name, avatar_url, currency, locale";
+
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+
+export const CURRENCIES = [
+  { code: "USD", label: "US dollar" },
+  { code: "EUR", label: "Euro" },
+  { code: "GBP", label: "British pound" },
+  { code: "CAD", label: "Canadian dollar" },
+  { code: "AUD", label: "Australian dollar" },
+  { code: "NZD", label: "New Zealand dollar" },
+  { code: "INR", label: "Indian rupee" },
+  { code: "JPY", label: "Japanese yen" },
+  { code: "ZAR", label: "South African rand" },
+] as const;
+
+export const LOCALES = [
+  { code: "en-US", label: "English (United States)" },
+  { code: "en-GB", label: "English (United Kingdom)" },
+  { code: "en-AU", label: "English (Australia)" },
+  { code: "en-IN", label: "English (India)" },
+  { code: "fr-FR", label: "Français (France)" },
+  { code: "de-DE", label: "Deutsch (Deutschland)" },
+  { code: "es-ES", label: "Español (España)" },
+  { code: "ja-JP", label: "日本語 (日本)" },
+] as const;
+
+// What a user without a profiles row gets
+export const DEFAULT_PROFILE: Profile = {
+  displayName: null,
+  avatarUrl: null,
+  currency: "USD",
+  locale: "en-US",
+};
+
+export function toProfile(row: ProfileRow | null): Profile {
+  if (!row) return DEFAULT_PROFILE;
+  return {
+    displayName: row.display_name,
+    avatarUrl: row.avatar_url,
+    currency: row.currency ?? DEFAULT_PROFILE.currency,
+    locale: row.locale ?? DEFAULT_PROFILE.locale,
+  };
+}
+
+export function isCurrency(value: unknown): value is string {
+  return CURRENCIES.some((currency) => currency.code === value);
+}
+
+export function isLocale(value: unknown): value is string {
+  return LOCALES.some((locale) => locale.code === value);
+}
+
+// The name to greet the user by; the part of their email before the @ until they pick one
+export function displayNameOf(profile: Profile, email: string): string {
+  return profile.displayName || email.split("@")[0];
+}
+
+export function formatMoney(amount: number, profile: Pick<Profile, "currency" | "locale">): string {
+  return new Intl.NumberFormat(profile.locale, { style: "currency", currency: profile.currency }).format(amount);
+}
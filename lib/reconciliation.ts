@@ -0,0 +1,102 @@
+import type { TransactionType } from "@/lib/transactions";
+
+export type ReconciliationSource = "manual" | "scheduled" | "repair";
+
+// Why an entry is listed against a discrepancy: its locked_delta is not what
+// its type should have moved, it is only an estimate, or it was recorded
+// after the last check that found the books in balance.
+export type SuspectCause = "locked_delta_mismatch" | "locked_delta_estimated" | "since_last_check";
+
+export interface LedgerSuspect {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  lockedDelta: number;
+  expectedLockedDelta: number | null;
+  notes: string | null;
+  createdAt: string;
+  cause: SuspectCause;
+}
+
+export interface Reconciliation {
+  id: string;
+  source: ReconciliationSource;
+  checkedAt: string;
+  storedLocked: number;
+  expectedLocked: number;
+  storedAvailable: number;
+  expectedAvailable: number;
+  // Stored minus expected locked savings; 0 when the books balance
+  difference: number;
+  suspects: LedgerSuspect[];
+  // Entries whose locked_delta was estimated; the ledger cannot be repaired
+  // automatically while there are any
+  estimatedEntries: number;
+  // The adjustment entry a repair recorded
+  adjustmentId: string | null;
+}
+
+export interface LedgerSuspectRow {
+  id: string;
+  type: TransactionType;
+  amount: number | string;
+  locked_delta: number | string;
+  expected_locked_delta: number | string | null;
+  notes: string | null;
+  created_at: string;
+  cause: SuspectCause;
+}
+
+export interface ReconciliationRow {
+  id: string;
+  source: ReconciliationSource;
+  checked_at: string;
+  stored_locked: number | string;
+  expected_locked: number | string;
+  stored_available: number | string;
+  expected_available: number | string;
+  difference: number | string;
+  suspects: LedgerSuspectRow[] | null;
+  estimated_entries: number;
+  adjustment_id: string | null;
+}
+
+export const RECONCILIATION_COLUMNS =
+  "id, source, checked_at, stored_locked, expected_locked, stored_available, expected_available, difference, suspects, estimated_entries, adjustment_id";
+
+export const SUSPECT_CAUSES: Record<SuspectCause, string> = {
+  locked_delta_mismatch: "Moved a different amount into or out of savings than its type should",
+  locked_delta_estimated: "Recorded before savings splits were kept, so how much it saved is an estimate",
+  since_last_check: "Recorded since the last check that found the books in balance",
+};
+
+export const RECONCILIATION_SOURCES: Record<ReconciliationSource, string> = {
+  manual: "Checked by you",
+  scheduled: "Nightly check",
+  repair: "Repaired",
+};
+
+export function toReconciliation(row: ReconciliationRow): Reconciliation {
+  return {
+    id: row.id,
+    source: row.source,
+    checkedAt: row.checked_at,
+    storedLocked: Number(row.stored_locked),
+    expectedLocked: Number(row.expected_locked),
+    storedAvailable: Number(row.stored_available),
+    expectedAvailable: Number(row.expected_available),
+    difference: Number(row.difference),
+    suspects: (row.suspects ?? []).map((suspect) => ({
+      id: suspect.id,
+      type: suspect.type,
+      amount: Number(suspect.amount),
+      lockedDelta: Number(suspect.locked_delta),
+      expectedLockedDelta: suspect.expected_locked_delta === null ? null : Number(suspect.expected_locked_delta),
+      notes: suspect.notes,
+      createdAt: suspect.created_at,
+      cause: suspect.cause,
+    })),
+    estimatedEntries: row.estimated_entries,
+    adjustmentId: row.adjustment_id,
+  };
+}
@@ -0,0 +1,230 @@
+import type { Achievements } from "@/lib/achievements";
+import type { FamilyOverview } from "@/lib/family";
+import type { Goal } from "@/lib/goals";
+import type { IncomeBreakdown, IncomeSource } from "@/lib/incomeSources";
+import type { Compounding, InterestSettings } from "@/lib/interest";
+import type { Jar } from "@/lib/jars";
+import type { AllowanceResult, Balances } from "@/lib/ledger";
+import type { ImportCandidate, ImportPreviewRow } from "@/lib/ledgerImport";
+import type { Notification, NotificationFeed, NotificationKind } from "@/lib/notifications";
+import type { Profile } from "@/lib/profile";
+import type { Reconciliation } from "@/lib/reconciliation";
+import type { SavingsRule } from "@/lib/savingsRules";
+import type { ChartInterval, SavingsSeries } from "@/lib/savingsSeries";
+import type { AllowanceSchedule, Cadence } from "@/lib/schedules";
+import type { SavingsPercentChange, UserSettings } from "@/lib/settings";
+import type { SpendCategory } from "@/lib/spending";
+import type { EarlyWithdrawal, TermDeposit, TermDepositSource } from "@/lib/termDeposits";
+import type { TransactionFilters, TransactionPage } from "@/lib/transactions";
+import type { GuardrailStatus, UnlockGuardrails } from "@/lib/unlockGuardrails";
+import type { UnlockInsights } from "@/lib/unlockInsights";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+import { createLocalRepository } from "@/lib/localRepository";
+import { isLocalBackend } from "@/lib/session";
+import { createSupabaseRepository } from "@/lib/supabaseRepository";
+
+export interface AllowanceInput {
+  amount: number;
+  sourceId?: string | null;
+  // Set by the offline queue so a replayed entry is recorded once
+  clientId?: string;
+}
+
+export interface UnlockInput {
+  amount: number;
+  reason: string;
+  notes?: string;
+  goalId?: string;
+  clientId?: string;
+}
+
+export interface UnlockResult extends Balances {
+  // With a cooling-off period the unlock is filed as a pending request
+  request: UnlockRequest | null;
+  duplicate: boolean;
+}
+
+export interface SpendInput {
+  amount: number;
+  categoryId?: string;
+  merchant?: string;
+  notes?: string;
+}
+
+export interface GoalInput {
+  name: string;
+  targetAmount: number;
+  deadline: string | null;
+  icon: string;
+  allocationPercent: number;
+}
+
+export interface ScheduleInput {
+  amount: number;
+  cadence: Cadence;
+  // Only for the "custom" cadence
+  intervalDays?: number;
+  startDate: string;
+  endDate: string | null;
+  sourceLabel?: string;
+  incomeSourceId: string | null;
+}
+
+export interface JarTransferInput {
+  fromJarId: string;
+  toJarId: string;
+  amount: number;
+  notes?: string;
+}
+
+export interface TermDepositInput {
+  amount: number;
+  source: TermDepositSource;
+  maturesOn: string;
+  earlyWithdrawal: EarlyWithdrawal;
+  penaltyPercent: number;
+}
+
+export interface UnlockDecision {
+  approve: boolean;
+  // Approve less than was asked for; the full request when left out
+  amount?: number;
+  comment?: string;
+}
+
+export interface InterestSettingsInput {
+  // A linked child's id when a guardian sets their terms
+  userId: string;
+  annualRate: number;
+  compounding: Compounding;
+  guardianPaid: boolean;
+}
+
+export interface SeriesQuery {
+  interval: ChartInterval;
+  from: string;
+  to: string;
+  // Also return the same number of buckets before `from`
+  compare: boolean;
+  sourceId: string | null;
+}
+
+export type ExportFormat = "csv" | "json";
+
+// The signed-in user's data. Every operation acts on that user.
+export interface Repository {
+  getBalances(): Promise<Balances>;
+  recordAllowance(input: AllowanceInput): Promise<AllowanceResult>;
+  recordUnlock(input: UnlockInput): Promise<UnlockResult>;
+  recordSpend(input: SpendInput): Promise<Balances>;
+  reverseTransaction(id: string, notes?: string): Promise<Balances>;
+  getSettings(): Promise<UserSettings>;
+  saveSettings(settings: UserSettings): Promise<UserSettings>;
+  // Newest first
+  getSavingsPercentHistory(limit: number): Promise<SavingsPercentChange[]>;
+  // Calls onChange when the settings are saved elsewhere (another tab or
+  // device). Returns a function that stops listening.
+  subscribeSettings(onChange: (settings: UserSettings) => void): () => void;
+  listTransactions(filters: TransactionFilters): Promise<TransactionPage>;
+  // Starts a download of the whole ledger
+  exportTransactions(format: ExportFormat): Promise<void>;
+  // Checks the rows without recording them
+  previewImport(rows: ImportCandidate[]): Promise<ImportPreviewRow[]>;
+  // Records every row or none; returns how many were recorded
+  importTransactions(rows: ImportCandidate[]): Promise<number>;
+
+  getSavingsSeries(query: SeriesQuery): Promise<SavingsSeries>;
+  getIncomeBreakdown(from: string, to: string): Promise<IncomeBreakdown>;
+  getUnlockInsights(months: number): Promise<UnlockInsights>;
+  getAchievements(): Promise<Achievements>;
+  markBadgesSeen(): Promise<void>;
+
+  listIncomeSources(): Promise<IncomeSource[]>;
+  createIncomeSource(name: string): Promise<IncomeSource>;
+  renameIncomeSource(id: string, name: string): Promise<IncomeSource>;
+  deleteIncomeSource(id: string): Promise<void>;
+
+  listCategories(): Promise<SpendCategory[]>;
+  // Categories without an icon get the default one
+  createCategory(name: string, icon?: string): Promise<SpendCategory>;
+
+  listGoals(): Promise<Goal[]>;
+  createGoal(input: GoalInput): Promise<Goal>;
+  deleteGoal(id: string): Promise<void>;
+
+  listSchedules(): Promise<AllowanceSchedule[]>;
+  createSchedule(input: ScheduleInput): Promise<AllowanceSchedule>;
+  deleteSchedule(id: string): Promise<void>;
+
+  listSavingsRules(): Promise<SavingsRule[]>;
+  // Replaces every rule; returns them as stored
+  saveSavingsRules(rules: SavingsRule[]): Promise<SavingsRule[]>;
+
+  listJars(): Promise<Jar[]>;
+  // Replaces the jar setup; an empty list turns jars off
+  saveJars(jars: Jar[]): Promise<Jar[]>;
+  transferBetweenJars(input: JarTransferInput): Promise<Balances>;
+
+  // Returns any deposit that has matured to locked savings first
+  listTermDeposits(): Promise<TermDeposit[]>;
+  openTermDeposit(input: TermDepositInput): Promise<TermDeposit>;
+  withdrawTermDeposit(id: string): Promise<TermDeposit>;
+
+  // Applies any request that has matured first
+  listUnlockRequests(): Promise<UnlockRequest[]>;
+  cancelUnlockRequest(id: string): Promise<void>;
+  // For guardians, on a linked child's request
+  decideUnlockRequest(id: string, decision: UnlockDecision): Promise<UnlockRequest>;
+  getUnlockGuardrails(): Promise<GuardrailStatus>;
+  saveUnlockGuardrails(guardrails: UnlockGuardrails): Promise<GuardrailStatus>;
+
+  // A linked child's terms when `userId` is given
+  getInterestSettings(userId?: string): Promise<InterestSettings>;
+  saveInterestSettings(input: InterestSettingsInput): Promise<void>;
+
+  getFamily(): Promise<FamilyOverview>;
+  // Returns the code to give to the child
+  createInvite(): Promise<string>;
+  redeemInvite(code: string): Promise<void>;
+  unlinkChild(childId: string): Promise<void>;
+
+  listNotifications(): Promise<NotificationFeed>;
+  // Every notification when `ids` is left out
+  markNotificationsRead(ids?: string[]): Promise<void>;
+  // Calls onNotification for each new notification. Returns a function that
+  // stops listening.
+  subscribeNotifications(onNotification: (notification: Notification) => void): () => void;
+  getNotificationPreferences(): Promise<Record<NotificationKind, boolean>>;
+  saveNotificationPreferences(
+    preferences: Record<NotificationKind, boolean>
+  ): Promise<Record<NotificationKind, boolean>>;
+
+  getProfile(): Promise<Profile>;
+  saveProfile(changes: Partial<Profile>): Promise<Profile>;
+  // Replaces the profile photo; returns the profile pointing at it
+  uploadAvatar(file: File): Promise<Profile>;
+  removeAvatar(): Promise<Profile>;
+  // Starts a download of everything stored about the user
+  exportAccount(): Promise<void>;
+  // `confirmEmail` must match the signed-in user's email
+  deleteAccount(confirmEmail: string): Promise<void>;
+
+  // Newest first
+  listReconciliations(): Promise<Reconciliation[]>;
+  checkLedger(): Promise<Reconciliation>;
+  repairLedger(): Promise<Reconciliation>;
+}
+
+// A failed repository operation. `code` carries the Postgres error code when
+// the Supabase backend has one.
+export class RepositoryError extends Error {
+  code: string | null;
+
+  constructor(message: string, code: string | null = null) {
+    super(message);
+    this.name = "RepositoryError";
+    this.code = code;
+  }
+}
+
+export const repository: Repository = isLocalBackend ? createLocalRepository() : createSupabaseRepository();
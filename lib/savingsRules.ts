@@ -0,0 +1,158 @@
+export type SavingsRuleKind = "source_percent" | "tiered" | "windfall" | "minimum" | "round_up";
+
+export const RULE_KINDS: { id: SavingsRuleKind; label: string; description: string }[] = [
+  { id: "source_percent", label: "Percent of a source", description: "Save a percent of deposits from one income source" },
+  { id: "tiered", label: "Tiered percent", description: "Save different percents of each slice of a deposit" },
+  { id: "windfall", label: "Windfall", description: "Save a larger percent of deposits over an amount" },
+  { id: "minimum", label: "Minimum amount", description: "Always save at least a fixed amount" },
+  { id: "round_up", label: "Round up", description: "Round the saved amount up to the next whole dollar" },
+];
+
+// The first matching percent rule sets how much of a deposit is saved;
+// adjustment rules then top that up. Deposits no percent rule matches use the
+// savings percentage from settings.
+export const PERCENT_KINDS: SavingsRuleKind[] = ["source_percent", "tiered", "windfall"];
+
+export const MAX_RULES = 20;
+
+export interface SavingsTier {
+  // Upper bound of the slice, measured from $0; null for "the rest"
+  upTo: number | null;
+  percent: number;
+}
+
+export interface SavingsRule {
+  id?: string;
+  kind: SavingsRuleKind;
+  sourceId: string | null;
+  // Name of the income source, for labels; ignored when saving
+  sourceName: string | null;
+  percent: number | null;
+  threshold: number | null;
+  amount: number | null;
+  tiers: SavingsTier[];
+}
+
+export interface SavingsRuleRow {
+  id: string;
+  kind: SavingsRuleKind;
+  source_id: string | null;
+  income_sources: { name: string } | null;
+  percent: number | string | null;
+  threshold: number | string | null;
+  amount: number | string | null;
+  tiers: { up_to: number | null; percent: number }[] | null;
+}
+
+export interface SavingsPart {
+  ruleId: string | null;
+  label: string;
+  amount: number;
+}
+
+export interface SavingsSplit {
+  savedAmount: number;
+  savingsPercent: number;
+  parts: SavingsPart[];
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// Labels match the ones evaluate_savings_rules() stores with each deposit.
+export function describeRule(rule: SavingsRule): string {
+  switch (rule.kind) {
+    case "source_percent":
+      return `${rule.percent}% of ${(rule.sourceName ?? "an income source").toLowerCase()}`;
+    case "tiered":
+      return rule.tiers
+        .map((tier) => (tier.upTo === null ? `${tier.percent}% of the rest` : `${tier.percent}% up to $${tier.upTo}`))
+        .join(", ");
+    case "windfall":
+      return `${rule.percent}% of deposits over $${rule.threshold}`;
+    case "minimum":
+      return `At least $${rule.amount?.toFixed(2)}`;
+    case "round_up":
+      return "Round up to the next dollar";
+  }
+}
+
+function percentPart(rule: SavingsRule, amount: number, sourceId: string | null): number | null {
+  switch (rule.kind) {
+    case "source_percent":
+      return rule.sourceId === sourceId ? (amount * (rule.percent ?? 0)) / 100 : null;
+    case "windfall":
+      return amount > (rule.threshold ?? 0) ? (amount * (rule.percent ?? 0)) / 100 : null;
+    case "tiered": {
+      let saved = 0;
+      let lower = 0;
+      for (const tier of rule.tiers) {
+        const upper = tier.upTo ?? Infinity;
+        if (amount > lower) saved += ((Math.min(amount, upper) - lower) * tier.percent) / 100;
+        lower = upper;
+      }
+      return saved;
+    }
+    default:
+      return null;
+  }
+}
+
+// Splits a deposit. Mirrors evaluate_savings_rules() in SQL, which decides
+// the amount actually recorded; this copy drives the previews.
+export function evaluateRules(
+  rules: SavingsRule[],
+  amount: number,
+  sourceId: string | null,
+  fallbackPercent: number
+): SavingsSplit {
+  const parts: SavingsPart[] = [];
+  let saved = 0;
+
+  const base = rules.find((rule) => PERCENT_KINDS.includes(rule.kind) && percentPart(rule, amount, sourceId) !== null);
+  if (base) {
+    saved = cents(percentPart(base, amount, sourceId)!);
+    parts.push({ ruleId: base.id ?? null, label: describeRule(base), amount: saved });
+  } else {
+    saved = cents((amount * fallbackPercent) / 100);
+    parts.push({ ruleId: null, label: `${fallbackPercent}% savings percentage`, amount: saved });
+  }
+
+  for (const rule of rules) {
+    let extra = 0;
+    if (rule.kind === "minimum") {
+      extra = Math.max(Math.min(rule.amount ?? 0, amount) - saved, 0);
+    } else if (rule.kind === "round_up") {
+      extra = Math.max(Math.min(Math.ceil(saved), amount) - saved, 0);
+    }
+    extra = cents(extra);
+    if (extra > 0) {
+      saved = cents(saved + extra);
+      parts.push({ ruleId: rule.id ?? null, label: describeRule(rule), amount: extra });
+    }
+  }
+
+  return {
+    savedAmount: saved,
+    savingsPercent: amount > 0 ? cents((saved / amount) * 100) : 0,
+    parts: parts.filter((part) => part.amount > 0 || parts.length === 1),
+  };
+}
+
+// Reads the parts stored in transactions.savings_breakdown.
+export function toSavingsParts(value: unknown): SavingsPart[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((part) => ({ ruleId: part.rule_id ?? null, label: String(part.label), amount: Number(part.amount) }));
+}
+
+export function toSavingsRule(row: SavingsRuleRow): SavingsRule {
+  return {
+    id: row.id,
+    kind: row.kind,
+    sourceId: row.source_id,
+    sourceName: row.income_sources?.name ?? null,
+    percent: row.percent === null ? null : Number(row.percent),
+    threshold: row.threshold === null ? null : Number(row.threshold),
+    amount: row.amount === null ? null : Number(row.amount),
+    tiers: (row.tiers ?? []).map((tier) => ({ upTo: tier.up_to === null ? null : Number(tier.up_to), percent: Number(tier.percent) })),
+  };
+}
@@ -0,0 +1,231 @@
+import dayjs, { Dayjs } from "dayjs";
+import isoWeek from "dayjs/plugin/isoWeek";
+import type { TransactionType } from "@/lib/transactions";
+
+dayjs.extend(isoWeek);
+
+export type ChartInterval = "daily" | "weekly" | "monthly" | "yearly";
+
+export const CHART_INTERVALS: ChartInterval[] = ["daily", "weekly", "monthly", "yearly"];
+
+// More buckets than this make the chart unreadable
+export const MAX_BUCKETS = 400;
+
+export interface UnlockMarker {
+  id: string;
+  amount: number;
+  reason: string | null;
+  notes: string | null;
+  createdAt: string;
+}
+
+// allowance and unlocked are totals for the bucket; locked and available are
+// balances at its end, as are `jars`, keyed by jar id. When the series is
+// limited to one income source only `allowance` changes, since balances
+// include every source.
+export interface SeriesPoint {
+  key: string;
+  label: string;
+  allowance: number;
+  unlocked: number;
+  locked: number;
+  available: number;
+  jars: Record<string, number>;
+  unlocks: UnlockMarker[];
+}
+
+export interface SeriesJar {
+  id: string;
+  name: string;
+  locked: boolean;
+}
+
+export interface SavingsSeries {
+  from: string;
+  to: string;
+  interval: ChartInterval;
+  sourceId: string | null;
+  // Empty without jars
+  jars: SeriesJar[];
+  points: SeriesPoint[];
+  // The same number of buckets immediately before `from`, when requested
+  previous: SeriesPoint[] | null;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: TransactionType;
+  amount: number | string;
+  locked_delta: number | string;
+  reason: string | null;
+  notes: string | null;
+  reverses_id: string | null;
+  income_source_id: string | null;
+  created_at: string;
+}
+
+export interface JarLedgerEntry {
+  jar_id: string;
+  amount: number | string;
+  created_at: string;
+}
+
+function unitOf(interval: ChartInterval) {
+  switch (interval) {
+    case "daily":
+      return "day" as const;
+    case "weekly":
+      return "isoWeek" as const;
+    case "monthly":
+      return "month" as const;
+    case "yearly":
+      return "year" as const;
+  }
+}
+
+function stepOf(interval: ChartInterval) {
+  return interval === "daily" ? "day" : interval === "weekly" ? "week" : interval === "monthly" ? "month" : "year";
+}
+
+// Weeks are keyed by ISO week-numbering year so that week 1 of 2025 and week
+// 1 of 2026 stay apart, and so that Dec 30, 2024 lands in 2025-W01.
+export function bucketKey(date: Dayjs, interval: ChartInterval): string {
+  switch (interval) {
+    case "daily":
+      return date.format("YYYY-MM-DD");
+    case "weekly":
+      return `${date.isoWeekYear()}-W${String(date.isoWeek()).padStart(2, "0")}`;
+    case "monthly":
+      return date.format("YYYY-MM");
+    case "yearly":
+      return date.format("YYYY");
+  }
+}
+
+function bucketLabel(start: Dayjs, interval: ChartInterval): string {
+  switch (interval) {
+    case "daily":
+      return start.format("MMM D, YYYY");
+    case "weekly":
+      return `Week ${start.isoWeek()}, ${start.isoWeekYear()}`;
+    case "monthly":
+      return start.format("MMMM YYYY");
+    case "yearly":
+      return start.format("YYYY");
+  }
+}
+
+// Start dates of every bucket touching [from, to].
+export function bucketStarts(from: Dayjs, to: Dayjs, interval: ChartInterval): Dayjs[] {
+  const starts: Dayjs[] = [];
+  for (let start = from.startOf(unitOf(interval)); !start.isAfter(to); start = start.add(1, stepOf(interval))) {
+    starts.push(start);
+  }
+  return starts;
+}
+
+// How an entry moves the available balance, matching ledger_balances() in
+// SQL. Allowances add what was not locked (interest is locked in full);
+// spends take their amount; unlocked money leaves both balances, so unlocks
+// and their reversals leave it unchanged.
+function availableDelta(entry: LedgerEntry): number {
+  const amount = Number(entry.amount);
+  const lockedDelta = Number(entry.locked_delta);
+  if (entry.type === "allowance" || entry.type === "interest" || entry.type === "term_deposit_return") {
+    return amount - lockedDelta;
+  }
+  if (entry.type === "spend") return -amount;
+  if (entry.type === "unlock") return 0;
+  if (entry.type === "term_deposit") return -amount - lockedDelta;
+  return -lockedDelta;
+}
+
+// Buckets the ledger between from and to (inclusive days). `entries` and
+// `jarEntries` must be sorted oldest first and may start before `from`:
+// earlier rows only set the opening balances.
+export function buildSeries(
+  entries: LedgerEntry[],
+  from: Dayjs,
+  to: Dayjs,
+  interval: ChartInterval,
+  sourceId: string | null = null,
+  jarEntries: JarLedgerEntry[] = []
+): SeriesPoint[] {
+  const rangeStart = from.startOf("day");
+  const rangeEnd = to.endOf("day");
+  const starts = bucketStarts(rangeStart, rangeEnd, interval);
+  const points = starts.map((start) => ({
+    key: bucketKey(start, interval),
+    label: bucketLabel(start, interval),
+    allowance: 0,
+    unlocked: 0,
+    locked: 0,
+    available: 0,
+    jars: {} as Record<string, number>,
+    unlocks: [] as UnlockMarker[],
+  }));
+  const byKey = new Map(points.map((point) => [point.key, point]));
+
+  let locked = 0;
+  let available = 0;
+  let index = 0;
+  const closeBucketsBefore = (key: string | null) => {
+    while (index < points.length && points[index].key !== key) {
+      points[index].locked = Number(locked.toFixed(2));
+      points[index].available = Number(available.toFixed(2));
+      index++;
+    }
+  };
+
+  for (const entry of entries) {
+    const date = dayjs(entry.created_at);
+    if (date.isAfter(rangeEnd)) break;
+
+    if (!date.isBefore(rangeStart)) {
+      const point = byKey.get(bucketKey(date, interval));
+      if (point) {
+        closeBucketsBefore(point.key);
+        const amount = Number(entry.amount);
+        if (entry.type === "allowance" && (!sourceId || entry.income_source_id === sourceId)) point.allowance = Number((point.allowance + amount).toFixed(2));
+        if (entry.type === "unlock") {
+          point.unlocked = Number((point.unlocked + amount).toFixed(2));
+          if (!entry.reverses_id) {
+            point.unlocks.push({
+              id: entry.id,
+              amount,
+              reason: entry.reason,
+              notes: entry.notes,
+              createdAt: entry.created_at,
+            });
+          }
+        }
+      }
+    }
+
+    locked += Number(entry.locked_delta);
+    available += availableDelta(entry);
+  }
+  closeBucketsBefore(null);
+
+  const jarBalances: Record<string, number> = {};
+  let jarIndex = 0;
+  points.forEach((point, i) => {
+    while (jarIndex < jarEntries.length) {
+      const date = dayjs(jarEntries[jarIndex].created_at);
+      if (i + 1 < starts.length ? !date.isBefore(starts[i + 1]) : date.isAfter(rangeEnd)) break;
+      const entry = jarEntries[jarIndex++];
+      jarBalances[entry.jar_id] = (jarBalances[entry.jar_id] ?? 0) + Number(entry.amount);
+    }
+    for (const [jarId, balance] of Object.entries(jarBalances)) {
+      point.jars[jarId] = Number(balance.toFixed(2));
+    }
+  });
+
+  return points;
+}
+
+// The range of equal length that ends the day before `from`.
+export function previousRange(from: Dayjs, to: Dayjs): { from: Dayjs; to: Dayjs } {
+  const days = to.startOf("day").diff(from.startOf("day"), "day") + 1;
+  return { from: from.subtract(days, "day"), to: from.subtract(1, "day") };
+}
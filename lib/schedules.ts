@@ -0,0 +1,99 @@
+import dayjs from "dayjs";
+
+export type Cadence = "weekly" | "biweekly" | "monthly" | "custom";
+
+export const CADENCES: { id: Cadence; label: string }[] = [
+  { id: "weekly", label: "Every week" },
+  { id: "biweekly", label: "Every two weeks" },
+  { id: "monthly", label: "Every month" },
+  { id: "custom", label: "Every N days" },
+];
+
+export interface AllowanceSchedule {
+  id: string;
+  amount: number;
+  cadence: Cadence;
+  intervalDays: number | null;
+  startDate: string;
+  endDate: string | null;
+  sourceLabel: string;
+  // Deposits go to the default source when null
+  incomeSourceId: string | null;
+  nextPayout: string | null;
+}
+
+export interface ScheduleRow {
+  id: string;
+  amount: number | string;
+  cadence: Cadence;
+  interval_days: number | null;
+  start_date: string;
+  end_date: string | null;
+  source_label: string;
+  income_source_id: string | null;
+}
+
+// The k-th due date of a schedule, matching schedule_due_dates() in SQL.
+// Monthly dates are counted from the start so the 31st stays the 31st where
+// the month allows it.
+function dueDate(schedule: Pick<AllowanceSchedule, "cadence" | "intervalDays" | "startDate">, k: number) {
+  const start = dayjs(schedule.startDate);
+  switch (schedule.cadence) {
+    case "weekly":
+      return start.add(k * 7, "day");
+    case "biweekly":
+      return start.add(k * 14, "day");
+    case "monthly":
+      return start.add(k, "month");
+    case "custom":
+      return start.add(k * (schedule.intervalDays ?? 1), "day");
+  }
+}
+
+// The first due date on or after `today`, or null once the schedule has ended.
+export function nextPayout(
+  schedule: Pick<AllowanceSchedule, "cadence" | "intervalDays" | "startDate" | "endDate">,
+  today = dayjs()
+): string | null {
+  const from = today.startOf("day");
+  const days = Math.max(from.diff(dayjs(schedule.startDate), "day"), 0);
+
+  // Jump close to today instead of walking every period since the start
+  const periodDays = { weekly: 7, biweekly: 14, monthly: 28, custom: schedule.intervalDays ?? 1 }[schedule.cadence];
+  let k = schedule.cadence === "monthly" ? Math.max(Math.floor(days / 31) - 1, 0) : Math.floor(days / periodDays);
+
+  let due = dueDate(schedule, k);
+  while (due.isBefore(from)) {
+    due = dueDate(schedule, ++k);
+  }
+
+  if (schedule.endDate && due.isAfter(dayjs(schedule.endDate))) return null;
+  return due.format("YYYY-MM-DD");
+}
+
+// Number of payouts due between from and to, both inclusive.
+export function payoutsBetween(
+  schedule: Pick<AllowanceSchedule, "cadence" | "intervalDays" | "startDate" | "endDate">,
+  from: dayjs.Dayjs,
+  to: dayjs.Dayjs
+): number {
+  let count = 0;
+  for (let due = nextPayout(schedule, from); due && !dayjs(due).isAfter(to, "day"); due = nextPayout(schedule, dayjs(due).add(1, "day"))) {
+    count++;
+  }
+  return count;
+}
+
+export function toSchedule(row: ScheduleRow): AllowanceSchedule {
+  const schedule = {
+    id: row.id,
+    amount: Number(row.amount),
+    cadence: row.cadence,
+    intervalDays: row.interval_days,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    sourceLabel: row.source_label,
+    incomeSourceId: row.income_source_id,
+  };
+  return { ...schedule, nextPayout: nextPayout(schedule) };
+}
@@ -0,0 +1,31 @@
+import { Balances, toBalances } from "@/lib/ledger";
+import { PROFILE_COLUMNS, Profile, ProfileRow, toProfile } from "@/lib/profile";
+import type { Repository } from "@/lib/repository";
+import { isLocalBackend, SessionUser } from "@/lib/session";
+import { createServerSupabase } from "@/lib/supabaseServer";
+
+// What the server components load before the first paint, read with the
+// session cookies. Failures are left to the caller, which can fall back to
+// loading in the browser.
+export type ServerRepository = Pick<Repository, "getBalances" | "getProfile">;
+
+// Null with the local backend: its data only exists in the browser, so the
+// pages load everything through `repository` once they get there.
+export async function createServerRepository(user: SessionUser): Promise<ServerRepository | null> {
+  if (isLocalBackend) return null;
+  const supabase = await createServerSupabase();
+
+  return {
+    async getBalances(): Promise<Balances> {
+      const { data, error } = await supabase.rpc("ledger_balances", { p_user_id: user.id });
+      if (error) throw error;
+      return toBalances(data);
+    },
+
+    async getProfile(): Promise<Profile> {
+      const { data, error } = await supabase.from("profiles").select(PROFILE_COLUMNS).eq("id", user.id).maybeSingle();
+      if (error) throw error;
+      return toProfile(data as ProfileRow | null);
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+import { isLocalBackend, LOCAL_SESSION_COOKIE, parseLocalSession, SessionUser } from "@/lib/session";
+import { createServerSupabase } from "@/lib/supabaseServer";
+
+// The signed-in user for a server component: from the local session cookie
+// with the local backend, from Supabase Auth otherwise.
+export async function getSessionUser(): Promise<SessionUser | null> {
+  if (isLocalBackend) {
+    const cookieStore = await cookies();
+    return parseLocalSession(cookieStore.get(LOCAL_SESSION_COOKIE)?.value);
+  }
+
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user ? { id: user.id, email: user.email ?? "" } : null;
+}
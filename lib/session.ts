@@ -0,0 +1,26 @@
+// The signed-in user as the pages see it
+export interface SessionUser {
+  id: string;
+  email: string;
+}
+
+// NEXT_PUBLIC_DATA_BACKEND=local keeps accounts and data in the browser, so
+// the app runs without a Supabase project.
+export const isLocalBackend = process.env.NEXT_PUBLIC_DATA_BACKEND === "local";
+
+// The local backend's session: the signed-in account, written by the browser
+// on sign-in so the middleware and server components can see it. Nothing on
+// the server is protected by it, since the data never leaves the browser.
+export const LOCAL_SESSION_COOKIE = "pg_local_session";
+
+export function parseLocalSession(value: string | undefined): SessionUser | null {
+  if (!value) return null;
+  try {
+    const session = JSON.parse(decodeURIComponent(value));
+    return typeof session?.id === "string" && typeof session?.email === "string"
+      ? { id: session.id, email: session.email }
+      : null;
+  } catch {
+    return null;
+  }
+}
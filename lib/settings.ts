@@ -0,0 +1,44 @@
+export interface UserSettings {
+  savingsPercent: number;
+  coolingOffHours: number;
+  // Unlock reason → cooling-off hours, replacing coolingOffHours for that reason
+  coolingOffOverrides: Record<string, number>;
+}
+
+export interface SavingsPercentChange {
+  savingsPercent: number;
+  effectiveAt: string;
+}
+
+export interface UserSettingsRow {
+  savings_percent: number | null;
+  cooling_off_hours: number | null;
+  cooling_off_overrides: Record<string, number> | null;
+}
+
+export interface SavingsPercentChangeRow {
+  savings_percent: number | string;
+  effective_at: string;
+}
+
+export const SETTINGS_COLUMNS = "savings_percent, cooling_off_hours, cooling_off_overrides";
+
+// What a user without a user_settings row gets
+export const DEFAULT_SETTINGS: UserSettings = {
+  savingsPercent: 20,
+  coolingOffHours: 0,
+  coolingOffOverrides: {},
+};
+
+export function toSettings(row: UserSettingsRow | null): UserSettings {
+  if (!row) return DEFAULT_SETTINGS;
+  return {
+    savingsPercent: row.savings_percent ?? DEFAULT_SETTINGS.savingsPercent,
+    coolingOffHours: row.cooling_off_hours ?? 0,
+    coolingOffOverrides: row.cooling_off_overrides ?? {},
+  };
+}
+
+export function toSavingsPercentChange(row: SavingsPercentChangeRow): SavingsPercentChange {
+  return { savingsPercent: Number(row.savings_percent), effectiveAt: row.effective_at };
+}
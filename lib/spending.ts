@@ -0,0 +1,14 @@
+export interface SpendCategory {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+// Offered as one-click suggestions until the user has set up their own.
+export const SUGGESTED_CATEGORIES = [
+  { name: "Food & Snacks", icon: "🍔" },
+  { name: "Games", icon: "🎮" },
+  { name: "Clothes", icon: "👕" },
+  { name: "Transport", icon: "🚌" },
+  { name: "Gifts", icon: "🎁" },
+];
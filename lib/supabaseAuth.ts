@@ -0,0 +1,85 @@
+import type { AuthError as SupabaseAuthError } from "@supabase/supabase-js";
+import { authCallbackUrl } from "@/lib/auth";
+import { AuthClient, AuthError } from "@/lib/authClient";
+import { browserSupabase } from "@/lib/supabaseClient";
+
+function check(error: SupabaseAuthError | null) {
+  if (error) throw new AuthError(error.message, error.code ?? null);
+}
+
+// Supabase Auth keeps the session in cookies, which the middleware refreshes.
+export function createSupabaseAuth(): AuthClient {
+  return {
+    sendsEmail: true,
+
+    async signIn(email: string, password: string) {
+      const { error } = await browserSupabase().auth.signInWithPassword({ email, password });
+      check(error);
+    },
+
+    async signUp(email: string, password: string, inviteCode?: string) {
+      const { data, error } = await browserSupabase().auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo: authCallbackUrl(),
+          // Redeemed by a database trigger to link the new account to a guardian
+          data: inviteCode ? { guardian_invite_code: inviteCode } : undefined,
+        },
+      });
+      check(error);
+      // No session means email confirmation is turned on for this project
+      return data.session !== null;
+    },
+
+    async resendConfirmation(email: string) {
+      const { error } = await browserSupabase().auth.resend({
+        type: "signup",
+        email,
+        options: { emailRedirectTo: authCallbackUrl() },
+      });
+      check(error);
+    },
+
+    async sendSignInLink(email: string) {
+      const { error } = await browserSupabase().auth.signInWithOtp({
+        email,
+        // Accounts are only created through sign-up, where the invite code is entered
+        options: { emailRedirectTo: authCallbackUrl(), shouldCreateUser: false },
+      });
+      check(error);
+    },
+
+    async sendPasswordReset(email: string) {
+      const { error } = await browserSupabase().auth.resetPasswordForEmail(email, {
+        redirectTo: authCallbackUrl("/auth/reset-password"),
+      });
+      check(error);
+    },
+
+    async changePassword(email: string, currentPassword: string, newPassword: string) {
+      // Confirm it's really the account holder before changing the password
+      const { error: signInError } = await browserSupabase().auth.signInWithPassword({ email, password: currentPassword });
+      if (signInError) {
+        throw new AuthError("Your current password is incorrect", "invalid_credentials");
+      }
+
+      const { error } = await browserSupabase().auth.updateUser({ password: newPassword });
+      check(error);
+    },
+
+    async changeEmail(newEmail: string) {
+      // The change only takes effect once the link sent to the new address is opened
+      const { error } = await browserSupabase().auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: authCallbackUrl("/dashboard/settings") }
+      );
+      check(error);
+      return true;
+    },
+
+    async signOut() {
+      await browserSupabase().auth.signOut();
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import { createBrowserClient } from "@supabase/ssr";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+let client: SupabaseClient | null = null;
+
+// The browser client keeps the session in cookies rather than localStorage,
+// so the middleware and server components see the same signed-in user. It is
+// created on first use, so the local backend runs without Supabase settings.
+export function browserSupabase(): SupabaseClient {
+  client ??= createBrowserClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+  return client;
+}
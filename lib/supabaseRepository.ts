@@ -0,0 +1,413 @@
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { browserSupabase } from "@/lib/supabaseClient";
+import { apiDownload, apiFetch } from "@/lib/apiClient";
+import type { Achievements } from "@/lib/achievements";
+import type { FamilyOverview } from "@/lib/family";
+import type { Goal } from "@/lib/goals";
+import type { IncomeBreakdown, IncomeSource } from "@/lib/incomeSources";
+import type { InterestSettings } from "@/lib/interest";
+import type { Jar } from "@/lib/jars";
+import type { AllowanceResult, Balances } from "@/lib/ledger";
+import type { ImportCandidate, ImportPreviewRow } from "@/lib/ledgerImport";
+import { toNotification } from "@/lib/notifications";
+import type { Notification, NotificationFeed, NotificationKind, NotificationRow } from "@/lib/notifications";
+import type { Profile } from "@/lib/profile";
+import type { Reconciliation } from "@/lib/reconciliation";
+import type {
+  AllowanceInput,
+  ExportFormat,
+  GoalInput,
+  InterestSettingsInput,
+  JarTransferInput,
+  Repository,
+  ScheduleInput,
+  SeriesQuery,
+  SpendInput,
+  TermDepositInput,
+  UnlockDecision,
+  UnlockInput,
+  UnlockResult,
+} from "@/lib/repository";
+import { RepositoryError } from "@/lib/repository";
+import type { SavingsRule } from "@/lib/savingsRules";
+import type { SavingsSeries } from "@/lib/savingsSeries";
+import type { AllowanceSchedule } from "@/lib/schedules";
+import {
+  SETTINGS_COLUMNS,
+  SavingsPercentChangeRow,
+  UserSettings,
+  UserSettingsRow,
+  toSavingsPercentChange,
+  toSettings,
+} from "@/lib/settings";
+import type { SpendCategory } from "@/lib/spending";
+import type { TermDeposit } from "@/lib/termDeposits";
+import { toSearchParams } from "@/lib/transactions";
+import type { TransactionFilters, TransactionPage } from "@/lib/transactions";
+import type { GuardrailStatus, UnlockGuardrails } from "@/lib/unlockGuardrails";
+import type { UnlockInsights } from "@/lib/unlockInsights";
+import type { UnlockRequest } from "@/lib/unlockRequests";
+
+type Preferences = Record<NotificationKind, boolean>;
+
+async function currentUserId(): Promise<string> {
+  const { data: { session } } = await browserSupabase().auth.getSession();
+  if (!session) {
+    throw new RepositoryError("Not authenticated", "42501");
+  }
+  return session.user.id;
+}
+
+function saveProfile(changes: Partial<Profile>) {
+  return apiFetch<Profile>("/api/profile", { method: "PUT", body: changes });
+}
+
+// Ledger writes go through the route handlers, which run the balance checks
+// in one database transaction; settings are plain rows guarded by RLS. The
+// other features are thin wrappers around their route handlers.
+export function createSupabaseRepository(): Repository {
+  const supabase = browserSupabase();
+
+  return {
+    getBalances() {
+      return apiFetch<Balances>("/api/balances");
+    },
+
+    recordAllowance(input: AllowanceInput) {
+      return apiFetch<AllowanceResult>("/api/allowances", { body: input });
+    },
+
+    recordUnlock(input: UnlockInput) {
+      return apiFetch<UnlockResult>("/api/unlocks", { body: input });
+    },
+
+    async getSettings() {
+      const { data, error } = await supabase
+        .from("user_settings")
+        .select(SETTINGS_COLUMNS)
+        .eq("id", await currentUserId())
+        .maybeSingle();
+      if (error) throw new RepositoryError(error.message, error.code);
+
+      return toSettings(data as UserSettingsRow | null);
+    },
+
+    async saveSettings(settings: UserSettings) {
+      const { error } = await supabase.from("user_settings").upsert(
+        {
+          id: await currentUserId(),
+          savings_percent: settings.savingsPercent,
+          cooling_off_hours: settings.coolingOffHours,
+          cooling_off_overrides: settings.coolingOffOverrides,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "id" }
+      );
+      if (error) throw new RepositoryError(error.message, error.code);
+
+      return settings;
+    },
+
+    async getSavingsPercentHistory(limit: number) {
+      const { data, error } = await supabase
+        .from("savings_percent_history")
+        .select("savings_percent, effective_at")
+        .eq("user_id", await currentUserId())
+        .order("effective_at", { ascending: false })
+        .limit(limit);
+      if (error) throw new RepositoryError(error.message, error.code);
+
+      return ((data ?? []) as SavingsPercentChangeRow[]).map(toSavingsPercentChange);
+    },
+
+    subscribeSettings(onChange: (settings: UserSettings) => void) {
+      let channel: RealtimeChannel | null = null;
+      let stopped = false;
+
+      currentUserId()
+        .then((userId) => {
+          if (stopped) return;
+          channel = supabase
+            .channel(`user_settings_${userId}`)
+            .on(
+              "postgres_changes",
+              { event: "*", schema: "public", table: "user_settings", filter: `id=eq.${userId}` },
+              (payload: { new: Record<string, unknown> }) => onChange(toSettings(payload.new as unknown as UserSettingsRow))
+            )
+            .subscribe();
+        })
+        .catch((err) => console.error("Error subscribing to settings:", err));
+
+      return () => {
+        stopped = true;
+        if (channel) supabase.removeChannel(channel);
+      };
+    },
+
+    listTransactions(filters: TransactionFilters) {
+      return apiFetch<TransactionPage>(`/api/transactions?${toSearchParams(filters)}`);
+    },
+
+    recordSpend(input: SpendInput) {
+      return apiFetch<Balances>("/api/spends", { body: input });
+    },
+
+    reverseTransaction(id: string, notes?: string) {
+      return apiFetch<Balances>(`/api/transactions/${id}/reverse`, { body: { notes } });
+    },
+
+    exportTransactions(format: ExportFormat) {
+      return apiDownload(`/api/transactions/export?format=${format}`, `transactions.${format}`);
+    },
+
+    async previewImport(rows: ImportCandidate[]) {
+      const result = await apiFetch<{ rows: ImportPreviewRow[] }>("/api/transactions/import", {
+        body: { rows, dryRun: true },
+      });
+      return result.rows;
+    },
+
+    async importTransactions(rows: ImportCandidate[]) {
+      const result = await apiFetch<{ imported: number }>("/api/transactions/import", { body: { rows } });
+      return result.imported;
+    },
+
+    getSavingsSeries(query: SeriesQuery) {
+      const params = new URLSearchParams({ interval: query.interval, from: query.from, to: query.to });
+      if (query.compare) params.set("compare", "1");
+      if (query.sourceId) params.set("source", query.sourceId);
+      return apiFetch<SavingsSeries>(`/api/savings/series?${params}`);
+    },
+
+    getIncomeBreakdown(from: string, to: string) {
+      return apiFetch<IncomeBreakdown>(`/api/income?${new URLSearchParams({ from, to })}`);
+    },
+
+    getUnlockInsights(months: number) {
+      return apiFetch<UnlockInsights>(`/api/unlocks/insights?months=${months}`);
+    },
+
+    getAchievements() {
+      return apiFetch<Achievements>("/api/achievements");
+    },
+
+    async markBadgesSeen() {
+      await apiFetch("/api/achievements/seen", { method: "POST" });
+    },
+
+    listIncomeSources() {
+      return apiFetch<IncomeSource[]>("/api/income-sources");
+    },
+
+    createIncomeSource(name: string) {
+      return apiFetch<IncomeSource>("/api/income-sources", { body: { name } });
+    },
+
+    renameIncomeSource(id: string, name: string) {
+      return apiFetch<IncomeSource>(`/api/income-sources/${id}`, { method: "PATCH", body: { name } });
+    },
+
+    async deleteIncomeSource(id: string) {
+      await apiFetch(`/api/income-sources/${id}`, { method: "DELETE" });
+    },
+
+    listCategories() {
+      return apiFetch<SpendCategory[]>("/api/categories");
+    },
+
+    createCategory(name: string, icon?: string) {
+      return apiFetch<SpendCategory>("/api/categories", { body: { name, icon } });
+    },
+
+    listGoals() {
+      return apiFetch<Goal[]>("/api/goals");
+    },
+
+    createGoal(input: GoalInput) {
+      return apiFetch<Goal>("/api/goals", { body: input });
+    },
+
+    async deleteGoal(id: string) {
+      await apiFetch(`/api/goals/${id}`, { method: "DELETE" });
+    },
+
+    listSchedules() {
+      return apiFetch<AllowanceSchedule[]>("/api/schedules");
+    },
+
+    createSchedule(input: ScheduleInput) {
+      return apiFetch<AllowanceSchedule>("/api/schedules", { body: input });
+    },
+
+    async deleteSchedule(id: string) {
+      await apiFetch(`/api/schedules/${id}`, { method: "DELETE" });
+    },
+
+    listSavingsRules() {
+      return apiFetch<SavingsRule[]>("/api/savings-rules");
+    },
+
+    saveSavingsRules(rules: SavingsRule[]) {
+      return apiFetch<SavingsRule[]>("/api/savings-rules", { method: "PUT", body: { rules } });
+    },
+
+    listJars() {
+      return apiFetch<Jar[]>("/api/jars");
+    },
+
+    saveJars(jars: Jar[]) {
+      return apiFetch<Jar[]>("/api/jars", { method: "PUT", body: { jars } });
+    },
+
+    transferBetweenJars(input: JarTransferInput) {
+      return apiFetch<Balances>("/api/jars/transfers", { body: input });
+    },
+
+    listTermDeposits() {
+      return apiFetch<TermDeposit[]>("/api/term-deposits");
+    },
+
+    openTermDeposit(input: TermDepositInput) {
+      return apiFetch<TermDeposit>("/api/term-deposits", { body: input });
+    },
+
+    withdrawTermDeposit(id: string) {
+      return apiFetch<TermDeposit>(`/api/term-deposits/${id}/withdraw`, { method: "POST" });
+    },
+
+    listUnlockRequests() {
+      return apiFetch<UnlockRequest[]>("/api/unlocks/requests");
+    },
+
+    async cancelUnlockRequest(id: string) {
+      await apiFetch(`/api/unlocks/requests/${id}/cancel`, { method: "POST" });
+    },
+
+    decideUnlockRequest(id: string, decision: UnlockDecision) {
+      return apiFetch<UnlockRequest>(`/api/unlocks/requests/${id}/decision`, { body: decision });
+    },
+
+    getUnlockGuardrails() {
+      return apiFetch<GuardrailStatus>("/api/unlocks/guardrails");
+    },
+
+    saveUnlockGuardrails(guardrails: UnlockGuardrails) {
+      return apiFetch<GuardrailStatus>("/api/unlocks/guardrails", { method: "PUT", body: guardrails });
+    },
+
+    getInterestSettings(userId?: string) {
+      const query = userId ? `?userId=${encodeURIComponent(userId)}` : "";
+      return apiFetch<InterestSettings>(`/api/interest${query}`);
+    },
+
+    async saveInterestSettings(input: InterestSettingsInput) {
+      await apiFetch("/api/interest", { body: input });
+    },
+
+    getFamily() {
+      return apiFetch<FamilyOverview>("/api/family");
+    },
+
+    async createInvite() {
+      const invite = await apiFetch<{ code: string }>("/api/family/invites", { method: "POST" });
+      return invite.code;
+    },
+
+    async redeemInvite(code: string) {
+      await apiFetch("/api/family/redeem", { body: { code } });
+    },
+
+    async unlinkChild(childId: string) {
+      await apiFetch(`/api/family/${childId}`, { method: "DELETE" });
+    },
+
+    listNotifications() {
+      return apiFetch<NotificationFeed>("/api/notifications");
+    },
+
+    async markNotificationsRead(ids?: string[]) {
+      await apiFetch("/api/notifications/read", { body: ids ? { ids } : {} });
+    },
+
+    subscribeNotifications(onNotification: (notification: Notification) => void) {
+      let channel: RealtimeChannel | null = null;
+      let stopped = false;
+
+      // New notifications arrive as inserts on the user's rows
+      currentUserId()
+        .then((userId) => {
+          if (stopped) return;
+          channel = supabase
+            .channel(`notifications_${userId}`)
+            .on(
+              "postgres_changes",
+              { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+              (payload: { new: Record<string, unknown> }) =>
+                onNotification(toNotification(payload.new as unknown as NotificationRow))
+            )
+            .subscribe();
+        })
+        .catch((err) => console.error("Error subscribing to notifications:", err));
+
+      return () => {
+        stopped = true;
+        if (channel) supabase.removeChannel(channel);
+      };
+    },
+
+    async getNotificationPreferences() {
+      const result = await apiFetch<{ preferences: Preferences }>("/api/notifications/preferences");
+      return result.preferences;
+    },
+
+    async saveNotificationPreferences(preferences: Preferences) {
+      const result = await apiFetch<{ preferences: Preferences }>("/api/notifications/preferences", {
+        method: "PUT",
+        body: { preferences },
+      });
+      return result.preferences;
+    },
+
+    getProfile() {
+      return apiFetch<Profile>("/api/profile");
+    },
+
+    saveProfile,
+
+    async uploadAvatar(file: File) {
+      // One file per user, replaced on each upload
+      const path = `${await currentUserId()}/avatar`;
+      const { error } = await supabase.storage.from("avatars").upload(path, file, { upsert: true, contentType: file.type });
+      if (error) throw new RepositoryError(error.message);
+
+      const { data } = supabase.storage.from("avatars").getPublicUrl(path);
+      // The URL stays the same across uploads, so vary it to skip cached copies
+      return saveProfile({ avatarUrl: `${data.publicUrl}?v=${Date.now()}` });
+    },
+
+    async removeAvatar() {
+      await supabase.storage.from("avatars").remove([`${await currentUserId()}/avatar`]);
+      return saveProfile({ avatarUrl: null });
+    },
+
+    exportAccount() {
+      return apiDownload("/api/account/export", "pocketgrowth-account.json");
+    },
+
+    async deleteAccount(confirmEmail: string) {
+      await apiFetch("/api/account", { method: "DELETE", body: { confirmEmail } });
+    },
+
+    listReconciliations() {
+      return apiFetch<Reconciliation[]>("/api/reconciliation");
+    },
+
+    checkLedger() {
+      return apiFetch<Reconciliation>("/api/reconciliation", { method: "POST" });
+    },
+
+    repairLedger() {
+      return apiFetch<Reconciliation>("/api/reconciliation/repair", { method: "POST" });
+    },
+  };
+}
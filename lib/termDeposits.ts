@@ -0,0 +1,90 @@
+import dayjs from "dayjs";
+
+export type TermDepositSource = "available" | "locked";
+
+// "matured" deposits paid out in full on their maturity date; "withdrawn"
+// ones were closed early and paid the penalty.
+export type TermDepositStatus = "active" | "matured" | "withdrawn";
+
+export type EarlyWithdrawal = "disallowed" | "penalty";
+
+export const EARLY_WITHDRAWAL_OPTIONS: { id: EarlyWithdrawal; label: string }[] = [
+  { id: "disallowed", label: "Not allowed" },
+  { id: "penalty", label: "Allowed with a penalty" },
+];
+
+export const MAX_PENALTY_PERCENT = 100;
+
+// Terms offered when opening a deposit, in months
+export const TERM_OPTIONS = [1, 3, 6, 12];
+
+export interface TermDeposit {
+  id: string;
+  amount: number;
+  source: TermDepositSource;
+  startsOn: string;
+  maturesOn: string;
+  bonusRate: number;
+  bonusAmount: number;
+  earlyWithdrawal: EarlyWithdrawal;
+  penaltyPercent: number;
+  status: TermDepositStatus;
+  // What went back to locked savings; null while the deposit is active
+  returnedAmount: number | null;
+  closedAt: string | null;
+  createdAt: string;
+}
+
+export interface TermDepositRow {
+  id: string;
+  amount: number | string;
+  source: TermDepositSource;
+  starts_on: string;
+  matures_on: string;
+  bonus_rate: number | string;
+  bonus_amount: number | string;
+  early_withdrawal: EarlyWithdrawal;
+  penalty_percent: number | string;
+  status: TermDepositStatus;
+  returned_amount: number | string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export const TERM_DEPOSIT_COLUMNS =
+  "id, amount, source, starts_on, matures_on, bonus_rate, bonus_amount, early_withdrawal, penalty_percent, status, returned_amount, closed_at, created_at";
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+// Same as term_deposit_bonus() in SQL: simple interest for the days in the term
+export function termDepositBonus(amount: number, annualRate: number, startsOn: string, maturesOn: string): number {
+  const days = dayjs(maturesOn).diff(dayjs(startsOn), "day");
+  return cents((amount * annualRate) / 100 * days / 365);
+}
+
+// What withdrawing now would return; the bonus is only paid at maturity
+export function earlyWithdrawalAmount(deposit: TermDeposit): number {
+  return cents(deposit.amount - cents((deposit.amount * deposit.penaltyPercent) / 100));
+}
+
+export function daysUntilMaturity(deposit: TermDeposit): number {
+  return Math.max(0, dayjs(deposit.maturesOn).diff(dayjs().startOf("day"), "day"));
+}
+
+export function toTermDeposit(row: TermDepositRow): TermDeposit {
+  return {
+    id: row.id,
+    amount: Number(row.amount),
+    source: row.source,
+    startsOn: row.starts_on,
+    maturesOn: row.matures_on,
+    bonusRate: Number(row.bonus_rate),
+    bonusAmount: Number(row.bonus_amount),
+    earlyWithdrawal: row.early_withdrawal,
+    penaltyPercent: Number(row.penalty_percent),
+    status: row.status,
+    returnedAmount: row.returned_amount === null ? null : Number(row.returned_amount),
+    closedAt: row.closed_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,101 @@
+// "adjustment" entries are written by a ledger repair; they correct the
+// stored locked total and move no money themselves. "transfer" entries move
+// available money into a locked jar. "term_deposit" entries move money into a
+// term deposit and "term_deposit_return" entries bring it back as locked
+// savings.
+export type TransactionType =
+  | "allowance"
+  | "unlock"
+  | "spend"
+  | "interest"
+  | "adjustment"
+  | "transfer"
+  | "term_deposit"
+  | "term_deposit_return";
+
+export const TRANSACTION_TYPES: { id: TransactionType; label: string }[] = [
+  { id: "allowance", label: "Allowance" },
+  { id: "unlock", label: "Unlock" },
+  { id: "spend", label: "Spend" },
+  { id: "interest", label: "Interest" },
+  { id: "adjustment", label: "Adjustment" },
+  { id: "transfer", label: "Transfer" },
+  { id: "term_deposit", label: "Term deposit" },
+  { id: "term_deposit_return", label: "Term deposit returned" },
+];
+
+// Entries that cannot be reversed. Transfers, interest and adjustments move
+// locked money, so negating one would skip the unlock flow; term deposits are
+// undone by closing the deposit.
+export const IRREVERSIBLE_TYPES: TransactionType[] = [
+  "adjustment",
+  "transfer",
+  "interest",
+  "term_deposit",
+  "term_deposit_return",
+];
+
+export interface Transaction {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  reason: string | null;
+  notes: string | null;
+  merchant: string | null;
+  categoryName: string | null;
+  // Where an allowance came from; null for other types
+  incomeSourceId: string | null;
+  incomeSourceName: string | null;
+  lockedDelta: number;
+  // Recorded when an allowance is posted; null for other types
+  savingsPercent: number | null;
+  savedAmount: number | null;
+  reversesId: string | null;
+  reversedBy: string | null;
+  createdAt: string;
+}
+
+export type TransactionSort = "created_at" | "amount";
+
+export interface TransactionFilters {
+  type?: TransactionType;
+  reason?: string;
+  sourceId?: string;
+  from?: string;
+  to?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  search?: string;
+  sort: TransactionSort;
+  ascending: boolean;
+  page: number;
+  pageSize: number;
+}
+
+export interface TransactionPage {
+  rows: Transaction[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Serializes filters into the query string understood by GET /api/transactions.
+export function toSearchParams(filters: TransactionFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.type) params.set("type", filters.type);
+  if (filters.reason) params.set("reason", filters.reason);
+  if (filters.sourceId) params.set("source", filters.sourceId);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.minAmount !== undefined) params.set("min", String(filters.minAmount));
+  if (filters.maxAmount !== undefined) params.set("max", String(filters.maxAmount));
+  if (filters.search) params.set("q", filters.search);
+  params.set("sort", filters.sort);
+  params.set("order", filters.ascending ? "asc" : "desc");
+  params.set("page", String(filters.page));
+  params.set("pageSize", String(filters.pageSize));
+  return params;
+}
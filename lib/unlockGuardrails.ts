@@ -0,0 +1,105 @@
+export type GuardrailRule = "blocked_reason" | "max_per_transaction" | "max_per_month" | "min_locked";
+
+export const GUARDRAIL_RULES: { id: GuardrailRule; label: string }[] = [
+  { id: "blocked_reason", label: "Blocked reasons" },
+  { id: "max_per_transaction", label: "Maximum per unlock" },
+  { id: "max_per_month", label: "Maximum per month" },
+  { id: "min_locked", label: "Minimum locked balance" },
+];
+
+export interface UnlockGuardrails {
+  maxPerTransaction: number | null;
+  maxPerMonth: number | null;
+  minLockedBalance: number;
+  blockedReasons: string[];
+  // Unlocks for these reasons skip the limits above
+  alwaysAllowedReasons: string[];
+}
+
+// Guardrails plus what the checks need to know about this month
+export interface GuardrailStatus {
+  guardrails: UnlockGuardrails;
+  unlockedThisMonth: number;
+  pendingAmount: number;
+}
+
+export interface GuardrailRow {
+  max_unlock_per_transaction: number | string | null;
+  max_unlock_per_month: number | string | null;
+  min_locked_balance: number | string | null;
+  blocked_unlock_reasons: string[] | null;
+  always_allowed_unlock_reasons: string[] | null;
+}
+
+export interface GuardrailViolation {
+  rule: GuardrailRule;
+  message: string;
+}
+
+export const NO_GUARDRAILS: UnlockGuardrails = {
+  maxPerTransaction: null,
+  maxPerMonth: null,
+  minLockedBalance: 0,
+  blockedReasons: [],
+  alwaysAllowedReasons: [],
+};
+
+export const GUARDRAIL_COLUMNS =
+  "max_unlock_per_transaction, max_unlock_per_month, min_locked_balance, blocked_unlock_reasons, always_allowed_unlock_reasons";
+
+const ruleLabel = (rule: GuardrailRule) => GUARDRAIL_RULES.find((r) => r.id === rule)!.label;
+
+// Mirrors check_unlock_guardrails() in SQL, which has the final say; the
+// messages match so the form and the server read the same. `available` is
+// what is locked and not already requested.
+export function checkGuardrails(
+  status: GuardrailStatus,
+  amount: number,
+  reason: string,
+  available: number
+): GuardrailViolation | null {
+  const { guardrails, unlockedThisMonth } = status;
+
+  if (guardrails.blockedReasons.includes(reason)) {
+    return {
+      rule: "blocked_reason",
+      message: `Your "${ruleLabel("blocked_reason")}" guardrail does not allow unlocks for this reason`,
+    };
+  }
+
+  if (guardrails.alwaysAllowedReasons.includes(reason)) return null;
+
+  if (guardrails.maxPerTransaction !== null && amount > guardrails.maxPerTransaction) {
+    return {
+      rule: "max_per_transaction",
+      message: `Your "${ruleLabel("max_per_transaction")}" guardrail allows at most $${guardrails.maxPerTransaction.toFixed(2)} per unlock`,
+    };
+  }
+
+  if (guardrails.maxPerMonth !== null && unlockedThisMonth + amount > guardrails.maxPerMonth) {
+    return {
+      rule: "max_per_month",
+      message: `Your "${ruleLabel("max_per_month")}" guardrail allows $${guardrails.maxPerMonth.toFixed(2)} a month and $${unlockedThisMonth.toFixed(2)} is already unlocked or requested`,
+    };
+  }
+
+  if (guardrails.minLockedBalance > 0 && available - amount < guardrails.minLockedBalance) {
+    return {
+      rule: "min_locked",
+      message: `Your "${ruleLabel("min_locked")}" guardrail keeps $${guardrails.minLockedBalance.toFixed(2)} locked`,
+    };
+  }
+
+  return null;
+}
+
+export function toGuardrails(row: GuardrailRow | null): UnlockGuardrails {
+  if (!row) return NO_GUARDRAILS;
+  return {
+    maxPerTransaction: row.max_unlock_per_transaction === null ? null : Number(row.max_unlock_per_transaction),
+    maxPerMonth: row.max_unlock_per_month === null ? null : Number(row.max_unlock_per_month),
+    minLockedBalance: Number(row.min_locked_balance ?? 0),
+    blockedReasons: row.blocked_unlock_reasons ?? [],
+    alwaysAllowedReasons: row.always_allowed_unlock_reasons ?? [],
+  };
+}
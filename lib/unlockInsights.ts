@@ -0,0 +1,223 @@
+import dayjs, { Dayjs } from "dayjs";
+import { UNLOCK_REASONS } from "@/lib/unlockReasons";
+
+// How far back the insights panel can look
+export const INSIGHT_MONTH_OPTIONS = [3, 6, 12, 24];
+
+// An unlock is flagged when it is this many times the user's average
+export const ABOVE_AVERAGE_FACTOR = 1.5;
+
+// Flag this many "other" unlocks within any seven days
+export const OTHER_UNLOCKS_PER_WEEK = 3;
+
+// A month's unlocks are flagged as a spike against this many months before it
+export const SPIKE_BASELINE_MONTHS = 3;
+
+export interface UnlockEntry {
+  id: string;
+  amount: number | string;
+  reason: string | null;
+  notes: string | null;
+  reverses_id: string | null;
+  created_at: string;
+}
+
+export interface ReasonTotal {
+  reason: string;
+  label: string;
+  total: number;
+  count: number;
+}
+
+export interface MonthTotals {
+  key: string;
+  label: string;
+  total: number;
+  count: number;
+  // Total unlocked per reason id
+  byReason: Record<string, number>;
+}
+
+export interface ReasonChange {
+  reason: string;
+  label: string;
+  current: number;
+  previous: number;
+}
+
+export interface MonthComparison {
+  current: MonthTotals;
+  previous: MonthTotals;
+  reasons: ReasonChange[];
+}
+
+export type InsightFlagKind = "above_average" | "other_cluster" | "monthly_spike";
+
+export interface InsightFlag {
+  kind: InsightFlagKind;
+  message: string;
+  date: string;
+  transactionIds: string[];
+}
+
+export interface UnlockInsights {
+  from: string;
+  to: string;
+  total: number;
+  count: number;
+  average: number;
+  byReason: ReasonTotal[];
+  months: MonthTotals[];
+  comparison: MonthComparison;
+  flags: InsightFlag[];
+}
+
+interface Unlock {
+  id: string;
+  amount: number;
+  reason: string;
+  notes: string | null;
+  date: Dayjs;
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+export function reasonLabel(reason: string): string {
+  return UNLOCK_REASONS.find((r) => r.id === reason)?.label ?? reason;
+}
+
+function emptyMonth(start: Dayjs): MonthTotals {
+  return { key: start.format("YYYY-MM"), label: start.format("MMM YYYY"), total: 0, count: 0, byReason: {} };
+}
+
+function addToMonth(month: MonthTotals, unlock: Unlock) {
+  month.total = cents(month.total + unlock.amount);
+  month.count++;
+  month.byReason[unlock.reason] = cents((month.byReason[unlock.reason] ?? 0) + unlock.amount);
+}
+
+// Drops reversals and the unlocks they undo, so corrected mistakes do not
+// count as spending.
+function effectiveUnlocks(entries: UnlockEntry[]): Unlock[] {
+  const reversed = new Set(entries.filter((e) => e.reverses_id).map((e) => e.reverses_id));
+  return entries
+    .filter((e) => !e.reverses_id && !reversed.has(e.id))
+    .map((e) => ({
+      id: e.id,
+      amount: Number(e.amount),
+      reason: e.reason ?? "other",
+      notes: e.notes,
+      date: dayjs(e.created_at),
+    }))
+    .sort((a, b) => a.date.valueOf() - b.date.valueOf());
+}
+
+function findFlags(unlocks: Unlock[], months: MonthTotals[], from: Dayjs): InsightFlag[] {
+  const flags: InsightFlag[] = [];
+
+  // Each unlock is compared with the average of the unlocks before it, so a
+  // single large unlock is not hidden by raising the average itself
+  let sum = 0;
+  unlocks.forEach((unlock, i) => {
+    const average = i > 0 ? sum / i : 0;
+    if (i >= 2 && !unlock.date.isBefore(from) && unlock.amount > average * ABOVE_AVERAGE_FACTOR) {
+      flags.push({
+        kind: "above_average",
+        message: `$${unlock.amount.toFixed(2)} for ${reasonLabel(unlock.reason).toLowerCase()} is ${(unlock.amount / average).toFixed(1)}× your average unlock of $${average.toFixed(2)}`,
+        date: unlock.date.toISOString(),
+        transactionIds: [unlock.id],
+      });
+    }
+    sum += unlock.amount;
+  });
+
+  // Runs of "other" unlocks inside a rolling week; a run is reported once
+  const others = unlocks.filter((u) => u.reason === "other" && !u.date.isBefore(from));
+  for (let start = 0; start < others.length; ) {
+    let end = start;
+    while (end + 1 < others.length && others[end + 1].date.diff(others[start].date, "day", true) < 7) end++;
+    const run = others.slice(start, end + 1);
+    if (run.length >= OTHER_UNLOCKS_PER_WEEK) {
+      flags.push({
+        kind: "other_cluster",
+        message: `${run.length} "other" unlocks within a week, totalling $${cents(run.reduce((s, u) => s + u.amount, 0)).toFixed(2)}`,
+        date: run[run.length - 1].date.toISOString(),
+        transactionIds: run.map((u) => u.id),
+      });
+      start = end + 1;
+    } else {
+      start++;
+    }
+  }
+
+  months.forEach((month, i) => {
+    const baseline = months.slice(Math.max(0, i - SPIKE_BASELINE_MONTHS), i);
+    if (month.key < from.format("YYYY-MM") || baseline.length < SPIKE_BASELINE_MONTHS) return;
+    const average = baseline.reduce((s, m) => s + m.total, 0) / baseline.length;
+    if (average > 0 && month.total > average * 2) {
+      flags.push({
+        kind: "monthly_spike",
+        message: `You unlocked $${month.total.toFixed(2)} in ${month.label}, more than twice your $${average.toFixed(2)} monthly average`,
+        date: dayjs(`${month.key}-01`).endOf("month").toISOString(),
+        transactionIds: [],
+      });
+    }
+  });
+
+  return flags.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+// Summarizes unlocks over the `months` calendar months ending with the one
+// containing `today`. `entries` may start earlier: older unlocks only feed
+// averages and baselines.
+export function buildUnlockInsights(entries: UnlockEntry[], months: number, today: Dayjs = dayjs()): UnlockInsights {
+  const unlocks = effectiveUnlocks(entries);
+  const from = today.startOf("month").subtract(months - 1, "month");
+  const baselineFrom = from.subtract(SPIKE_BASELINE_MONTHS, "month");
+
+  const monthList: MonthTotals[] = [];
+  for (let start = baselineFrom; !start.isAfter(today); start = start.add(1, "month")) {
+    monthList.push(emptyMonth(start));
+  }
+  const byKey = new Map(monthList.map((m) => [m.key, m]));
+
+  const reasons = new Map<string, ReasonTotal>();
+  for (const unlock of unlocks) {
+    const month = byKey.get(unlock.date.format("YYYY-MM"));
+    if (month) addToMonth(month, unlock);
+
+    if (unlock.date.isBefore(from) || unlock.date.isAfter(today.endOf("day"))) continue;
+    const total = reasons.get(unlock.reason) ?? { reason: unlock.reason, label: reasonLabel(unlock.reason), total: 0, count: 0 };
+    total.total = cents(total.total + unlock.amount);
+    total.count++;
+    reasons.set(unlock.reason, total);
+  }
+
+  const inRange = monthList.filter((m) => m.key >= from.format("YYYY-MM"));
+  const current = inRange[inRange.length - 1];
+  const previous = monthList[monthList.length - 2];
+  const byReason = [...reasons.values()].sort((a, b) => b.total - a.total);
+  const total = cents(byReason.reduce((s, r) => s + r.total, 0));
+  const count = byReason.reduce((s, r) => s + r.count, 0);
+
+  return {
+    from: from.format("YYYY-MM-DD"),
+    to: today.format("YYYY-MM-DD"),
+    total,
+    count,
+    average: count > 0 ? cents(total / count) : 0,
+    byReason,
+    months: inRange,
+    comparison: {
+      current,
+      previous,
+      reasons: UNLOCK_REASONS.map((r) => ({
+        reason: r.id,
+        label: r.label,
+        current: current.byReason[r.id] ?? 0,
+        previous: previous.byReason[r.id] ?? 0,
+      })).filter((r) => r.current > 0 || r.previous > 0),
+    },
+    flags: findFlags(unlocks, monthList, from),
+  };
+}
@@ -0,0 +1,14 @@
+export const UNLOCK_REASONS = [
+  { id: "emergency", label: "Emergency expense", description: "Unexpected medical bill, car repair, etc." },
+  { id: "education", label: "Education", description: "Books, courses, school fees" },
+  { id: "investment", label: "Investment opportunity", description: "Stocks, business, real estate" },
+  { id: "travel", label: "Travel", description: "Vacation or necessary travel" },
+  { id: "family", label: "Family needs", description: "Supporting family members" },
+  { id: "health", label: "Health & Wellness", description: "Gym membership, therapy, medical needs" },
+  { id: "goal", label: "Specific goal purchase", description: "Down payment, vehicle, equipment" },
+  { id: "other", label: "Other reason", description: "Please specify in notes" }
+];
+
+export function isUnlockReason(value: unknown): value is string {
+  return typeof value === "string" && UNLOCK_REASONS.some((reason) => reason.id === value);
+}
@@ -0,0 +1,67 @@
+// "awaiting_approval" and "rejected" only occur for children linked to a
+// guardian. An approved request moves on to "pending".
+export type UnlockRequestStatus = "awaiting_approval" | "pending" | "applied" | "cancelled" | "failed" | "rejected";
+
+export interface UnlockRequest {
+  id: string;
+  amount: number;
+  // What the child asked for; differs from amount when a guardian approved less
+  requestedAmount: number;
+  reason: string;
+  notes: string | null;
+  status: UnlockRequestStatus;
+  maturesAt: string;
+  resolvedAt: string | null;
+  failureReason: string | null;
+  guardianComment: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+}
+
+export interface UnlockRequestRow {
+  id: string;
+  amount: number | string;
+  requested_amount: number | string | null;
+  reason: string;
+  notes: string | null;
+  status: UnlockRequestStatus;
+  matures_at: string;
+  resolved_at: string | null;
+  failure_reason: string | null;
+  guardian_comment: string | null;
+  decided_at: string | null;
+  created_at: string;
+}
+
+export const REQUEST_COLUMNS =
+  "id, amount, requested_amount, reason, notes, status, matures_at, resolved_at, failure_reason, guardian_comment, decided_at, created_at";
+
+// Delays offered in settings, in hours. 0 means unlocks apply immediately.
+export const COOLING_OFF_OPTIONS = [
+  { hours: 0, label: "Instant" },
+  { hours: 24, label: "24 hours" },
+  { hours: 48, label: "2 days" },
+  { hours: 72, label: "3 days" },
+  { hours: 168, label: "1 week" },
+];
+
+export function coolingOffLabel(hours: number): string {
+  return COOLING_OFF_OPTIONS.find((o) => o.hours === hours)?.label ?? `${hours} hours`;
+}
+
+export function toUnlockRequest(row: UnlockRequestRow): UnlockRequest {
+  return {
+    id: row.id,
+    amount: Number(row.amount),
+    requestedAmount: Number(row.requested_amount ?? row.amount),
+    reason: row.reason,
+    notes: row.notes,
+    status: row.status,
+    maturesAt: row.matures_at,
+    resolvedAt: row.resolved_at,
+    failureReason: row.failure_reason,
+    guardianComment: row.guardian_comment,
+    decidedAt: row.decided_at,
+    createdAt: row.created_at,
+  };
+}
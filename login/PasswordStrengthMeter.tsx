@@ -0,0 +1,39 @@
+"use client";
+
+import { checkPasswordStrength } from "@/lib/passwordStrength";
+
+interface Props {
+  password: string;
+  email?: string;
+}
+
+const BAR_COLOURS = ["bg-red-500", "bg-orange-500", "bg-yellow-500", "bg-green-500", "bg-green-600"];
+
+export default function PasswordStrengthMeter({ password, email = "" }: Props) {
+  if (!password) return null;
+
+  const strength = checkPasswordStrength(password, email);
+  // Until the password is acceptable, say what is wrong with it rather than how to improve it
+  const notes = strength.acceptable ? strength.hints : strength.problems;
+
+  return (
+    <div className="mt-2">
+      <div className="flex gap-1 mb-1">
+        {[1, 2, 3, 4].map((step) => (
+          <div
+            key={step}
+            className={`h-1.5 flex-1 rounded-full ${step <= Math.max(strength.score, 1) ? BAR_COLOURS[strength.score] : "bg-gray-200"}`}
+          />
+        ))}
+      </div>
+      <p className={`text-xs font-medium ${strength.acceptable ? "text-gray-700" : "text-red-600"}`}>{strength.label}</p>
+      {notes.length > 0 && (
+        <ul className="mt-1 text-xs text-gray-500 list-disc list-inside">
+          {notes.map((text) => (
+            <li key={text}>{text}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,43 +1,73 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useUser } from "@supabase/auth-helpers-react";
-import { supabase } from "@/lib/supabaseClient";
 import { useRouter } from "next/navigation";
+import { AUTH_LINK_ERRORS, isAuthLinkError } from "@/lib/auth";
+import { AuthError, authClient } from "@/lib/authClient";
+import { checkPasswordStrength } from "@/lib/passwordStrength";
+import PasswordStrengthMeter from "./PasswordStrengthMeter";
+
+type Mode = "signin" | "signup" | "magic" | "forgot";
+
+const TITLES: Record<Mode, string> = {
+  signin: "Welcome Back",
+  signup: "Create Your Account",
+  magic: "Email Me a Sign-In Link",
+  forgot: "Reset Your Password",
+};
 
 export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("signin");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState("");
-  const user = useUser();
+  const [messageOk, setMessageOk] = useState(false);
+  // Set when sign-in is refused because the address hasn't been confirmed yet,
+  // or right after sign-up, so the confirmation email can be sent again
+  const [canResend, setCanResend] = useState(false);
   const router = useRouter();
 
+  const showMessage = (text: string, ok = false) => {
+    setMessage(text);
+    setMessageOk(ok);
+  };
+
+  // /auth/callback sends expired or invalid links back here with ?error=
   useEffect(() => {
-    if (user) {
-      router.push("/dashboard");
+    const error = new URLSearchParams(window.location.search).get("error");
+    if (isAuthLinkError(error)) {
+      showMessage(AUTH_LINK_ERRORS[error]);
+      setMode(error === "other_browser" ? "magic" : "signin");
     }
-  }, [user, router]);
+  }, []);
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setMessage("");
+    setCanResend(false);
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setMessage("");
+    setCanResend(false);
 
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) {
-        setMessage(error.message);
+      await authClient.signIn(email, password);
+      showMessage("Login successful! Redirecting...", true);
+      // The session cookie is set now; refresh so the server sees it
+      router.replace("/dashboard");
+      router.refresh();
+    } catch (error) {
+      if (error instanceof AuthError && error.code === "email_not_confirmed") {
+        showMessage("Please confirm your email address first. Check your inbox for the link.");
+        setCanResend(true);
       } else {
-        setMessage("Login successful! Redirecting...");
-        router.push("/dashboard");
+        showMessage(error instanceof Error ? error.message : "An error occurred during login");
       }
-    } catch (error: any) {
-      setMessage(error.message || "An error occurred during login");
     } finally {
       setLoading(false);
     }
@@ -45,27 +75,86 @@ export default function LoginPage() {
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setMessage("");
+    setCanResend(false);
+
+    const strength = checkPasswordStrength(password, email);
+    if (!strength.acceptable) {
+      showMessage(`Choose a stronger password: ${strength.problems.join(". ")}.`);
+      return;
+    }
 
+    setLoading(true);
     try {
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
+      const signedIn = await authClient.signUp(email, password, inviteCode.trim() || undefined);
 
-      if (error) {
-        setMessage(error.message);
+      if (signedIn) {
+        router.replace("/dashboard");
+        router.refresh();
       } else {
-        setMessage("Sign up successful! Check your email for confirmation.");
+        showMessage(`Sign up successful! We sent a confirmation link to ${email}.`, true);
+        setCanResend(true);
       }
-    } catch (error: any) {
-      setMessage(error.message || "An error occurred during sign up");
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : "An error occurred during sign up");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage("");
+
+    try {
+      await authClient.sendSignInLink(email);
+      showMessage(`Check your email! We sent a sign-in link to ${email}.`, true);
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : "An error occurred sending the link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setMessage("");
+
+    try {
+      await authClient.sendPasswordReset(email);
+      // Same answer whether or not the address has an account
+      showMessage(`If ${email} has an account, a password reset link is on its way.`, true);
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : "An error occurred sending the reset link");
     } finally {
       setLoading(false);
     }
   };
 
+  const handleResend = async () => {
+    setLoading(true);
+
+    try {
+      await authClient.resendConfirmation(email);
+      showMessage(`Confirmation email sent again to ${email}.`, true);
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : "An error occurred resending the email");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = { signin: handleLogin, signup: handleSignUp, magic: handleMagicLink, forgot: handleForgotPassword }[mode];
+
+  const submitLabel = {
+    signin: loading ? "Signing in..." : "Sign In",
+    signup: loading ? "Processing..." : "Create Account",
+    magic: loading ? "Sending..." : "Send Sign-In Link",
+    forgot: loading ? "Sending..." : "Send Reset Link",
+  }[mode];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center p-6">
       <div className="w-full max-w-md">
@@ -82,9 +171,9 @@ export default function LoginPage() {
 
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-          <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">Welcome Back</h2>
+          <h2 className="text-2xl font-bold text-gray-800 mb-6 text-center">{TITLES[mode]}</h2>
           
-          <form className="space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
                 Email Address
@@ -100,56 +189,110 @@ export default function LoginPage() {
               />
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800 placeholder-gray-400"
-                placeholder="Enter your password"
-                required
-              />
-            </div>
+            {(mode === "signin" || mode === "signup") && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    Password
+                  </label>
+                  {mode === "signin" && authClient.sendsEmail && (
+                    <button type="button" onClick={() => switchMode("forgot")} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                      Forgot password?
+                    </button>
+                  )}
+                </div>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800 placeholder-gray-400"
+                  placeholder={mode === "signup" ? "Choose a password" : "Enter your password"}
+                  autoComplete={mode === "signup" ? "new-password" : "current-password"}
+                  required
+                />
+                {mode === "signup" && <PasswordStrengthMeter password={password} email={email} />}
+              </div>
+            )}
+
+            {mode === "signup" && (
+              <div>
+                <label htmlFor="inviteCode" className="block text-sm font-medium text-gray-700 mb-2">
+                  Family Invite Code <span className="text-gray-400 font-normal">(optional)</span>
+                </label>
+                <input
+                  id="inviteCode"
+                  type="text"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 text-gray-800 placeholder-gray-400 uppercase"
+                  placeholder="Code from your guardian"
+                  maxLength={8}
+                />
+              </div>
+            )}
 
             {message && (
               <div className={`p-3 rounded-lg text-sm ${
-                message.includes("successful") 
+                messageOk 
                   ? "bg-green-100 text-green-700 border border-green-200" 
                   : "bg-red-100 text-red-700 border border-red-200"
               }`}>
                 {message}
+                {canResend && (
+                  <button
+                    type="button"
+                    onClick={handleResend}
+                    disabled={loading || !email}
+                    className="block mt-2 font-medium underline disabled:opacity-50"
+                  >
+                    Resend confirmation email
+                  </button>
+                )}
               </div>
             )}
 
-            <div className="space-y-3">
-              <button
-                onClick={handleLogin}
-                disabled={loading}
-                className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none shadow-md hover:shadow-lg"
-              >
-                {loading ? (
-                  <div className="flex items-center justify-center">
-                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
-                    Signing in...
-                  </div>
-                ) : (
-                  "Sign In"
-                )}
-              </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className={`w-full bg-gradient-to-r ${
+                mode === "signup"
+                  ? "from-green-600 to-green-700 hover:from-green-700 hover:to-green-800"
+                  : "from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800"
+              } text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none shadow-md hover:shadow-lg`}
+            >
+              {loading ? (
+                <div className="flex items-center justify-center">
+                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                  {submitLabel}
+                </div>
+              ) : (
+                submitLabel
+              )}
+            </button>
+          </form>
 
-              <button
-                onClick={handleSignUp}
-                disabled={loading}
-                className="w-full bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white font-medium py-3 px-4 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none shadow-md hover:shadow-lg"
-              >
-                {loading ? "Processing..." : "Create Account"}
+          <div className="mt-6 space-y-2 text-center text-sm">
+            {mode === "signin" ? (
+              <>
+                {authClient.sendsEmail && (
+                  <button type="button" onClick={() => switchMode("magic")} className="block w-full text-blue-600 hover:text-blue-700 font-medium">
+                    Email me a sign-in link instead
+                  </button>
+                )}
+                <p className="text-gray-600">
+                  New to PocketGrowth?{" "}
+                  <button type="button" onClick={() => switchMode("signup")} className="text-green-600 hover:text-green-700 font-medium">
+                    Create an account
+                  </button>
+                </p>
+              </>
+            ) : (
+              <button type="button" onClick={() => switchMode("signin")} className="text-blue-600 hover:text-blue-700 font-medium">
+                {mode === "signup" ? "Already have an account? Sign in" : "Back to sign in"}
               </button>
-            </div>
-          </form>
+            )}
+          </div>
 
           <div className="mt-6 pt-6 border-t border-gray-200">
             <p className="text-center text-sm text-gray-600">
@@ -174,4 +317,4 @@ export default function LoginPage() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "PocketGrowth",
+    short_name: "PocketGrowth",
+    description: "Smart allowance & savings tracker",
+    start_url: "/dashboard",
+    display: "standalone",
+    background_color: "#eff6ff",
+    theme_color: "#2563eb",
+    icons: [
+      { src: "/icons/192", sizes: "192x192", type: "image/png" },
+      { src: "/icons/512", sizes: "512x512", type: "image/png" },
+      { src: "/icons/512", sizes: "512x512", type: "image/png", purpose: "maskable" },
+    ],
+  };
+}
@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { isLocalBackend, LOCAL_SESSION_COOKIE, parseLocalSession } from "@/lib/session";
+
+// Refreshes the session cookies on every matched request and keeps each side
+// of the login wall to its own users: signed-out visitors cannot reach the
+// dashboard and signed-in users skip the login page.
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  // The local backend's session is a plain cookie with nothing to refresh
+  if (isLocalBackend) {
+    return guard(request, response, parseLocalSession(request.cookies.get(LOCAL_SESSION_COOKIE)?.value) !== null);
+  }
+
+  const supabase = createServerClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+      },
+    },
+  });
+
+  // getUser() checks the token with Supabase Auth rather than trusting the cookie
+  const { data: { user } } = await supabase.auth.getUser();
+  return guard(request, response, user !== null);
+}
+
+function guard(request: NextRequest, response: NextResponse, signedIn: boolean) {
+  const { pathname } = request.nextUrl;
+
+  const redirectTo = (path: string) => {
+    const url = request.nextUrl.clone();
+    url.pathname = path;
+    url.search = "";
+    const redirect = NextResponse.redirect(url);
+    // Keep any refreshed session cookies
+    response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+    return redirect;
+  };
+
+  if (!signedIn && pathname.startsWith("/dashboard")) return redirectTo("/login");
+  if (signedIn && pathname === "/login") return redirectTo("/dashboard");
+
+  return response;
+}
+
+export const config = {
+  matcher: ["/dashboard/:path*", "/login"],
+};
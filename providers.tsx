@@ -1,15 +1,20 @@
 "use client";
 
-import { SessionContextProvider } from "@supabase/auth-helpers-react";
-import { supabase } from "@/lib/supabaseClient";
-import { useState } from "react";
-
-export function Providers({ children }: { children: React.ReactNode }) {
-  const [supabaseClient] = useState(() => supabase);
-
-  return (
-    <SessionContextProvider supabaseClient={supabaseClient}>
-      {children}
-    </SessionContextProvider>
-  );
+import { useEffect } from "react";
+
+interface Props {
+  children: React.ReactNode;
+}
+
+export function Providers({ children }: Props) {
+  // Lets the dashboard open and queue entries without a connection
+  useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((err) => {
+        console.error("Error registering service worker:", err);
+      });
+    }
+  }, []);
+
+  return <>{children}</>;
 }
@@ -0,0 +1,142 @@
+-- Atomic ledger writes for allowances and unlocks.
+--
+-- The dashboard forms used to insert into `transactions` and then do a
+-- read-modify-write of `savings.locked_amount` from the browser. These
+-- functions do both writes in one transaction while holding a row lock on the
+-- user's savings row, so concurrent requests serialize instead of losing
+-- updates.
+--
+-- Clients lose direct write access to both tables, so the ledger and the
+-- locked total can only change together through these functions. They are
+-- security definer for that reason and always scope their work to auth.uid().
+
+create unique index if not exists savings_user_id_key on public.savings (user_id);
+
+revoke insert, update, delete on public.transactions from anon, authenticated;
+revoke insert, update, delete on public.savings from anon, authenticated;
+
+create or replace function public.ledger_balances(p_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  with locked as (
+    select coalesce((select locked_amount from public.savings where user_id = p_user_id), 0) as amount
+  ), totals as (
+    select
+      coalesce(sum(amount) filter (where type = 'allowance'), 0) as allowance,
+      coalesce(sum(amount) filter (where type = 'unlock'), 0) as unlocked
+    from public.transactions
+    where user_id = p_user_id
+  )
+  select jsonb_build_object(
+    'locked_amount', locked.amount,
+    'available_amount', totals.allowance - totals.unlocked - locked.amount
+  )
+  from locked, totals;
+$$;
+
+-- Inserts the savings row if needed and locks it for the rest of the
+-- transaction. Returns the current locked amount.
+create or replace function public.lock_savings_row(p_user_id uuid)
+returns numeric
+language plpgsql
+as $$
+declare
+  v_locked numeric;
+begin
+  insert into public.savings (user_id, locked_amount)
+  values (p_user_id, 0)
+  on conflict (user_id) do nothing;
+
+  select locked_amount into v_locked
+  from public.savings
+  where user_id = p_user_id
+  for update;
+
+  return v_locked;
+end;
+$$;
+
+create or replace function public.record_allowance(p_amount numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_percent numeric;
+  v_saved numeric;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  select coalesce(
+    (select savings_percent from public.user_settings where id = v_user_id),
+    20
+  ) into v_percent;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_saved := round(p_amount * v_percent / 100, 2);
+
+  insert into public.transactions (user_id, amount, type)
+  values (v_user_id, p_amount, 'allowance');
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = v_user_id;
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('saved_amount', v_saved, 'savings_percent', v_percent);
+end;
+$$;
+
+create or replace function public.record_unlock(p_amount numeric, p_reason text, p_notes text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  if p_amount > v_locked then
+    raise exception 'Cannot unlock more than the locked amount of %', v_locked
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  insert into public.transactions (user_id, amount, type, reason, notes)
+  values (v_user_id, p_amount, 'unlock', p_reason, nullif(trim(p_notes), ''));
+
+  update public.savings
+  set locked_amount = locked_amount - p_amount
+  where user_id = v_user_id;
+
+  return public.ledger_balances(v_user_id);
+end;
+$$;
+
+grant execute on function public.record_allowance(numeric) to authenticated;
+grant execute on function public.record_unlock(numeric, text, text) to authenticated;
@@ -0,0 +1,203 @@
+-- Savings goals.
+--
+-- A goal earmarks part of the locked balance. Each allowance's saved share is
+-- split across goals by their `allocation_percent`; what is left stays as
+-- unallocated locked savings. Unlocks with the "goal" reason draw from a
+-- single goal's allocation.
+--
+-- Clients edit a goal's own fields, but `allocated_amount` and
+-- `goal_allocations` follow the ledger, so only the ledger functions write
+-- them.
+
+create table if not exists public.savings_goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  target_amount numeric(12, 2) not null check (target_amount > 0),
+  deadline date,
+  icon text not null default '🎯',
+  allocation_percent numeric(5, 2) not null default 0 check (allocation_percent between 0 and 100),
+  allocated_amount numeric(12, 2) not null default 0 check (allocated_amount >= 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists savings_goals_user_id_idx on public.savings_goals (user_id);
+
+create table if not exists public.goal_allocations (
+  id uuid primary key default gen_random_uuid(),
+  goal_id uuid not null references public.savings_goals (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  transaction_id uuid references public.transactions (id) on delete set null,
+  amount numeric(12, 2) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists goal_allocations_goal_id_idx on public.goal_allocations (goal_id, created_at);
+
+alter table public.transactions
+  add column if not exists goal_id uuid references public.savings_goals (id) on delete set null;
+
+alter table public.savings_goals enable row level security;
+alter table public.goal_allocations enable row level security;
+
+create policy "Users manage their own goals" on public.savings_goals
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users read their own goal allocations" on public.goal_allocations
+  for select using (auth.uid() = user_id);
+
+revoke insert, update on public.savings_goals from anon, authenticated;
+grant insert (user_id, name, target_amount, deadline, icon, allocation_percent) on public.savings_goals to authenticated;
+grant update (name, target_amount, deadline, icon, allocation_percent) on public.savings_goals to authenticated;
+
+revoke insert, update, delete on public.goal_allocations from anon, authenticated;
+
+-- Splits a saved amount across the user's goals. Must be called with the
+-- savings row already locked.
+create or replace function public.allocate_to_goals(p_user_id uuid, p_transaction_id uuid, p_saved numeric)
+returns void
+language plpgsql
+as $$
+declare
+  v_goal record;
+  v_share numeric;
+begin
+  for v_goal in
+    select id, allocation_percent
+    from public.savings_goals
+    where user_id = p_user_id and allocation_percent > 0
+    order by created_at
+    for update
+  loop
+    v_share := round(p_saved * v_goal.allocation_percent / 100, 2);
+    continue when v_share <= 0;
+
+    update public.savings_goals
+    set allocated_amount = allocated_amount + v_share
+    where id = v_goal.id;
+
+    insert into public.goal_allocations (goal_id, user_id, transaction_id, amount)
+    values (v_goal.id, p_user_id, p_transaction_id, v_share);
+  end loop;
+end;
+$$;
+
+revoke execute on function public.allocate_to_goals(uuid, uuid, numeric) from public, anon, authenticated;
+
+create or replace function public.record_allowance(p_amount numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_percent numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  select coalesce(
+    (select savings_percent from public.user_settings where id = v_user_id),
+    20
+  ) into v_percent;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_saved := round(p_amount * v_percent / 100, 2);
+
+  insert into public.transactions (user_id, amount, type)
+  values (v_user_id, p_amount, 'allowance')
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = v_user_id;
+
+  perform public.allocate_to_goals(v_user_id, v_transaction_id, v_saved);
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('saved_amount', v_saved, 'savings_percent', v_percent);
+end;
+$$;
+
+drop function if exists public.record_unlock(numeric, text, text);
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_goal_allocated numeric;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  if p_amount > v_locked then
+    raise exception 'Cannot unlock more than the locked amount of %', v_locked
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if p_goal_id is not null then
+    select allocated_amount into v_goal_allocated
+    from public.savings_goals
+    where id = p_goal_id and user_id = v_user_id
+    for update;
+
+    if not found then
+      raise exception 'Goal not found' using errcode = '22023';
+    end if;
+
+    if p_amount > v_goal_allocated then
+      raise exception 'Cannot unlock more than the % saved for this goal', v_goal_allocated
+        using errcode = 'P0001', hint = 'insufficient_goal';
+    end if;
+
+    update public.savings_goals
+    set allocated_amount = allocated_amount - p_amount
+    where id = p_goal_id;
+  end if;
+
+  insert into public.transactions (user_id, amount, type, reason, notes, goal_id)
+  values (v_user_id, p_amount, 'unlock', p_reason, nullif(trim(p_notes), ''), p_goal_id);
+
+  update public.savings
+  set locked_amount = locked_amount - p_amount
+  where user_id = v_user_id;
+
+  return public.ledger_balances(v_user_id);
+end;
+$$;
+
+grant execute on function public.record_unlock(numeric, text, text, uuid) to authenticated;
@@ -0,0 +1,93 @@
+-- Spending.
+--
+-- "spend" transactions record money that actually left the wallet, so the
+-- available balance follows real spending. Each spend can carry a
+-- user-defined category and a merchant.
+
+create table if not exists public.spend_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  icon text not null default '🛒',
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.spend_categories enable row level security;
+
+create policy "Users manage their own spend categories" on public.spend_categories
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.transactions
+  add column if not exists category_id uuid references public.spend_categories (id) on delete set null,
+  add column if not exists merchant text;
+
+create or replace function public.ledger_balances(p_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  with locked as (
+    select coalesce((select locked_amount from public.savings where user_id = p_user_id), 0) as amount
+  ), totals as (
+    select
+      coalesce(sum(amount) filter (where type = 'allowance'), 0) as allowance,
+      coalesce(sum(amount) filter (where type = 'unlock'), 0) as unlocked,
+      coalesce(sum(amount) filter (where type = 'spend'), 0) as spent
+    from public.transactions
+    where user_id = p_user_id
+  )
+  select jsonb_build_object(
+    'locked_amount', locked.amount,
+    'available_amount', totals.allowance - totals.unlocked - totals.spent - locked.amount
+  )
+  from locked, totals;
+$$;
+
+create or replace function public.record_spend(
+  p_amount numeric,
+  p_category_id uuid default null,
+  p_merchant text default null,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_available numeric;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_category_id is not null and not exists (
+    select 1 from public.spend_categories where id = p_category_id and user_id = v_user_id
+  ) then
+    raise exception 'Category not found' using errcode = '22023';
+  end if;
+
+  -- Serializes against other ledger writes for this user
+  perform public.lock_savings_row(v_user_id);
+
+  v_available := (public.ledger_balances(v_user_id) ->> 'available_amount')::numeric;
+  if p_amount > v_available then
+    raise exception 'Cannot spend more than the available balance of %', v_available
+      using errcode = 'P0001', hint = 'insufficient_available';
+  end if;
+
+  insert into public.transactions (user_id, amount, type, category_id, merchant, notes)
+  values (v_user_id, p_amount, 'spend', p_category_id, nullif(trim(p_merchant), ''), nullif(trim(p_notes), ''));
+
+  return public.ledger_balances(v_user_id);
+end;
+$$;
+
+grant execute on function public.record_spend(numeric, uuid, text, text) to authenticated;
+grant execute on function public.ledger_balances(uuid) to authenticated;
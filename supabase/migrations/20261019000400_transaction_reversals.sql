@@ -0,0 +1,253 @@
+-- Transaction reversals.
+--
+-- Ledger rows are never edited or deleted. A mistake is corrected by a
+-- reversal: a new row of the same type with the amount negated, pointing at
+-- the original through `reverses_id`. Because sums over the ledger then net
+-- out, balances need no special casing.
+--
+-- `locked_delta` records how much each row changed `savings.locked_amount`,
+-- so a reversal knows exactly what to undo.
+--
+-- Transfers, interest and ledger adjustments are refused. Each moves locked
+-- money on the ledger's own terms, and negating one would take money out of a
+-- locked jar or locked savings without going through an unlock.
+
+alter table public.transactions
+  add column if not exists locked_delta numeric(12, 2) not null default 0,
+  add column if not exists reverses_id uuid references public.transactions (id),
+  add column if not exists locked_delta_estimated boolean not null default false;
+
+create unique index if not exists transactions_reverses_id_key
+  on public.transactions (reverses_id)
+  where reverses_id is not null;
+
+create index if not exists transactions_user_created_idx
+  on public.transactions (user_id, created_at desc);
+
+-- Existing unlocks took their full amount out of savings. Existing allowances
+-- did not record their saved share, so the user's current percent is the best
+-- available estimate, and those rows are flagged as estimated.
+update public.transactions
+set locked_delta = -amount
+where type = 'unlock' and locked_delta = 0;
+
+update public.transactions t
+set locked_delta = round(
+    t.amount * coalesce((select s.savings_percent from public.user_settings s where s.id = t.user_id), 20) / 100,
+    2
+  ),
+  locked_delta_estimated = true
+where t.type = 'allowance' and t.locked_delta = 0;
+
+create or replace function public.record_allowance(p_amount numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_percent numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  select coalesce(
+    (select savings_percent from public.user_settings where id = v_user_id),
+    20
+  ) into v_percent;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_saved := round(p_amount * v_percent / 100, 2);
+
+  insert into public.transactions (user_id, amount, type, locked_delta)
+  values (v_user_id, p_amount, 'allowance', v_saved)
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = v_user_id;
+
+  perform public.allocate_to_goals(v_user_id, v_transaction_id, v_saved);
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('saved_amount', v_saved, 'savings_percent', v_percent);
+end;
+$$;
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_goal_allocated numeric;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  if p_amount > v_locked then
+    raise exception 'Cannot unlock more than the locked amount of %', v_locked
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if p_goal_id is not null then
+    select allocated_amount into v_goal_allocated
+    from public.savings_goals
+    where id = p_goal_id and user_id = v_user_id
+    for update;
+
+    if not found then
+      raise exception 'Goal not found' using errcode = '22023';
+    end if;
+
+    if p_amount > v_goal_allocated then
+      raise exception 'Cannot unlock more than the % saved for this goal', v_goal_allocated
+        using errcode = 'P0001', hint = 'insufficient_goal';
+    end if;
+
+    update public.savings_goals
+    set allocated_amount = allocated_amount - p_amount
+    where id = p_goal_id;
+  end if;
+
+  insert into public.transactions (user_id, amount, type, reason, notes, goal_id, locked_delta)
+  values (v_user_id, p_amount, 'unlock', p_reason, nullif(trim(p_notes), ''), p_goal_id, -p_amount);
+
+  update public.savings
+  set locked_amount = locked_amount - p_amount
+  where user_id = v_user_id;
+
+  return public.ledger_balances(v_user_id);
+end;
+$$;
+
+create or replace function public.reverse_transaction(p_transaction_id uuid, p_notes text default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_original public.transactions%rowtype;
+  v_locked numeric;
+  v_available numeric;
+  v_reversal_id uuid;
+  v_allocation record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  select * into v_original
+  from public.transactions
+  where id = p_transaction_id and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Transaction not found' using errcode = '22023';
+  end if;
+
+  if v_original.reverses_id is not null then
+    raise exception 'A reversal cannot itself be reversed' using errcode = 'P0001', hint = 'is_reversal';
+  end if;
+
+  if v_original.type in ('transfer', 'interest', 'adjustment') then
+    raise exception 'This % entry cannot be reversed', v_original.type using errcode = 'P0001', hint = 'irreversible';
+  end if;
+
+  if exists (select 1 from public.transactions where reverses_id = p_transaction_id) then
+    raise exception 'This transaction has already been reversed' using errcode = 'P0001', hint = 'already_reversed';
+  end if;
+
+  -- The reversal must not push either balance below zero
+  if v_original.locked_delta > v_locked then
+    raise exception 'Only % is still locked, so this entry can no longer be reversed', v_locked
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if v_original.type = 'allowance' then
+    v_available := (public.ledger_balances(v_user_id) ->> 'available_amount')::numeric;
+    if v_original.amount - v_original.locked_delta > v_available then
+      raise exception 'Only % is available, so this allowance can no longer be reversed', v_available
+        using errcode = 'P0001', hint = 'insufficient_available';
+    end if;
+  end if;
+
+  insert into public.transactions (
+    user_id, amount, type, reason, notes, goal_id, category_id, merchant, locked_delta, reverses_id
+  )
+  values (
+    v_user_id,
+    -v_original.amount,
+    v_original.type,
+    v_original.reason,
+    coalesce(nullif(trim(p_notes), ''), 'Reversal'),
+    v_original.goal_id,
+    v_original.category_id,
+    v_original.merchant,
+    -v_original.locked_delta,
+    v_original.id
+  )
+  returning id into v_reversal_id;
+
+  update public.savings
+  set locked_amount = locked_amount - v_original.locked_delta
+  where user_id = v_user_id;
+
+  -- Undo what the original did to goal allocations
+  if v_original.type = 'allowance' then
+    for v_allocation in
+      select goal_id, amount from public.goal_allocations where transaction_id = v_original.id
+    loop
+      update public.savings_goals
+      set allocated_amount = greatest(allocated_amount - v_allocation.amount, 0)
+      where id = v_allocation.goal_id;
+
+      insert into public.goal_allocations (goal_id, user_id, transaction_id, amount)
+      values (v_allocation.goal_id, v_user_id, v_reversal_id, -v_allocation.amount);
+    end loop;
+  elsif v_original.type = 'unlock' and v_original.goal_id is not null then
+    update public.savings_goals
+    set allocated_amount = allocated_amount + v_original.amount
+    where id = v_original.goal_id;
+  end if;
+
+  return public.ledger_balances(v_user_id) || jsonb_build_object('reversal_id', v_reversal_id);
+end;
+$$;
+
+grant execute on function public.reverse_transaction(uuid, text) to authenticated;
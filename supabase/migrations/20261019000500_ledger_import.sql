@@ -0,0 +1,91 @@
+-- Ledger import.
+--
+-- Applies rows parsed from a CSV export in one transaction, oldest first.
+-- Allowances are split with the user's current savings percent exactly as
+-- record_allowance does; unlocks and spends are checked against the balances
+-- after each earlier row is applied. Any failing row aborts the import.
+
+create or replace function public.import_transactions(p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_percent numeric;
+  v_locked numeric;
+  v_available numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+  v_row record;
+  v_count integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select coalesce(
+    (select savings_percent from public.user_settings where id = v_user_id),
+    20
+  ) into v_percent;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  for v_row in
+    select *
+    from jsonb_to_recordset(p_rows) as r(line integer, type text, amount numeric, reason text, notes text, created_at timestamptz)
+    order by r.created_at, r.line
+  loop
+    if v_row.amount is null or v_row.amount <= 0 then
+      raise exception 'Line %: amount must be greater than zero', v_row.line using errcode = '22023';
+    end if;
+
+    if v_row.type = 'allowance' then
+      v_saved := round(v_row.amount * v_percent / 100, 2);
+
+      insert into public.transactions (user_id, amount, type, notes, locked_delta, created_at)
+      values (v_user_id, v_row.amount, 'allowance', nullif(trim(v_row.notes), ''), v_saved, v_row.created_at)
+      returning id into v_transaction_id;
+
+      update public.savings
+      set locked_amount = locked_amount + v_saved
+      where user_id = v_user_id
+      returning locked_amount into v_locked;
+
+      perform public.allocate_to_goals(v_user_id, v_transaction_id, v_saved);
+    elsif v_row.type = 'unlock' then
+      if v_row.amount > v_locked then
+        raise exception 'Line %: only % is locked, so this unlock cannot be applied', v_row.line, v_locked
+          using errcode = 'P0001', hint = 'insufficient_locked';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, reason, notes, locked_delta, created_at)
+      values (v_user_id, v_row.amount, 'unlock', v_row.reason, nullif(trim(v_row.notes), ''), -v_row.amount, v_row.created_at);
+
+      update public.savings
+      set locked_amount = locked_amount - v_row.amount
+      where user_id = v_user_id
+      returning locked_amount into v_locked;
+    elsif v_row.type = 'spend' then
+      v_available := (public.ledger_balances(v_user_id) ->> 'available_amount')::numeric;
+      if v_row.amount > v_available then
+        raise exception 'Line %: only % is available, so this spend cannot be applied', v_row.line, v_available
+          using errcode = 'P0001', hint = 'insufficient_available';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, notes, created_at)
+      values (v_user_id, v_row.amount, 'spend', nullif(trim(v_row.notes), ''), v_row.created_at);
+    else
+      raise exception 'Line %: unknown transaction type %', v_row.line, v_row.type using errcode = '22023';
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('imported', v_count, 'savings_percent', v_percent);
+end;
+$$;
+
+grant execute on function public.import_transactions(jsonb) to authenticated;
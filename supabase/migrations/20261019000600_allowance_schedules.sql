@@ -0,0 +1,217 @@
+-- Recurring allowance schedules.
+--
+-- A schedule describes a fixed allowance paid on a cadence. A periodic job
+-- calls post_due_allowances(), which posts every due date that has not been
+-- posted yet, so missed runs are caught up. `schedule_postings` has one row
+-- per schedule and due date, which makes posting idempotent.
+
+create table if not exists public.allowance_schedules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  cadence text not null check (cadence in ('weekly', 'biweekly', 'monthly', 'custom')),
+  interval_days integer check (interval_days between 1 and 365),
+  start_date date not null,
+  end_date date,
+  source_label text not null default 'Allowance' check (char_length(source_label) between 1 and 60),
+  created_at timestamptz not null default now(),
+  check (cadence <> 'custom' or interval_days is not null),
+  check (end_date is null or end_date >= start_date)
+);
+
+create index if not exists allowance_schedules_user_id_idx on public.allowance_schedules (user_id);
+
+create table if not exists public.schedule_postings (
+  schedule_id uuid not null references public.allowance_schedules (id) on delete cascade,
+  due_date date not null,
+  transaction_id uuid references public.transactions (id) on delete set null,
+  posted_at timestamptz not null default now(),
+  primary key (schedule_id, due_date)
+);
+
+alter table public.transactions
+  add column if not exists schedule_id uuid references public.allowance_schedules (id) on delete set null;
+
+alter table public.allowance_schedules enable row level security;
+alter table public.schedule_postings enable row level security;
+
+create policy "Users manage their own allowance schedules" on public.allowance_schedules
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Cadence, interval and start date are fixed once a schedule exists: moving
+-- them would produce due dates with no posting yet, and the next run would
+-- post them all again.
+revoke update on public.allowance_schedules from anon, authenticated;
+grant update (amount, end_date, source_label) on public.allowance_schedules to authenticated;
+
+-- A new schedule posts every due date from its start, so it cannot start in
+-- the past. A day of slack covers clients whose date is behind the database's.
+create or replace function public.check_schedule_start()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.start_date < current_date - 1 then
+    raise exception 'A schedule cannot start in the past' using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists allowance_schedules_check_start on public.allowance_schedules;
+create trigger allowance_schedules_check_start
+  before insert on public.allowance_schedules
+  for each row execute function public.check_schedule_start();
+
+create policy "Users read postings of their own schedules" on public.schedule_postings
+  for select using (
+    exists (select 1 from public.allowance_schedules s where s.id = schedule_id and s.user_id = auth.uid())
+  );
+
+-- Records an allowance for a user and locks its saved share, using the
+-- user's savings percent at the time of the call. Callers must already hold
+-- the savings row lock.
+create or replace function public.apply_allowance(
+  p_user_id uuid,
+  p_amount numeric,
+  p_created_at timestamptz default now(),
+  p_notes text default null,
+  p_schedule_id uuid default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_percent numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  select coalesce(
+    (select savings_percent from public.user_settings where id = p_user_id),
+    20
+  ) into v_percent;
+
+  v_saved := round(p_amount * v_percent / 100, 2);
+
+  insert into public.transactions (user_id, amount, type, notes, locked_delta, schedule_id, created_at)
+  values (p_user_id, p_amount, 'allowance', nullif(trim(p_notes), ''), v_saved, p_schedule_id, p_created_at)
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = p_user_id;
+
+  perform public.allocate_to_goals(p_user_id, v_transaction_id, v_saved);
+
+  return jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'saved_amount', v_saved,
+    'savings_percent', v_percent
+  );
+end;
+$$;
+
+create or replace function public.record_allowance(p_amount numeric)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_result := public.apply_allowance(v_user_id, p_amount);
+
+  return public.ledger_balances(v_user_id) || (v_result - 'transaction_id');
+end;
+$$;
+
+-- Due dates of a schedule from its start up to and including p_until.
+create or replace function public.schedule_due_dates(p_schedule public.allowance_schedules, p_until date)
+returns setof date
+language sql
+stable
+as $$
+  select due::date
+  from generate_series(0, greatest(p_until - p_schedule.start_date, -1)) as k,
+  lateral (
+    select case p_schedule.cadence
+      when 'weekly' then p_schedule.start_date + k * 7
+      when 'biweekly' then p_schedule.start_date + k * 14
+      when 'custom' then p_schedule.start_date + k * p_schedule.interval_days
+      when 'monthly' then (p_schedule.start_date + make_interval(months => k))::date
+    end as due
+  ) d
+  where due <= least(p_until, coalesce(p_schedule.end_date, p_until));
+$$;
+
+-- Posts every due, not yet posted allowance up to p_today. Runs as the
+-- table owner because the job acts for all users; only the service role may
+-- call it.
+create or replace function public.post_due_allowances(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_schedule public.allowance_schedules;
+  v_due date;
+  v_result jsonb;
+  v_count integer := 0;
+begin
+  for v_schedule in
+    select * from public.allowance_schedules
+    where start_date <= p_today
+    order by user_id, start_date
+  loop
+    perform public.lock_savings_row(v_schedule.user_id);
+
+    for v_due in
+      select d from public.schedule_due_dates(v_schedule, p_today) as d
+      where not exists (
+        select 1 from public.schedule_postings p
+        where p.schedule_id = v_schedule.id and p.due_date = d
+      )
+      order by d
+    loop
+      insert into public.schedule_postings (schedule_id, due_date)
+      values (v_schedule.id, v_due)
+      on conflict do nothing;
+
+      -- Another run got there first
+      continue when not found;
+
+      v_result := public.apply_allowance(
+        v_schedule.user_id,
+        v_schedule.amount,
+        v_due::timestamptz,
+        v_schedule.source_label,
+        v_schedule.id
+      );
+
+      update public.schedule_postings
+      set transaction_id = (v_result ->> 'transaction_id')::uuid
+      where schedule_id = v_schedule.id and due_date = v_due;
+
+      v_count := v_count + 1;
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+revoke execute on function public.post_due_allowances(date) from public, anon, authenticated;
+grant execute on function public.post_due_allowances(date) to service_role;
@@ -0,0 +1,380 @@
+-- Cooling-off period for unlocks.
+--
+-- With a delay configured, record_unlock() no longer moves money. It files a
+-- pending request that matures after the delay; until then it can be
+-- cancelled. apply_matured_unlocks() applies matured requests, either from
+-- the scheduled job or when the user next loads the dashboard. Imported
+-- unlocks cannot wait, so import_transactions() refuses them while a delay
+-- applies.
+--
+-- The request functions are security definer so that users cannot insert or
+-- edit requests directly (and so skip the wait). They always scope their work
+-- to auth.uid().
+
+alter table public.user_settings
+  add column if not exists cooling_off_hours integer not null default 0
+    check (cooling_off_hours between 0 and 720),
+  add column if not exists cooling_off_overrides jsonb not null default '{}'::jsonb;
+
+create table if not exists public.unlock_requests (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  reason text not null,
+  notes text,
+  goal_id uuid references public.savings_goals (id) on delete set null,
+  status text not null default 'pending' check (status in ('pending', 'applied', 'cancelled', 'failed')),
+  matures_at timestamptz not null,
+  resolved_at timestamptz,
+  transaction_id uuid references public.transactions (id) on delete set null,
+  failure_reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists unlock_requests_pending_idx
+  on public.unlock_requests (matures_at)
+  where status = 'pending';
+
+alter table public.unlock_requests enable row level security;
+
+create policy "Users read their own unlock requests" on public.unlock_requests
+  for select using (auth.uid() = user_id);
+
+-- Hours an unlock for p_reason must wait. A per-reason override wins over the
+-- default delay.
+create or replace function public.cooling_off_hours(p_user_id uuid, p_reason text)
+returns integer
+language sql
+stable
+as $$
+  select coalesce(
+    (select (cooling_off_overrides ->> p_reason)::integer from public.user_settings where id = p_user_id),
+    (select cooling_off_hours from public.user_settings where id = p_user_id),
+    0
+  );
+$$;
+
+-- Moves money out of locked savings. Internal: callers must validate the
+-- input and hold the savings row lock.
+create or replace function public.apply_unlock(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_notes text,
+  p_goal_id uuid
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_locked numeric;
+  v_goal_allocated numeric;
+  v_transaction_id uuid;
+begin
+  select locked_amount into v_locked from public.savings where user_id = p_user_id;
+
+  if p_amount > v_locked then
+    raise exception 'Cannot unlock more than the locked amount of %', v_locked
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if p_goal_id is not null then
+    select allocated_amount into v_goal_allocated
+    from public.savings_goals
+    where id = p_goal_id and user_id = p_user_id
+    for update;
+
+    if not found then
+      raise exception 'Goal not found' using errcode = '22023';
+    end if;
+
+    if p_amount > v_goal_allocated then
+      raise exception 'Cannot unlock more than the % saved for this goal', v_goal_allocated
+        using errcode = 'P0001', hint = 'insufficient_goal';
+    end if;
+
+    update public.savings_goals
+    set allocated_amount = allocated_amount - p_amount
+    where id = p_goal_id;
+  end if;
+
+  insert into public.transactions (user_id, amount, type, reason, notes, goal_id, locked_delta)
+  values (p_user_id, p_amount, 'unlock', p_reason, nullif(trim(p_notes), ''), p_goal_id, -p_amount)
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount - p_amount
+  where user_id = p_user_id;
+
+  return v_transaction_id;
+end;
+$$;
+
+revoke execute on function public.apply_unlock(uuid, numeric, text, text, uuid) from public, anon, authenticated;
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_pending numeric;
+  v_hours integer;
+  v_request public.unlock_requests;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+  v_hours := public.cooling_off_hours(v_user_id, p_reason);
+
+  -- Money already promised to pending requests is not available again, not
+  -- even to an unlock that needs no wait
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = v_user_id and status = 'pending';
+
+  if p_amount > v_locked - v_pending then
+    raise exception 'Cannot unlock more than the % that is locked and not already requested', v_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if v_hours = 0 then
+    perform public.apply_unlock(v_user_id, p_amount, p_reason, p_notes, p_goal_id);
+    return public.ledger_balances(v_user_id);
+  end if;
+
+  insert into public.unlock_requests (user_id, amount, reason, notes, goal_id, matures_at)
+  values (v_user_id, p_amount, p_reason, nullif(trim(p_notes), ''), p_goal_id, now() + make_interval(hours => v_hours))
+  returning * into v_request;
+
+  return public.ledger_balances(v_user_id) || jsonb_build_object('request', to_jsonb(v_request));
+end;
+$$;
+
+create or replace function public.cancel_unlock_request(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  update public.unlock_requests
+  set status = 'cancelled', resolved_at = now()
+  where id = p_request_id and user_id = auth.uid() and status = 'pending';
+
+  if not found then
+    raise exception 'Only pending requests can be cancelled' using errcode = 'P0001', hint = 'not_pending';
+  end if;
+end;
+$$;
+
+-- Applies matured requests oldest first. Signed-in users only ever apply
+-- their own; the service role (used by the scheduled job) applies everyone's.
+-- A request that no longer fits the balance is marked failed instead of
+-- aborting the run.
+create or replace function public.apply_matured_unlocks()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_request public.unlock_requests;
+  v_transaction_id uuid;
+  v_count integer := 0;
+begin
+  if v_user_id is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  for v_request in
+    select * from public.unlock_requests
+    where status = 'pending'
+      and matures_at <= now()
+      and (v_user_id is null or user_id = v_user_id)
+    order by matures_at
+  loop
+    perform public.lock_savings_row(v_request.user_id);
+
+    -- Skip requests another run resolved while we waited for the lock
+    continue when not exists (
+      select 1 from public.unlock_requests where id = v_request.id and status = 'pending' for update
+    );
+
+    begin
+      v_transaction_id := public.apply_unlock(
+        v_request.user_id, v_request.amount, v_request.reason, v_request.notes, v_request.goal_id
+      );
+
+      update public.unlock_requests
+      set status = 'applied', resolved_at = now(), transaction_id = v_transaction_id
+      where id = v_request.id;
+
+      v_count := v_count + 1;
+    exception when others then
+      update public.unlock_requests
+      set status = 'failed', resolved_at = now(), failure_reason = sqlerrm
+      where id = v_request.id;
+    end;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Raises when an imported unlock row must not move money straight away.
+-- Imports bypass record_unlock(), so they are refused while the reason has a
+-- cooling-off period; those unlocks go through the unlock form instead. Like
+-- any unlock, they cannot take money pending requests are waiting for.
+-- p_locked is the locked balance before the row and p_created_at the date
+-- the row carries. Internal: called by import_transactions() for each
+-- unlock row.
+create or replace function public.check_imported_unlock(
+  p_user_id uuid,
+  p_line integer,
+  p_amount numeric,
+  p_reason text,
+  p_locked numeric,
+  p_created_at timestamptz default now()
+)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_hours integer := public.cooling_off_hours(p_user_id, p_reason);
+  v_pending numeric;
+begin
+  if v_hours > 0 then
+    raise exception 'Line %: unlocks for this reason wait % hours, so this unlock cannot be imported', p_line, v_hours
+      using errcode = 'P0001', hint = 'cooling_off';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = p_user_id and status = 'pending';
+
+  if p_amount > p_locked - v_pending then
+    raise exception 'Line %: only % is locked and not already requested, so this unlock cannot be applied', p_line, p_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+end;
+$$;
+
+revoke execute on function public.check_imported_unlock(uuid, integer, numeric, text, numeric, timestamptz) from public, anon, authenticated;
+
+create or replace function public.import_transactions(p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_percent numeric;
+  v_locked numeric;
+  v_available numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+  v_row record;
+  v_count integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select coalesce(
+    (select savings_percent from public.user_settings where id = v_user_id),
+    20
+  ) into v_percent;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  for v_row in
+    select *
+    from jsonb_to_recordset(p_rows) as r(line integer, type text, amount numeric, reason text, notes text, created_at timestamptz)
+    order by r.created_at, r.line
+  loop
+    if v_row.amount is null or v_row.amount <= 0 then
+      raise exception 'Line %: amount must be greater than zero', v_row.line using errcode = '22023';
+    end if;
+
+    if v_row.type = 'allowance' then
+      v_saved := round(v_row.amount * v_percent / 100, 2);
+
+      insert into public.transactions (user_id, amount, type, notes, locked_delta, created_at)
+      values (v_user_id, v_row.amount, 'allowance', nullif(trim(v_row.notes), ''), v_saved, v_row.created_at)
+      returning id into v_transaction_id;
+
+      update public.savings
+      set locked_amount = locked_amount + v_saved
+      where user_id = v_user_id
+      returning locked_amount into v_locked;
+
+      perform public.allocate_to_goals(v_user_id, v_transaction_id, v_saved);
+    elsif v_row.type = 'unlock' then
+      perform public.check_imported_unlock(v_user_id, v_row.line, v_row.amount, v_row.reason, v_locked, v_row.created_at);
+
+      if v_row.amount > v_locked then
+        raise exception 'Line %: only % is locked, so this unlock cannot be applied', v_row.line, v_locked
+          using errcode = 'P0001', hint = 'insufficient_locked';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, reason, notes, locked_delta, created_at)
+      values (v_user_id, v_row.amount, 'unlock', v_row.reason, nullif(trim(v_row.notes), ''), -v_row.amount, v_row.created_at);
+
+      update public.savings
+      set locked_amount = locked_amount - v_row.amount
+      where user_id = v_user_id
+      returning locked_amount into v_locked;
+    elsif v_row.type = 'spend' then
+      v_available := (public.ledger_balances(v_user_id) ->> 'available_amount')::numeric;
+      if v_row.amount > v_available then
+        raise exception 'Line %: only % is available, so this spend cannot be applied', v_row.line, v_available
+          using errcode = 'P0001', hint = 'insufficient_available';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, notes, created_at)
+      values (v_user_id, v_row.amount, 'spend', nullif(trim(v_row.notes), ''), v_row.created_at);
+    else
+      raise exception 'Line %: unknown transaction type %', v_row.line, v_row.type using errcode = '22023';
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('imported', v_count, 'savings_percent', v_percent);
+end;
+$$;
+
+grant execute on function public.record_unlock(numeric, text, text, uuid) to authenticated;
+grant execute on function public.cancel_unlock_request(uuid) to authenticated;
+grant execute on function public.apply_matured_unlocks() to authenticated, service_role;
@@ -0,0 +1,433 @@
+-- Guardian accounts.
+--
+-- A guardian creates a single-use invite code; the child redeems it (in
+-- settings, or at sign-up through the `guardian_invite_code` metadata field)
+-- to link the two accounts. While a child has a guardian, every unlock is
+-- filed as a request awaiting approval. The guardian can approve it, approve a
+-- smaller amount, or reject it with a comment. Approved requests still respect
+-- the child's cooling-off period.
+--
+-- Guardians get read access to their linked children's ledger, and nothing
+-- else: all writes go through the security definer functions below. Children
+-- cannot write ledger rows directly either, and import_transactions() refuses
+-- their unlock rows, so the only way to unlock is a request.
+
+create table if not exists public.guardian_links (
+  guardian_id uuid not null references auth.users (id) on delete cascade,
+  child_id uuid not null references auth.users (id) on delete cascade,
+  guardian_email text,
+  child_email text,
+  created_at timestamptz not null default now(),
+  primary key (guardian_id, child_id),
+  check (guardian_id <> child_id)
+);
+
+create index if not exists guardian_links_child_id_idx on public.guardian_links (child_id);
+
+create table if not exists public.guardian_invites (
+  code text primary key,
+  guardian_id uuid not null references auth.users (id) on delete cascade,
+  expires_at timestamptz not null default now() + interval '7 days',
+  redeemed_by uuid references auth.users (id) on delete set null,
+  redeemed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table public.guardian_links enable row level security;
+alter table public.guardian_invites enable row level security;
+
+create policy "Members read their own guardian links" on public.guardian_links
+  for select using (auth.uid() in (guardian_id, child_id));
+
+create policy "Guardians read their own invites" on public.guardian_invites
+  for select using (auth.uid() = guardian_id);
+
+create or replace function public.is_guardian_of(p_child_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.guardian_links
+    where guardian_id = auth.uid() and child_id = p_child_id
+  );
+$$;
+
+create policy "Guardians read their children's transactions" on public.transactions
+  for select using (public.is_guardian_of(user_id));
+
+create policy "Guardians read their children's savings" on public.savings
+  for select using (public.is_guardian_of(user_id));
+
+create policy "Guardians read their children's goals" on public.savings_goals
+  for select using (public.is_guardian_of(user_id));
+
+create policy "Guardians read their children's unlock requests" on public.unlock_requests
+  for select using (public.is_guardian_of(user_id));
+
+alter table public.unlock_requests
+  add column if not exists requested_amount numeric(12, 2),
+  add column if not exists guardian_comment text,
+  add column if not exists decided_by uuid references auth.users (id) on delete set null,
+  add column if not exists decided_at timestamptz;
+
+alter table public.unlock_requests drop constraint if exists unlock_requests_status_check;
+alter table public.unlock_requests add constraint unlock_requests_status_check
+  check (status in ('awaiting_approval', 'pending', 'applied', 'cancelled', 'failed', 'rejected'));
+
+create or replace function public.create_guardian_invite()
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  loop
+    -- Unambiguous characters only: no 0/O or 1/I
+    select string_agg(substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::int, 1), '')
+    into v_code
+    from generate_series(1, 8);
+
+    begin
+      insert into public.guardian_invites (code, guardian_id) values (v_code, auth.uid());
+      return v_code;
+    exception when unique_violation then
+      -- try another code
+    end;
+  end loop;
+end;
+$$;
+
+-- Links p_child_id to the guardian who issued p_code. Shared by the settings
+-- form and the sign-up trigger.
+create or replace function public.link_guardian(p_child_id uuid, p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_invite public.guardian_invites;
+begin
+  select * into v_invite
+  from public.guardian_invites
+  where code = upper(trim(p_code))
+  for update;
+
+  if not found or v_invite.redeemed_at is not null or v_invite.expires_at < now() then
+    raise exception 'This invite code is invalid or has expired' using errcode = 'P0001', hint = 'invalid_invite';
+  end if;
+
+  if v_invite.guardian_id = p_child_id then
+    raise exception 'You cannot be your own guardian' using errcode = 'P0001', hint = 'invalid_invite';
+  end if;
+
+  if exists (select 1 from public.guardian_links where guardian_id = p_child_id and child_id = v_invite.guardian_id) then
+    raise exception 'Your guardian is already linked as your child' using errcode = 'P0001', hint = 'invalid_invite';
+  end if;
+
+  insert into public.guardian_links (guardian_id, child_id, guardian_email, child_email)
+  values (
+    v_invite.guardian_id,
+    p_child_id,
+    (select email from auth.users where id = v_invite.guardian_id),
+    (select email from auth.users where id = p_child_id)
+  )
+  on conflict do nothing;
+
+  update public.guardian_invites
+  set redeemed_by = p_child_id, redeemed_at = now()
+  where code = v_invite.code;
+
+  return v_invite.guardian_id;
+end;
+$$;
+
+revoke execute on function public.link_guardian(uuid, text) from public, anon, authenticated;
+
+create or replace function public.redeem_guardian_invite(p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  return public.link_guardian(auth.uid(), p_code);
+end;
+$$;
+
+create or replace function public.remove_guardian_link(p_other_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Children cannot drop their guardian to dodge approval; only the
+  -- guardian can end the link.
+  delete from public.guardian_links
+  where guardian_id = auth.uid() and child_id = p_other_id;
+
+  if not found then
+    raise exception 'Only a guardian can remove a link' using errcode = 'P0001', hint = 'not_guardian';
+  end if;
+end;
+$$;
+
+-- Redeem an invite code passed at sign-up. A bad code must not block the
+-- sign-up itself, so failures are ignored; the child can retry in settings.
+create or replace function public.handle_new_user_guardian_invite()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.raw_user_meta_data ? 'guardian_invite_code' then
+    begin
+      perform public.link_guardian(new.id, new.raw_user_meta_data ->> 'guardian_invite_code');
+    exception when others then
+      null;
+    end;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_guardian_invite on auth.users;
+create trigger on_auth_user_created_guardian_invite
+  after insert on auth.users
+  for each row execute function public.handle_new_user_guardian_invite();
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_pending numeric;
+  v_hours integer;
+  v_needs_approval boolean;
+  v_request public.unlock_requests;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+  v_hours := public.cooling_off_hours(v_user_id, p_reason);
+  v_needs_approval := exists (select 1 from public.guardian_links where child_id = v_user_id);
+
+  -- Money already promised to open requests is not available again
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = v_user_id and status in ('pending', 'awaiting_approval');
+
+  if p_amount > v_locked - v_pending then
+    raise exception 'Cannot unlock more than the % that is locked and not already requested', v_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if v_hours = 0 and not v_needs_approval then
+    perform public.apply_unlock(v_user_id, p_amount, p_reason, p_notes, p_goal_id);
+    return public.ledger_balances(v_user_id);
+  end if;
+
+  insert into public.unlock_requests (
+    user_id, amount, requested_amount, reason, notes, goal_id, status, matures_at
+  )
+  values (
+    v_user_id,
+    p_amount,
+    p_amount,
+    p_reason,
+    nullif(trim(p_notes), ''),
+    p_goal_id,
+    case when v_needs_approval then 'awaiting_approval' else 'pending' end,
+    now() + make_interval(hours => v_hours)
+  )
+  returning * into v_request;
+
+  return public.ledger_balances(v_user_id) || jsonb_build_object('request', to_jsonb(v_request));
+end;
+$$;
+
+-- A child's unlocks need their guardian's approval, which an import would
+-- skip
+create or replace function public.check_imported_unlock(
+  p_user_id uuid,
+  p_line integer,
+  p_amount numeric,
+  p_reason text,
+  p_locked numeric,
+  p_created_at timestamptz default now()
+)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_hours integer := public.cooling_off_hours(p_user_id, p_reason);
+  v_pending numeric;
+begin
+  if exists (select 1 from public.guardian_links where child_id = p_user_id) then
+    raise exception 'Line %: unlocks need your guardian''s approval, so this unlock cannot be imported', p_line
+      using errcode = 'P0001', hint = 'needs_approval';
+  end if;
+
+  if v_hours > 0 then
+    raise exception 'Line %: unlocks for this reason wait % hours, so this unlock cannot be imported', p_line, v_hours
+      using errcode = 'P0001', hint = 'cooling_off';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = p_user_id and status in ('pending', 'awaiting_approval');
+
+  if p_amount > p_locked - v_pending then
+    raise exception 'Line %: only % is locked and not already requested, so this unlock cannot be applied', p_line, p_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+end;
+$$;
+
+create or replace function public.cancel_unlock_request(p_request_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  update public.unlock_requests
+  set status = 'cancelled', resolved_at = now()
+  where id = p_request_id and user_id = auth.uid() and status in ('pending', 'awaiting_approval');
+
+  if not found then
+    raise exception 'Only open requests can be cancelled' using errcode = 'P0001', hint = 'not_pending';
+  end if;
+end;
+$$;
+
+-- A guardian's decision on a child's request. Approving with a smaller
+-- amount releases only that amount. Once approved, the request follows the
+-- normal cooling-off path and is applied here if it has already matured.
+create or replace function public.decide_unlock_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_amount numeric default null,
+  p_comment text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.unlock_requests;
+  v_amount numeric;
+  v_transaction_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  select * into v_request from public.unlock_requests where id = p_request_id;
+
+  if not found or not public.is_guardian_of(v_request.user_id) then
+    raise exception 'Request not found' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_request.user_id);
+
+  select * into v_request from public.unlock_requests where id = p_request_id for update;
+
+  if v_request.status <> 'awaiting_approval' then
+    raise exception 'This request has already been decided' using errcode = 'P0001', hint = 'already_decided';
+  end if;
+
+  if not p_approve then
+    update public.unlock_requests
+    set status = 'rejected',
+        guardian_comment = nullif(trim(p_comment), ''),
+        decided_by = auth.uid(),
+        decided_at = now(),
+        resolved_at = now()
+    where id = p_request_id
+    returning * into v_request;
+
+    return to_jsonb(v_request);
+  end if;
+
+  v_amount := coalesce(p_amount, v_request.amount);
+  if v_amount <= 0 or v_amount > v_request.amount then
+    raise exception 'Approve an amount between 0.01 and %', v_request.amount using errcode = '22023';
+  end if;
+
+  update public.unlock_requests
+  set status = 'pending',
+      amount = v_amount,
+      guardian_comment = nullif(trim(p_comment), ''),
+      decided_by = auth.uid(),
+      decided_at = now()
+  where id = p_request_id
+  returning * into v_request;
+
+  if v_request.matures_at <= now() then
+    v_transaction_id := public.apply_unlock(
+      v_request.user_id, v_request.amount, v_request.reason, v_request.notes, v_request.goal_id
+    );
+
+    update public.unlock_requests
+    set status = 'applied', resolved_at = now(), transaction_id = v_transaction_id
+    where id = p_request_id
+    returning * into v_request;
+  end if;
+
+  return to_jsonb(v_request);
+end;
+$$;
+
+grant execute on function public.create_guardian_invite() to authenticated;
+grant execute on function public.redeem_guardian_invite(text) to authenticated;
+grant execute on function public.remove_guardian_link(uuid) to authenticated;
+grant execute on function public.decide_unlock_request(uuid, boolean, numeric, text) to authenticated;
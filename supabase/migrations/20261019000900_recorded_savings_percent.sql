@@ -0,0 +1,204 @@
+-- Recorded savings percent.
+--
+-- Each allowance stores the percent that was applied and the amount saved, so
+-- history and charts no longer depend on the user's current setting.
+-- `savings_percent_history` keeps every change to user_settings.savings_percent
+-- with the time it took effect; allowances posted for an earlier date (missed
+-- schedule runs, imports) use the percent in effect on that date.
+
+alter table public.transactions
+  add column if not exists savings_percent numeric(5, 2),
+  add column if not exists saved_amount numeric(12, 2);
+
+-- Until now the saved share was only recorded as locked_delta
+update public.transactions
+set saved_amount = locked_delta,
+    savings_percent = case when amount <> 0 then round(locked_delta / amount * 100, 2) end
+where type = 'allowance' and saved_amount is null;
+
+create table if not exists public.savings_percent_history (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  savings_percent numeric(5, 2) not null check (savings_percent between 0 and 100),
+  effective_at timestamptz not null default now()
+);
+
+create index if not exists savings_percent_history_user_idx
+  on public.savings_percent_history (user_id, effective_at desc);
+
+alter table public.savings_percent_history enable row level security;
+
+create policy "Users read their own savings percent history" on public.savings_percent_history
+  for select using (auth.uid() = user_id);
+
+-- Start every existing user's history with their current setting
+insert into public.savings_percent_history (user_id, savings_percent, effective_at)
+select s.id, s.savings_percent, coalesce(s.updated_at, now())
+from public.user_settings s
+where s.savings_percent is not null
+  and not exists (select 1 from public.savings_percent_history h where h.user_id = s.id);
+
+create or replace function public.track_savings_percent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.savings_percent is distinct from old.savings_percent then
+    insert into public.savings_percent_history (user_id, savings_percent)
+    values (new.id, new.savings_percent);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_settings_track_savings_percent on public.user_settings;
+create trigger user_settings_track_savings_percent
+  after insert or update of savings_percent on public.user_settings
+  for each row execute function public.track_savings_percent();
+
+-- The percent in effect at p_at. Falls back to the current setting when the
+-- history does not reach back that far, and to the 20% default.
+create or replace function public.savings_percent_at(p_user_id uuid, p_at timestamptz default now())
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(
+    (select savings_percent from public.savings_percent_history
+     where user_id = p_user_id and effective_at <= p_at
+     order by effective_at desc
+     limit 1),
+    (select savings_percent from public.user_settings where id = p_user_id),
+    20
+  );
+$$;
+
+create or replace function public.apply_allowance(
+  p_user_id uuid,
+  p_amount numeric,
+  p_created_at timestamptz default now(),
+  p_notes text default null,
+  p_schedule_id uuid default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_percent numeric;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  v_percent := public.savings_percent_at(p_user_id, p_created_at);
+  v_saved := round(p_amount * v_percent / 100, 2);
+
+  insert into public.transactions (
+    user_id, amount, type, notes, locked_delta, savings_percent, saved_amount, schedule_id, created_at
+  )
+  values (
+    p_user_id, p_amount, 'allowance', nullif(trim(p_notes), ''), v_saved, v_percent, v_saved, p_schedule_id, p_created_at
+  )
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = p_user_id;
+
+  perform public.allocate_to_goals(p_user_id, v_transaction_id, v_saved);
+
+  return jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'saved_amount', v_saved,
+    'savings_percent', v_percent
+  );
+end;
+$$;
+
+create or replace function public.import_transactions(p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_available numeric;
+  v_row record;
+  v_count integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  for v_row in
+    select *
+    from jsonb_to_recordset(p_rows) as r(line integer, type text, amount numeric, reason text, notes text, created_at timestamptz)
+    order by r.created_at, r.line
+  loop
+    if v_row.amount is null or v_row.amount <= 0 then
+      raise exception 'Line %: amount must be greater than zero', v_row.line using errcode = '22023';
+    end if;
+
+    if v_row.type = 'allowance' then
+      perform public.apply_allowance(v_user_id, v_row.amount, v_row.created_at, v_row.notes);
+      select locked_amount into v_locked from public.savings where user_id = v_user_id;
+    elsif v_row.type = 'unlock' then
+      perform public.check_imported_unlock(v_user_id, v_row.line, v_row.amount, v_row.reason, v_locked, v_row.created_at);
+
+      if v_row.amount > v_locked then
+        raise exception 'Line %: only % is locked, so this unlock cannot be applied', v_row.line, v_locked
+          using errcode = 'P0001', hint = 'insufficient_locked';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, reason, notes, locked_delta, created_at)
+      values (v_user_id, v_row.amount, 'unlock', v_row.reason, nullif(trim(v_row.notes), ''), -v_row.amount, v_row.created_at);
+
+      update public.savings
+      set locked_amount = locked_amount - v_row.amount
+      where user_id = v_user_id
+      returning locked_amount into v_locked;
+    elsif v_row.type = 'spend' then
+      v_available := (public.ledger_balances(v_user_id) ->> 'available_amount')::numeric;
+      if v_row.amount > v_available then
+        raise exception 'Line %: only % is available, so this spend cannot be applied', v_row.line, v_available
+          using errcode = 'P0001', hint = 'insufficient_available';
+      end if;
+
+      insert into public.transactions (user_id, amount, type, notes, created_at)
+      values (v_user_id, v_row.amount, 'spend', nullif(trim(v_row.notes), ''), v_row.created_at);
+    else
+      raise exception 'Line %: unknown transaction type %', v_row.line, v_row.type using errcode = '22023';
+    end if;
+
+    v_count := v_count + 1;
+  end loop;
+
+  return public.ledger_balances(v_user_id)
+    || jsonb_build_object('imported', v_count, 'savings_percent', public.savings_percent_at(v_user_id));
+end;
+$$;
+
+-- Reversals carry the original's recorded split, negated like the amount.
+create or replace function public.copy_recorded_savings()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.reverses_id is not null and new.type = 'allowance' then
+    select o.savings_percent, -o.saved_amount
+    into new.savings_percent, new.saved_amount
+    from public.transactions o
+    where o.id = new.reverses_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_copy_recorded_savings on public.transactions;
+create trigger transactions_copy_recorded_savings
+  before insert on public.transactions
+  for each row execute function public.copy_recorded_savings();
@@ -0,0 +1,265 @@
+-- Interest on locked savings.
+--
+-- A user can set an annual rate and how often it compounds. post_interest()
+-- runs daily from the scheduled job and posts one "interest" ledger entry per
+-- elapsed period, computed on the locked balance at posting time, so missed
+-- runs are caught up and compound as they would have.
+--
+-- In guardian-paid mode a linked guardian sets the terms and is recorded as
+-- the payer of each entry; the child cannot change them. Without a guardian
+-- paying, the rate is capped at 5% a year, since nobody funds it. Settings are
+-- only written through set_interest_settings() so these rules hold, and
+-- removing a guardian link clears the terms that guardian set.
+--
+-- Monthly periods end on the day of the month the terms started (or the last
+-- day of a shorter month), so a rate set on the 31st does not drift to the
+-- 28th after February.
+
+create table if not exists public.interest_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  annual_rate numeric(5, 2) not null default 0 check (annual_rate between 0 and 100),
+  compounding text not null default 'monthly' check (compounding in ('daily', 'weekly', 'monthly')),
+  paid_by uuid references auth.users (id) on delete set null,
+  last_posted_on date not null default current_date,
+  started_on date not null default current_date,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.transactions
+  add column if not exists paid_by uuid references auth.users (id) on delete set null;
+
+alter table public.interest_settings enable row level security;
+
+create policy "Users read their own interest settings" on public.interest_settings
+  for select using (auth.uid() = user_id);
+
+create policy "Guardians read their children's interest settings" on public.interest_settings
+  for select using (public.is_guardian_of(user_id));
+
+-- Interest adds to locked savings without coming out of an allowance, so it
+-- counts as money in when working out the available balance.
+create or replace function public.ledger_balances(p_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  with locked as (
+    select coalesce((select locked_amount from public.savings where user_id = p_user_id), 0) as amount
+  ), totals as (
+    select
+      coalesce(sum(amount) filter (where type = 'allowance'), 0) as allowance,
+      coalesce(sum(amount) filter (where type = 'interest'), 0) as interest,
+      coalesce(sum(amount) filter (where type = 'unlock'), 0) as unlocked,
+      coalesce(sum(amount) filter (where type = 'spend'), 0) as spent
+    from public.transactions
+    where user_id = p_user_id
+  )
+  select jsonb_build_object(
+    'locked_amount', locked.amount,
+    'available_amount', totals.allowance + totals.interest - totals.unlocked - totals.spent - locked.amount
+  )
+  from locked, totals;
+$$;
+
+create or replace function public.set_interest_settings(
+  p_user_id uuid,
+  p_annual_rate numeric,
+  p_compounding text,
+  p_guardian_paid boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_current public.interest_settings;
+  v_is_guardian boolean;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  v_is_guardian := public.is_guardian_of(p_user_id);
+  if p_user_id <> auth.uid() and not v_is_guardian then
+    raise exception 'You can only set interest for yourself or a linked child' using errcode = '42501';
+  end if;
+
+  if p_annual_rate is null or p_annual_rate < 0 or p_annual_rate > 100 then
+    raise exception 'The annual rate must be between 0 and 100' using errcode = '22023';
+  end if;
+
+  if p_compounding not in ('daily', 'weekly', 'monthly') then
+    raise exception 'Compounding must be daily, weekly or monthly' using errcode = '22023';
+  end if;
+
+  if p_guardian_paid and not v_is_guardian then
+    raise exception 'Only a guardian can pay interest' using errcode = '22023';
+  end if;
+
+  if not p_guardian_paid and p_annual_rate > 5 then
+    raise exception 'Unless a guardian pays it, the annual rate can be at most 5%%' using errcode = '22023';
+  end if;
+
+  select * into v_current from public.interest_settings where user_id = p_user_id for update;
+
+  if found and v_current.paid_by is not null and not v_is_guardian then
+    raise exception 'Your guardian sets the interest on your savings' using errcode = 'P0001', hint = 'guardian_paid';
+  end if;
+
+  -- A new rate or compounding starts a fresh period, so the old terms are
+  -- never applied retroactively at the new rate
+  insert into public.interest_settings (user_id, annual_rate, compounding, paid_by, last_posted_on, started_on, updated_at)
+  values (
+    p_user_id,
+    p_annual_rate,
+    p_compounding,
+    case when p_guardian_paid then auth.uid() end,
+    current_date,
+    current_date,
+    now()
+  )
+  on conflict (user_id) do update
+  set annual_rate = excluded.annual_rate,
+      compounding = excluded.compounding,
+      paid_by = excluded.paid_by,
+      last_posted_on = case
+        when interest_settings.annual_rate = excluded.annual_rate
+          and interest_settings.compounding = excluded.compounding
+        then interest_settings.last_posted_on
+        else current_date
+      end,
+      started_on = case
+        when interest_settings.annual_rate = excluded.annual_rate
+          and interest_settings.compounding = excluded.compounding
+        then interest_settings.started_on
+        else current_date
+      end,
+      updated_at = now();
+end;
+$$;
+
+-- Ending a link also ends the terms that guardian paid for. The child is left
+-- with no interest and free to set their own, rather than keeping a rate
+-- nobody pays that they cannot change.
+create or replace function public.remove_guardian_link(p_other_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Children cannot drop their guardian to dodge approval; only the
+  -- guardian can end the link.
+  delete from public.guardian_links
+  where guardian_id = auth.uid() and child_id = p_other_id;
+
+  if not found then
+    raise exception 'Only a guardian can remove a link' using errcode = 'P0001', hint = 'not_guardian';
+  end if;
+
+  update public.interest_settings
+  set annual_rate = 0,
+      paid_by = null,
+      last_posted_on = current_date,
+      started_on = current_date,
+      updated_at = now()
+  where user_id = p_other_id and paid_by = auth.uid();
+end;
+$$;
+
+-- The day the period starting on p_from ends. Monthly periods are counted
+-- from p_started_on rather than stepped from p_from, so clamping to the end of
+-- a short month does not carry into the months after it.
+create or replace function public.next_interest_date(p_started_on date, p_from date, p_compounding text)
+returns date
+language plpgsql
+immutable
+as $$
+declare
+  v_months integer;
+begin
+  if p_compounding = 'daily' then
+    return p_from + 1;
+  elsif p_compounding = 'weekly' then
+    return p_from + 7;
+  end if;
+
+  v_months := (extract(year from p_from) - extract(year from p_started_on)) * 12
+    + extract(month from p_from) - extract(month from p_started_on);
+  if (p_started_on + make_interval(months => v_months))::date <= p_from then
+    v_months := v_months + 1;
+  end if;
+  return (p_started_on + make_interval(months => v_months))::date;
+end;
+$$;
+
+-- Posts interest for every period that ended on or before p_today. Runs as
+-- the table owner because the job acts for all users; only the service role
+-- may call it.
+create or replace function public.post_interest(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings public.interest_settings;
+  v_locked numeric;
+  v_next date;
+  v_periods integer;
+  v_interest numeric;
+  v_count integer := 0;
+begin
+  for v_settings in
+    select * from public.interest_settings
+    where annual_rate > 0
+    order by user_id
+  loop
+    v_locked := public.lock_savings_row(v_settings.user_id);
+
+    -- Re-read under the lock in case another run already posted
+    select * into v_settings from public.interest_settings where user_id = v_settings.user_id for update;
+
+    v_periods := case v_settings.compounding when 'daily' then 365 when 'weekly' then 52 else 12 end;
+    v_next := public.next_interest_date(v_settings.started_on, v_settings.last_posted_on, v_settings.compounding);
+
+    while v_next <= p_today loop
+      v_interest := round(v_locked * v_settings.annual_rate / 100 / v_periods, 2);
+
+      if v_interest > 0 then
+        insert into public.transactions (user_id, amount, type, notes, locked_delta, paid_by, created_at)
+        values (
+          v_settings.user_id,
+          v_interest,
+          'interest',
+          format('%s%% a year, compounded %s', v_settings.annual_rate, v_settings.compounding),
+          v_interest,
+          v_settings.paid_by,
+          v_next::timestamptz
+        );
+
+        update public.savings
+        set locked_amount = locked_amount + v_interest
+        where user_id = v_settings.user_id
+        returning locked_amount into v_locked;
+
+        v_count := v_count + 1;
+      end if;
+
+      update public.interest_settings set last_posted_on = v_next where user_id = v_settings.user_id;
+      v_next := public.next_interest_date(v_settings.started_on, v_next, v_settings.compounding);
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+grant execute on function public.set_interest_settings(uuid, numeric, text, boolean) to authenticated;
+revoke execute on function public.post_interest(date) from public, anon, authenticated;
+grant execute on function public.post_interest(date) to service_role;
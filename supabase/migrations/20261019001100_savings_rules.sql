@@ -0,0 +1,229 @@
+-- Savings rules.
+--
+-- Rules replace the single savings percent with an ordered list. The first
+-- matching percent rule (per income source, tiered, windfall) sets the base
+-- amount saved from a deposit; minimum and round-up rules then top it up.
+-- Deposits no percent rule matches fall back to the savings percent, so users
+-- without rules see no change.
+--
+-- Each allowance stores the resulting split in `savings_breakdown`, one part
+-- per rule with the label shown to the user. lib/savingsRules.ts mirrors
+-- evaluate_savings_rules() for previews.
+
+create table if not exists public.savings_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position integer not null,
+  kind text not null check (kind in ('source_percent', 'tiered', 'windfall', 'minimum', 'round_up')),
+  source text,
+  percent numeric(5, 2) check (percent between 0 and 100),
+  threshold numeric(12, 2) check (threshold >= 0),
+  amount numeric(12, 2) check (amount > 0),
+  tiers jsonb,
+  created_at timestamptz not null default now(),
+  check (kind <> 'source_percent' or (source is not null and percent is not null)),
+  check (kind <> 'windfall' or (threshold is not null and percent is not null)),
+  check (kind <> 'minimum' or amount is not null),
+  check (kind <> 'tiered' or jsonb_typeof(tiers) = 'array')
+);
+
+create index if not exists savings_rules_user_position_idx on public.savings_rules (user_id, position);
+
+alter table public.savings_rules enable row level security;
+
+create policy "Users manage their own savings rules" on public.savings_rules
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.transactions
+  add column if not exists savings_breakdown jsonb;
+
+create or replace function public.describe_savings_rule(p_rule public.savings_rules)
+returns text
+language sql
+immutable
+as $$
+  select case p_rule.kind
+    when 'source_percent' then format('%s%% of %s', trim_scale(p_rule.percent), p_rule.source)
+    when 'windfall' then format('%s%% of deposits over $%s', trim_scale(p_rule.percent), trim_scale(p_rule.threshold))
+    when 'minimum' then format('At least $%s', to_char(p_rule.amount, 'FM999999990.00'))
+    when 'round_up' then 'Round up to the next dollar'
+    when 'tiered' then (
+      select string_agg(
+        case when tier ->> 'up_to' is null
+          then format('%s%% of the rest', tier ->> 'percent')
+          else format('%s%% up to $%s', tier ->> 'percent', tier ->> 'up_to')
+        end,
+        ', ' order by ordinality
+      )
+      from jsonb_array_elements(p_rule.tiers) with ordinality as t (tier, ordinality)
+    )
+  end;
+$$;
+
+-- Splits a deposit into saved parts. Returns
+-- {saved_amount, savings_percent, parts: [{rule_id, label, amount}]}.
+create or replace function public.evaluate_savings_rules(
+  p_user_id uuid,
+  p_amount numeric,
+  p_source text,
+  p_fallback_percent numeric
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_rule public.savings_rules;
+  v_tier jsonb;
+  v_lower numeric;
+  v_upper numeric;
+  v_base numeric;
+  v_extra numeric;
+  v_saved numeric;
+  v_parts jsonb := '[]'::jsonb;
+begin
+  for v_rule in
+    select * from public.savings_rules
+    where user_id = p_user_id and kind in ('source_percent', 'tiered', 'windfall')
+    order by position
+  loop
+    v_base := null;
+
+    if v_rule.kind = 'source_percent' and v_rule.source = p_source then
+      v_base := p_amount * v_rule.percent / 100;
+    elsif v_rule.kind = 'windfall' and p_amount > v_rule.threshold then
+      v_base := p_amount * v_rule.percent / 100;
+    elsif v_rule.kind = 'tiered' then
+      v_base := 0;
+      v_lower := 0;
+      for v_tier in select value from jsonb_array_elements(v_rule.tiers) loop
+        v_upper := coalesce((v_tier ->> 'up_to')::numeric, p_amount);
+        if p_amount > v_lower then
+          v_base := v_base + (least(p_amount, v_upper) - v_lower) * (v_tier ->> 'percent')::numeric / 100;
+        end if;
+        v_lower := v_upper;
+      end loop;
+    end if;
+
+    if v_base is not null then
+      v_saved := round(v_base, 2);
+      v_parts := v_parts || jsonb_build_object(
+        'rule_id', v_rule.id, 'label', public.describe_savings_rule(v_rule), 'amount', v_saved
+      );
+      exit;
+    end if;
+  end loop;
+
+  if v_saved is null then
+    v_saved := round(p_amount * p_fallback_percent / 100, 2);
+    v_parts := jsonb_build_array(jsonb_build_object(
+      'rule_id', null, 'label', format('%s%% savings percentage', trim_scale(p_fallback_percent)), 'amount', v_saved
+    ));
+  end if;
+
+  for v_rule in
+    select * from public.savings_rules
+    where user_id = p_user_id and kind in ('minimum', 'round_up')
+    order by position
+  loop
+    if v_rule.kind = 'minimum' then
+      v_extra := greatest(least(v_rule.amount, p_amount) - v_saved, 0);
+    else
+      v_extra := greatest(least(ceil(v_saved), p_amount) - v_saved, 0);
+    end if;
+
+    v_extra := round(v_extra, 2);
+    if v_extra > 0 then
+      v_saved := v_saved + v_extra;
+      v_parts := v_parts || jsonb_build_object(
+        'rule_id', v_rule.id, 'label', public.describe_savings_rule(v_rule), 'amount', v_extra
+      );
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'saved_amount', v_saved,
+    'savings_percent', case when p_amount > 0 then round(v_saved / p_amount * 100, 2) else 0 end,
+    'parts', v_parts
+  );
+end;
+$$;
+
+-- Replaces the caller's rules with p_rules, in order, in one transaction.
+create or replace function public.replace_savings_rules(p_rules jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  delete from public.savings_rules where user_id = v_user_id;
+
+  insert into public.savings_rules (user_id, position, kind, source, percent, threshold, amount, tiers)
+  select v_user_id, r.ordinality, r.value ->> 'kind', r.value ->> 'source',
+    (r.value ->> 'percent')::numeric, (r.value ->> 'threshold')::numeric,
+    (r.value ->> 'amount')::numeric, r.value -> 'tiers'
+  from jsonb_array_elements(p_rules) with ordinality as r;
+end;
+$$;
+
+-- apply_allowance gains the income source; drop the old signature so callers
+-- do not resolve to it.
+drop function if exists public.apply_allowance(uuid, numeric, timestamptz, text, uuid);
+
+create or replace function public.apply_allowance(
+  p_user_id uuid,
+  p_amount numeric,
+  p_created_at timestamptz default now(),
+  p_notes text default null,
+  p_schedule_id uuid default null,
+  p_source text default 'allowance'
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_split jsonb;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  v_split := public.evaluate_savings_rules(
+    p_user_id, p_amount, p_source, public.savings_percent_at(p_user_id, p_created_at)
+  );
+  v_saved := (v_split ->> 'saved_amount')::numeric;
+
+  insert into public.transactions (
+    user_id, amount, type, notes, locked_delta, savings_percent, saved_amount, savings_breakdown, schedule_id, created_at
+  )
+  values (
+    p_user_id,
+    p_amount,
+    'allowance',
+    nullif(trim(p_notes), ''),
+    v_saved,
+    (v_split ->> 'savings_percent')::numeric,
+    v_saved,
+    v_split -> 'parts',
+    p_schedule_id,
+    p_created_at
+  )
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = p_user_id;
+
+  perform public.allocate_to_goals(p_user_id, v_transaction_id, v_saved);
+
+  return (v_split - 'parts') || jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'breakdown', v_split -> 'parts'
+  );
+end;
+$$;
+
+grant execute on function public.replace_savings_rules(jsonb) to authenticated;
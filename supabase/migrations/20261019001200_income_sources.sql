@@ -0,0 +1,468 @@
+-- Income sources.
+--
+-- Users keep their own list of where money comes from (allowance, chores,
+-- gifts, a job, ...). Every allowance-type deposit points at one, as do
+-- recurring schedules and per-source savings rules. Each user starts with
+-- four defaults, created the first time they are needed; deposits that do
+-- not name a source are filed under "Allowance".
+
+create table if not exists public.income_sources (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists income_sources_user_name_key
+  on public.income_sources (user_id, lower(name));
+
+alter table public.income_sources enable row level security;
+
+create policy "Users manage their own income sources" on public.income_sources
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Guardians read their children's income sources" on public.income_sources
+  for select using (public.is_guardian_of(user_id));
+
+create or replace function public.ensure_income_sources(p_user_id uuid)
+returns void
+language plpgsql
+as $$
+begin
+  if not exists (select 1 from public.income_sources where user_id = p_user_id) then
+    insert into public.income_sources (user_id, name)
+    select p_user_id, name
+    from unnest(array['Allowance', 'Chores', 'Gifts', 'Job']) with ordinality as d (name, position)
+    order by position
+    on conflict do nothing;
+  end if;
+end;
+$$;
+
+-- The source deposits fall back to: "Allowance" if the user still has it,
+-- otherwise their oldest source.
+create or replace function public.default_income_source(p_user_id uuid)
+returns uuid
+language plpgsql
+as $$
+declare
+  v_id uuid;
+begin
+  perform public.ensure_income_sources(p_user_id);
+
+  select id into v_id
+  from public.income_sources
+  where user_id = p_user_id
+  order by lower(name) = 'allowance' desc, created_at
+  limit 1;
+
+  return v_id;
+end;
+$$;
+
+alter table public.transactions
+  add column if not exists income_source_id uuid references public.income_sources (id) on delete set null;
+
+create index if not exists transactions_income_source_idx
+  on public.transactions (income_source_id)
+  where income_source_id is not null;
+
+alter table public.allowance_schedules
+  add column if not exists income_source_id uuid references public.income_sources (id) on delete set null;
+
+grant update (income_source_id) on public.allowance_schedules to authenticated;
+
+-- Existing users get the defaults, and their allowances land under
+-- "Allowance"
+select public.ensure_income_sources(user_id)
+from (
+  select user_id from public.transactions
+  union
+  select user_id from public.allowance_schedules
+  union
+  select user_id from public.savings_rules
+) as users;
+
+update public.transactions t
+set income_source_id = s.id
+from public.income_sources s
+where t.type = 'allowance'
+  and t.income_source_id is null
+  and s.user_id = t.user_id
+  and lower(s.name) = 'allowance';
+
+-- Savings rules now point at a source row instead of a fixed name
+alter table public.savings_rules
+  add column if not exists source_id uuid references public.income_sources (id) on delete cascade;
+
+update public.savings_rules r
+set source_id = s.id
+from public.income_sources s
+where r.kind = 'source_percent'
+  and s.user_id = r.user_id
+  and lower(s.name) = r.source;
+
+delete from public.savings_rules where kind = 'source_percent' and source_id is null;
+
+do $$
+declare
+  v_constraint text;
+begin
+  for v_constraint in
+    select conname from pg_constraint
+    where conrelid = 'public.savings_rules'::regclass
+      and contype = 'c'
+      and pg_get_constraintdef(oid) like '%source_percent%'
+  loop
+    execute format('alter table public.savings_rules drop constraint %I', v_constraint);
+  end loop;
+end;
+$$;
+
+alter table public.savings_rules drop column if exists source;
+alter table public.savings_rules
+  add constraint savings_rules_source_percent_check
+  check (kind <> 'source_percent' or (source_id is not null and percent is not null));
+
+create or replace function public.describe_savings_rule(p_rule public.savings_rules)
+returns text
+language sql
+stable
+as $$
+  select case p_rule.kind
+    when 'source_percent' then format(
+      '%s%% of %s',
+      trim_scale(p_rule.percent),
+      (select lower(name) from public.income_sources where id = p_rule.source_id)
+    )
+    when 'windfall' then format('%s%% of deposits over $%s', trim_scale(p_rule.percent), trim_scale(p_rule.threshold))
+    when 'minimum' then format('At least $%s', to_char(p_rule.amount, 'FM999999990.00'))
+    when 'round_up' then 'Round up to the next dollar'
+    when 'tiered' then (
+      select string_agg(
+        case when tier ->> 'up_to' is null
+          then format('%s%% of the rest', tier ->> 'percent')
+          else format('%s%% up to $%s', tier ->> 'percent', tier ->> 'up_to')
+        end,
+        ', ' order by ordinality
+      )
+      from jsonb_array_elements(p_rule.tiers) with ordinality as t (tier, ordinality)
+    )
+  end;
+$$;
+
+drop function if exists public.evaluate_savings_rules(uuid, numeric, text, numeric);
+
+create or replace function public.evaluate_savings_rules(
+  p_user_id uuid,
+  p_amount numeric,
+  p_source_id uuid,
+  p_fallback_percent numeric
+)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_rule public.savings_rules;
+  v_tier jsonb;
+  v_lower numeric;
+  v_upper numeric;
+  v_base numeric;
+  v_extra numeric;
+  v_saved numeric;
+  v_parts jsonb := '[]'::jsonb;
+begin
+  for v_rule in
+    select * from public.savings_rules
+    where user_id = p_user_id and kind in ('source_percent', 'tiered', 'windfall')
+    order by position
+  loop
+    v_base := null;
+
+    if v_rule.kind = 'source_percent' and v_rule.source_id = p_source_id then
+      v_base := p_amount * v_rule.percent / 100;
+    elsif v_rule.kind = 'windfall' and p_amount > v_rule.threshold then
+      v_base := p_amount * v_rule.percent / 100;
+    elsif v_rule.kind = 'tiered' then
+      v_base := 0;
+      v_lower := 0;
+      for v_tier in select value from jsonb_array_elements(v_rule.tiers) loop
+        v_upper := coalesce((v_tier ->> 'up_to')::numeric, p_amount);
+        if p_amount > v_lower then
+          v_base := v_base + (least(p_amount, v_upper) - v_lower) * (v_tier ->> 'percent')::numeric / 100;
+        end if;
+        v_lower := v_upper;
+      end loop;
+    end if;
+
+    if v_base is not null then
+      v_saved := round(v_base, 2);
+      v_parts := v_parts || jsonb_build_object(
+        'rule_id', v_rule.id, 'label', public.describe_savings_rule(v_rule), 'amount', v_saved
+      );
+      exit;
+    end if;
+  end loop;
+
+  if v_saved is null then
+    v_saved := round(p_amount * p_fallback_percent / 100, 2);
+    v_parts := jsonb_build_array(jsonb_build_object(
+      'rule_id', null, 'label', format('%s%% savings percentage', trim_scale(p_fallback_percent)), 'amount', v_saved
+    ));
+  end if;
+
+  for v_rule in
+    select * from public.savings_rules
+    where user_id = p_user_id and kind in ('minimum', 'round_up')
+    order by position
+  loop
+    if v_rule.kind = 'minimum' then
+      v_extra := greatest(least(v_rule.amount, p_amount) - v_saved, 0);
+    else
+      v_extra := greatest(least(ceil(v_saved), p_amount) - v_saved, 0);
+    end if;
+
+    v_extra := round(v_extra, 2);
+    if v_extra > 0 then
+      v_saved := v_saved + v_extra;
+      v_parts := v_parts || jsonb_build_object(
+        'rule_id', v_rule.id, 'label', public.describe_savings_rule(v_rule), 'amount', v_extra
+      );
+    end if;
+  end loop;
+
+  return jsonb_build_object(
+    'saved_amount', v_saved,
+    'savings_percent', case when p_amount > 0 then round(v_saved / p_amount * 100, 2) else 0 end,
+    'parts', v_parts
+  );
+end;
+$$;
+
+create or replace function public.replace_savings_rules(p_rules jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  delete from public.savings_rules where user_id = v_user_id;
+
+  insert into public.savings_rules (user_id, position, kind, source_id, percent, threshold, amount, tiers)
+  select v_user_id, r.ordinality, r.value ->> 'kind', (r.value ->> 'source_id')::uuid,
+    (r.value ->> 'percent')::numeric, (r.value ->> 'threshold')::numeric,
+    (r.value ->> 'amount')::numeric, r.value -> 'tiers'
+  from jsonb_array_elements(p_rules) with ordinality as r;
+
+  if exists (
+    select 1 from public.savings_rules r
+    where r.user_id = v_user_id
+      and r.source_id is not null
+      and not exists (select 1 from public.income_sources s where s.id = r.source_id and s.user_id = v_user_id)
+  ) then
+    raise exception 'Income source not found' using errcode = '22023';
+  end if;
+end;
+$$;
+
+drop function if exists public.apply_allowance(uuid, numeric, timestamptz, text, uuid, text);
+
+create or replace function public.apply_allowance(
+  p_user_id uuid,
+  p_amount numeric,
+  p_created_at timestamptz default now(),
+  p_notes text default null,
+  p_schedule_id uuid default null,
+  p_source_id uuid default null
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  -- Sources belonging to someone else are ignored rather than recorded
+  v_source_id uuid := coalesce(
+    (select id from public.income_sources where id = p_source_id and user_id = p_user_id),
+    public.default_income_source(p_user_id)
+  );
+  v_split jsonb;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  v_split := public.evaluate_savings_rules(
+    p_user_id, p_amount, v_source_id, public.savings_percent_at(p_user_id, p_created_at)
+  );
+  v_saved := (v_split ->> 'saved_amount')::numeric;
+
+  insert into public.transactions (
+    user_id, amount, type, notes, locked_delta, savings_percent, saved_amount, savings_breakdown,
+    schedule_id, income_source_id, created_at
+  )
+  values (
+    p_user_id,
+    p_amount,
+    'allowance',
+    nullif(trim(p_notes), ''),
+    v_saved,
+    (v_split ->> 'savings_percent')::numeric,
+    v_saved,
+    v_split -> 'parts',
+    p_schedule_id,
+    v_source_id,
+    p_created_at
+  )
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = p_user_id;
+
+  perform public.allocate_to_goals(p_user_id, v_transaction_id, v_saved);
+
+  return (v_split - 'parts') || jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'breakdown', v_split -> 'parts'
+  );
+end;
+$$;
+
+drop function if exists public.record_allowance(numeric);
+
+create or replace function public.record_allowance(p_amount numeric, p_source_id uuid default null)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_source_id is not null
+    and not exists (select 1 from public.income_sources where id = p_source_id and user_id = v_user_id) then
+    raise exception 'Income source not found' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_result := public.apply_allowance(v_user_id, p_amount, p_source_id => p_source_id);
+
+  return public.ledger_balances(v_user_id) || (v_result - 'transaction_id');
+end;
+$$;
+
+create or replace function public.post_due_allowances(p_today date default current_date)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_schedule public.allowance_schedules;
+  v_due date;
+  v_result jsonb;
+  v_count integer := 0;
+begin
+  for v_schedule in
+    select * from public.allowance_schedules
+    where start_date <= p_today
+    order by user_id, start_date
+  loop
+    perform public.lock_savings_row(v_schedule.user_id);
+
+    for v_due in
+      select d from public.schedule_due_dates(v_schedule, p_today) as d
+      where not exists (
+        select 1 from public.schedule_postings p
+        where p.schedule_id = v_schedule.id and p.due_date = d
+      )
+      order by d
+    loop
+      insert into public.schedule_postings (schedule_id, due_date)
+      values (v_schedule.id, v_due)
+      on conflict do nothing;
+
+      -- Another run got there first
+      continue when not found;
+
+      v_result := public.apply_allowance(
+        v_schedule.user_id,
+        v_schedule.amount,
+        v_due::timestamptz,
+        v_schedule.source_label,
+        v_schedule.id,
+        v_schedule.income_source_id
+      );
+
+      update public.schedule_postings
+      set transaction_id = (v_result ->> 'transaction_id')::uuid
+      where schedule_id = v_schedule.id and due_date = v_due;
+
+      v_count := v_count + 1;
+    end loop;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Reversals also keep the original's income source, so per-source totals net
+-- out.
+create or replace function public.copy_recorded_savings()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.reverses_id is not null and new.type = 'allowance' then
+    select o.savings_percent, -o.saved_amount, o.income_source_id
+    into new.savings_percent, new.saved_amount, new.income_source_id
+    from public.transactions o
+    where o.id = new.reverses_id;
+  end if;
+  return new;
+end;
+$$;
+
+-- Income per source between p_from and p_to, including sources with nothing
+-- received. Deposits without a source are reported with a null id.
+create or replace function public.income_by_source(p_from timestamptz, p_to timestamptz)
+returns table (source_id uuid, name text, total numeric, deposits bigint)
+language sql
+stable
+as $$
+  with income as (
+    select income_source_id, amount, reverses_id
+    from public.transactions
+    where user_id = auth.uid()
+      and type = 'allowance'
+      and created_at >= p_from
+      and created_at < p_to
+  )
+  select s.id, s.name, coalesce(sum(i.amount), 0), count(i.amount) filter (where i.reverses_id is null)
+  from public.income_sources s
+  left join income i on i.income_source_id = s.id
+  where s.user_id = auth.uid()
+  group by s.id, s.name, s.created_at
+  union all
+  select null, null, sum(amount), count(*) filter (where reverses_id is null)
+  from income
+  where income_source_id is null
+  having count(*) > 0
+  order by 3 desc;
+$$;
+
+grant execute on function public.record_allowance(numeric, uuid) to authenticated;
+grant execute on function public.ensure_income_sources(uuid) to authenticated;
+grant execute on function public.income_by_source(timestamptz, timestamptz) to authenticated;
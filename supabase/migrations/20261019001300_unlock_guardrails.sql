@@ -0,0 +1,231 @@
+-- Unlock guardrails.
+--
+-- Limits a user sets on themselves, stored with their settings: a maximum
+-- per unlock, a maximum per calendar month, a balance that must stay locked,
+-- and reasons that are always refused or always let through. Unlocks for an
+-- always-allowed reason skip the limits (but not the locked balance itself).
+--
+-- record_unlock() checks them before moving money or filing a request, and
+-- the error names the rule that refused the unlock. import_transactions()
+-- checks each imported unlock the same way, with the monthly limit applied
+-- to the month the entry is dated in. lib/unlockGuardrails.ts
+-- mirrors check_unlock_guardrails() so the form can warn first.
+
+alter table public.user_settings
+  add column if not exists max_unlock_per_transaction numeric(12, 2)
+    check (max_unlock_per_transaction > 0),
+  add column if not exists max_unlock_per_month numeric(12, 2)
+    check (max_unlock_per_month > 0),
+  add column if not exists min_locked_balance numeric(12, 2) not null default 0
+    check (min_locked_balance >= 0),
+  add column if not exists blocked_unlock_reasons text[] not null default '{}',
+  add column if not exists always_allowed_unlock_reasons text[] not null default '{}';
+
+alter table public.user_settings
+  add constraint user_settings_unlock_reasons_check
+  check (not (blocked_unlock_reasons && always_allowed_unlock_reasons));
+
+-- Unlocked in the calendar month of p_at (this month by default), net of
+-- reversals, plus open requests filed that month. Backdated imports pass
+-- their own date, so they count against the month they belong to.
+create or replace function public.unlocked_this_month(p_user_id uuid, p_at timestamptz default now())
+returns numeric
+language sql
+stable
+as $$
+  select coalesce((
+    select sum(amount) from public.transactions
+    where user_id = p_user_id
+      and type = 'unlock'
+      and created_at >= date_trunc('month', p_at)
+      and created_at < date_trunc('month', p_at) + interval '1 month'
+  ), 0) + coalesce((
+    select sum(amount) from public.unlock_requests
+    where user_id = p_user_id
+      and status in ('pending', 'awaiting_approval')
+      and created_at >= date_trunc('month', p_at)
+      and created_at < date_trunc('month', p_at) + interval '1 month'
+  ), 0);
+$$;
+
+-- Raises when an unlock of p_amount for p_reason breaks one of the user's
+-- guardrails. p_available is what is locked and not already requested, and
+-- p_at when the unlock happens, which picks the month for the monthly limit.
+create or replace function public.check_unlock_guardrails(
+  p_user_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_available numeric,
+  p_at timestamptz default now()
+)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_settings public.user_settings;
+  v_month numeric;
+begin
+  select * into v_settings from public.user_settings where id = p_user_id;
+  if not found then
+    return;
+  end if;
+
+  if p_reason = any (v_settings.blocked_unlock_reasons) then
+    raise exception 'Your "Blocked reasons" guardrail does not allow unlocks for this reason'
+      using errcode = 'P0001', hint = 'guardrail_blocked_reason';
+  end if;
+
+  if p_reason = any (v_settings.always_allowed_unlock_reasons) then
+    return;
+  end if;
+
+  if v_settings.max_unlock_per_transaction is not null and p_amount > v_settings.max_unlock_per_transaction then
+    raise exception 'Your "Maximum per unlock" guardrail allows at most $% per unlock',
+      to_char(v_settings.max_unlock_per_transaction, 'FM999999990.00')
+      using errcode = 'P0001', hint = 'guardrail_max_per_transaction';
+  end if;
+
+  if v_settings.max_unlock_per_month is not null then
+    v_month := public.unlocked_this_month(p_user_id, p_at);
+    if v_month + p_amount > v_settings.max_unlock_per_month then
+      raise exception 'Your "Maximum per month" guardrail allows $% a month and $% is already unlocked or requested',
+        to_char(v_settings.max_unlock_per_month, 'FM999999990.00'),
+        to_char(v_month, 'FM999999990.00')
+        using errcode = 'P0001', hint = 'guardrail_max_per_month';
+    end if;
+  end if;
+
+  if v_settings.min_locked_balance > 0 and p_available - p_amount < v_settings.min_locked_balance then
+    raise exception 'Your "Minimum locked balance" guardrail keeps $% locked',
+      to_char(v_settings.min_locked_balance, 'FM999999990.00')
+      using errcode = 'P0001', hint = 'guardrail_min_locked';
+  end if;
+end;
+$$;
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_pending numeric;
+  v_hours integer;
+  v_needs_approval boolean;
+  v_request public.unlock_requests;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  -- Money already promised to open requests is not available again
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = v_user_id and status in ('pending', 'awaiting_approval');
+
+  perform public.check_unlock_guardrails(v_user_id, p_amount, p_reason, v_locked - v_pending);
+
+  v_hours := public.cooling_off_hours(v_user_id, p_reason);
+  v_needs_approval := exists (select 1 from public.guardian_links where child_id = v_user_id);
+
+  if p_amount > v_locked - v_pending then
+    raise exception 'Cannot unlock more than the % that is locked and not already requested', v_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if v_hours = 0 and not v_needs_approval then
+    perform public.apply_unlock(v_user_id, p_amount, p_reason, p_notes, p_goal_id);
+    return public.ledger_balances(v_user_id);
+  end if;
+
+  insert into public.unlock_requests (
+    user_id, amount, requested_amount, reason, notes, goal_id, status, matures_at
+  )
+  values (
+    v_user_id,
+    p_amount,
+    p_amount,
+    p_reason,
+    nullif(trim(p_notes), ''),
+    p_goal_id,
+    case when v_needs_approval then 'awaiting_approval' else 'pending' end,
+    now() + make_interval(hours => v_hours)
+  )
+  returning * into v_request;
+
+  return public.ledger_balances(v_user_id) || jsonb_build_object('request', to_jsonb(v_request));
+end;
+$$;
+
+-- Imported unlocks are held to the guardrails too, each against the balance
+-- left by the rows before it. The guardrail error keeps its hint and gains
+-- the line number.
+create or replace function public.check_imported_unlock(
+  p_user_id uuid,
+  p_line integer,
+  p_amount numeric,
+  p_reason text,
+  p_locked numeric,
+  p_created_at timestamptz default now()
+)
+returns void
+language plpgsql
+stable
+as $$
+declare
+  v_hours integer := public.cooling_off_hours(p_user_id, p_reason);
+  v_pending numeric;
+  v_hint text;
+begin
+  if exists (select 1 from public.guardian_links where child_id = p_user_id) then
+    raise exception 'Line %: unlocks need your guardian''s approval, so this unlock cannot be imported', p_line
+      using errcode = 'P0001', hint = 'needs_approval';
+  end if;
+
+  if v_hours > 0 then
+    raise exception 'Line %: unlocks for this reason wait % hours, so this unlock cannot be imported', p_line, v_hours
+      using errcode = 'P0001', hint = 'cooling_off';
+  end if;
+
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = p_user_id and status in ('pending', 'awaiting_approval');
+
+  if p_amount > p_locked - v_pending then
+    raise exception 'Line %: only % is locked and not already requested, so this unlock cannot be applied', p_line, p_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  begin
+    perform public.check_unlock_guardrails(p_user_id, p_amount, p_reason, p_locked - v_pending, p_created_at);
+  exception when raise_exception then
+    get stacked diagnostics v_hint = pg_exception_hint;
+    raise exception 'Line %: %', p_line, sqlerrm using errcode = 'P0001', hint = v_hint;
+  end;
+end;
+$$;
+
+grant execute on function public.unlocked_this_month(uuid, timestamptz) to authenticated;
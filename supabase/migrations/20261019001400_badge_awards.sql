@@ -0,0 +1,137 @@
+-- Badge awards.
+--
+-- Streaks, badges and levels are worked out from the ledger by
+-- lib/achievements.ts. Badges are stored the first time they are earned and
+-- never removed, so they are not recomputed on every visit and cannot be
+-- earned a second time when a reversal brings the condition back.
+--
+-- Awards are written by award_badges(), which works them out from the ledger
+-- itself, so users cannot grant themselves badges. Users may only mark their
+-- awards seen; there is no delete policy and only `seen_at` can be updated.
+--
+-- Badges are for saving as it happens, so history written after the fact
+-- does not count. `transactions.recorded_at` keeps when each entry was
+-- written, and entries dated more than a day before that (which only an
+-- import writes) are left out. The day's grace covers scheduled allowances,
+-- which the daily job posts for their due date.
+
+create table if not exists public.badge_awards (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  badge_id text not null,
+  earned_at timestamptz not null,
+  awarded_at timestamptz not null default now(),
+  seen_at timestamptz,
+  primary key (user_id, badge_id)
+);
+
+alter table public.badge_awards enable row level security;
+
+create policy "Users read their own badges" on public.badge_awards
+  for select using (auth.uid() = user_id);
+
+create policy "Users mark their own badges seen" on public.badge_awards
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Guardians read their children's badges" on public.badge_awards
+  for select using (public.is_guardian_of(user_id));
+
+revoke insert, update on public.badge_awards from anon, authenticated;
+grant update (seen_at) on public.badge_awards to authenticated;
+
+-- Entries from before this column existed cannot be told apart, so they keep
+-- their own date
+alter table public.transactions add column if not exists recorded_at timestamptz;
+update public.transactions set recorded_at = created_at where recorded_at is null;
+alter table public.transactions
+  alter column recorded_at set default now(),
+  alter column recorded_at set not null;
+
+-- Stores the badges the signed-in user's ledger has earned and not been
+-- awarded yet; earnedBadges() in lib/achievements.ts applies the same rules.
+-- Reversals and the entries they undo are left out. Returns how many badges
+-- were new.
+create or replace function public.award_badges()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_count integer;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  with entries as (
+    select t.id, t.type, t.locked_delta, t.created_at
+    from public.transactions t
+    where t.user_id = v_user_id
+      and t.reverses_id is null
+      and not exists (select 1 from public.transactions r where r.reverses_id = t.id)
+      and t.created_at >= t.recorded_at - interval '1 day'
+  ), running as (
+    select created_at, sum(locked_delta) over (order by created_at, id) as locked
+    from entries
+  ), unlock_gaps as (
+    -- From the first entry, and from each unlock, to the next unlock (or now)
+    select since, lead(since) over (order by since) as until
+    from (
+      (select created_at as since from entries order by created_at limit 1)
+      union all
+      select created_at from entries where type = 'unlock'
+    ) marks
+  ), weeks as (
+    select w.week,
+      exists (
+        select 1 from entries e
+        where date_trunc('week', e.created_at) = w.week and e.type = 'allowance' and e.locked_delta > 0
+      ) and not exists (
+        select 1 from entries e
+        where date_trunc('week', e.created_at) = w.week and e.type = 'unlock'
+      ) as counts
+    from generate_series(
+      (select date_trunc('week', min(created_at)) from entries),
+      date_trunc('week', now()),
+      interval '1 week'
+    ) as w (week)
+  ), streaks as (
+    -- Each week that counts, with how many weeks in a row it ends
+    select week, sum(case when counts then 1 else 0 end) over (partition by streak order by week) as length
+    from (
+      select week, counts, sum(case when counts then 0 else 1 end) over (order by week) as streak
+      from weeks
+    ) w
+    where counts
+  ), earned (badge_id, earned_at) as (
+    select 'first_save', min(created_at) from entries where type = 'allowance' and locked_delta > 0
+    union all
+    select 'first_interest', min(created_at) from entries where type = 'interest'
+    union all
+    select t.badge_id, min(r.created_at)
+    from running r
+    join (values (100, 'locked_100'), (500, 'locked_500'), (1000, 'locked_1000')) as t (threshold, badge_id)
+      on r.locked >= t.threshold
+    group by t.badge_id
+    union all
+    select 'no_unlock_6_months', min(since + interval '6 months')
+    from unlock_gaps
+    where since + interval '6 months' <= coalesce(until, now())
+    union all
+    select t.badge_id, min(least(s.week + interval '1 week' - interval '1 millisecond', now()))
+    from streaks s
+    join (values (4, 'streak_4'), (12, 'streak_12'), (26, 'streak_26')) as t (weeks, badge_id)
+      on s.length >= t.weeks
+    group by t.badge_id
+  )
+  insert into public.badge_awards (user_id, badge_id, earned_at)
+  select v_user_id, badge_id, earned_at from earned where earned_at is not null
+  on conflict (user_id, badge_id) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.award_badges() to authenticated;
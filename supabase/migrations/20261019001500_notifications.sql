@@ -0,0 +1,220 @@
+-- Notifications.
+--
+-- Triggers on the ledger, unlock requests, goals, badges and settings write a
+-- notification per event into `notifications`, which the dashboard receives
+-- live over Supabase Realtime. A notification stores its kind and the facts
+-- behind it in `data`; lib/notifications.ts turns those into text.
+--
+-- Users opt out per kind through user_settings.notification_preferences, a
+-- map from kind to boolean; kinds not in the map are on.
+--
+-- Ledger entries dated more than a day back are history being filled in
+-- (imports, schedules catching up), not news, so they do not notify.
+
+alter table public.user_settings
+  add column if not exists notification_preferences jsonb not null default '{}'::jsonb;
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in (
+    'allowance_posted', 'unlock_applied', 'spend_recorded', 'interest_posted', 'reversal',
+    'unlock_request', 'goal_reached', 'badge_earned', 'settings_changed'
+  )),
+  data jsonb not null default '{}'::jsonb,
+  transaction_id uuid references public.transactions (id) on delete set null,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists notifications_user_created_idx
+  on public.notifications (user_id, created_at desc);
+
+create index if not exists notifications_unread_idx
+  on public.notifications (user_id)
+  where read_at is null;
+
+alter table public.notifications enable row level security;
+
+create policy "Users read their own notifications" on public.notifications
+  for select using (auth.uid() = user_id);
+
+create policy "Users mark their own notifications read" on public.notifications
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users delete their own notifications" on public.notifications
+  for delete using (auth.uid() = user_id);
+
+-- Notifications are only written by the triggers below
+revoke insert, update on public.notifications from anon, authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+alter publication supabase_realtime add table public.notifications;
+
+create or replace function public.notify(
+  p_user_id uuid,
+  p_kind text,
+  p_data jsonb,
+  p_transaction_id uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(
+    (select (notification_preferences ->> p_kind)::boolean from public.user_settings where id = p_user_id),
+    true
+  ) then
+    insert into public.notifications (user_id, kind, data, transaction_id)
+    values (p_user_id, p_kind, p_data, p_transaction_id);
+  end if;
+end;
+$$;
+
+revoke execute on function public.notify(uuid, text, jsonb, uuid) from public, anon, authenticated;
+
+create or replace function public.notify_transaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.created_at < now() - interval '1 day' then
+    return new;
+  end if;
+
+  if new.reverses_id is not null then
+    perform public.notify(new.user_id, 'reversal',
+      jsonb_build_object('type', new.type, 'amount', -new.amount), new.id);
+  elsif new.type = 'allowance' then
+    perform public.notify(new.user_id, 'allowance_posted', jsonb_build_object(
+      'amount', new.amount,
+      'saved_amount', new.saved_amount,
+      'scheduled', new.schedule_id is not null,
+      'source', (select name from public.income_sources where id = new.income_source_id)
+    ), new.id);
+  elsif new.type = 'unlock' then
+    perform public.notify(new.user_id, 'unlock_applied',
+      jsonb_build_object('amount', new.amount, 'reason', new.reason), new.id);
+  elsif new.type = 'spend' then
+    perform public.notify(new.user_id, 'spend_recorded',
+      jsonb_build_object('amount', new.amount, 'merchant', new.merchant), new.id);
+  elsif new.type = 'interest' then
+    perform public.notify(new.user_id, 'interest_posted',
+      jsonb_build_object('amount', new.amount, 'guardian_paid', new.paid_by is not null), new.id);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_notify on public.transactions;
+create trigger transactions_notify
+  after insert on public.transactions
+  for each row execute function public.notify_transaction();
+
+-- Guardian decisions and requests that could not be applied. Applied
+-- requests notify through their ledger entry.
+create or replace function public.notify_unlock_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status
+    and (new.status in ('rejected', 'failed') or (old.status = 'awaiting_approval' and new.status = 'pending')) then
+    perform public.notify(new.user_id, 'unlock_request', jsonb_build_object(
+      'status', case when new.status = 'pending' then 'approved' else new.status end,
+      'amount', new.amount,
+      'requested_amount', new.requested_amount,
+      'comment', new.guardian_comment,
+      'failure_reason', new.failure_reason
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists unlock_requests_notify on public.unlock_requests;
+create trigger unlock_requests_notify
+  after update on public.unlock_requests
+  for each row execute function public.notify_unlock_request();
+
+create or replace function public.notify_goal_reached()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.allocated_amount < old.target_amount and new.allocated_amount >= new.target_amount then
+    perform public.notify(new.user_id, 'goal_reached', jsonb_build_object(
+      'goal_id', new.id, 'name', new.name, 'icon', new.icon, 'target_amount', new.target_amount
+    ));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists savings_goals_notify on public.savings_goals;
+create trigger savings_goals_notify
+  after update of allocated_amount on public.savings_goals
+  for each row execute function public.notify_goal_reached();
+
+create or replace function public.notify_badge_earned()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.notify(new.user_id, 'badge_earned', jsonb_build_object('badge_id', new.badge_id));
+  return new;
+end;
+$$;
+
+drop trigger if exists badge_awards_notify on public.badge_awards;
+create trigger badge_awards_notify
+  after insert on public.badge_awards
+  for each row execute function public.notify_badge_earned();
+
+-- Settings that change how money moves, so a change made on another device
+-- does not go unnoticed
+create or replace function public.notify_settings_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changes jsonb := '{}'::jsonb;
+begin
+  if new.savings_percent is distinct from old.savings_percent then
+    v_changes := v_changes || jsonb_build_object('savings_percent', jsonb_build_array(old.savings_percent, new.savings_percent));
+  end if;
+  if new.cooling_off_hours is distinct from old.cooling_off_hours then
+    v_changes := v_changes || jsonb_build_object('cooling_off_hours', jsonb_build_array(old.cooling_off_hours, new.cooling_off_hours));
+  end if;
+  if new.max_unlock_per_transaction is distinct from old.max_unlock_per_transaction
+    or new.max_unlock_per_month is distinct from old.max_unlock_per_month
+    or new.min_locked_balance is distinct from old.min_locked_balance
+    or new.blocked_unlock_reasons is distinct from old.blocked_unlock_reasons
+    or new.always_allowed_unlock_reasons is distinct from old.always_allowed_unlock_reasons then
+    v_changes := v_changes || jsonb_build_object('unlock_limits', true);
+  end if;
+
+  if v_changes <> '{}'::jsonb then
+    perform public.notify(new.id, 'settings_changed', v_changes);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_settings_notify on public.user_settings;
+create trigger user_settings_notify
+  after update on public.user_settings
+  for each row execute function public.notify_settings_changed();
@@ -0,0 +1,206 @@
+-- Offline sync.
+--
+-- Entries logged while offline are queued on the device with an id the
+-- client generates, then replayed when the connection returns. A replay can
+-- arrive more than once (a response lost on a flaky connection, two tabs
+-- syncing), so record_allowance and record_unlock take that id and remember
+-- what it produced in `client_submissions`. Seeing the same id again returns
+-- the current balances and the original result, marked as a duplicate,
+-- instead of writing a second entry.
+--
+-- The check runs after lock_savings_row, so two replays of one id cannot
+-- both get past it.
+
+create table if not exists public.client_submissions (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  client_id uuid not null,
+  kind text not null check (kind in ('allowance', 'unlock')),
+  result jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  primary key (user_id, client_id)
+);
+
+alter table public.client_submissions enable row level security;
+
+create policy "Users read their own client submissions" on public.client_submissions
+  for select using (auth.uid() = user_id);
+
+-- The earlier result for a client id, or null the first time it is seen.
+-- Raises when the id was used for a different kind of entry.
+create or replace function public.client_submission(p_user_id uuid, p_client_id uuid, p_kind text)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_submission public.client_submissions;
+begin
+  if p_client_id is null then
+    return null;
+  end if;
+
+  select * into v_submission
+  from public.client_submissions
+  where user_id = p_user_id and client_id = p_client_id;
+
+  if not found then
+    return null;
+  end if;
+
+  if v_submission.kind <> p_kind then
+    raise exception 'This entry id was already used for a different entry' using errcode = '22023';
+  end if;
+
+  return v_submission.result;
+end;
+$$;
+
+drop function if exists public.record_allowance(numeric, uuid);
+
+create or replace function public.record_allowance(
+  p_amount numeric,
+  p_source_id uuid default null,
+  p_client_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_source_id is not null
+    and not exists (select 1 from public.income_sources where id = p_source_id and user_id = v_user_id) then
+    raise exception 'Income source not found' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+
+  v_result := public.client_submission(v_user_id, p_client_id, 'allowance');
+  if v_result is not null then
+    return public.ledger_balances(v_user_id) || (v_result - 'transaction_id') || jsonb_build_object('duplicate', true);
+  end if;
+
+  v_result := public.apply_allowance(v_user_id, p_amount, p_source_id => p_source_id);
+
+  if p_client_id is not null then
+    insert into public.client_submissions (user_id, client_id, kind, result)
+    values (v_user_id, p_client_id, 'allowance', v_result);
+  end if;
+
+  return public.ledger_balances(v_user_id) || (v_result - 'transaction_id');
+end;
+$$;
+
+drop function if exists public.record_unlock(numeric, text, text, uuid);
+
+create or replace function public.record_unlock(
+  p_amount numeric,
+  p_reason text,
+  p_notes text default null,
+  p_goal_id uuid default null,
+  p_client_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_locked numeric;
+  v_pending numeric;
+  v_hours integer;
+  v_needs_approval boolean;
+  v_request public.unlock_requests;
+  v_result jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_reason is null or p_reason = '' then
+    raise exception 'A reason is required' using errcode = '22023';
+  end if;
+
+  if p_reason = 'goal' and p_goal_id is null then
+    raise exception 'Choose the goal this unlock is for' using errcode = '22023';
+  end if;
+
+  v_locked := public.lock_savings_row(v_user_id);
+
+  v_result := public.client_submission(v_user_id, p_client_id, 'unlock');
+  if v_result is not null then
+    -- Report the request as it is now, not as it was filed
+    if v_result ? 'request_id' then
+      select * into v_request from public.unlock_requests where id = (v_result ->> 'request_id')::uuid;
+      return public.ledger_balances(v_user_id)
+        || jsonb_build_object('request', to_jsonb(v_request), 'duplicate', true);
+    end if;
+    return public.ledger_balances(v_user_id) || jsonb_build_object('duplicate', true);
+  end if;
+
+  -- Money already promised to open requests is not available again
+  select coalesce(sum(amount), 0) into v_pending
+  from public.unlock_requests
+  where user_id = v_user_id and status in ('pending', 'awaiting_approval');
+
+  perform public.check_unlock_guardrails(v_user_id, p_amount, p_reason, v_locked - v_pending);
+
+  v_hours := public.cooling_off_hours(v_user_id, p_reason);
+  v_needs_approval := exists (select 1 from public.guardian_links where child_id = v_user_id);
+
+  if p_amount > v_locked - v_pending then
+    raise exception 'Cannot unlock more than the % that is locked and not already requested', v_locked - v_pending
+      using errcode = 'P0001', hint = 'insufficient_locked';
+  end if;
+
+  if v_hours = 0 and not v_needs_approval then
+    v_result := jsonb_build_object('transaction_id', public.apply_unlock(v_user_id, p_amount, p_reason, p_notes, p_goal_id));
+    if p_client_id is not null then
+      insert into public.client_submissions (user_id, client_id, kind, result)
+      values (v_user_id, p_client_id, 'unlock', v_result);
+    end if;
+    return public.ledger_balances(v_user_id);
+  end if;
+
+  insert into public.unlock_requests (
+    user_id, amount, requested_amount, reason, notes, goal_id, status, matures_at
+  )
+  values (
+    v_user_id,
+    p_amount,
+    p_amount,
+    p_reason,
+    nullif(trim(p_notes), ''),
+    p_goal_id,
+    case when v_needs_approval then 'awaiting_approval' else 'pending' end,
+    now() + make_interval(hours => v_hours)
+  )
+  returning * into v_request;
+
+  if p_client_id is not null then
+    insert into public.client_submissions (user_id, client_id, kind, result)
+    values (v_user_id, p_client_id, 'unlock', jsonb_build_object('request_id', v_request.id));
+  end if;
+
+  return public.ledger_balances(v_user_id) || jsonb_build_object('request', to_jsonb(v_request));
+end;
+$$;
+
+grant execute on function public.record_allowance(numeric, uuid, uuid) to authenticated;
+grant execute on function public.record_unlock(numeric, text, text, uuid, uuid) to authenticated;
@@ -0,0 +1,157 @@
+-- Profiles, data export and account deletion.
+--
+-- `profiles` holds what the settings page lets a user change about how they
+-- appear and how amounts are shown: a display name, an avatar stored in the
+-- public `avatars` bucket under a folder named after the user id, and the
+-- currency and locale used to format money.
+--
+-- export_account_data() returns every row the app keeps about the caller as
+-- one JSON document. delete_account_data() removes them; the account route
+-- calls it with the service role just before deleting the auth user. Most
+-- tables also cascade from auth.users, but transactions, savings and
+-- user_settings predate these migrations, so the function deletes from every
+-- table explicitly rather than relying on that.
+
+create table if not exists public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text check (char_length(display_name) <= 50),
+  avatar_url text,
+  currency text not null default 'USD' check (currency ~ '^[A-Z]{3}$'),
+  locale text not null default 'en-US' check (char_length(locale) between 2 and 20),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Users read their own profile" on public.profiles
+  for select using (auth.uid() = id);
+
+create policy "Users create their own profile" on public.profiles
+  for insert with check (auth.uid() = id);
+
+create policy "Users update their own profile" on public.profiles
+  for update using (auth.uid() = id) with check (auth.uid() = id);
+
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
+
+create policy "Users upload their own avatar" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users replace their own avatar" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users remove their own avatar" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Every table with per-user rows and the column naming the user. Export and
+-- deletion both read this list, so a table added here is covered by both.
+create or replace function public.account_tables()
+returns table (table_name text, user_column text)
+language sql
+immutable
+as $$
+  values
+    ('profiles', 'id'),
+    ('user_settings', 'id'),
+    ('savings', 'user_id'),
+    ('transactions', 'user_id'),
+    ('savings_percent_history', 'user_id'),
+    ('savings_goals', 'user_id'),
+    ('goal_allocations', 'user_id'),
+    ('spend_categories', 'user_id'),
+    ('income_sources', 'user_id'),
+    ('savings_rules', 'user_id'),
+    ('allowance_schedules', 'user_id'),
+    ('unlock_requests', 'user_id'),
+    ('interest_settings', 'user_id'),
+    ('guardian_invites', 'guardian_id'),
+    ('badge_awards', 'user_id'),
+    ('notifications', 'user_id'),
+    ('client_submissions', 'user_id');
+$$;
+
+create or replace function public.export_account_data()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_table record;
+  v_rows jsonb;
+  v_export jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  v_export := jsonb_build_object(
+    'exported_at', now(),
+    'account', (
+      select jsonb_build_object('id', id, 'email', email, 'created_at', created_at)
+      from auth.users
+      where id = v_user_id
+    ),
+    'guardian_links', (
+      select coalesce(jsonb_agg(to_jsonb(l) order by l.created_at), '[]'::jsonb)
+      from public.guardian_links l
+      where l.guardian_id = v_user_id or l.child_id = v_user_id
+    ),
+    'schedule_postings', (
+      select coalesce(jsonb_agg(to_jsonb(p) order by p.posted_at), '[]'::jsonb)
+      from public.schedule_postings p
+      join public.allowance_schedules s on s.id = p.schedule_id
+      where s.user_id = v_user_id
+    )
+  );
+
+  for v_table in select * from public.account_tables() loop
+    execute format(
+      'select coalesce(jsonb_agg(to_jsonb(r)), ''[]''::jsonb) from public.%I r where r.%I = $1',
+      v_table.table_name,
+      v_table.user_column
+    ) into v_rows using v_user_id;
+
+    v_export := v_export || jsonb_build_object(v_table.table_name, v_rows);
+  end loop;
+
+  return v_export;
+end;
+$$;
+
+grant execute on function public.export_account_data() to authenticated;
+
+-- Deletes the user's rows children first. Only the service role may call it.
+create or replace function public.delete_account_data(p_user_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_table record;
+begin
+  delete from public.guardian_links where guardian_id = p_user_id or child_id = p_user_id;
+  update public.guardian_invites set redeemed_by = null where redeemed_by = p_user_id;
+
+  -- Transactions go first: the ledger's goals, schedules, sources and
+  -- categories are only referenced with `on delete set null`, and reversals
+  -- reference rows deleted in the same statement.
+  delete from public.transactions where user_id = p_user_id;
+
+  for v_table in select * from public.account_tables() where table_name <> 'transactions' order by table_name loop
+    execute format('delete from public.%I where %I = $1', v_table.table_name, v_table.user_column)
+    using p_user_id;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.delete_account_data(uuid) from public, anon, authenticated;
+grant execute on function public.delete_account_data(uuid) to service_role;
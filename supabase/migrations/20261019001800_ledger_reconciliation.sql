@@ -0,0 +1,289 @@
+-- Ledger reconciliation.
+--
+-- `savings.locked_amount` is a stored running total; the ledger functions
+-- update it alongside each entry's `locked_delta`, so it should always equal
+-- the sum of those deltas. It can still drift: rows written before the ledger
+-- functions existed, the locked_delta estimates backfilled for old allowances,
+-- or a direct write to `savings`. The available balance is derived from the
+-- stored total, so it drifts with it, by the same amount the other way.
+--
+-- reconcile_ledger() rebuilds the expected balances from the ledger, compares
+-- them with the stored ones and records the result in
+-- `ledger_reconciliations`. When they differ it lists the entries most likely
+-- to blame: any whose locked_delta does not match what its type should have
+-- moved, any whose locked_delta is only an estimate, and every entry since
+-- the last check that found the books in balance.
+--
+-- repair_ledger() treats the ledger as the truth. It sets the stored total to
+-- the ledger's and records an "adjustment" entry saying by how much, so the
+-- correction shows up in the transaction history. The adjustment's
+-- locked_delta is 0: it brings the stored total back to the ledger rather than
+-- moving money. A ledger holding estimated locked_deltas is not the truth, so
+-- it is reported but never repaired automatically. reconcile_all_ledgers()
+-- runs the check for every user from the scheduled job; repairs are left to
+-- the user.
+
+create table if not exists public.ledger_reconciliations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  source text not null check (source in ('manual', 'scheduled', 'repair')),
+  checked_at timestamptz not null default now(),
+  stored_locked numeric(12, 2) not null,
+  expected_locked numeric(12, 2) not null,
+  stored_available numeric(12, 2) not null,
+  expected_available numeric(12, 2) not null,
+  -- Stored minus expected; 0 when the books balance
+  difference numeric(12, 2) generated always as (stored_locked - expected_locked) stored,
+  suspects jsonb not null default '[]'::jsonb,
+  -- Unreversed entries whose locked_delta was estimated; repairs are refused
+  -- while there are any
+  estimated_entries integer not null default 0,
+  adjustment_id uuid references public.transactions (id) on delete set null
+);
+
+create index if not exists ledger_reconciliations_user_checked_idx
+  on public.ledger_reconciliations (user_id, checked_at desc);
+
+alter table public.ledger_reconciliations enable row level security;
+
+create policy "Users read their own reconciliations" on public.ledger_reconciliations
+  for select using (auth.uid() = user_id);
+
+-- What an entry's locked_delta should be given its type, or null when any
+-- value is plausible (allowances without a recorded split, adjustments)
+create or replace function public.expected_locked_delta(p_entry public.transactions, p_original public.transactions)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_entry.reverses_id is not null then -coalesce(p_original.locked_delta, 0)
+    when p_entry.type = 'unlock' then -p_entry.amount
+    when p_entry.type = 'spend' then 0
+    when p_entry.type = 'interest' then p_entry.amount
+    when p_entry.type = 'allowance' then p_entry.saved_amount
+    else null
+  end;
+$$;
+
+create or replace function public.reconcile_ledger_for(p_user_id uuid, p_source text)
+returns public.ledger_reconciliations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stored numeric;
+  v_expected numeric;
+  v_available numeric;
+  v_last_balanced timestamptz;
+  v_estimated integer;
+  v_suspects jsonb := '[]'::jsonb;
+  v_latest public.ledger_reconciliations;
+  v_result public.ledger_reconciliations;
+begin
+  v_stored := coalesce((select locked_amount from public.savings where user_id = p_user_id), 0);
+  v_expected := coalesce((select sum(locked_delta) from public.transactions where user_id = p_user_id), 0);
+  v_available := (public.ledger_balances(p_user_id) ->> 'available_amount')::numeric;
+
+  -- A reversed estimate nets out, so it no longer affects the ledger's total
+  select count(*) into v_estimated
+  from public.transactions t
+  where t.user_id = p_user_id
+    and t.locked_delta_estimated
+    and not exists (select 1 from public.transactions r where r.reverses_id = t.id);
+
+  select * into v_latest
+  from public.ledger_reconciliations
+  where user_id = p_user_id
+  order by checked_at desc
+  limit 1;
+
+  if v_stored = v_expected then
+    -- Still in balance since the last clean check: move that check forward
+    -- rather than adding a row per scheduled run
+    if found and v_latest.difference = 0 and v_latest.adjustment_id is null then
+      update public.ledger_reconciliations
+      set checked_at = now(), source = p_source, stored_locked = v_stored, expected_locked = v_expected,
+          stored_available = v_available, expected_available = v_available, estimated_entries = v_estimated
+      where id = v_latest.id
+      returning * into v_result;
+      return v_result;
+    end if;
+  else
+    select max(checked_at) into v_last_balanced
+    from public.ledger_reconciliations
+    where user_id = p_user_id and difference = 0;
+
+    select coalesce(jsonb_agg(s order by s.created_at desc), '[]'::jsonb) into v_suspects
+    from (
+      select
+        t.id,
+        t.type,
+        t.amount,
+        t.locked_delta,
+        public.expected_locked_delta(t, o) as expected_locked_delta,
+        t.notes,
+        t.created_at,
+        case
+          when t.locked_delta is distinct from coalesce(public.expected_locked_delta(t, o), t.locked_delta)
+            then 'locked_delta_mismatch'
+          when t.locked_delta_estimated then 'locked_delta_estimated'
+          else 'since_last_check'
+        end as cause
+      from public.transactions t
+      left join public.transactions o on o.id = t.reverses_id
+      where t.user_id = p_user_id
+        and (
+          t.locked_delta is distinct from coalesce(public.expected_locked_delta(t, o), t.locked_delta)
+          or (t.locked_delta_estimated and not exists (select 1 from public.transactions r where r.reverses_id = t.id))
+          or t.created_at > v_last_balanced
+        )
+      order by t.created_at desc
+      limit 50
+    ) s;
+  end if;
+
+  insert into public.ledger_reconciliations (
+    user_id, source, stored_locked, expected_locked, stored_available, expected_available, suspects, estimated_entries
+  )
+  values (
+    p_user_id, p_source, v_stored, v_expected, v_available, v_available + (v_stored - v_expected), v_suspects,
+    v_estimated
+  )
+  returning * into v_result;
+
+  return v_result;
+end;
+$$;
+
+revoke execute on function public.reconcile_ledger_for(uuid, text) from public, anon, authenticated;
+
+create or replace function public.reconcile_ledger()
+returns public.ledger_reconciliations
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  return public.reconcile_ledger_for(auth.uid(), 'manual');
+end;
+$$;
+
+grant execute on function public.reconcile_ledger() to authenticated;
+
+create or replace function public.repair_ledger()
+returns public.ledger_reconciliations
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_check public.ledger_reconciliations;
+  v_adjustment_id uuid;
+  v_result public.ledger_reconciliations;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  -- Check again under the lock rather than trusting an earlier report
+  perform public.lock_savings_row(v_user_id);
+  v_check := public.reconcile_ledger_for(v_user_id, 'manual');
+  if v_check.difference = 0 then
+    return v_check;
+  end if;
+
+  if v_check.estimated_entries > 0 then
+    raise exception 'Allowances recorded before savings splits were kept (% of them) only have an estimate of how much they saved, so the ledger cannot be trusted to repair this', v_check.estimated_entries
+      using errcode = 'P0001', hint = 'estimated_entries';
+  end if;
+
+  insert into public.transactions (user_id, amount, type, notes, locked_delta)
+  values (
+    v_user_id,
+    v_check.expected_locked - v_check.stored_locked,
+    'adjustment',
+    format('Locked savings corrected from %s to %s to match the ledger', v_check.stored_locked, v_check.expected_locked),
+    0
+  )
+  returning id into v_adjustment_id;
+
+  update public.savings
+  set locked_amount = v_check.expected_locked
+  where user_id = v_user_id;
+
+  insert into public.ledger_reconciliations (
+    user_id, source, stored_locked, expected_locked, stored_available, expected_available, adjustment_id
+  )
+  values (
+    v_user_id, 'repair', v_check.expected_locked, v_check.expected_locked,
+    v_check.expected_available, v_check.expected_available, v_adjustment_id
+  )
+  returning * into v_result;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.repair_ledger() to authenticated;
+
+-- Called by the scheduled job. Returns how many users are out of balance.
+create or replace function public.reconcile_all_ledgers()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid;
+  v_out_of_balance integer := 0;
+begin
+  for v_user_id in
+    select user_id from public.savings
+    union
+    select distinct user_id from public.transactions
+  loop
+    if (public.reconcile_ledger_for(v_user_id, 'scheduled')).difference <> 0 then
+      v_out_of_balance := v_out_of_balance + 1;
+    end if;
+  end loop;
+
+  return v_out_of_balance;
+end;
+$$;
+
+revoke execute on function public.reconcile_all_ledgers() from public, anon, authenticated;
+grant execute on function public.reconcile_all_ledgers() to service_role;
+
+-- Include reconciliation history in account export and deletion
+create or replace function public.account_tables()
+returns table (table_name text, user_column text)
+language sql
+immutable
+as $$
+  values
+    ('profiles', 'id'),
+    ('user_settings', 'id'),
+    ('savings', 'user_id'),
+    ('transactions', 'user_id'),
+    ('savings_percent_history', 'user_id'),
+    ('savings_goals', 'user_id'),
+    ('goal_allocations', 'user_id'),
+    ('spend_categories', 'user_id'),
+    ('income_sources', 'user_id'),
+    ('savings_rules', 'user_id'),
+    ('allowance_schedules', 'user_id'),
+    ('unlock_requests', 'user_id'),
+    ('interest_settings', 'user_id'),
+    ('guardian_invites', 'guardian_id'),
+    ('badge_awards', 'user_id'),
+    ('notifications', 'user_id'),
+    ('client_submissions', 'user_id'),
+    ('ledger_reconciliations', 'user_id');
+$$;
@@ -0,0 +1,647 @@
+-- Jars.
+--
+-- Instead of one locked balance and one available balance, a user can split
+-- their money into named jars such as Spend, Save and Give. Each jar takes a
+-- percentage of every allowance, may be locked, and may have a goal amount.
+-- The two balances stay as they were: locked savings is what the locked jars
+-- hold and the available balance what the others hold, so unlock rules,
+-- guardrails, interest and reconciliation keep working on the totals.
+--
+-- `jar_entries` records how each ledger entry moved money in and out of
+-- jars. apply_allowance() splits deposits by the jars' percentages and
+-- transfer_between_jars() moves money on request; both write their own
+-- entries. A trigger spreads every other entry: unlocks take money out of
+-- the locked jars and interest adds to them, in proportion to what each
+-- holds; spends come out of the unlocked jars in order; reversals undo the
+-- entries of the original; ledger repairs bring the jars to the repaired
+-- balances. Clients cannot write entries themselves, so a jar only ever holds
+-- what the ledger put there.
+--
+-- Money moves between two locked or two unlocked jars without a ledger entry.
+-- Moving money into a locked jar adds to locked savings, so it is recorded as
+-- a "transfer" entry. Money only leaves a locked jar through an unlock or a
+-- ledger repair.
+-- Users without jars are not affected.
+
+create table if not exists public.jars (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  position integer not null,
+  name text not null check (char_length(name) between 1 and 30),
+  percent numeric(5, 2) not null check (percent between 0 and 100),
+  locked boolean not null default false,
+  goal_amount numeric(12, 2) check (goal_amount > 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists jars_user_name_key
+  on public.jars (user_id, lower(name));
+
+create table if not exists public.jar_entries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  jar_id uuid not null references public.jars (id) on delete cascade,
+  -- null for opening balances and moves between jars of the same kind
+  transaction_id uuid references public.transactions (id) on delete cascade,
+  amount numeric(12, 2) not null,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists jar_entries_user_created_idx
+  on public.jar_entries (user_id, created_at);
+
+create index if not exists jar_entries_transaction_idx
+  on public.jar_entries (transaction_id);
+
+alter table public.jars enable row level security;
+alter table public.jar_entries enable row level security;
+
+-- Jars are only written through set_jars(), which keeps money from
+-- disappearing with a removed jar, and jar entries only by the ledger
+-- functions and the trigger below
+revoke insert, update, delete on public.jar_entries from anon, authenticated;
+
+create policy "Users read their own jars" on public.jars
+  for select using (auth.uid() = user_id);
+
+create policy "Guardians read their children's jars" on public.jars
+  for select using (public.is_guardian_of(user_id));
+
+create policy "Users read their own jar entries" on public.jar_entries
+  for select using (auth.uid() = user_id);
+
+create policy "Guardians read their children's jar entries" on public.jar_entries
+  for select using (public.is_guardian_of(user_id));
+
+create or replace function public.jar_balance(p_jar_id uuid)
+returns numeric
+language sql
+stable
+as $$
+  select coalesce(sum(amount), 0) from public.jar_entries where jar_id = p_jar_id;
+$$;
+
+-- The signed-in user's jars in order, with what each holds
+create or replace function public.jar_balances()
+returns table (id uuid, name text, percent numeric, locked boolean, goal_amount numeric, balance numeric)
+language sql
+stable
+as $$
+  select j.id, j.name, j.percent, j.locked, j.goal_amount, coalesce(sum(e.amount), 0)
+  from public.jars j
+  left join public.jar_entries e on e.jar_id = j.id
+  where j.user_id = auth.uid()
+  group by j.id
+  order by j.position;
+$$;
+
+-- Writes one jar entry per jar for p_amount split by p_weights. Negative
+-- weights count as 0 and all-zero weights split evenly; the jar with the
+-- largest weight takes the rounding remainder.
+create or replace function public.spread_jar_amount(
+  p_user_id uuid,
+  p_transaction_id uuid,
+  p_created_at timestamptz,
+  p_jar_ids uuid[],
+  p_weights numeric[],
+  p_amount numeric
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_count integer := coalesce(array_length(p_jar_ids, 1), 0);
+  v_total numeric;
+  v_largest integer := 1;
+  v_share numeric;
+  v_left numeric := p_amount;
+begin
+  if p_amount = 0 or v_count = 0 then
+    return;
+  end if;
+
+  v_total := (select coalesce(sum(greatest(w, 0)), 0) from unnest(p_weights) as w);
+  if v_total = 0 then
+    p_weights := array_fill(1::numeric, array[v_count]);
+    v_total := v_count;
+  end if;
+
+  for i in 1 .. v_count loop
+    if p_weights[i] > p_weights[v_largest] then
+      v_largest := i;
+    end if;
+  end loop;
+
+  for i in 1 .. v_count loop
+    if i <> v_largest then
+      v_share := round(p_amount * greatest(p_weights[i], 0) / v_total, 2);
+      v_left := v_left - v_share;
+      if v_share <> 0 then
+        insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+        values (p_user_id, p_jar_ids[i], p_transaction_id, v_share, p_created_at);
+      end if;
+    end if;
+  end loop;
+
+  if v_left <> 0 then
+    insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+    values (p_user_id, p_jar_ids[v_largest], p_transaction_id, v_left, p_created_at);
+  end if;
+end;
+$$;
+
+revoke execute on function public.spread_jar_amount(uuid, uuid, timestamptz, uuid[], numeric[], numeric)
+  from public, anon, authenticated;
+
+-- A ledger repair moves the stored locked total to the ledger's, and the
+-- available balance by the same amount the other way. The jars follow with
+-- entries against the adjustment that bring them to the repaired balances:
+-- the locked jars in proportion to what each holds, and the first unlocked
+-- jar for the rest.
+create or replace function public.rebalance_jars(p_user_id uuid, p_transaction_id uuid, p_created_at timestamptz)
+returns void
+language plpgsql
+as $$
+declare
+  v_balances jsonb := public.ledger_balances(p_user_id);
+  v_locked numeric;
+  v_available numeric;
+  v_locked_ids uuid[];
+  v_locked_balances numeric[];
+  v_spend_jar_id uuid;
+begin
+  v_locked := (select coalesce(sum(locked_delta), 0) from public.transactions where user_id = p_user_id);
+  v_available := (v_balances ->> 'available_amount')::numeric + (v_balances ->> 'locked_amount')::numeric - v_locked;
+
+  select array_agg(id order by position), array_agg(public.jar_balance(id) order by position)
+  into v_locked_ids, v_locked_balances
+  from public.jars
+  where user_id = p_user_id and locked;
+
+  if v_locked_ids is null and v_locked <> 0 then
+    raise exception 'Add a locked jar to hold your % of locked savings', v_locked using errcode = '22023';
+  end if;
+
+  perform public.spread_jar_amount(
+    p_user_id, p_transaction_id, p_created_at, v_locked_ids, v_locked_balances,
+    v_locked - (select coalesce(sum(b), 0) from unnest(v_locked_balances) as b)
+  );
+
+  select id into v_spend_jar_id
+  from public.jars
+  where user_id = p_user_id and not locked
+  order by position
+  limit 1;
+
+  v_available := v_available - (
+    select coalesce(sum(e.amount), 0)
+    from public.jar_entries e
+    join public.jars j on j.id = e.jar_id
+    where j.user_id = p_user_id and not j.locked
+  );
+  if v_available <> 0 then
+    insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+    values (p_user_id, v_spend_jar_id, p_transaction_id, v_available, p_created_at);
+  end if;
+end;
+$$;
+
+revoke execute on function public.rebalance_jars(uuid, uuid, timestamptz) from public, anon, authenticated;
+
+create or replace function public.record_jar_entries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_locked_ids uuid[];
+  v_locked_balances numeric[];
+  v_spend_jar_id uuid;
+  v_jar record;
+  v_left numeric;
+  v_take numeric;
+begin
+  if not exists (select 1 from public.jars where user_id = new.user_id) then
+    return new;
+  end if;
+
+  if new.reverses_id is not null then
+    insert into public.jar_entries (user_id, jar_id, transaction_id, amount, notes, created_at)
+    select new.user_id, jar_id, new.id, -amount, notes, new.created_at
+    from public.jar_entries
+    where transaction_id = new.reverses_id;
+    return new;
+  end if;
+
+  if new.type = 'adjustment' then
+    perform public.rebalance_jars(new.user_id, new.id, new.created_at);
+    return new;
+  end if;
+
+  -- Allowances and transfers write their own entries
+  if new.type not in ('unlock', 'spend', 'interest') then
+    return new;
+  end if;
+
+  if new.type in ('unlock', 'interest') then
+    select array_agg(id order by position), array_agg(public.jar_balance(id) order by position)
+    into v_locked_ids, v_locked_balances
+    from public.jars
+    where user_id = new.user_id and locked;
+
+    perform public.spread_jar_amount(
+      new.user_id, new.id, new.created_at, v_locked_ids, v_locked_balances, new.locked_delta
+    );
+  else
+    select id into v_spend_jar_id
+    from public.jars
+    where user_id = new.user_id and not locked
+    order by position
+    limit 1;
+
+    v_left := new.amount;
+    for v_jar in
+      select id, public.jar_balance(id) as balance
+      from public.jars
+      where user_id = new.user_id and not locked
+      order by position
+    loop
+      exit when v_left <= 0;
+      v_take := least(greatest(v_jar.balance, 0), v_left);
+      if v_take > 0 then
+        insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+        values (new.user_id, v_jar.id, new.id, -v_take, new.created_at);
+        v_left := v_left - v_take;
+      end if;
+    end loop;
+
+    -- More than the jars hold; the balance check allowed it, so the books
+    -- were already off and the first jar takes the difference
+    if v_left > 0 then
+      insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+      values (new.user_id, v_spend_jar_id, new.id, -v_left, new.created_at);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_record_jar_entries on public.transactions;
+create trigger transactions_record_jar_entries
+  after insert on public.transactions
+  for each row execute function public.record_jar_entries();
+
+-- How a deposit splits across the user's jars, in the shape returned by
+-- evaluate_savings_rules() plus a `jars` list; null without jars. Each jar
+-- gets its percentage, the first unlocked jar the rounding remainder, and
+-- the locked jars' shares are what is saved.
+create or replace function public.evaluate_jar_split(p_user_id uuid, p_amount numeric)
+returns jsonb
+language plpgsql
+stable
+as $$
+declare
+  v_jars jsonb;
+  v_saved numeric;
+  v_parts jsonb;
+begin
+  select
+    jsonb_agg(jsonb_build_object('jar_id', id, 'name', name, 'locked', locked, 'amount', amount) order by position),
+    coalesce(sum(amount) filter (where locked), 0),
+    coalesce(
+      jsonb_agg(jsonb_build_object(
+        'rule_id', null, 'label', format('%s%% to %s', trim_scale(percent), name), 'amount', amount
+      ) order by position) filter (where locked),
+      '[]'::jsonb
+    )
+  into v_jars, v_saved, v_parts
+  from (
+    select j.id, j.name, j.locked, j.position, j.percent,
+      round(p_amount * j.percent / 100, 2)
+        + case when row_number() over (order by j.locked, j.position) = 1
+            then p_amount - sum(round(p_amount * j.percent / 100, 2)) over ()
+            else 0
+          end as amount
+    from public.jars j
+    where j.user_id = p_user_id
+  ) s;
+
+  if v_jars is null then
+    return null;
+  end if;
+
+  return jsonb_build_object(
+    'saved_amount', v_saved,
+    'savings_percent', case when p_amount > 0 then round(v_saved / p_amount * 100, 2) else 0 end,
+    'parts', v_parts,
+    'jars', v_jars
+  );
+end;
+$$;
+
+-- With jars, their percentages decide the split instead of the savings
+-- percentage and rules. Security definer so the jar entries are written the
+-- same way whichever ledger function calls it; only those functions may.
+create or replace function public.apply_allowance(
+  p_user_id uuid,
+  p_amount numeric,
+  p_created_at timestamptz default now(),
+  p_notes text default null,
+  p_schedule_id uuid default null,
+  p_source_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- Sources belonging to someone else are ignored rather than recorded
+  v_source_id uuid := coalesce(
+    (select id from public.income_sources where id = p_source_id and user_id = p_user_id),
+    public.default_income_source(p_user_id)
+  );
+  v_split jsonb;
+  v_saved numeric;
+  v_transaction_id uuid;
+begin
+  v_split := coalesce(
+    public.evaluate_jar_split(p_user_id, p_amount),
+    public.evaluate_savings_rules(
+      p_user_id, p_amount, v_source_id, public.savings_percent_at(p_user_id, p_created_at)
+    )
+  );
+  v_saved := (v_split ->> 'saved_amount')::numeric;
+
+  insert into public.transactions (
+    user_id, amount, type, notes, locked_delta, savings_percent, saved_amount, savings_breakdown,
+    schedule_id, income_source_id, created_at
+  )
+  values (
+    p_user_id,
+    p_amount,
+    'allowance',
+    nullif(trim(p_notes), ''),
+    v_saved,
+    (v_split ->> 'savings_percent')::numeric,
+    v_saved,
+    v_split -> 'parts',
+    p_schedule_id,
+    v_source_id,
+    p_created_at
+  )
+  returning id into v_transaction_id;
+
+  update public.savings
+  set locked_amount = locked_amount + v_saved
+  where user_id = p_user_id;
+
+  insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+  select p_user_id, (share ->> 'jar_id')::uuid, v_transaction_id, (share ->> 'amount')::numeric, p_created_at
+  from jsonb_array_elements(coalesce(v_split -> 'jars', '[]'::jsonb)) as share
+  where (share ->> 'amount')::numeric <> 0;
+
+  perform public.allocate_to_goals(p_user_id, v_transaction_id, v_saved);
+
+  return (v_split - 'parts' - 'jars') || jsonb_build_object(
+    'transaction_id', v_transaction_id,
+    'breakdown', v_split -> 'parts',
+    'jars', coalesce(v_split -> 'jars', '[]'::jsonb)
+  );
+end;
+$$;
+
+revoke execute on function public.apply_allowance(uuid, numeric, timestamptz, text, uuid, uuid)
+  from public, anon, authenticated;
+
+-- Replaces the user's jars with p_jars, in order. Jars keep their money when
+-- their id is passed back. A jar that is removed, or switched between locked
+-- and unlocked, must be empty first. An empty list turns jars off.
+create or replace function public.set_jars(p_jars jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_had_jars boolean;
+  v_jar record;
+  v_balances jsonb;
+  v_opening_jar_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+  v_had_jars := exists (select 1 from public.jars where user_id = v_user_id);
+
+  -- Back to a single locked and available balance, which never stopped
+  -- being kept
+  if jsonb_array_length(p_jars) = 0 then
+    delete from public.jars where user_id = v_user_id;
+    return;
+  end if;
+
+  if (select sum((n.value ->> 'percent')::numeric) from jsonb_array_elements(p_jars) as n) <> 100 then
+    raise exception 'Jar percentages must add up to 100' using errcode = '22023';
+  end if;
+
+  if not exists (select 1 from jsonb_array_elements(p_jars) as n where not (n.value ->> 'locked')::boolean) then
+    raise exception 'Keep at least one unlocked jar to spend from' using errcode = '22023';
+  end if;
+
+  for v_jar in
+    select j.name, j.locked, public.jar_balance(j.id) as balance, n.value as input
+    from public.jars j
+    left join jsonb_array_elements(p_jars) as n on (n.value ->> 'id')::uuid = j.id
+    where j.user_id = v_user_id
+  loop
+    if v_jar.balance <> 0 and (v_jar.input is null or (v_jar.input ->> 'locked')::boolean <> v_jar.locked) then
+      raise exception 'Move the money out of % first', v_jar.name using errcode = 'P0001', hint = 'jar_not_empty';
+    end if;
+  end loop;
+
+  delete from public.jars j
+  where j.user_id = v_user_id
+    and not exists (select 1 from jsonb_array_elements(p_jars) as n where (n.value ->> 'id')::uuid = j.id);
+
+  update public.jars j
+  set position = n.ordinality,
+      name = n.value ->> 'name',
+      percent = (n.value ->> 'percent')::numeric,
+      locked = (n.value ->> 'locked')::boolean,
+      goal_amount = (n.value ->> 'goal_amount')::numeric
+  from jsonb_array_elements(p_jars) with ordinality as n
+  where j.user_id = v_user_id and j.id = (n.value ->> 'id')::uuid;
+
+  -- Ids that are not one of the user's jars are added as new jars
+  insert into public.jars (user_id, position, name, percent, locked, goal_amount)
+  select v_user_id, n.ordinality, n.value ->> 'name', (n.value ->> 'percent')::numeric,
+    (n.value ->> 'locked')::boolean, (n.value ->> 'goal_amount')::numeric
+  from jsonb_array_elements(p_jars) with ordinality as n
+  where not exists (
+    select 1 from public.jars j where j.user_id = v_user_id and j.id = (n.value ->> 'id')::uuid
+  );
+
+  -- First set of jars: the existing balances go into the first locked and
+  -- the first unlocked jar
+  if not v_had_jars then
+    v_balances := public.ledger_balances(v_user_id);
+
+    if (v_balances ->> 'locked_amount')::numeric <> 0 then
+      select id into v_opening_jar_id
+      from public.jars
+      where user_id = v_user_id and locked
+      order by position
+      limit 1;
+
+      if v_opening_jar_id is null then
+        raise exception 'Add a locked jar to hold your % of locked savings', v_balances ->> 'locked_amount'
+          using errcode = '22023';
+      end if;
+
+      insert into public.jar_entries (user_id, jar_id, amount, notes)
+      values (v_user_id, v_opening_jar_id, (v_balances ->> 'locked_amount')::numeric, 'Opening balance');
+    end if;
+
+    if (v_balances ->> 'available_amount')::numeric <> 0 then
+      select id into v_opening_jar_id
+      from public.jars
+      where user_id = v_user_id and not locked
+      order by position
+      limit 1;
+
+      insert into public.jar_entries (user_id, jar_id, amount, notes)
+      values (v_user_id, v_opening_jar_id, (v_balances ->> 'available_amount')::numeric, 'Opening balance');
+    end if;
+  end if;
+end;
+$$;
+
+create or replace function public.transfer_between_jars(
+  p_from_jar_id uuid,
+  p_to_jar_id uuid,
+  p_amount numeric,
+  p_notes text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_from public.jars;
+  v_to public.jars;
+  v_balance numeric;
+  v_notes text;
+  v_transaction_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+
+  select * into v_from from public.jars where id = p_from_jar_id and user_id = v_user_id;
+  select * into v_to from public.jars where id = p_to_jar_id and user_id = v_user_id;
+
+  if v_from.id is null or v_to.id is null then
+    raise exception 'Jar not found' using errcode = '22023';
+  end if;
+
+  if v_from.id = v_to.id then
+    raise exception 'Choose two different jars' using errcode = '22023';
+  end if;
+
+  if v_from.locked and not v_to.locked then
+    raise exception 'Money can only leave a locked jar through an unlock'
+      using errcode = 'P0001', hint = 'locked_jar';
+  end if;
+
+  v_balance := public.jar_balance(v_from.id);
+  if p_amount > v_balance then
+    raise exception 'Only % is in %', v_balance, v_from.name using errcode = 'P0001', hint = 'insufficient_jar';
+  end if;
+
+  v_notes := coalesce(nullif(trim(p_notes), ''), format('%s to %s', v_from.name, v_to.name));
+
+  -- Into a locked jar the money becomes locked savings, which the ledger
+  -- has to show
+  if v_to.locked and not v_from.locked then
+    insert into public.transactions (user_id, amount, type, notes, locked_delta)
+    values (v_user_id, p_amount, 'transfer', v_notes, p_amount)
+    returning id into v_transaction_id;
+
+    update public.savings
+    set locked_amount = locked_amount + p_amount
+    where user_id = v_user_id;
+  end if;
+
+  insert into public.jar_entries (user_id, jar_id, transaction_id, amount, notes)
+  values
+    (v_user_id, v_from.id, v_transaction_id, -p_amount, v_notes),
+    (v_user_id, v_to.id, v_transaction_id, p_amount, v_notes);
+
+  return public.ledger_balances(v_user_id);
+end;
+$$;
+
+-- Transfers lock their full amount
+create or replace function public.expected_locked_delta(p_entry public.transactions, p_original public.transactions)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_entry.reverses_id is not null then -coalesce(p_original.locked_delta, 0)
+    when p_entry.type = 'unlock' then -p_entry.amount
+    when p_entry.type = 'spend' then 0
+    when p_entry.type = 'interest' then p_entry.amount
+    when p_entry.type = 'transfer' then p_entry.amount
+    when p_entry.type = 'allowance' then p_entry.saved_amount
+    else null
+  end;
+$$;
+
+-- Include jars in account export and deletion
+create or replace function public.account_tables()
+returns table (table_name text, user_column text)
+language sql
+immutable
+as $$
+  values
+    ('profiles', 'id'),
+    ('user_settings', 'id'),
+    ('savings', 'user_id'),
+    ('transactions', 'user_id'),
+    ('savings_percent_history', 'user_id'),
+    ('savings_goals', 'user_id'),
+    ('goal_allocations', 'user_id'),
+    ('spend_categories', 'user_id'),
+    ('income_sources', 'user_id'),
+    ('savings_rules', 'user_id'),
+    ('allowance_schedules', 'user_id'),
+    ('unlock_requests', 'user_id'),
+    ('interest_settings', 'user_id'),
+    ('guardian_invites', 'guardian_id'),
+    ('badge_awards', 'user_id'),
+    ('notifications', 'user_id'),
+    ('client_submissions', 'user_id'),
+    ('ledger_reconciliations', 'user_id'),
+    ('jar_entries', 'user_id'),
+    ('jars', 'user_id');
+$$;
+
+grant execute on function public.jar_balances() to authenticated;
+grant execute on function public.set_jars(jsonb) to authenticated;
+grant execute on function public.transfer_between_jars(uuid, uuid, numeric, text) to authenticated;
@@ -0,0 +1,474 @@
+-- Term deposits.
+--
+-- A user can move money from their available balance or locked savings into
+-- a deposit that matures on a chosen date. Until then the money is in neither
+-- balance. Each deposit either refuses early withdrawal or charges a penalty,
+-- a percentage of the amount that is forfeited.
+--
+-- A deposit earns a bonus only when a guardian pays interest on the user's
+-- savings: it takes the guardian's annual rate from interest_settings as
+-- simple interest, and the guardian is recorded as the payer, the same as
+-- for interest entries. Nobody picks their own bonus rate.
+--
+-- Opening a deposit writes a "term_deposit" ledger entry for the amount
+-- (locked_delta -amount when it came from locked savings, 0 otherwise).
+-- Closing it, at maturity or early, writes a "term_deposit_return" entry for
+-- what comes back: the amount plus the bonus, or minus the penalty. Returned
+-- money always goes into locked savings. settle_term_deposits() closes
+-- matured deposits; the dashboard calls it for the signed-in user and the
+-- scheduled job for everyone.
+
+create table if not exists public.term_deposits (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  amount numeric(12, 2) not null check (amount > 0),
+  source text not null check (source in ('available', 'locked')),
+  starts_on date not null default current_date,
+  matures_on date not null,
+  bonus_rate numeric(5, 2) not null default 0 check (bonus_rate between 0 and 100),
+  -- Worked out when the deposit is opened, so the payout is known up front
+  bonus_amount numeric(12, 2) not null default 0,
+  -- The guardian paying the bonus; null when there is none
+  paid_by uuid references auth.users (id) on delete set null,
+  early_withdrawal text not null check (early_withdrawal in ('disallowed', 'penalty')),
+  penalty_percent numeric(5, 2) not null default 0 check (penalty_percent between 0 and 100),
+  status text not null default 'active' check (status in ('active', 'matured', 'withdrawn')),
+  returned_amount numeric(12, 2),
+  closed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (matures_on > starts_on)
+);
+
+create index if not exists term_deposits_active_idx
+  on public.term_deposits (matures_on)
+  where status = 'active';
+
+create index if not exists term_deposits_user_idx
+  on public.term_deposits (user_id, created_at desc);
+
+alter table public.term_deposits enable row level security;
+
+create policy "Users read their own term deposits" on public.term_deposits
+  for select using (auth.uid() = user_id);
+
+create policy "Guardians read their children's term deposits" on public.term_deposits
+  for select using (public.is_guardian_of(user_id));
+
+alter table public.transactions
+  add column if not exists term_deposit_id uuid references public.term_deposits (id) on delete set null;
+
+-- Money in a term deposit is in neither balance: opening one takes it out of
+-- the available balance (or out of locked savings, through its locked_delta)
+-- and closing one brings what is returned back in through locked savings.
+create or replace function public.ledger_balances(p_user_id uuid)
+returns jsonb
+language sql
+stable
+as $$
+  with locked as (
+    select coalesce((select locked_amount from public.savings where user_id = p_user_id), 0) as amount
+  ), totals as (
+    select
+      coalesce(sum(amount) filter (where type = 'allowance'), 0) as allowance,
+      coalesce(sum(amount) filter (where type = 'interest'), 0) as interest,
+      coalesce(sum(amount) filter (where type = 'unlock'), 0) as unlocked,
+      coalesce(sum(amount) filter (where type = 'spend'), 0) as spent,
+      coalesce(sum(amount) filter (where type = 'term_deposit'), 0) as deposited,
+      coalesce(sum(amount) filter (where type = 'term_deposit_return'), 0) as returned
+    from public.transactions
+    where user_id = p_user_id
+  )
+  select jsonb_build_object(
+    'locked_amount', locked.amount,
+    'available_amount',
+      totals.allowance + totals.interest + totals.returned
+        - totals.unlocked - totals.spent - totals.deposited - locked.amount
+  )
+  from locked, totals;
+$$;
+
+-- Term deposit entries are undone by closing the deposit, not by a reversal
+create or replace function public.prevent_term_deposit_reversal()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.reverses_id is not null and exists (
+    select 1 from public.transactions
+    where id = new.reverses_id and type in ('term_deposit', 'term_deposit_return')
+  ) then
+    raise exception 'Term deposit entries cannot be reversed' using errcode = 'P0001', hint = 'term_deposit';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_prevent_term_deposit_reversal on public.transactions;
+create trigger transactions_prevent_term_deposit_reversal
+  before insert on public.transactions
+  for each row execute function public.prevent_term_deposit_reversal();
+
+-- Simple interest for the term, rounded to cents
+create or replace function public.term_deposit_bonus(p_amount numeric, p_rate numeric, p_days integer)
+returns numeric
+language sql
+immutable
+as $$
+  select round(p_amount * p_rate / 100 * p_days / 365, 2);
+$$;
+
+create or replace function public.open_term_deposit(
+  p_amount numeric,
+  p_source text,
+  p_matures_on date,
+  p_early_withdrawal text default 'disallowed',
+  p_penalty_percent numeric default 0
+)
+returns public.term_deposits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_balances jsonb;
+  v_available numeric;
+  v_terms public.interest_settings;
+  v_deposit public.term_deposits;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Amount must be greater than zero' using errcode = '22023';
+  end if;
+
+  if p_source not in ('available', 'locked') then
+    raise exception 'Choose where the money comes from' using errcode = '22023';
+  end if;
+
+  if p_matures_on is null or p_matures_on <= current_date then
+    raise exception 'The maturity date must be in the future' using errcode = '22023';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+  v_balances := public.ledger_balances(v_user_id);
+  v_available := (v_balances ->> (p_source || '_amount'))::numeric;
+
+  if p_amount > v_available then
+    raise exception 'Only % is %, so this deposit cannot be opened', v_available, p_source
+      using errcode = 'P0001', hint = 'insufficient_' || p_source;
+  end if;
+
+  select * into v_terms
+  from public.interest_settings
+  where user_id = v_user_id and paid_by is not null;
+
+  insert into public.term_deposits (
+    user_id, amount, source, matures_on, bonus_rate, bonus_amount, paid_by, early_withdrawal, penalty_percent
+  )
+  values (
+    v_user_id,
+    p_amount,
+    p_source,
+    p_matures_on,
+    coalesce(v_terms.annual_rate, 0),
+    public.term_deposit_bonus(p_amount, coalesce(v_terms.annual_rate, 0), p_matures_on - current_date),
+    v_terms.paid_by,
+    p_early_withdrawal,
+    case when p_early_withdrawal = 'penalty' then coalesce(p_penalty_percent, 0) else 0 end
+  )
+  returning * into v_deposit;
+
+  insert into public.transactions (user_id, amount, type, notes, locked_delta, term_deposit_id)
+  values (
+    v_user_id,
+    p_amount,
+    'term_deposit',
+    format('Term deposit until %s', to_char(p_matures_on, 'Mon FMDD, YYYY')),
+    case when p_source = 'locked' then -p_amount else 0 end,
+    v_deposit.id
+  );
+
+  if p_source = 'locked' then
+    update public.savings
+    set locked_amount = locked_amount - p_amount
+    where user_id = v_user_id;
+  end if;
+
+  return v_deposit;
+end;
+$$;
+
+-- Returns a deposit's money to locked savings: the amount plus the bonus at
+-- maturity, or minus the penalty when withdrawn early. The caller holds the
+-- savings lock.
+create or replace function public.close_term_deposit(p_deposit public.term_deposits, p_early boolean)
+returns public.term_deposits
+language plpgsql
+as $$
+declare
+  v_returned numeric;
+  v_notes text;
+  v_result public.term_deposits;
+begin
+  if p_early then
+    v_returned := p_deposit.amount - round(p_deposit.amount * p_deposit.penalty_percent / 100, 2);
+    v_notes := format('Term deposit withdrawn early with a %s penalty', p_deposit.amount - v_returned);
+  else
+    v_returned := p_deposit.amount + p_deposit.bonus_amount;
+    v_notes := case when p_deposit.bonus_amount > 0
+      then format('Term deposit matured with a %s bonus', p_deposit.bonus_amount)
+      else 'Term deposit matured'
+    end;
+  end if;
+
+  if v_returned > 0 then
+    insert into public.transactions (user_id, amount, type, notes, locked_delta, term_deposit_id, paid_by)
+    values (
+      p_deposit.user_id,
+      v_returned,
+      'term_deposit_return',
+      v_notes,
+      v_returned,
+      p_deposit.id,
+      case when not p_early and p_deposit.bonus_amount > 0 then p_deposit.paid_by end
+    );
+
+    update public.savings
+    set locked_amount = locked_amount + v_returned
+    where user_id = p_deposit.user_id;
+  end if;
+
+  update public.term_deposits
+  set status = case when p_early then 'withdrawn' else 'matured' end,
+      returned_amount = v_returned,
+      closed_at = now()
+  where id = p_deposit.id
+  returning * into v_result;
+
+  return v_result;
+end;
+$$;
+
+revoke execute on function public.close_term_deposit(public.term_deposits, boolean) from public, anon, authenticated;
+
+create or replace function public.withdraw_term_deposit(p_deposit_id uuid)
+returns public.term_deposits
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_deposit public.term_deposits;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform public.lock_savings_row(v_user_id);
+
+  select * into v_deposit
+  from public.term_deposits
+  where id = p_deposit_id and user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'Term deposit not found' using errcode = '22023';
+  end if;
+
+  if v_deposit.status <> 'active' then
+    raise exception 'This term deposit has already been closed' using errcode = 'P0001', hint = 'closed';
+  end if;
+
+  -- Due already: pay out in full rather than charge a penalty
+  if v_deposit.matures_on <= current_date then
+    return public.close_term_deposit(v_deposit, false);
+  end if;
+
+  if v_deposit.early_withdrawal = 'disallowed' then
+    raise exception 'This term deposit cannot be withdrawn before %', to_char(v_deposit.matures_on, 'Mon FMDD, YYYY')
+      using errcode = 'P0001', hint = 'early_withdrawal_disallowed';
+  end if;
+
+  return public.close_term_deposit(v_deposit, true);
+end;
+$$;
+
+-- Closes every deposit that has matured: the signed-in user's, or everyone's
+-- when called from the scheduled job. Returns how many were closed.
+create or replace function public.settle_term_deposits()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_deposit public.term_deposits;
+  v_count integer := 0;
+begin
+  if v_user_id is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  for v_deposit in
+    select * from public.term_deposits
+    where status = 'active'
+      and matures_on <= current_date
+      and (v_user_id is null or user_id = v_user_id)
+    order by matures_on
+  loop
+    perform public.lock_savings_row(v_deposit.user_id);
+
+    -- Skip deposits another run closed while we waited for the lock
+    continue when not exists (
+      select 1 from public.term_deposits where id = v_deposit.id and status = 'active' for update
+    );
+
+    perform public.close_term_deposit(v_deposit, false);
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$;
+
+-- Term deposits move money in and out of jars like the entries they resemble:
+-- money leaving or returning to locked savings comes out of or goes into the
+-- locked jars, and money taken from the available balance comes out of the
+-- unlocked jars like a spend.
+create or replace function public.record_jar_entries()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_locked_ids uuid[];
+  v_locked_balances numeric[];
+  v_spend_jar_id uuid;
+  v_jar record;
+  v_left numeric;
+  v_take numeric;
+begin
+  if not exists (select 1 from public.jars where user_id = new.user_id) then
+    return new;
+  end if;
+
+  if new.reverses_id is not null then
+    insert into public.jar_entries (user_id, jar_id, transaction_id, amount, notes, created_at)
+    select new.user_id, jar_id, new.id, -amount, notes, new.created_at
+    from public.jar_entries
+    where transaction_id = new.reverses_id;
+    return new;
+  end if;
+
+  if new.type = 'adjustment' then
+    perform public.rebalance_jars(new.user_id, new.id, new.created_at);
+    return new;
+  end if;
+
+  -- Allowances and transfers write their own entries
+  if new.type not in ('unlock', 'spend', 'interest', 'term_deposit', 'term_deposit_return') then
+    return new;
+  end if;
+
+  if new.locked_delta <> 0 then
+    select array_agg(id order by position), array_agg(public.jar_balance(id) order by position)
+    into v_locked_ids, v_locked_balances
+    from public.jars
+    where user_id = new.user_id and locked;
+
+    perform public.spread_jar_amount(
+      new.user_id, new.id, new.created_at, v_locked_ids, v_locked_balances, new.locked_delta
+    );
+  else
+    select id into v_spend_jar_id
+    from public.jars
+    where user_id = new.user_id and not locked
+    order by position
+    limit 1;
+
+    v_left := new.amount;
+    for v_jar in
+      select id, public.jar_balance(id) as balance
+      from public.jars
+      where user_id = new.user_id and not locked
+      order by position
+    loop
+      exit when v_left <= 0;
+      v_take := least(greatest(v_jar.balance, 0), v_left);
+      if v_take > 0 then
+        insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+        values (new.user_id, v_jar.id, new.id, -v_take, new.created_at);
+        v_left := v_left - v_take;
+      end if;
+    end loop;
+
+    -- More than the jars hold; the balance check allowed it, so the books
+    -- were already off and the first jar takes the difference
+    if v_left > 0 then
+      insert into public.jar_entries (user_id, jar_id, transaction_id, amount, created_at)
+      values (new.user_id, v_spend_jar_id, new.id, -v_left, new.created_at);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Returned money is locked in full; money going into a deposit may come from
+-- either balance
+create or replace function public.expected_locked_delta(p_entry public.transactions, p_original public.transactions)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_entry.reverses_id is not null then -coalesce(p_original.locked_delta, 0)
+    when p_entry.type = 'unlock' then -p_entry.amount
+    when p_entry.type = 'spend' then 0
+    when p_entry.type = 'interest' then p_entry.amount
+    when p_entry.type = 'transfer' then p_entry.amount
+    when p_entry.type = 'term_deposit_return' then p_entry.amount
+    when p_entry.type = 'allowance' then p_entry.saved_amount
+    else null
+  end;
+$$;
+
+-- Include term deposits in account export and deletion
+create or replace function public.account_tables()
+returns table (table_name text, user_column text)
+language sql
+immutable
+as $$
+  values
+    ('profiles', 'id'),
+    ('user_settings', 'id'),
+    ('savings', 'user_id'),
+    ('transactions', 'user_id'),
+    ('savings_percent_history', 'user_id'),
+    ('savings_goals', 'user_id'),
+    ('goal_allocations', 'user_id'),
+    ('spend_categories', 'user_id'),
+    ('income_sources', 'user_id'),
+    ('savings_rules', 'user_id'),
+    ('allowance_schedules', 'user_id'),
+    ('unlock_requests', 'user_id'),
+    ('interest_settings', 'user_id'),
+    ('guardian_invites', 'guardian_id'),
+    ('badge_awards', 'user_id'),
+    ('notifications', 'user_id'),
+    ('client_submissions', 'user_id'),
+    ('ledger_reconciliations', 'user_id'),
+    ('jar_entries', 'user_id'),
+    ('jars', 'user_id'),
+    ('term_deposits', 'user_id');
+$$;
+
+grant execute on function public.open_term_deposit(numeric, text, date, text, numeric) to authenticated;
+grant execute on function public.withdraw_term_deposit(uuid) to authenticated;
+grant execute on function public.settle_term_deposits() to authenticated, service_role;
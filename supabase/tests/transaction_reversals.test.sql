@@ -0,0 +1,51 @@
+-- Run with `supabase test db`.
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into auth.users (id, email)
+values ('00000000-0000-0000-0000-0000000000a1', 'reversals@example.com');
+
+-- Entries the user cannot write directly, inserted as the owner
+insert into public.transactions (id, user_id, amount, type, locked_delta)
+values
+  ('00000000-0000-0000-0000-0000000000b1', '00000000-0000-0000-0000-0000000000a1', 20, 'transfer', 20),
+  ('00000000-0000-0000-0000-0000000000b2', '00000000-0000-0000-0000-0000000000a1', 5, 'interest', 5),
+  ('00000000-0000-0000-0000-0000000000b3', '00000000-0000-0000-0000-0000000000a1', 0, 'adjustment', 10);
+
+set local role authenticated;
+set local request.jwt.claim.sub = '00000000-0000-0000-0000-0000000000a1';
+
+select public.record_allowance(100);
+
+select throws_ok(
+  $$ select public.reverse_transaction('00000000-0000-0000-0000-0000000000b1') $$,
+  'P0001',
+  'This transfer entry cannot be reversed',
+  'a jar transfer is not reversed'
+);
+
+select throws_ok(
+  $$ select public.reverse_transaction('00000000-0000-0000-0000-0000000000b2') $$,
+  'P0001',
+  'This interest entry cannot be reversed',
+  'an interest payment is not reversed'
+);
+
+select throws_ok(
+  $$ select public.reverse_transaction('00000000-0000-0000-0000-0000000000b3') $$,
+  'P0001',
+  'This adjustment entry cannot be reversed',
+  'a ledger adjustment is not reversed'
+);
+
+select lives_ok(
+  $$ select public.reverse_transaction(id) from public.transactions where type = 'allowance' $$,
+  'an allowance can still be reversed'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,71 @@
+// The service worker is served from the site root so it can control every
+// page. It keeps the app shell (pages and build assets) available offline;
+// API responses are never cached here, since balances are cached per user by
+// lib/offlineCache.ts and writes go through the queue in lib/offlineQueue.ts.
+// Cached pages hold the signed-in user's data, so signing out clears them
+// (clearCachedPages() in lib/offlineCache.ts).
+const CACHE = "pocketgrowth-v1";
+const SHELL = ["/dashboard", "/login"];
+
+const worker = `
+const CACHE = ${JSON.stringify(CACHE)};
+const SHELL = ${JSON.stringify(SHELL)};
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== "GET" || url.origin !== self.location.origin || url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Build assets are content-hashed, so a cached copy is always current
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(event.request).then((cached) => cached || fetch(event.request).then((response) => {
+        const copy = response.clone();
+        caches.open(CACHE).then((cache) => cache.put(event.request, copy));
+        return response;
+      }))
+    );
+    return;
+  }
+
+  // Everything else: the network when it answers, the last copy when not
+  event.respondWith(
+    fetch(event.request)
+      .then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE).then((cache) => cache.put(event.request, copy));
+        }
+        return response;
+      })
+      .catch(() =>
+        caches.match(event.request).then((cached) =>
+          cached || (event.request.mode === "navigate" ? caches.match("/dashboard") : Response.error())
+        )
+      )
+  );
+});
+`;
+
+export function GET() {
+  return new Response(worker, {
+    headers: {
+      "Content-Type": "application/javascript; charset=utf-8",
+      "Cache-Control": "no-cache",
+      "Service-Worker-Allowed": "/",
+    },
+  });
+}